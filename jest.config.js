@@ -0,0 +1,14 @@
+// Keep test output to failures; tests that care about logging spy on the logger
+process.env.LOG_LEVEL ??= "error";
+
+/** @type {import("jest").Config} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  transform: {
+    // NodeNext with a CommonJS package compiles to CommonJS; 151002 only warns about that mix
+    "^.+\\.ts$": ["ts-jest", { diagnostics: { ignoreCodes: [151002] } }],
+  },
+  // Sources import siblings with the .js extension NodeNext requires
+  moduleNameMapper: { "^(\\.{1,2}/.*)\\.js$": "$1" },
+};
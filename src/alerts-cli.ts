@@ -0,0 +1,119 @@
+import http from "node:http";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { AlertManager } from "./alerts/alert-manager.js";
+import { DELIVERY_HEADER, SIGNATURE_HEADER, verifyWebhookSignature } from "./alerts/webhook-dispatcher.js";
+
+const USAGE = `Usage: alerts-cli <receive|test> [options]
+
+  receive                Run a local webhook receiver that verifies signatures and
+                         prints each alert as NDJSON to stdout (Ctrl-C to stop)
+  test                   Send a test alert to the configured webhooks and wait for
+                         the outcome; exits 1 if any delivery was dead-lettered
+
+Options (receive):
+  --port <n>             Port to listen on (default 4000)
+  --secret <value>       Signing secret (default: $ALERT_WEBHOOK_SECRET)
+  --fail <n>             Answer 503 to the first n attempts of each delivery, to
+                         exercise retries and dead-lettering
+
+Options (test):
+  --file <path>          Alerts file (default: $MERCHANTGUARD_ALERTS_FILE)
+  --webhook <id>         Only this webhook
+`;
+
+function receive(port: number, secret: string, failFirst: number): Promise<number> {
+  const attempts = new Map<string, number>();
+  const delivered = new Set<string>();
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== "POST") {
+      res.writeHead(405).end();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk as Buffer));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf8");
+      const check = verifyWebhookSignature(body, req.headers[SIGNATURE_HEADER] as string | undefined, secret);
+      if (!check.valid) {
+        process.stderr.write(`Rejected request: ${check.error}\n`);
+        res.writeHead(401).end();
+        return;
+      }
+
+      const delivery = (req.headers[DELIVERY_HEADER] as string | undefined) ?? "unknown";
+      const attempt = (attempts.get(delivery) ?? 0) + 1;
+      attempts.set(delivery, attempt);
+      if (attempt <= failFirst) {
+        process.stderr.write(`Failing attempt ${attempt} of delivery ${delivery} (--fail ${failFirst})\n`);
+        res.writeHead(503).end();
+        return;
+      }
+
+      // Retries reuse the delivery id, so a receiver that saw it already just acknowledges
+      if (delivered.has(delivery)) {
+        process.stderr.write(`Duplicate delivery ${delivery} acknowledged\n`);
+      } else {
+        delivered.add(delivery);
+        process.stdout.write(JSON.stringify({ delivery, attempt, alert: JSON.parse(body) }) + "\n");
+      }
+      res.writeHead(204).end();
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, () => process.stderr.write(`Receiving alerts on http://localhost:${port}/\n`));
+    process.on("SIGINT", () => server.close(() => resolve(0)));
+    process.on("SIGTERM", () => server.close(() => resolve(0)));
+  });
+}
+
+async function test(file: string | undefined, webhook: string | undefined): Promise<number> {
+  if (!file) {
+    process.stderr.write("No alerts file: pass --file or set MERCHANTGUARD_ALERTS_FILE\n");
+    return 2;
+  }
+  const deadLetters = path.join(process.env.MERCHANTGUARD_DATA_DIR || "data", "alerts-dead-letter.ndjson");
+  const manager = AlertManager.load(file, deadLetters)!;
+  const results = await manager.sendTest(webhook);
+  process.stdout.write(JSON.stringify(results, null, 2) + "\n");
+  return results.every(r => r.outcome === "delivered") ? 0 : 1;
+}
+
+async function main(): Promise<number> {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      port: { type: "string" },
+      secret: { type: "string" },
+      fail: { type: "string" },
+      file: { type: "string" },
+      webhook: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = positionals[0];
+  if (values.help || (command !== "receive" && command !== "test")) {
+    process.stderr.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  if (command === "test") return test(values.file ?? process.env.MERCHANTGUARD_ALERTS_FILE, values.webhook);
+
+  const secret = values.secret ?? process.env.ALERT_WEBHOOK_SECRET;
+  if (!secret) {
+    process.stderr.write("No signing secret: pass --secret or set ALERT_WEBHOOK_SECRET\n");
+    return 2;
+  }
+  return receive(parseInt(values.port ?? "4000", 10), secret, parseInt(values.fail ?? "0", 10));
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    process.stderr.write(`${(err as Error).message}\n`);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,174 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { AlertEvent, AlertManager, AlertObservation, alertsConfigSchema } from "./alert-manager.js";
+import { logger } from "../utils/logger.js";
+
+const config = (overrides: Record<string, unknown> = {}) => alertsConfigSchema.parse({
+  webhooks: [
+    { id: "ops", url: "https://ops.example.test/hook", secret: "ops-secret" },
+    { id: "risk", url: "https://risk.example.test/hook", secret_env: "RISK_SECRET" },
+  ],
+  rules: [
+    { id: "vamp-excessive", field: "vamp_status", to: ["excessive"], webhooks: ["ops"] },
+    { id: "vamp-recovered", field: "vamp_status", from: ["excessive"], to: ["standard"] },
+    { id: "anomaly", field: "anomaly_detected", to: [true], entity_type: ["card"] },
+  ],
+  delivery: { base_delay_ms: 0, max_delay_ms: 0 },
+  ...overrides,
+});
+
+const vamp = (entityId: string, status: string, overrides: Partial<AlertObservation> = {}): AlertObservation => ({
+  source: "vamp",
+  entity_type: "merchant",
+  entity_id: entityId,
+  data_source: "live",
+  values: { vamp_status: status },
+  ...overrides,
+});
+
+describe("alertsConfigSchema", () => {
+  it("rejects duplicate ids, unknown webhooks and ambiguous secrets", () => {
+    const result = alertsConfigSchema.safeParse({
+      webhooks: [
+        { id: "ops", url: "https://a.example.test", secret: "s", secret_env: "S" },
+        { id: "ops", url: "https://b.example.test", secret: "s" },
+      ],
+      rules: [{ id: "r", field: "risk_level", webhooks: ["pager"] }],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues.map(i => i.message)).toEqual([
+      "Webhook must set exactly one of secret or secret_env",
+      "Duplicate webhook id \"ops\"",
+      "Unknown webhook \"pager\"",
+    ]);
+  });
+});
+
+describe("AlertManager", () => {
+  let dir: string;
+  let sent: Array<{ url: string; event: AlertEvent }>;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "alerts-"));
+    sent = [];
+    jest.spyOn(globalThis, "fetch").mockImplementation(async (url, init) => {
+      sent.push({ url: String(url), event: JSON.parse(String(init!.body)) });
+      return new Response(null, { status: 204 });
+    });
+    jest.spyOn(logger, "info").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const manager = (overrides: Record<string, unknown> = {}) =>
+    new AlertManager(config(overrides), path.join(dir, "dead-letters.ndjson"), { RISK_SECRET: "risk-secret" });
+
+  it("fires on a transition into a rule's state, first sightings included", async () => {
+    const alerts = manager();
+    alerts.observe("acme", vamp("m1", "standard"));
+    alerts.observe("acme", vamp("m1", "excessive"));
+    alerts.observe("acme", vamp("m2", "excessive"));
+    await alerts.flush();
+
+    expect(sent.map(s => [s.url, s.event.entity_id, s.event.previous, s.event.current])).toEqual([
+      ["https://ops.example.test/hook", "m1", "standard", "excessive"],
+      ["https://ops.example.test/hook", "m2", null, "excessive"],
+    ]);
+    expect(sent[0].event).toMatchObject({ type: "guardscore.alert", rule_id: "vamp-excessive", tenant_id: "acme", source: "vamp", field: "vamp_status" });
+  });
+
+  it("honours from, sends to every webhook by default and filters by entity type", async () => {
+    const alerts = manager();
+    alerts.observe(null, vamp("m1", "monitored"));
+    alerts.observe(null, vamp("m1", "standard"));
+    expect(sent).toHaveLength(0);
+
+    alerts.observe(null, vamp("m1", "excessive"));
+    alerts.observe(null, vamp("m1", "standard"));
+    alerts.observe(null, { source: "velocity", entity_type: "merchant", entity_id: "m1", data_source: "local", values: { anomaly_detected: true } });
+    alerts.observe(null, { source: "velocity", entity_type: "card", entity_id: "c1", data_source: "local", values: { anomaly_detected: true } });
+    await alerts.flush();
+
+    expect(sent.map(s => [s.event.rule_id, s.url])).toEqual([
+      ["vamp-excessive", "https://ops.example.test/hook"],
+      ["vamp-recovered", "https://ops.example.test/hook"],
+      ["vamp-recovered", "https://risk.example.test/hook"],
+      ["anomaly", "https://ops.example.test/hook"],
+      ["anomaly", "https://risk.example.test/hook"],
+    ]);
+    expect(sent.at(-1)!.event).toMatchObject({ entity_type: "card", previous: null, current: "true" });
+  });
+
+  it("suppresses the same transition within the dedupe window", async () => {
+    const alerts = manager();
+    alerts.observe(null, vamp("m1", "excessive"));
+    alerts.observe(null, vamp("m1", "monitored"));
+    alerts.observe(null, vamp("m1", "excessive"));
+    await alerts.flush();
+    // The first alert was a first sighting; the second, monitored → excessive, is a different transition
+    expect(sent.map(s => s.event.previous)).toEqual([null, "monitored"]);
+
+    alerts.observe(null, vamp("m1", "monitored"));
+    alerts.observe(null, vamp("m1", "excessive"));
+    await alerts.flush();
+    expect(sent).toHaveLength(2);
+
+    const undeduped = manager({ delivery: { base_delay_ms: 0, max_delay_ms: 0, dedupe_window_seconds: 0 } });
+    undeduped.observe(null, vamp("m1", "excessive"));
+    undeduped.observe(null, vamp("m1", "monitored"));
+    undeduped.observe(null, vamp("m1", "excessive"));
+    await undeduped.flush();
+    expect(sent).toHaveLength(4);
+  });
+
+  it("tracks values per tenant and scope", async () => {
+    const alerts = manager();
+    alerts.observe("acme", vamp("m1", "standard"));
+    alerts.observe("globex", vamp("m1", "excessive"));
+    alerts.observe("acme", vamp("m1", "excessive", { scope: "1h" }));
+    await alerts.flush();
+    expect(sent.map(s => [s.event.tenant_id, s.event.previous])).toEqual([["globex", null], ["acme", null]]);
+  });
+
+  it("ignores mock results unless include_mock is set", async () => {
+    manager().observe(null, vamp("m1", "excessive", { data_source: "mock" }));
+    const withMock = manager({ include_mock: true });
+    withMock.observe(null, vamp("m1", "excessive", { data_source: "mock" }));
+    await withMock.flush();
+    expect(sent.map(s => s.event.data_source)).toEqual(["mock"]);
+  });
+
+  it("sends a test alert and reports each webhook's outcome", async () => {
+    const alerts = manager();
+    await expect(alerts.sendTest("risk")).resolves.toEqual([{ webhook: "risk", url: "https://risk.example.test/hook", outcome: "delivered" }]);
+    expect(sent[0].event.type).toBe("guardscore.alert.test");
+    await expect(alerts.sendTest("pager")).rejects.toThrow('Unknown webhook "pager"');
+  });
+
+  it("refuses to start when a webhook's secret variable is unset", () => {
+    expect(() => new AlertManager(config(), null, {})).toThrow('Webhook "risk": RISK_SECRET is not set');
+  });
+
+  it("loads YAML files and reports invalid ones by path", () => {
+    const file = path.join(dir, "alerts.yaml");
+    fs.writeFileSync(file, [
+      "webhooks:",
+      "  - id: ops",
+      "    url: https://ops.example.test/hook",
+      "    secret: s",
+      "rules:",
+      "  - id: r",
+      "    field: risk_level",
+      "    to: [high]",
+    ].join("\n"));
+    expect(AlertManager.load(file, null)!.rules.map(r => r.to)).toEqual([["high"]]);
+    expect(AlertManager.load(undefined, null)).toBeNull();
+
+    fs.writeFileSync(file, "webhooks: []\nrules: []\n");
+    expect(() => AlertManager.load(file, null)).toThrow(/Invalid alerts file .* webhooks: Array must contain at least 1 element/);
+  });
+});
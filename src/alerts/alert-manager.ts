@@ -0,0 +1,277 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import YAML from "yaml";
+import { logger } from "../utils/logger.js";
+import { WebhookDispatcher, WebhookTarget, DeliveryOutcome } from "./webhook-dispatcher.js";
+import type { DataSource, EntityType } from "../types/index.js";
+
+export const ALERT_FIELDS = ["vamp_status", "risk_level", "verification_status", "anomaly_detected"] as const;
+export type AlertField = typeof ALERT_FIELDS[number];
+
+/** Which result an observed value came from */
+export type AlertSource = "merchant" | "agent" | "vamp" | "velocity";
+
+/** Field values compared as strings, so YAML `true` and "true" match an anomaly_detected of true */
+const valueList = z.array(z.union([z.string(), z.boolean()]).transform(String)).min(1);
+
+const webhookSchema = z.object({
+  id: z.string().min(1),
+  url: z.string().url(),
+  /** HMAC signing secret, inline or read from the named environment variable */
+  secret: z.string().min(1).optional(),
+  secret_env: z.string().min(1).optional(),
+  timeout_ms: z.number().int().positive().default(5000),
+}).strict().refine(w => Boolean(w.secret) !== Boolean(w.secret_env), {
+  message: "Webhook must set exactly one of secret or secret_env",
+});
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  field: z.enum(ALERT_FIELDS),
+  entity_type: z.array(z.enum(["merchant", "agent", "card", "wallet"])).min(1).optional(),
+  entity_ids: z.array(z.string().min(1)).min(1).optional(),
+  /** Fire only when the previous value was one of these */
+  from: valueList.optional(),
+  /** Fire only when the new value is one of these */
+  to: valueList.optional(),
+  /** Webhook ids to notify (default: every webhook) */
+  webhooks: z.array(z.string().min(1)).min(1).optional(),
+}).strict();
+
+export const alertsConfigSchema = z.object({
+  webhooks: z.array(webhookSchema).min(1),
+  rules: z.array(ruleSchema).min(1),
+  delivery: z.object({
+    max_attempts: z.number().int().min(1).max(20).default(5),
+    base_delay_ms: z.number().int().min(0).default(1000),
+    max_delay_ms: z.number().int().min(0).default(60_000),
+    /** The same transition for the same entity and rule alerts at most once per window */
+    dedupe_window_seconds: z.number().int().min(0).default(3600),
+  }).strict().default({}),
+  /** Alert on mock results too; useful in demo mode, noisy in production where mock means upstream failed */
+  include_mock: z.boolean().default(false),
+}).strict().superRefine((doc, ctx) => {
+  const webhookIds = new Set<string>();
+  doc.webhooks.forEach((w, i) => {
+    if (webhookIds.has(w.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["webhooks", i, "id"], message: `Duplicate webhook id "${w.id}"` });
+    }
+    webhookIds.add(w.id);
+  });
+  const ruleIds = new Set<string>();
+  doc.rules.forEach((rule, i) => {
+    if (ruleIds.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["rules", i, "id"], message: `Duplicate rule id "${rule.id}"` });
+    }
+    ruleIds.add(rule.id);
+    rule.webhooks?.forEach((id, j) => {
+      if (!webhookIds.has(id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["rules", i, "webhooks", j], message: `Unknown webhook "${id}"` });
+      }
+    });
+  });
+});
+
+export type AlertsConfig = z.infer<typeof alertsConfigSchema>;
+export type AlertRule = AlertsConfig["rules"][number];
+
+/** Field values read from one tool result */
+export interface AlertObservation {
+  source: AlertSource;
+  entity_type: EntityType;
+  entity_id: string;
+  data_source: DataSource;
+  /** Tracks values separately per scope, e.g. per velocity time window */
+  scope?: string;
+  values: Partial<Record<AlertField, string | boolean>>;
+}
+
+/** Where GuardScoreAPI reports what it observed; bound to one tenant */
+export interface AlertSink {
+  observe(observation: AlertObservation): void;
+}
+
+/** JSON body of every alert webhook */
+export interface AlertEvent {
+  id: string;
+  type: "guardscore.alert" | "guardscore.alert.test";
+  rule_id: string;
+  rule_description: string | null;
+  tenant_id: string | null;
+  entity_type: EntityType;
+  entity_id: string;
+  source: AlertSource;
+  field: AlertField;
+  /** null the first time this server saw the entity */
+  previous: string | null;
+  current: string;
+  data_source: DataSource;
+  created_at: string;
+}
+
+/** Last values kept per entity field; the oldest are forgotten past this */
+const MAX_TRACKED_VALUES = 50_000;
+
+/**
+ * Alert rules over the values tools return.
+ *
+ * GuardScoreAPI reports the vamp_status, risk_level, verification_status and
+ * anomaly_detected of every result it produces; a rule fires when an entity's
+ * value changes into (or out of) the states it names. Last-seen values are kept
+ * in memory per tenant, source and entity, so after a restart an entity already
+ * in a rule's `to` state alerts once more on its first observation. Alerts are
+ * deduplicated per rule, entity and transition, then sent to the rule's webhooks.
+ */
+export class AlertManager {
+  readonly rules: AlertRule[];
+  private readonly webhooks: Map<string, WebhookTarget>;
+  private readonly dispatcher: WebhookDispatcher;
+  private readonly dedupeWindowMs: number;
+  private readonly includeMock: boolean;
+  private readonly lastValues = new Map<string, string>();
+  private readonly recent = new Map<string, number>();
+
+  constructor(document: AlertsConfig, deadLetterFile: string | null, env: NodeJS.ProcessEnv = process.env) {
+    this.rules = document.rules;
+    this.webhooks = new Map(document.webhooks.map(w => {
+      const secret = w.secret ?? env[w.secret_env!];
+      if (!secret) throw new Error(`Webhook "${w.id}": ${w.secret_env} is not set`);
+      return [w.id, { id: w.id, url: w.url, secret, timeout_ms: w.timeout_ms }];
+    }));
+    this.dispatcher = new WebhookDispatcher(document.delivery, deadLetterFile);
+    this.dedupeWindowMs = document.delivery.dedupe_window_seconds * 1000;
+    this.includeMock = document.include_mock;
+  }
+
+  /**
+   * Load and validate an alerts file (JSON or YAML). Without a file alerting is off.
+   * Invalid files throw so the server refuses to start.
+   */
+  static load(filePath: string | undefined, deadLetterFile: string | null): AlertManager | null {
+    if (!filePath) return null;
+
+    const raw = fs.readFileSync(filePath, "utf8");
+    const ext = path.extname(filePath).toLowerCase();
+    const parsed: unknown = ext === ".yaml" || ext === ".yml" ? YAML.parse(raw) : JSON.parse(raw);
+    const result = alertsConfigSchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+      throw new Error(`Invalid alerts file ${filePath} — ${issues}`);
+    }
+
+    const manager = new AlertManager(result.data, deadLetterFile);
+    logger.info(`Alerting loaded with ${manager.rules.length} rule(s) and ${manager.webhooks.size} webhook(s) from ${filePath}`);
+    return manager;
+  }
+
+  /** The sink one tenant's GuardScoreAPI reports to */
+  scoped(tenantId: string | null): AlertSink {
+    return { observe: observation => this.observe(tenantId, observation) };
+  }
+
+  observe(tenantId: string | null, observation: AlertObservation): void {
+    if (observation.data_source === "mock" && !this.includeMock) return;
+
+    for (const [field, raw] of Object.entries(observation.values) as Array<[AlertField, string | boolean | undefined]>) {
+      if (raw === undefined) continue;
+      const current = String(raw);
+      const key = [tenantId ?? "", observation.source, observation.scope ?? "", observation.entity_type, observation.entity_id, field].join("|");
+      const seen = this.lastValues.get(key);
+      const previous = seen ?? null;
+      // Re-insert so the map stays in least-recently-observed order for eviction
+      this.lastValues.delete(key);
+      this.lastValues.set(key, current);
+      if (this.lastValues.size > MAX_TRACKED_VALUES) {
+        this.lastValues.delete(this.lastValues.keys().next().value!);
+      }
+      if (previous === current) continue;
+
+      for (const rule of this.rules) {
+        if (this.matches(rule, observation, field, previous, current)) {
+          this.fire(rule, tenantId, observation, field, previous, current);
+        }
+      }
+    }
+  }
+
+  private matches(rule: AlertRule, o: AlertObservation, field: AlertField, previous: string | null, current: string): boolean {
+    if (rule.field !== field) return false;
+    if (rule.entity_type && !rule.entity_type.includes(o.entity_type)) return false;
+    if (rule.entity_ids && !rule.entity_ids.includes(o.entity_id)) return false;
+    if (rule.to && !rule.to.includes(current)) return false;
+    // A first sighting is not a change: it only alerts on reaching a named state
+    if (previous === null) return Boolean(rule.to) && !rule.from;
+    return !rule.from || rule.from.includes(previous);
+  }
+
+  private fire(rule: AlertRule, tenantId: string | null, o: AlertObservation, field: AlertField, previous: string | null, current: string) {
+    const dedupeKey = [tenantId ?? "", rule.id, o.entity_type, o.entity_id, field, previous ?? "", current].join("|");
+    const now = Date.now();
+    for (const [key, expires] of this.recent) {
+      if (expires <= now) this.recent.delete(key);
+    }
+    if (this.recent.has(dedupeKey)) {
+      logger.debug(`Alert "${rule.id}" for ${o.entity_type} ${o.entity_id} suppressed as a duplicate`);
+      return;
+    }
+    this.recent.set(dedupeKey, now + this.dedupeWindowMs);
+
+    const event: AlertEvent = {
+      id: `alt_${randomUUID()}`,
+      type: "guardscore.alert",
+      rule_id: rule.id,
+      rule_description: rule.description ?? null,
+      tenant_id: tenantId,
+      entity_type: o.entity_type,
+      entity_id: o.entity_id,
+      source: o.source,
+      field,
+      previous,
+      current,
+      data_source: o.data_source,
+      created_at: new Date(now).toISOString(),
+    };
+    logger.info(`Alert "${rule.id}": ${o.entity_type} ${o.entity_id} ${field} ${previous ?? "(new)"} → ${current}`);
+    for (const webhookId of rule.webhooks ?? this.webhooks.keys()) {
+      this.send(this.webhooks.get(webhookId)!, event);
+    }
+  }
+
+  private send(target: WebhookTarget, event: AlertEvent): Promise<DeliveryOutcome> {
+    return this.dispatcher.send(target, { id: `${event.id}.${target.id}`, event: event.type, body: JSON.stringify(event) });
+  }
+
+  /**
+   * Send a synthetic alert to each webhook (or one) and wait for the outcome,
+   * retries included. For checking receivers and secrets before relying on them.
+   */
+  async sendTest(webhookId?: string): Promise<Array<{ webhook: string; url: string; outcome: DeliveryOutcome }>> {
+    const targets = webhookId ? [this.webhooks.get(webhookId)] : [...this.webhooks.values()];
+    if (targets.some(t => !t)) throw new Error(`Unknown webhook "${webhookId}"`);
+
+    const event: AlertEvent = {
+      id: `alt_${randomUUID()}`,
+      type: "guardscore.alert.test",
+      rule_id: "test",
+      rule_description: "Test alert",
+      tenant_id: null,
+      entity_type: "merchant",
+      entity_id: "test_merchant",
+      source: "vamp",
+      field: "vamp_status",
+      previous: "standard",
+      current: "monitored",
+      data_source: "local",
+      created_at: new Date().toISOString(),
+    };
+    return Promise.all(targets.map(async t => ({ webhook: t!.id, url: t!.url, outcome: await this.send(t!, event) })));
+  }
+
+  /** Wait for deliveries in flight; call before exiting */
+  flush(): Promise<void> {
+    return this.dispatcher.flush();
+  }
+}
@@ -0,0 +1,122 @@
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { DELIVERY_HEADER, SIGNATURE_HEADER, WebhookDispatcher, WebhookTarget, signWebhook, verifyWebhookSignature } from "./webhook-dispatcher.js";
+import { logger } from "../utils/logger.js";
+
+const SECRET = "whsec_test";
+
+describe("verifyWebhookSignature", () => {
+  const body = JSON.stringify({ id: "alt_1" });
+  const now = Date.UTC(2026, 9, 19, 12);
+  const timestamp = now / 1000;
+
+  it("accepts a signature made with the same secret over the same body", () => {
+    expect(verifyWebhookSignature(body, signWebhook(body, SECRET, timestamp), SECRET, 300, now)).toEqual({ valid: true, error: null });
+  });
+
+  it("rejects a wrong secret, a modified body and a missing or malformed header", () => {
+    const header = signWebhook(body, SECRET, timestamp);
+    expect(verifyWebhookSignature(body, header, "other", 300, now).error).toBe("signature mismatch");
+    expect(verifyWebhookSignature(body.replace("1", "2"), header, SECRET, 300, now).error).toBe("signature mismatch");
+    expect(verifyWebhookSignature(body, undefined, SECRET, 300, now).error).toBe("missing signature header");
+    expect(verifyWebhookSignature(body, "v1=abc", SECRET, 300, now).error).toBe("malformed signature header");
+  });
+
+  it("rejects a timestamp outside the tolerance", () => {
+    const stale = signWebhook(body, SECRET, timestamp - 301);
+    expect(verifyWebhookSignature(body, stale, SECRET, 300, now)).toEqual({ valid: false, error: "timestamp outside the 300s tolerance" });
+  });
+});
+
+describe("WebhookDispatcher", () => {
+  let dir: string;
+  let deadLetters: string;
+  let server: http.Server;
+  let target: WebhookTarget;
+  let requests: Array<{ headers: http.IncomingHttpHeaders; body: string }>;
+  let statuses: number[];
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "webhooks-"));
+    deadLetters = path.join(dir, "dead-letters.ndjson");
+    requests = [];
+    statuses = [];
+    // A local receiver answering each request with the next queued status, 200 once they run out
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", chunk => chunks.push(chunk as Buffer));
+      req.on("end", () => {
+        requests.push({ headers: req.headers, body: Buffer.concat(chunks).toString("utf8") });
+        res.writeHead(statuses.shift() ?? 200).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    target = { id: "ops", url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`, secret: SECRET, timeout_ms: 2000 };
+    jest.spyOn(logger, "warn").mockImplementation(() => {});
+    jest.spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const dispatcher = (max_attempts = 3) => new WebhookDispatcher({ max_attempts, base_delay_ms: 0, max_delay_ms: 0 }, deadLetters);
+  const delivery = { id: "alt_1.ops", event: "guardscore.alert", body: JSON.stringify({ id: "alt_1" }) };
+
+  it("delivers a body the receiver can verify", async () => {
+    await expect(dispatcher().send(target, delivery)).resolves.toBe("delivered");
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request.body).toBe(delivery.body);
+    expect(request.headers[DELIVERY_HEADER]).toBe("alt_1.ops");
+    expect(verifyWebhookSignature(request.body, request.headers[SIGNATURE_HEADER] as string, SECRET).valid).toBe(true);
+  });
+
+  it("retries server errors under the same delivery id", async () => {
+    statuses = [503, 500];
+    await expect(dispatcher().send(target, delivery)).resolves.toBe("delivered");
+    expect(requests.map(r => [r.headers[DELIVERY_HEADER], r.headers["x-guardscore-attempt"]])).toEqual([
+      ["alt_1.ops", "1"],
+      ["alt_1.ops", "2"],
+      ["alt_1.ops", "3"],
+    ]);
+    expect(fs.existsSync(deadLetters)).toBe(false);
+  });
+
+  it("dead-letters a delivery that runs out of attempts", async () => {
+    statuses = [500, 502, 503];
+    await expect(dispatcher().send(target, delivery)).resolves.toBe("dead_lettered");
+    const [entry] = fs.readFileSync(deadLetters, "utf8").trim().split("\n").map(line => JSON.parse(line));
+    expect(entry).toMatchObject({ delivery_id: "alt_1.ops", webhook_id: "ops", attempts: 3, last_error: "HTTP 503", payload: { id: "alt_1" } });
+  });
+
+  it("dead-letters a client error without retrying it", async () => {
+    statuses = [401];
+    await expect(dispatcher().send(target, delivery)).resolves.toBe("dead_lettered");
+    expect(requests).toHaveLength(1);
+    expect(JSON.parse(fs.readFileSync(deadLetters, "utf8"))).toMatchObject({ attempts: 1, last_error: "HTTP 401" });
+  });
+
+  it("retries a receiver that cannot be reached", async () => {
+    await new Promise(resolve => server.close(resolve));
+    server = http.createServer();
+    await expect(dispatcher(2).send(target, delivery)).resolves.toBe("dead_lettered");
+    expect(JSON.parse(fs.readFileSync(deadLetters, "utf8"))).toMatchObject({ attempts: 2 });
+  });
+
+  it("waits for deliveries in flight on flush", async () => {
+    const d = dispatcher();
+    void d.send(target, delivery);
+    void d.send(target, { ...delivery, id: "alt_2.ops" });
+    expect(d.inFlight).toBe(2);
+    await d.flush();
+    expect(d.inFlight).toBe(0);
+    expect(requests.map(r => r.headers[DELIVERY_HEADER]).sort()).toEqual(["alt_1.ops", "alt_2.ops"]);
+  });
+});
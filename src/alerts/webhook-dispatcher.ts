@@ -0,0 +1,195 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { logger } from "../utils/logger.js";
+import { observeAlertDelivery } from "../metrics/metrics.js";
+
+export const SIGNATURE_HEADER = "x-guardscore-signature";
+export const DELIVERY_HEADER = "x-guardscore-delivery";
+export const EVENT_HEADER = "x-guardscore-event";
+
+/** Receivers should reject signatures older than this, so a captured request can't be replayed later */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface WebhookTarget {
+  id: string;
+  url: string;
+  secret: string;
+  timeout_ms: number;
+}
+
+export interface DeliveryPolicy {
+  /** Attempts per delivery, the first one included */
+  max_attempts: number;
+  base_delay_ms: number;
+  max_delay_ms: number;
+}
+
+export interface WebhookDelivery {
+  /** Stable across retries so receivers can drop repeats */
+  id: string;
+  event: string;
+  body: string;
+}
+
+export interface DeadLetter {
+  delivery_id: string;
+  event: string;
+  webhook_id: string;
+  url: string;
+  attempts: number;
+  last_error: string;
+  dead_lettered_at: string;
+  payload: unknown;
+}
+
+export type DeliveryOutcome = "delivered" | "dead_lettered";
+
+/** Value of the X-GuardScore-Signature header: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">` */
+export function signWebhook(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/**
+ * Check a delivery's signature header against the raw request body. Fails for a
+ * wrong secret, a modified body, or a timestamp outside the tolerance.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS,
+  now = Date.now(),
+): { valid: boolean; error: string | null } {
+  if (!header) return { valid: false, error: "missing signature header" };
+  const parts = Object.fromEntries(header.split(",").map(p => p.trim().split("=", 2) as [string, string]));
+  const timestamp = parseInt(parts.t ?? "", 10);
+  if (isNaN(timestamp) || !parts.v1) return { valid: false, error: "malformed signature header" };
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return { valid: false, error: `timestamp outside the ${toleranceSeconds}s tolerance` };
+  }
+  const expected = Buffer.from(signWebhook(body, secret, timestamp).split("v1=")[1], "hex");
+  const given = Buffer.from(parts.v1, "hex");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return { valid: false, error: "signature mismatch" };
+  }
+  return { valid: true, error: null };
+}
+
+/** Network errors, timeouts, 408, 429 and 5xx are worth another attempt; other 4xx never succeed */
+function retryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Delivers signed JSON webhooks in the background. Each delivery is retried with
+ * jittered exponential backoff; one that runs out of attempts, or gets a response
+ * no retry can fix, is appended to the dead-letter file as NDJSON. Callers never
+ * wait on a receiver — flush() is for shutdown and tests.
+ */
+export class WebhookDispatcher {
+  private readonly policy: DeliveryPolicy;
+  private readonly deadLetterFile: string | null;
+  private readonly pending = new Set<Promise<DeliveryOutcome>>();
+
+  constructor(policy: DeliveryPolicy, deadLetterFile: string | null) {
+    this.policy = policy;
+    this.deadLetterFile = deadLetterFile;
+    if (deadLetterFile) fs.mkdirSync(path.dirname(deadLetterFile), { recursive: true });
+  }
+
+  /** Start delivering in the background; the promise is for callers that want the outcome */
+  send(target: WebhookTarget, delivery: WebhookDelivery): Promise<DeliveryOutcome> {
+    const task = this.deliver(target, delivery);
+    this.pending.add(task);
+    void task.finally(() => this.pending.delete(task));
+    return task;
+  }
+
+  /** Wait for every delivery in flight, retries included */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) await Promise.allSettled([...this.pending]);
+  }
+
+  get inFlight(): number {
+    return this.pending.size;
+  }
+
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.policy.max_delay_ms, this.policy.base_delay_ms * 2 ** (attempt - 1));
+    // Half fixed, half random, so receivers recovering from an outage aren't hit in lockstep
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+
+  private async attempt(target: WebhookTarget, delivery: WebhookDelivery, attempt: number): Promise<{ ok: boolean; retry: boolean; error: string }> {
+    try {
+      const res = await fetch(target.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "merchantguard-mcp-alerts/1.0",
+          [SIGNATURE_HEADER]: signWebhook(delivery.body, target.secret),
+          [DELIVERY_HEADER]: delivery.id,
+          [EVENT_HEADER]: delivery.event,
+          "X-GuardScore-Attempt": String(attempt),
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(target.timeout_ms),
+      });
+      await res.arrayBuffer().catch(() => undefined);
+      if (res.ok) return { ok: true, retry: false, error: "" };
+      return { ok: false, retry: retryable(res.status), error: `HTTP ${res.status}` };
+    } catch (err) {
+      const error = err as Error;
+      const message = error.name === "TimeoutError" ? `timed out after ${target.timeout_ms}ms` : error.message;
+      return { ok: false, retry: true, error: message };
+    }
+  }
+
+  private async deliver(target: WebhookTarget, delivery: WebhookDelivery): Promise<DeliveryOutcome> {
+    let last = "";
+    let attempts = 0;
+    while (attempts < this.policy.max_attempts) {
+      attempts++;
+      const result = await this.attempt(target, delivery, attempts);
+      if (result.ok) {
+        observeAlertDelivery(target.id, "delivered");
+        logger.info(`Alert ${delivery.id} delivered to webhook "${target.id}"`, { attempts });
+        return "delivered";
+      }
+      last = result.error;
+      if (!result.retry) break;
+      if (attempts < this.policy.max_attempts) {
+        observeAlertDelivery(target.id, "retried");
+        logger.warn(`Alert ${delivery.id} to webhook "${target.id}" failed (${last}), retrying`, { attempt: attempts });
+        await sleep(this.backoff(attempts));
+      }
+    }
+
+    observeAlertDelivery(target.id, "dead_lettered");
+    logger.error(`Alert ${delivery.id} to webhook "${target.id}" dead-lettered after ${attempts} attempt(s): ${last}`);
+    this.deadLetter({
+      delivery_id: delivery.id,
+      event: delivery.event,
+      webhook_id: target.id,
+      url: target.url,
+      attempts,
+      last_error: last,
+      dead_lettered_at: new Date().toISOString(),
+      payload: JSON.parse(delivery.body),
+    });
+    return "dead_lettered";
+  }
+
+  private deadLetter(entry: DeadLetter) {
+    if (!this.deadLetterFile) return;
+    try {
+      fs.appendFileSync(this.deadLetterFile, JSON.stringify(entry) + "\n");
+    } catch (err) {
+      logger.error(`Could not write dead letter to ${this.deadLetterFile}: ${(err as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { CircuitBreaker } from "./circuit-breaker.js";
+
+const T0 = Date.parse("2026-06-15T12:00:00Z");
+
+describe("CircuitBreaker", () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    breaker = new CircuitBreaker("assess", { failureThreshold: 3, cooldownMs: 10_000 });
+  });
+
+  it("opens after the threshold of consecutive failures", () => {
+    breaker.recordFailure("HTTP 503", T0);
+    breaker.recordFailure("HTTP 503", T0);
+    expect(breaker.snapshot().state).toBe("closed");
+    expect(breaker.canRequest(T0)).toBe(true);
+
+    breaker.recordFailure("timed out", T0);
+    expect(breaker.snapshot()).toMatchObject({
+      state: "open",
+      consecutive_failures: 3,
+      opened_at: new Date(T0).toISOString(),
+      retry_at: new Date(T0 + 10_000).toISOString(),
+      last_failure: "timed out",
+    });
+    expect(breaker.canRequest(T0 + 9_999)).toBe(false);
+    expect(breaker.retryInMs(T0 + 4_000)).toBe(6_000);
+  });
+
+  it("resets the failure count on success", () => {
+    breaker.recordFailure("HTTP 503", T0);
+    breaker.recordFailure("HTTP 503", T0);
+    breaker.recordSuccess();
+    breaker.recordFailure("HTTP 503", T0);
+    expect(breaker.snapshot()).toMatchObject({ state: "closed", consecutive_failures: 1 });
+  });
+
+  it("lets one trial through after the cooldown and closes when it succeeds", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure("HTTP 503", T0);
+
+    expect(breaker.canRequest(T0 + 10_000)).toBe(true);
+    expect(breaker.snapshot().state).toBe("half_open");
+    // Only the single trial request is admitted while it is in flight
+    expect(breaker.canRequest(T0 + 10_001)).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toMatchObject({ state: "closed", consecutive_failures: 0, opened_at: null });
+    expect(breaker.canRequest(T0 + 10_002)).toBe(true);
+  });
+
+  it("re-opens when the half-open trial fails", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure("HTTP 503", T0);
+    expect(breaker.canRequest(T0 + 10_000)).toBe(true);
+
+    breaker.recordFailure("HTTP 502", T0 + 10_500);
+    expect(breaker.snapshot()).toMatchObject({ state: "open", opened_at: new Date(T0 + 10_500).toISOString() });
+    expect(breaker.canRequest(T0 + 20_000)).toBe(false);
+    expect(breaker.canRequest(T0 + 20_500)).toBe(true);
+  });
+});
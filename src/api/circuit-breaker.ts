@@ -0,0 +1,92 @@
+import { logger } from "../utils/logger.js";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a single trial request is let through */
+  cooldownMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at: string | null;
+  retry_at: string | null;
+  last_failure: string | null;
+}
+
+/**
+ * Per-endpoint circuit breaker.
+ *
+ * closed → open after failureThreshold consecutive failures; open fails fast until
+ * cooldownMs has passed; then half_open lets one trial request through, which
+ * closes the circuit on success or re-opens it on failure.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt: number | null = null;
+  private lastFailure: string | null = null;
+  private trialInFlight = false;
+
+  constructor(private readonly name: string, private readonly config: CircuitBreakerConfig) {}
+
+  /** Whether a request may be sent now. Moves an expired open circuit to half_open. */
+  canRequest(now = Date.now()): boolean {
+    if (this.state === "closed") return true;
+    if (this.state === "open") {
+      if (now - (this.openedAt ?? 0) < this.config.cooldownMs) return false;
+      this.transition("half_open");
+    }
+    if (this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== "closed") {
+      this.openedAt = null;
+      this.transition("closed");
+    }
+  }
+
+  recordFailure(reason: string, now = Date.now()) {
+    this.failures++;
+    this.trialInFlight = false;
+    this.lastFailure = reason;
+    if (this.state === "half_open" || (this.state === "closed" && this.failures >= this.config.failureThreshold)) {
+      this.openedAt = now;
+      this.transition("open", reason);
+    }
+  }
+
+  /** Milliseconds until an open circuit admits a trial request */
+  retryInMs(now = Date.now()): number {
+    if (this.state !== "open" || this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.config.cooldownMs - now);
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutive_failures: this.failures,
+      opened_at: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retry_at: this.openedAt !== null ? new Date(this.openedAt + this.config.cooldownMs).toISOString() : null,
+      last_failure: this.lastFailure,
+    };
+  }
+
+  private transition(next: CircuitState, reason?: string) {
+    const prev = this.state;
+    this.state = next;
+    if (next === "open") {
+      logger.warn(`Circuit for upstream "${this.name}" ${prev} → open after ${this.failures} failure(s): ${reason}`);
+    } else {
+      logger.info(`Circuit for upstream "${this.name}" ${prev} → ${next}`);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+export type UpstreamErrorCode =
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_CIRCUIT_OPEN"
+  | "UPSTREAM_NETWORK_ERROR"
+  | "UPSTREAM_HTTP_ERROR"
+  | "UPSTREAM_UNAUTHORIZED"
+  | "UPSTREAM_BAD_RESPONSE"
+  | "UPSTREAM_NOT_CONFIGURED"
+  | "LIVE_DATA_UNAVAILABLE";
+
+/**
+ * Failure to get usable live data from a MerchantGuard endpoint.
+ *
+ * The upstream client throws the transport codes (timeout, circuit open, network);
+ * GuardScoreAPI raises the rest in strict mode instead of falling back to mock data.
+ */
+export class UpstreamError extends Error {
+  constructor(
+    readonly code: UpstreamErrorCode,
+    message: string,
+    readonly endpoint: string | null,
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
@@ -0,0 +1,325 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { GuardScoreAPI, GuardScoreConfig } from "./guardscore.js";
+import { UpstreamError } from "./errors.js";
+import { TransactionLedger } from "../ledger/transaction-ledger.js";
+import { RiskPolicy, riskPolicySchema } from "../policy/risk-policy.js";
+import { AgentBudgets, agentBudgetPolicySchema } from "../budgets/agent-budgets.js";
+import { VAMPHistoryStore } from "../vamp/vamp-history.js";
+import { Watchlists, watchlistsConfigSchema } from "../sanctions/watchlists.js";
+import { WalletLists, walletListsConfigSchema } from "../wallets/wallet-lists.js";
+
+const TRANSACTION = { amount: 120, currency: "USD", merchant_category: "retail", payment_rail: "card" as const };
+
+describe("GuardScoreAPI provenance", () => {
+  let dir: string;
+  let fetchMock: jest.SpiedFunction<typeof globalThis.fetch>;
+
+  const createApi = (config: Partial<GuardScoreConfig> = {}) => new GuardScoreAPI(
+    // No retries, so each test sees exactly one upstream call
+    { apiUrl: "https://api.example.test", apiKey: "demo", upstream: { retries: 0 }, ...config },
+    {
+      ledger: new TransactionLedger({ filePath: path.join(dir, "ledger.ndjson") }),
+      policy: RiskPolicy.load(undefined, { auto_decline: 15, high_risk: 30, medium_risk: 60 }),
+    },
+  );
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "guardscore-"));
+    fetchMock = jest.spyOn(globalThis, "fetch");
+  });
+  afterEach(() => {
+    fetchMock.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("tags demo-mode results as mock without calling upstream", async () => {
+    const result = await createApi().scoreTransaction(TRANSACTION);
+    expect(result.provenance).toMatchObject({
+      source: "mock",
+      endpoint: "/api/v2/guardscore/assess",
+      latency_ms: null,
+      fallback_reason: expect.stringMatching(/^UPSTREAM_NOT_CONFIGURED:/),
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("tags upstream results as live", async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ score: 82, insights: [] }));
+    const result = await createApi({ apiKey: "sk_test" }).scoreTransaction(TRANSACTION);
+    expect(result.risk_score).toBe(82);
+    expect(result.provenance).toMatchObject({ source: "live", endpoint: "/api/v2/guardscore/assess", fallback_reason: null });
+    expect(result.provenance.latency_ms).toEqual(expect.any(Number));
+  });
+
+  it("records why it fell back to mock data", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }));
+    const result = await createApi({ apiKey: "sk_test" }).scoreTransaction(TRANSACTION);
+    expect(result.provenance).toMatchObject({ source: "mock", fallback_reason: "UPSTREAM_HTTP_ERROR: HTTP 503" });
+  });
+
+  it("tags ledger-derived results as local", async () => {
+    const result = await createApi().checkVelocity({ entity_id: "m1", entity_type: "merchant", time_window: "1h" });
+    expect(result.provenance).toMatchObject({ source: "local", endpoint: null, fallback_reason: null });
+  });
+
+  describe("strict mode", () => {
+    it("throws instead of returning mock data without an API key", async () => {
+      await expect(createApi({ strict: true }).scoreTransaction(TRANSACTION)).rejects.toMatchObject({
+        name: "UpstreamError",
+        code: "UPSTREAM_NOT_CONFIGURED",
+        endpoint: "/api/v2/guardscore/assess",
+      });
+    });
+
+    it("reports the upstream failure code", async () => {
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 401 }));
+      const error = await createApi({ apiKey: "sk_test", strict: true }).scoreTransaction(TRANSACTION).catch(err => err);
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(error.code).toBe("UPSTREAM_UNAUTHORIZED");
+    });
+
+    it("does not affect local results", async () => {
+      const result = await createApi({ strict: true }).checkVelocity({ entity_id: "m1", entity_type: "merchant", time_window: "1h" });
+      expect(result.provenance.source).toBe("local");
+    });
+  });
+});
+
+describe("GuardScoreAPI ledger amounts", () => {
+  let dir: string;
+  let api: GuardScoreAPI;
+  const ledgerFile = () => path.join(dir, "ledger.ndjson");
+  const ledgerEntries = () => fs.existsSync(ledgerFile())
+    ? fs.readFileSync(ledgerFile(), "utf8").trimEnd().split("\n").map(line => JSON.parse(line))
+    : [];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "guardscore-"));
+    api = new GuardScoreAPI(
+      { apiUrl: "https://api.example.test", apiKey: "demo", upstream: { retries: 0 } },
+      {
+        ledger: new TransactionLedger({ filePath: ledgerFile() }),
+        policy: RiskPolicy.load(undefined, { auto_decline: 15, high_risk: 30, medium_risk: 60 }),
+      },
+    );
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("records scored transactions with their base amount", async () => {
+    await api.scoreTransaction({ ...TRANSACTION, amount: 15000, currency: "jpy", merchant_id: "m1" });
+    expect(ledgerEntries()).toEqual([expect.objectContaining({ amount: 15000, currency: "JPY", base_amount: 100 })]);
+  });
+
+  it("sums velocity amounts across currencies in the base currency", async () => {
+    await api.ingestTransactions([
+      { amount: 15000, currency: "JPY", merchant_id: "m1" },
+      { amount: 86, currency: "eur", merchant_id: "m1" },
+      { amount: 50, currency: "USD", merchant_id: "m1" },
+    ]);
+    const velocity = await api.checkVelocity({ entity_id: "m1", entity_type: "merchant", time_window: "1h" });
+    expect(velocity).toMatchObject({ transactions_in_window: 3, amount_in_window: 250 });
+    expect(ledgerEntries().map(e => e.currency)).toEqual(["JPY", "EUR", "USD"]);
+  });
+
+  it.each([
+    [{ amount: 10, currency: "XYZ" }, /^Transaction 2: Unknown currency "XYZ"/],
+    [{ amount: 10.5, currency: "JPY" }, /^Transaction 2: JPY has no minor units/],
+    [{ amount: 1.2345, currency: "KWD" }, /^Transaction 2: KWD amounts have at most 3 decimal place/],
+  ])("rejects an ingest batch containing %o without recording any of it", async (bad, message) => {
+    await expect(api.ingestTransactions([
+      { amount: 10, currency: "USD", merchant_id: "m1" },
+      { ...bad, merchant_id: "m1" },
+    ])).rejects.toThrow(message);
+    expect(ledgerEntries()).toEqual([]);
+  });
+});
+
+describe("GuardScoreAPI VAMP history", () => {
+  let dir: string;
+  let fetchMock: jest.SpiedFunction<typeof globalThis.fetch>;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "guardscore-"));
+    fetchMock = jest.spyOn(globalThis, "fetch");
+  });
+  afterEach(() => {
+    fetchMock.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records simulated months, never the analysis tool's simulator figures, and trends them with imports", async () => {
+    const historyFile = path.join(dir, "vamp-history.json");
+    const api = new GuardScoreAPI(
+      { apiUrl: "https://api.example.test", apiKey: "sk_test", upstream: { retries: 0 } },
+      {
+        ledger: new TransactionLedger({ filePath: path.join(dir, "ledger.ndjson") }),
+        policy: RiskPolicy.load(undefined, { auto_decline: 15, high_risk: 30, medium_risk: 60 }),
+        vampHistory: new VAMPHistoryStore(historyFile),
+      },
+    );
+    fetchMock.mockImplementation(async () => Response.json({ simulation: { currentVampPct: 1.2, projectedVampPct: 0.8 } }));
+
+    const live = await api.analyzeVAMP({ merchant_id: "m1" });
+    // Graded against the 1.5% threshold in force; the distance is to 0.9%
+    expect(live).toMatchObject({ vamp_status: "monitored", visa_threshold_distance: 0, trend_source: "snapshot", history: null });
+    expect(live.provenance.source).toBe("live");
+    expect(fs.existsSync(historyFile) ? JSON.parse(fs.readFileSync(historyFile, "utf8")) : []).toEqual([]);
+
+    const counts = { monthly_transactions: 20_000, tc40_fraud_count: 40, tc15_dispute_count: 60, three_ds_coverage_pct: 0, rdr_enrolled: false, rdr_resolution_rate_pct: 0, cdrn_enrolled: false, cdrn_resolution_rate_pct: 0 };
+    await api.simulateVAMP({ ...counts, merchant_id: "m1", visa_merchant_id: "V1", as_of: "2026-09-15" });
+    await api.simulateVAMP({ ...counts, tc15_dispute_count: 0, merchant_id: "m1", as_of: "2026-10-01", record_history: false });
+    await api.importVAMPHistory("month,merchant_id,vamp_ratio_pct\n2026-07,m1,0.4\n2026-08,m1,0.45\n");
+
+    const trended = await api.analyzeVAMP({ merchant_id: "m1" });
+    expect(trended).toMatchObject({ trend_source: "history", monthly_trend: "declining", history: { months: 3, threshold_pct: 0.9, projected_threshold_month: "2027-05" } });
+    const history = await api.getVAMPHistory({ visa_merchant_id: "V1", threshold_pct: 1.5 });
+    expect(history.snapshots.map(s => [s.month, s.vamp_ratio_pct, s.source])).toEqual([
+      ["2026-07", 0.4, "import"],
+      ["2026-08", 0.45, "import"],
+      ["2026-09", 0.5, "simulation"],
+    ]);
+    expect(history.summary).toMatchObject({ threshold_pct: 1.5, projected_threshold_month: "2028-05" });
+  });
+});
+
+describe("GuardScoreAPI agent budgets", () => {
+  let dir: string;
+  let api: GuardScoreAPI;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "guardscore-"));
+    api = new GuardScoreAPI(
+      { apiUrl: "https://api.example.test", apiKey: "demo", upstream: { retries: 0 } },
+      {
+        ledger: new TransactionLedger({ filePath: path.join(dir, "ledger.ndjson") }),
+        policy: RiskPolicy.load(undefined, { auto_decline: 15, high_risk: 30, medium_risk: 60 }),
+        budgets: new AgentBudgets(agentBudgetPolicySchema.parse({ defaults: { per_transaction: 800, daily: 1000 } })),
+      },
+    );
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reports the remaining budget on verification and flags a request that would exceed it", async () => {
+    const reserved = await api.reserveAgentBudget({ agent_id: "agent_1", amount: 51_000, currency: "JPY", reference: "order_1" });
+    expect(reserved).toMatchObject({ approved: true, reservation: { amount: 340, original_currency: "JPY" }, budget: { remaining: 660 } });
+
+    const within = await api.verifyAgent({ agent_id: "agent_1", requesting_action: "purchase", transaction_amount: 600 });
+    expect(within.budget).toMatchObject({ currency: "USD", remaining: 660, would_exceed: false, exceeded: [] });
+
+    const over = await api.verifyAgent({ agent_id: "agent_1", requesting_action: "purchase", transaction_amount: 700 });
+    expect(over.budget).toMatchObject({ would_exceed: true, exceeded: [{ window: "daily", remaining: 660, requested: 700 }] });
+    expect(over.anomaly_flags).toContain("daily_budget_exceeded");
+    expect(over.authorization_token).toBeNull();
+
+    await api.releaseAgentBudget({ reservation_id: reserved.reservation!.reservation_id });
+    expect((await api.getAgentBudget({ agent_id: "agent_1" })).remaining).toBe(800);
+  });
+});
+
+describe("GuardScoreAPI authorization tokens", () => {
+  let dir: string;
+  let api: GuardScoreAPI;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "guardscore-"));
+    api = new GuardScoreAPI(
+      { apiUrl: "https://api.example.test", apiKey: "demo", upstream: { retries: 0 } },
+      {
+        ledger: new TransactionLedger({ filePath: path.join(dir, "ledger.ndjson") }),
+        policy: RiskPolicy.load(undefined, { auto_decline: 15, high_risk: 30, medium_risk: 60 }),
+      },
+    );
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("issues a token on verification that the payment can spend once", async () => {
+    const verification = await api.verifyAgent({ agent_id: "agent_1", requesting_action: "purchase", transaction_amount: 5000, transaction_currency: "JPY", merchant_id: "m1" });
+    const grant = verification.authorization_token!;
+    expect(grant).toMatchObject({ action: "purchase", max_amount: 5000, currency: "JPY", merchant_id: "m1" });
+
+    expect(api.verifyAuthorizationToken({ token: grant.token, merchant_id: "m1", amount: 5000 })).toMatchObject({ valid: false, error_code: "currency_mismatch" });
+    expect(api.verifyAuthorizationToken({ token: grant.token, merchant_id: "m1", amount: 5000, currency: "JPY" })).toMatchObject({ valid: true, consumed: true });
+    expect(api.verifyAuthorizationToken({ token: grant.token, merchant_id: "m1" }).error_code).toBe("replayed");
+  });
+
+  it("issues no token without a merchant to bind it to", async () => {
+    expect((await api.verifyAgent({ agent_id: "agent_1", requesting_action: "purchase" })).authorization_token).toBeNull();
+  });
+});
+
+describe("GuardScoreAPI wallet screening", () => {
+  const SANCTIONED = "0x7FF9cFad3877F21d41Da833E2F775dB0569eE3D9";
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "guardscore-"));
+    fs.writeFileSync(path.join(dir, "sanctions.txt"), `${SANCTIONED} GARANTEX EUROPE OU\n`);
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("declines a sanctioned wallet even when a policy rule approves everything", async () => {
+    const api = new GuardScoreAPI(
+      { apiUrl: "https://api.example.test", apiKey: "demo", upstream: { retries: 0 } },
+      {
+        ledger: new TransactionLedger({ filePath: path.join(dir, "ledger.ndjson") }),
+        policy: new RiskPolicy(riskPolicySchema.parse({
+          version: "lenient",
+          thresholds: { auto_decline: 0, high_risk: 0, medium_risk: 0 },
+          rules: [{ id: "approve-all", action: "approve" }],
+        }), { auto_decline: 15, high_risk: 30, medium_risk: 60 }),
+        walletLists: new WalletLists(walletListsConfigSchema.parse({
+          lists: [{ id: "ofac", category: "sanctions", format: "text", path: "sanctions.txt" }],
+        }), dir),
+      },
+    );
+
+    const sanctioned = await api.scoreTransaction({ ...TRANSACTION, merchant_id: "m1", wallet_address: SANCTIONED.toLowerCase() });
+    expect(sanctioned).toMatchObject({
+      risk_score: 0,
+      risk_level: "critical",
+      recommended_action: "decline",
+      policy: { rule_id: "approve-all", action_source: "sanctions" },
+    });
+    expect(sanctioned.risk_factors.map(f => f.factor)).toContain("sanctioned_wallet");
+
+    const clean = await api.scoreTransaction({ ...TRANSACTION, merchant_id: "m1", wallet_address: "0x52908400098527886E0F7030069857D2E4169EE7" });
+    expect(clean).toMatchObject({ recommended_action: "approve", policy: { rule_id: "approve-all", action_source: "rule" } });
+  });
+});
+
+describe("GuardScoreAPI watchlist screening", () => {
+  let dir: string;
+  let api: GuardScoreAPI;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "guardscore-"));
+    fs.writeFileSync(path.join(dir, "watchlist.csv"), "id,name,type,programs\nW1,Bank Melli Iran,Entity,IRAN\n");
+    api = new GuardScoreAPI(
+      { apiUrl: "https://api.example.test", apiKey: "demo", upstream: { retries: 0 } },
+      {
+        ledger: new TransactionLedger({ filePath: path.join(dir, "ledger.ndjson") }),
+        policy: RiskPolicy.load(undefined, { auto_decline: 15, high_risk: 30, medium_risk: 60 }),
+        watchlists: new Watchlists(watchlistsConfigSchema.parse({ lists: [{ id: "internal", format: "csv", path: "watchlist.csv" }] }), dir),
+      },
+    );
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it.each([
+    ["Bank Melli Iran PJSC", "match", "critical", "decline"],
+    ["Banc Meli Iran", "possible", "high", "review"],
+    ["Unrelated Coffee Roasters", "clear", "low", "approve"],
+  ])("screens %s as %s", (name, status, riskLevel, action) => {
+    expect(api.screenWatchlist({ name })).toMatchObject({ status, risk_level: riskLevel, recommended_action: action });
+  });
+
+  it("screens the merchant name given to a lookup", async () => {
+    const profile = await api.lookupMerchant({ merchant_id: "m1", merchant_name: "Bank Melli Iran" });
+    expect(profile.watchlist_hits.map(h => [h.list_id, h.entry_id, h.strength])).toEqual([["internal", "W1", "match"]]);
+    expect(profile.screened_name).toBe("Bank Melli Iran");
+    expect(await api.lookupMerchant({ merchant_id: "m1" })).toMatchObject({ watchlist_hits: [], screened_name: null });
+  });
+});
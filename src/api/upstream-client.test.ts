@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { UpstreamClient } from "./upstream-client.js";
+
+describe("UpstreamClient", () => {
+  let fetchMock: jest.SpiedFunction<typeof globalThis.fetch>;
+  let client: UpstreamClient;
+
+  const respond = (...statuses: number[]) => {
+    for (const status of statuses) fetchMock.mockResolvedValueOnce(new Response("{}", { status }));
+  };
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(globalThis, "fetch");
+    client = new UpstreamClient({
+      apiUrl: "https://api.example.test",
+      apiKey: "demo",
+      retries: 2,
+      retryBaseDelayMs: 1,
+      breakerFailureThreshold: 3,
+      breakerCooldownMs: 60_000,
+    });
+  });
+  afterEach(() => fetchMock.mockRestore());
+
+  it("retries idempotent endpoints on 5xx and 429", async () => {
+    respond(503, 429, 200);
+    const res = await client.request("assess", "/api/assess", { method: "POST" });
+    expect(res.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry endpoints that are not idempotent", async () => {
+    respond(503, 200);
+    const res = await client.request("agent_screen", "/api/agent/screen", { method: "POST" });
+    expect(res.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("treats unknown endpoints as not idempotent unless configured", async () => {
+    respond(500, 500, 200);
+    await client.request("other", "/x");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const configured = new UpstreamClient({
+      apiUrl: "https://api.example.test",
+      apiKey: "demo",
+      retryBaseDelayMs: 1,
+      endpoints: { other: { idempotent: true, retries: 1 } },
+    });
+    const res = await configured.request("other", "/x");
+    expect(res.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async () => {
+    respond(404);
+    const res = await client.request("merchant", "/api/agent/merchant/m1");
+    expect(res.status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the failure instead of waiting out a long Retry-After", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 429, headers: { "Retry-After": "120" } }));
+    const res = await client.request("assess", "/api/assess");
+    expect(res.status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("wraps network errors and fails fast once the circuit is open", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+    await expect(client.request("assess", "/api/assess")).rejects.toMatchObject({
+      code: "UPSTREAM_NETWORK_ERROR",
+      endpoint: "assess",
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(client.circuitStatus().assess.state).toBe("open");
+
+    await expect(client.request("assess", "/api/assess")).rejects.toMatchObject({ code: "UPSTREAM_CIRCUIT_OPEN" });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,182 @@
+import { logger } from "../utils/logger.js";
+import { CircuitBreaker, CircuitSnapshot } from "./circuit-breaker.js";
+import { UpstreamError } from "./errors.js";
+import { observeUpstreamRequest } from "../metrics/metrics.js";
+
+export interface EndpointPolicy {
+  timeoutMs: number;
+  /** Extra attempts after the first; only used when the endpoint is idempotent */
+  retries: number;
+  idempotent: boolean;
+}
+
+export interface UpstreamPolicyConfig {
+  timeoutMs?: number;
+  retries?: number;
+  retryBaseDelayMs?: number;
+  /** Upper bound for one backoff delay; a longer Retry-After ends the retries */
+  retryMaxDelayMs?: number;
+  breakerFailureThreshold?: number;
+  breakerCooldownMs?: number;
+  /** Per-endpoint overrides keyed by endpoint name (assess, merchant, agent_oprf, agent_screen, simulate, guard) */
+  endpoints?: Record<string, Partial<EndpointPolicy>>;
+}
+
+export interface UpstreamClientConfig extends UpstreamPolicyConfig {
+  apiUrl: string;
+  apiKey: string;
+}
+
+/**
+ * Built-in endpoint behaviour. Scoring and simulation calls are pure computations and
+ * safe to repeat, as is OPRF evaluation; agent screening is not (it is rate-limited and
+ * issues tokens upstream).
+ */
+const DEFAULT_ENDPOINTS: Record<string, Partial<EndpointPolicy>> = {
+  assess: { idempotent: true },
+  merchant: { idempotent: true },
+  agent_oprf: { idempotent: true },
+  agent_screen: { idempotent: false },
+  simulate: { idempotent: true },
+  guard: { idempotent: true },
+};
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** Parse Retry-After (delta-seconds or HTTP-date) into milliseconds */
+function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * HTTP client for the MerchantGuard API.
+ *
+ * Every call names its endpoint, which selects a timeout, retry budget and circuit
+ * breaker. Idempotent calls are retried on network errors, timeouts, 429 and 5xx
+ * with full-jitter exponential backoff, honouring Retry-After. An open circuit
+ * fails fast with UPSTREAM_CIRCUIT_OPEN instead of waiting on a dead endpoint.
+ */
+export class UpstreamClient {
+  private readonly config: UpstreamClientConfig;
+  private readonly breakers = new Map<string, CircuitBreaker>();
+
+  constructor(config: UpstreamClientConfig) {
+    this.config = config;
+  }
+
+  policy(endpoint: string): EndpointPolicy {
+    return {
+      timeoutMs: this.config.timeoutMs ?? 5000,
+      retries: this.config.retries ?? 2,
+      idempotent: false,
+      ...DEFAULT_ENDPOINTS[endpoint],
+      ...this.config.endpoints?.[endpoint],
+    };
+  }
+
+  private breaker(endpoint: string): CircuitBreaker {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(endpoint, {
+        failureThreshold: this.config.breakerFailureThreshold ?? 5,
+        cooldownMs: this.config.breakerCooldownMs ?? 30_000,
+      });
+      this.breakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  /** Breaker state for every endpoint called so far */
+  circuitStatus(): Record<string, CircuitSnapshot> {
+    return Object.fromEntries([...this.breakers].map(([name, b]) => [name, b.snapshot()]));
+  }
+
+  async request(endpoint: string, path: string, options: RequestInit = {}): Promise<Response> {
+    const policy = this.policy(endpoint);
+    const breaker = this.breaker(endpoint);
+    const attempts = 1 + (policy.idempotent ? policy.retries : 0);
+    const baseDelay = this.config.retryBaseDelayMs ?? 200;
+    const maxDelay = this.config.retryMaxDelayMs ?? 5000;
+
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.canRequest()) {
+        throw new UpstreamError(
+          "UPSTREAM_CIRCUIT_OPEN",
+          `Circuit open for ${endpoint} — retry in ${Math.ceil(breaker.retryInMs() / 1000)}s`,
+          endpoint,
+        );
+      }
+
+      const isLast = attempt >= attempts - 1;
+      let failed: Response | null = null;
+      try {
+        const res = await this.send(endpoint, path, options, policy.timeoutMs);
+        if (!isRetryableStatus(res.status)) {
+          breaker.recordSuccess();
+          return res;
+        }
+        breaker.recordFailure(`HTTP ${res.status}`);
+        if (isLast) return res;
+        failed = res;
+      } catch (err) {
+        const error = err as UpstreamError;
+        breaker.recordFailure(error.message);
+        if (isLast) throw error;
+      }
+
+      const backoff = Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt);
+      const delay = parseRetryAfter(failed?.headers.get("retry-after") ?? null) ?? backoff;
+      if (failed && delay > maxDelay) {
+        // Upstream asked us to back off longer than a tool call should wait
+        logger.warn(`${endpoint} returned ${failed.status} with Retry-After ${Math.ceil(delay / 1000)}s — not retrying`);
+        return failed;
+      }
+      logger.debug(`Retrying ${endpoint} in ${Math.round(delay)}ms (attempt ${attempt + 2}/${attempts})`);
+      await sleep(delay);
+    }
+  }
+
+  private async send(endpoint: string, path: string, options: RequestInit, timeoutMs: number): Promise<Response> {
+    const url = `${this.config.apiUrl}${path}`;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "MerchantGuard-MCP/1.0.0",
+      ...(options.headers as Record<string, string> || {}),
+    };
+    if (this.config.apiKey && this.config.apiKey !== "demo") {
+      headers["X-API-Key"] = this.config.apiKey;
+      headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+    }
+
+    // The timeout covers the whole exchange, body included, so a stalled stream can't hang a tool call
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const started = Date.now();
+    try {
+      const res = await globalThis.fetch(url, { ...options, headers, signal: controller.signal });
+      const body = await res.arrayBuffer();
+      observeUpstreamRequest(endpoint, `${Math.floor(res.status / 100)}xx`, (Date.now() - started) / 1000);
+      return new Response(body.byteLength > 0 ? body : null, {
+        status: res.status,
+        statusText: res.statusText,
+        headers: res.headers,
+      });
+    } catch (err) {
+      observeUpstreamRequest(endpoint, controller.signal.aborted ? "timeout" : "network_error", (Date.now() - started) / 1000);
+      if (controller.signal.aborted) {
+        throw new UpstreamError("UPSTREAM_TIMEOUT", `${endpoint} timed out after ${timeoutMs}ms`, endpoint);
+      }
+      throw new UpstreamError("UPSTREAM_NETWORK_ERROR", `${endpoint}: ${(err as Error).message}`, endpoint);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { AuditLog } from "./audit/audit-log.js";
+import type { EntityType } from "./types/index.js";
+
+const USAGE = `Usage: audit-cli <verify|export> [options]
+
+  verify                 Check the hash chain; exits 1 if it is broken
+  export                 Write matching entries as NDJSON (oldest first) to stdout,
+                         after verifying the chain (result on stderr)
+
+Options:
+  --file <path>          Audit log (default: $MERCHANTGUARD_DATA_DIR/audit.ndjson)
+  --entity <id>          Merchant, agent, card or wallet ID
+  --entity-type <type>   merchant | agent | card | wallet
+  --tool <name>          Tool name
+  --outcome <value>      approve, review, decline, a risk level, ok, error, ...
+  --tenant <id>          Tenant ID
+  --from <iso>           Start of the time range
+  --to <iso>             End of the time range
+  --limit <n>            Most recent n matching entries
+`;
+
+function main(): number {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      file: { type: "string" },
+      entity: { type: "string" },
+      "entity-type": { type: "string" },
+      tool: { type: "string" },
+      outcome: { type: "string" },
+      tenant: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      limit: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = positionals[0];
+  if (values.help || (command !== "verify" && command !== "export")) {
+    process.stderr.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const file = values.file ?? path.join(process.env.MERCHANTGUARD_DATA_DIR || "data", "audit.ndjson");
+  const audit = new AuditLog(file);
+  const chain = audit.verify();
+
+  if (command === "verify") {
+    process.stdout.write(JSON.stringify(chain, null, 2) + "\n");
+    return chain.valid ? 0 : 1;
+  }
+
+  const entries = audit.query({
+    entity_id: values.entity,
+    entity_type: values["entity-type"] as EntityType | undefined,
+    tool: values.tool,
+    outcome: values.outcome,
+    tenant: values.tenant,
+    from: values.from,
+    to: values.to,
+    limit: values.limit ? parseInt(values.limit, 10) : undefined,
+  }).reverse();
+  for (const entry of entries) process.stdout.write(JSON.stringify(entry) + "\n");
+  process.stderr.write(`Exported ${entries.length} entries; chain ${chain.valid ? "intact" : `BROKEN at seq ${chain.broken_at_seq}: ${chain.error}`}\n`);
+  return chain.valid ? 0 : 1;
+}
+
+process.exit(main());
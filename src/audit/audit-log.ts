@@ -0,0 +1,341 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
+import { resultPayload } from "../utils/mcp-response.js";
+import type { EntityType, PolicyDecision, Provenance, RiskThresholds } from "../types/index.js";
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  tenant: string | null;
+  client: string;
+  tool: string;
+  /** Entities the call was about, taken from its input; "entity" when the input doesn't say which type */
+  entities: Partial<Record<EntityType | "entity", string>>;
+  /** recommended_action, else verification_status, else "ok" — or "error" */
+  outcome: string;
+  risk_level: string | null;
+  /** Secrets redacted; any top-level field over 4 KB replaced by its digest */
+  input: unknown;
+  output: unknown;
+  is_error: boolean;
+  provenance: Provenance | null;
+  policy_version: string;
+  thresholds: RiskThresholds;
+  /** Hash of the previous entry (64 zeros for the first) */
+  prev_hash: string;
+  /** SHA-256 over the canonical JSON of every other field */
+  hash: string;
+}
+
+export type AuditRecord = Omit<AuditEntry, "seq" | "timestamp" | "prev_hash" | "hash">;
+
+export interface AuditQuery {
+  tenant?: string;
+  entity_type?: EntityType;
+  entity_id?: string;
+  tool?: string;
+  outcome?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  entries: number;
+  /** First entry that fails verification, null when the chain is intact */
+  broken_at_seq: number | null;
+  error: string | null;
+  head_hash: string;
+}
+
+const GENESIS_HASH = "0".repeat(64);
+
+/** Field names whose string values are credentials: bearer tokens, API keys, secrets */
+const SECRET_KEY = /^(token|authorization|api_key|password)$|_(token|secret|password|api_key)$|^secret/i;
+/** A compact JWS such as an authorization token, wherever it appears */
+const JWS_VALUE = /^eyJ[\w-]*\.[\w-]+\.[\w-]+$/;
+/** Fields serializing larger than this are stored as a digest (batch payloads, row results) */
+const MAX_FIELD_BYTES = 4096;
+
+/** A field too large to keep in the log */
+export interface DigestedField {
+  sha256: string;
+  bytes: number;
+}
+
+function redact(value: unknown, key = ""): unknown {
+  if (typeof value === "string") return SECRET_KEY.test(key) || JWS_VALUE.test(value) ? "[REDACTED]" : value;
+  if (Array.isArray(value)) return value.map(v => redact(v));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value;
+}
+
+/**
+ * What the log keeps of a tool's input or output: secrets redacted, and large
+ * fields replaced by a SHA-256 digest of their JSON so a copy kept elsewhere can
+ * still be matched to the entry.
+ */
+function loggable(value: unknown): unknown {
+  const redacted = redact(value);
+  if (!redacted || typeof redacted !== "object" || Array.isArray(redacted)) return redacted;
+  return Object.fromEntries(Object.entries(redacted).map(([k, v]) => {
+    const json = JSON.stringify(v) ?? "null";
+    const bytes = Buffer.byteLength(json);
+    if (bytes <= MAX_FIELD_BYTES) return [k, v];
+    const digest: DigestedField = { sha256: createHash("sha256").update(json).digest("hex"), bytes };
+    return [k, digest];
+  }));
+}
+
+const ENTITY_INPUTS: Record<EntityType, string> = {
+  merchant: "merchant_id",
+  agent: "agent_id",
+  card: "card_fingerprint",
+  wallet: "wallet_address",
+};
+
+/**
+ * Build the audit record for one tool call from its input and result. The policy
+ * version and thresholds come from the result when it carries a policy decision,
+ * otherwise from the policy that was active.
+ */
+export function toolCallRecord(call: {
+  tenant: string | null;
+  client: string;
+  tool: string;
+  input: Record<string, unknown>;
+  result: CallToolResult;
+  policy: { policy_version: string; thresholds: RiskThresholds };
+}): AuditRecord {
+  const payload = resultPayload(call.result);
+  const first = call.result.content[0];
+  const entities: AuditEntry["entities"] = {};
+  for (const [type, field] of Object.entries(ENTITY_INPUTS) as Array<[EntityType, string]>) {
+    if (typeof call.input[field] === "string") entities[type] = call.input[field] as string;
+  }
+  // Velocity and cross-rail checks name their entity generically
+  if (typeof call.input.entity_id === "string") {
+    entities[(call.input.entity_type as EntityType | undefined) ?? "entity"] = call.input.entity_id;
+  }
+
+  const decision = payload?.policy as PolicyDecision | undefined;
+  return {
+    tenant: call.tenant,
+    client: call.client,
+    tool: call.tool,
+    entities,
+    outcome: call.result.isError
+      ? "error"
+      : String(payload?.recommended_action ?? payload?.verification_status ?? "ok"),
+    risk_level: typeof payload?.risk_level === "string" ? payload.risk_level : null,
+    input: loggable(call.input),
+    output: loggable(payload ?? (first?.type === "text" ? first.text : null)),
+    is_error: call.result.isError === true,
+    provenance: (payload?.provenance as Provenance | undefined) ?? null,
+    policy_version: decision?.policy_version ?? call.policy.policy_version,
+    thresholds: decision?.thresholds ?? call.policy.thresholds,
+  };
+}
+
+/** JSON with object keys sorted at every level, so hashing is independent of key order */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function entryHash(entry: Omit<AuditEntry, "hash">): string {
+  return createHash("sha256").update(canonicalJson(entry)).digest("hex");
+}
+
+/** One line of a file and where it starts, in bytes */
+interface FileLine {
+  text: string;
+  offset: number;
+  bytes: number;
+}
+
+/** Lines of a file read in chunks, so a large log is never held in memory at once */
+function* fileLines(filePath: string): Generator<FileLine> {
+  if (!fs.existsSync(filePath)) return;
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const chunk = Buffer.alloc(64 * 1024);
+    let pending = Buffer.alloc(0);
+    let pendingOffset = 0;
+    for (let position = 0; ;) {
+      const read = fs.readSync(fd, chunk, 0, chunk.length, position);
+      if (read === 0) break;
+      position += read;
+      const buf = Buffer.concat([pending, chunk.subarray(0, read)]);
+      let start = 0;
+      for (let nl = buf.indexOf(10); nl !== -1; nl = buf.indexOf(10, start)) {
+        yield { text: buf.toString("utf8", start, nl), offset: pendingOffset + start, bytes: nl - start };
+        start = nl + 1;
+      }
+      pending = Buffer.from(buf.subarray(start));
+      pendingOffset += start;
+    }
+    if (pending.length > 0) yield { text: pending.toString("utf8"), offset: pendingOffset, bytes: pending.length };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** The fields queries filter on, and where the full entry is in the file */
+interface IndexedEntry {
+  timestamp: number;
+  tenant: string | null;
+  tool: string;
+  outcome: string;
+  risk_level: string | null;
+  entities: AuditEntry["entities"];
+  offset: number;
+  bytes: number;
+}
+
+/**
+ * Tamper-evident audit log of tool invocations.
+ *
+ * Append-only NDJSON where every entry carries the hash of the one before it, so
+ * editing, removing or reordering any line breaks the chain from that point on.
+ * An in-memory index of the queryable fields and byte offsets is built on open,
+ * so queries read only the entries they return. One process should own a given file.
+ */
+export class AuditLog {
+  private readonly filePath: string;
+  private seq = 0;
+  private headHash = GENESIS_HASH;
+  private readonly index: IndexedEntry[] = [];
+  private size = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      logger.info(`Audit log created at ${this.filePath}`);
+      return;
+    }
+    // Damaged lines are left out of the index here and reported by verify()
+    for (const line of fileLines(this.filePath)) {
+      if (!line.text.trim()) continue;
+      try {
+        const entry = JSON.parse(line.text) as AuditEntry;
+        this.indexEntry(entry, line.offset, line.bytes);
+        this.seq = entry.seq;
+        this.headHash = entry.hash;
+      } catch {
+        logger.warn(`Audit log ${this.filePath} has an unreadable line — run verify`);
+      }
+    }
+    this.size = fs.statSync(this.filePath).size;
+    logger.info(`Audit log opened at ${this.filePath} (${this.seq} entries)`);
+  }
+
+  private indexEntry(entry: AuditEntry, offset: number, bytes: number) {
+    this.index.push({
+      timestamp: Date.parse(entry.timestamp),
+      tenant: entry.tenant,
+      tool: entry.tool,
+      outcome: entry.outcome,
+      risk_level: entry.risk_level,
+      entities: entry.entities,
+      offset,
+      bytes,
+    });
+  }
+
+  append(record: AuditRecord, now = new Date()): AuditEntry {
+    const unsigned: Omit<AuditEntry, "hash"> = {
+      seq: this.seq + 1,
+      timestamp: now.toISOString(),
+      ...record,
+      prev_hash: this.headHash,
+    };
+    const entry: AuditEntry = { ...unsigned, hash: entryHash(unsigned) };
+    const line = JSON.stringify(entry);
+    fs.appendFileSync(this.filePath, line + "\n");
+    const bytes = Buffer.byteLength(line);
+    this.indexEntry(entry, this.size, bytes);
+    this.size += bytes + 1;
+    this.seq = entry.seq;
+    this.headHash = entry.hash;
+    return entry;
+  }
+
+  /** Matching entries, newest first */
+  query(q: AuditQuery = {}): AuditEntry[] {
+    const from = q.from ? Date.parse(q.from) : -Infinity;
+    const to = q.to ? Date.parse(q.to) : Infinity;
+    const matches = (e: IndexedEntry): boolean => {
+      if (e.timestamp < from || e.timestamp > to) return false;
+      if (q.tenant !== undefined && e.tenant !== q.tenant) return false;
+      if (q.tool && e.tool !== q.tool) return false;
+      if (q.outcome && e.outcome !== q.outcome && e.risk_level !== q.outcome) return false;
+      if (q.entity_id) {
+        const ids = q.entity_type ? [e.entities[q.entity_type]] : Object.values(e.entities);
+        if (!ids.includes(q.entity_id)) return false;
+      }
+      return true;
+    };
+
+    const found: IndexedEntry[] = [];
+    for (let i = this.index.length - 1; i >= 0 && !(q.limit && found.length >= q.limit); i--) {
+      if (matches(this.index[i])) found.push(this.index[i]);
+    }
+    if (found.length === 0) return [];
+
+    const fd = fs.openSync(this.filePath, "r");
+    try {
+      return found.map(e => {
+        const buf = Buffer.alloc(e.bytes);
+        fs.readSync(fd, buf, 0, e.bytes, e.offset);
+        return JSON.parse(buf.toString("utf8")) as AuditEntry;
+      });
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /** Recompute every hash and link from the start of the file */
+  verify(): ChainVerification {
+    let prev = GENESIS_HASH;
+    let count = 0;
+    for (const { text: line } of fileLines(this.filePath)) {
+      if (!line.trim()) continue;
+      const expectedSeq = count + 1;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        return broken(count, expectedSeq, "unparseable line", prev);
+      }
+      const { hash, ...unsigned } = entry;
+      if (entry.seq !== expectedSeq) return broken(count, expectedSeq, `expected seq ${expectedSeq}, found ${entry.seq}`, prev);
+      if (entry.prev_hash !== prev) return broken(count, entry.seq, "prev_hash does not match the previous entry", prev);
+      if (entryHash(unsigned) !== hash) return broken(count, entry.seq, "entry content does not match its hash", prev);
+      prev = hash;
+      count++;
+    }
+    return { valid: true, entries: count, broken_at_seq: null, error: null, head_hash: prev };
+  }
+}
+
+function broken(entries: number, seq: number, error: string, head: string): ChainVerification {
+  return { valid: false, entries, broken_at_seq: seq, error, head_hash: head };
+}
@@ -0,0 +1,94 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { GuardScoreAPI } from "../api/guardscore.js";
+import { TransactionLedger } from "../ledger/transaction-ledger.js";
+import { RiskPolicy, riskPolicySchema } from "../policy/risk-policy.js";
+import { logger } from "../utils/logger.js";
+import { parseCsvRecords, parseTransactionPayload, scoreTransactionBatch } from "./transaction-batch.js";
+
+describe("parseCsvRecords", () => {
+  it("handles quoted fields, doubled quotes, CRLF and blank lines", () => {
+    const csv = 'a,b\r\n"x, y","say ""hi"""\r\n\r\n"multi\nline",2';
+    expect(parseCsvRecords(csv)).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"'],
+      ["multi\nline", "2"],
+    ]);
+  });
+});
+
+describe("parseTransactionPayload", () => {
+  it("maps CSV columns to fields and numbers data rows from 1", () => {
+    const rows = parseTransactionPayload(
+      "Amount,Currency,Merchant_Category,Payment_Rail,Reference\n19.99,eur,travel,card,o-1\nabc,USD,travel,card,o-2\n",
+    );
+    expect(rows[0]).toEqual({
+      row: 1,
+      transaction: { amount: 19.99, currency: "EUR", merchant_category: "travel", payment_rail: "card", reference: "o-1" },
+    });
+    expect(rows[1].row).toBe(2);
+    expect(rows[1].error).toMatch(/^amount:/);
+  });
+
+  it("detects NDJSON and reports unparseable lines per row", () => {
+    const rows = parseTransactionPayload('{"amount":5,"merchant_category":"retail","payment_rail":"ach"}\n{oops\n');
+    expect(rows[0].transaction).toMatchObject({ amount: 5, currency: "USD" });
+    expect(rows[1]).toMatchObject({ row: 2, error: expect.stringMatching(/^Invalid JSON/) });
+  });
+});
+
+describe("scoreTransactionBatch", () => {
+  let dir: string;
+  let api: GuardScoreAPI;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "batch-"));
+    // Rules pin the actions so the summary does not depend on mock scores
+    const policy = new RiskPolicy(riskPolicySchema.parse({
+      version: "test",
+      rules: [
+        { id: "decline-gambling", match: { merchant_category: ["gambling"] }, action: "decline" },
+        { id: "review-jpy", match: { currency: ["JPY"] }, action: "review" },
+        { id: "approve-rest", action: "approve" },
+      ],
+    }), { auto_decline: 15, high_risk: 30, medium_risk: 60 });
+    api = new GuardScoreAPI(
+      { apiUrl: "http://127.0.0.1:9", apiKey: "demo" },
+      { ledger: new TransactionLedger({ filePath: path.join(dir, "ledger.ndjson") }), policy },
+    );
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reports value at risk in the base currency and per transaction currency", async () => {
+    const rows = parseTransactionPayload([
+      "amount,currency,merchant_category,payment_rail",
+      "100,EUR,gambling,card",
+      "15000,JPY,retail,card",
+      "50,USD,gambling,card",
+      "999,USD,retail,card",
+    ].join("\n"));
+
+    const { summary } = await scoreTransactionBatch(api, rows);
+    expect(summary.by_action).toEqual({ approve: 1, review: 1, decline: 2 });
+    // 100 EUR at 0.86 + 15000 JPY at 150 + 50 USD
+    expect(summary.value_at_risk).toEqual({
+      base_currency: "USD",
+      amount: 266.28,
+      by_currency: { EUR: 100, JPY: 15000, USD: 50 },
+    });
+  });
+
+  it("keeps every scored row when the progress callback rejects", async () => {
+    const warn = jest.spyOn(logger, "warn").mockImplementation(() => {});
+    const rows = parseTransactionPayload("amount,merchant_category,payment_rail\n10,retail,card\n20,retail,card\n");
+
+    const result = await scoreTransactionBatch(api, rows, {
+      onProgress: async () => { throw new Error("client disconnected"); },
+    });
+    expect(result.summary.scored).toBe(2);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("client disconnected"));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,211 @@
+import { z } from "zod";
+import { GuardScoreAPI } from "../api/guardscore.js";
+import { batchTransactionSchema } from "../schemas/schemas.js";
+import { logger } from "../utils/logger.js";
+import type {
+  BatchRowResult,
+  BatchScoringResult,
+  BatchSummary,
+  DataSource,
+  RecommendedAction,
+  RiskLevel,
+} from "../types/index.js";
+
+export type BatchTransaction = z.infer<typeof batchTransactionSchema>;
+
+/** A parsed input row: either a valid transaction or the reason it was rejected */
+export interface BatchRow {
+  row: number;
+  transaction?: BatchTransaction;
+  error?: string;
+}
+
+export interface BatchProgress {
+  completed: number;
+  total: number;
+}
+
+export interface BatchOptions {
+  /** Maximum scoring calls in flight at once (default 4) */
+  concurrency?: number;
+  onProgress?: (progress: BatchProgress) => void | Promise<void>;
+  /** Stops scheduling new rows once aborted; pending rows are reported as cancelled */
+  signal?: AbortSignal;
+}
+
+const NUMERIC_COLUMNS = new Set(["amount"]);
+
+function validateRow(row: number, raw: unknown): BatchRow {
+  const parsed = batchTransactionSchema.safeParse(raw);
+  if (parsed.success) return { row, transaction: parsed.data };
+  const issues = parsed.error.issues.map(i => `${i.path.join(".") || "row"}: ${i.message}`).join("; ");
+  return { row, error: issues };
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields, doubled quotes, CRLF).
+ */
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      if (record.some(f => f !== "")) records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  record.push(field);
+  if (record.some(f => f !== "")) records.push(record);
+  return records;
+}
+
+/**
+ * Parse an inline CSV or NDJSON payload into validated rows. Row numbers are 1-based
+ * and count data rows only (the CSV header is not a row). Invalid rows are returned
+ * with an error instead of failing the whole payload.
+ */
+export function parseTransactionPayload(payload: string, format?: "csv" | "ndjson"): BatchRow[] {
+  const detected = format ?? (payload.trimStart().startsWith("{") ? "ndjson" : "csv");
+
+  if (detected === "ndjson") {
+    return payload
+      .split(/\r?\n/)
+      .filter(line => line.trim())
+      .map((line, i) => {
+        try {
+          return validateRow(i + 1, JSON.parse(line));
+        } catch (err) {
+          return { row: i + 1, error: `Invalid JSON: ${(err as Error).message}` };
+        }
+      });
+  }
+
+  const [header, ...records] = parseCsvRecords(payload);
+  if (!header) return [];
+  const columns = header.map(h => h.trim().toLowerCase());
+
+  return records.map((record, i) => {
+    const raw: Record<string, unknown> = {};
+    columns.forEach((col, c) => {
+      const value = record[c]?.trim();
+      if (!col || value === undefined || value === "") return;
+      raw[col] = NUMERIC_COLUMNS.has(col) && !isNaN(Number(value)) ? Number(value) : value;
+    });
+    return validateRow(i + 1, raw);
+  });
+}
+
+function summarize(results: BatchRowResult[], baseCurrency: string, durationMs: number): BatchSummary {
+  const byLevel: Record<RiskLevel, number> = { low: 0, medium: 0, high: 0, critical: 0 };
+  const byAction: Record<RecommendedAction, number> = { approve: 0, review: 0, decline: 0 };
+  const bySource: Record<DataSource, number> = { live: 0, local: 0, mock: 0, cached: 0 };
+  const valueAtRisk = { base_currency: baseCurrency, amount: 0, by_currency: {} as Record<string, number> };
+  const factorCounts = new Map<string, number>();
+
+  for (const r of results) {
+    if (!r.result) continue;
+    byLevel[r.result.risk_level]++;
+    byAction[r.result.recommended_action]++;
+    bySource[r.result.provenance.source]++;
+    if (r.result.recommended_action !== "approve") {
+      // Scoring normalized every amount to the base currency, so these sum without mixing currencies
+      const { amount, currency, base_amount } = r.result.normalized_amount;
+      valueAtRisk.amount = parseFloat((valueAtRisk.amount + base_amount).toFixed(2));
+      valueAtRisk.by_currency[currency] = parseFloat(((valueAtRisk.by_currency[currency] ?? 0) + amount).toFixed(2));
+    }
+    for (const f of r.result.risk_factors) {
+      factorCounts.set(f.factor, (factorCounts.get(f.factor) ?? 0) + 1);
+    }
+  }
+
+  return {
+    total_rows: results.length,
+    scored: results.filter(r => r.status === "scored").length,
+    invalid: results.filter(r => r.status === "invalid").length,
+    failed: results.filter(r => r.status === "failed").length,
+    cancelled: results.filter(r => r.status === "cancelled").length,
+    by_risk_level: byLevel,
+    by_action: byAction,
+    value_at_risk: valueAtRisk,
+    top_risk_factors: [...factorCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .map(([factor, count]) => ({ factor, count })),
+    by_source: bySource,
+    duration_ms: durationMs,
+  };
+}
+
+/**
+ * Score many transactions through GuardScoreAPI.scoreTransaction with bounded
+ * concurrency. Results keep input order; a failing row does not stop the batch.
+ */
+export async function scoreTransactionBatch(
+  api: GuardScoreAPI,
+  rows: BatchRow[],
+  options: BatchOptions = {},
+): Promise<BatchScoringResult> {
+  const started = Date.now();
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+  const results: BatchRowResult[] = rows.map(r => ({
+    row: r.row,
+    reference: r.transaction?.reference ?? null,
+    status: r.transaction ? "cancelled" : "invalid",
+    amount: r.transaction?.amount ?? null,
+    currency: r.transaction?.currency ?? null,
+    result: null,
+    error: r.error ?? null,
+  }));
+
+  const pending = rows.map((_, i) => i).filter(i => rows[i].transaction);
+  let completed = rows.length - pending.length;
+  let next = 0;
+  logger.info("Scoring transaction batch", { rows: rows.length, valid: pending.length, concurrency });
+
+  const worker = async () => {
+    while (next < pending.length && !options.signal?.aborted) {
+      const i = pending[next++];
+      const { reference: _reference, ...transaction } = rows[i].transaction!;
+      try {
+        results[i].result = await api.scoreTransaction(transaction);
+        results[i].status = "scored";
+      } catch (err) {
+        results[i].status = "failed";
+        results[i].error = (err as Error).message;
+      }
+      completed++;
+      try {
+        await options.onProgress?.({ completed, total: rows.length });
+      } catch (err) {
+        // A failed progress notification (e.g. the client went away) must not lose the scored rows
+        logger.warn(`Batch progress notification failed: ${(err as Error).message}`);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+  return { summary: summarize(results, api.fx.base, Date.now() - started), results };
+}
@@ -0,0 +1,140 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { AgentBudgets, ReserveRequest, agentBudgetPolicySchema } from "./agent-budgets.js";
+
+const policy = (doc: Record<string, unknown> = {}) => agentBudgetPolicySchema.parse({
+  defaults: { per_transaction: 500, daily: 1000, monthly: 5000, categories: { Travel: { daily: 600 } } },
+  agents: [{ agent_id: "big", daily: 10_000 }],
+  ...doc,
+});
+
+const request = (amount: number, overrides: Partial<ReserveRequest> = {}): ReserveRequest => ({
+  agent_id: "agent_1",
+  amount,
+  original_amount: amount,
+  original_currency: "USD",
+  ...overrides,
+});
+
+const at = (iso: string) => new Date(iso);
+const NOW = at("2026-10-19T12:00:00Z");
+
+describe("AgentBudgets", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "budgets-"));
+    file = path.join(dir, "agent-budgets.json");
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reserves under every cap and refuses what would break one", () => {
+    const budgets = new AgentBudgets(policy(), file);
+    expect(budgets.reserve(request(400), null, NOW).reservation).toMatchObject({ status: "reserved", amount: 400, expires_at: "2026-10-19T12:15:00.000Z" });
+    expect(budgets.reserve(request(400), null, NOW).reservation).not.toBeNull();
+
+    const refused = budgets.reserve(request(300), null, NOW);
+    expect(refused.reservation).toBeNull();
+    expect(refused.exceeded).toEqual([{ merchant_category: null, window: "daily", limit: 1000, remaining: 200, requested: 300 }]);
+    expect(budgets.reserve(request(501, { agent_id: "agent_2" }), null, NOW).exceeded.map(e => e.window)).toEqual(["per_transaction"]);
+  });
+
+  it("applies category caps on top of the agent-wide ones and agent overrides cap by cap", () => {
+    const budgets = new AgentBudgets(policy());
+    budgets.reserve(request(400, { merchant_category: "travel" }), null, NOW);
+    expect(budgets.reserve(request(300, { merchant_category: " TRAVEL " }), null, NOW).exceeded).toEqual([
+      { merchant_category: "travel", window: "daily", limit: 600, remaining: 200, requested: 300 },
+    ]);
+    expect(budgets.reserve(request(300, { merchant_category: "food" }), null, NOW).reservation).not.toBeNull();
+
+    const big = budgets.allowances("big", null, null, NOW);
+    expect(big.map(a => [a.window, a.limit])).toEqual([["per_transaction", 500], ["daily", 10_000], ["monthly", 5000]]);
+  });
+
+  it("falls back to the verified spending limit for per-transaction and daily caps", () => {
+    const budgets = new AgentBudgets(policy({ defaults: {}, agents: [] }));
+    budgets.reserve(request(600), 1000, NOW);
+    const allowances = budgets.allowances("agent_1", null, 1000, NOW);
+    expect(allowances.map(a => [a.window, a.limit, a.limit_source, a.remaining])).toEqual([
+      ["per_transaction", 1000, "verification", 1000],
+      ["daily", 1000, "verification", 400],
+      ["monthly", null, null, null],
+    ]);
+    expect(budgets.remaining(allowances)).toBe(400);
+    expect(budgets.reserve(request(999), 1000, NOW).exceeded.map(e => e.window)).toEqual(["daily"]);
+  });
+
+  it("returns the existing reservation for a repeated reference", () => {
+    const budgets = new AgentBudgets(policy());
+    const first = budgets.reserve(request(400, { reference: "order_1" }), null, NOW).reservation!;
+    expect(budgets.reserve(request(400, { reference: "order_1" }), null, NOW).reservation).toBe(first);
+    expect(budgets.activeReservations("agent_1", NOW)).toBe(1);
+  });
+
+  it("commits a hold, for a smaller final amount when given", () => {
+    const budgets = new AgentBudgets(policy());
+    const { reservation_id } = budgets.reserve(request(400), null, NOW).reservation!;
+    const committed = budgets.commit(reservation_id, { amount: 350, original_amount: 350 }, NOW);
+    expect(committed).toMatchObject({ status: "committed", amount: 350, committed_at: NOW.toISOString() });
+    expect(budgets.allowances("agent_1", null, null, NOW)[1]).toMatchObject({ window: "daily", committed: 350, reserved: 0, remaining: 650 });
+
+    // Committing again with the same amount is a no-op; more than was reserved is refused
+    expect(budgets.commit(reservation_id, undefined, NOW)).toBe(committed);
+    const other = budgets.reserve(request(100), null, NOW).reservation!;
+    expect(() => budgets.commit(other.reservation_id, { amount: 150, original_amount: 150 }, NOW)).toThrow(/exceeds the reserved 100/);
+    expect(() => budgets.commit("rsv_missing", undefined, NOW)).toThrow('Unknown reservation "rsv_missing"');
+  });
+
+  it("releases a hold back into the budget but never committed spend", () => {
+    const budgets = new AgentBudgets(policy());
+    const held = budgets.reserve(request(400), null, NOW).reservation!;
+    expect(budgets.release(held.reservation_id, NOW)).toMatchObject({ status: "released", released_at: NOW.toISOString() });
+    expect(budgets.release(held.reservation_id, NOW).status).toBe("released");
+    expect(budgets.allowances("agent_1", null, null, NOW)[1].remaining).toBe(1000);
+    expect(() => budgets.commit(held.reservation_id, undefined, NOW)).toThrow(/is released and cannot be committed/);
+
+    const spent = budgets.reserve(request(400), null, NOW).reservation!;
+    budgets.commit(spent.reservation_id, undefined, NOW);
+    expect(() => budgets.release(spent.reservation_id, NOW)).toThrow(/already committed/);
+  });
+
+  it("lets a reservation lapse after its hold expires", () => {
+    const budgets = new AgentBudgets(policy());
+    const held = budgets.reserve(request(400, { ttl_seconds: 60 }), null, NOW).reservation!;
+    const later = at("2026-10-19T12:01:00Z");
+    expect(budgets.get(held.reservation_id, later)!.status).toBe("expired");
+    expect(budgets.allowances("agent_1", null, null, later)[1]).toMatchObject({ reserved: 0, remaining: 1000 });
+    expect(budgets.activeReservations("agent_1", later)).toBe(0);
+    expect(() => budgets.commit(held.reservation_id, undefined, later)).toThrow(/is expired/);
+    expect(budgets.release(held.reservation_id, later).status).toBe("expired");
+  });
+
+  it("counts spend toward the UTC day and month it was reserved in", () => {
+    const budgets = new AgentBudgets(policy());
+    budgets.commit(budgets.reserve(request(500), null, at("2026-10-18T23:00:00Z")).reservation!.reservation_id, undefined, at("2026-10-18T23:00:00Z"));
+    const [, daily, monthly] = budgets.allowances("agent_1", null, null, NOW);
+    expect(daily).toMatchObject({ committed: 0, resets_at: "2026-10-20T00:00:00.000Z" });
+    expect(monthly).toMatchObject({ committed: 500, remaining: 4500, resets_at: "2026-11-01T00:00:00.000Z" });
+    expect(budgets.allowances("agent_1", null, null, at("2026-11-01T00:00:00Z"))[2].committed).toBe(0);
+  });
+
+  it("persists reservations and drops settled ones from past months", () => {
+    const budgets = new AgentBudgets(policy(), file);
+    const old = budgets.reserve(request(100), null, at("2026-09-30T12:00:00Z")).reservation!;
+    budgets.commit(old.reservation_id, undefined, at("2026-09-30T12:00:00Z"));
+    const current = budgets.reserve(request(200), null, NOW).reservation!;
+
+    const reopened = new AgentBudgets(policy(), file);
+    expect(reopened.get(old.reservation_id)).toBeUndefined();
+    expect(reopened.get(current.reservation_id, NOW)).toMatchObject({ status: "reserved", amount: 200 });
+  });
+
+  it("reports invalid policy files by path", () => {
+    const policyFile = path.join(dir, "budgets.yaml");
+    fs.writeFileSync(policyFile, "agents:\n  - agent_id: a\n  - agent_id: a\n");
+    expect(() => AgentBudgets.load(policyFile)).toThrow(/Invalid agent budget policy .* agents\.1\.agent_id: Duplicate agent_id "a"/);
+  });
+});
@@ -0,0 +1,309 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import YAML from "yaml";
+import { logger } from "../utils/logger.js";
+import type {
+  BudgetAllowance,
+  BudgetExceedance,
+  BudgetLimitSource,
+  BudgetReservation,
+  BudgetWindow,
+} from "../types/index.js";
+
+const capsSchema = z.object({
+  per_transaction: z.number().positive().optional(),
+  daily: z.number().positive().optional(),
+  monthly: z.number().positive().optional(),
+}).strict();
+
+const capSetSchema = capsSchema.extend({
+  /** Caps on spend within one merchant category, on top of the agent-wide caps */
+  categories: z.record(z.string().min(1), capsSchema).optional(),
+});
+
+export const agentBudgetPolicySchema = z.object({
+  /** How long a reservation holds budget before it lapses uncommitted */
+  reservation_ttl_seconds: z.number().int().min(1).max(7 * 86_400).default(900),
+  defaults: capSetSchema.strict().default({}),
+  agents: z.array(capSetSchema.extend({ agent_id: z.string().min(1) }).strict()).default([]),
+}).strict().superRefine((doc, ctx) => {
+  const seen = new Set<string>();
+  doc.agents.forEach((agent, i) => {
+    if (seen.has(agent.agent_id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["agents", i, "agent_id"], message: `Duplicate agent_id "${agent.agent_id}"` });
+    }
+    seen.add(agent.agent_id);
+  });
+});
+
+export type AgentBudgetPolicy = z.infer<typeof agentBudgetPolicySchema>;
+type Caps = z.infer<typeof capsSchema>;
+type CapSet = z.infer<typeof capSetSchema>;
+
+interface Cap {
+  merchant_category: string | null;
+  window: BudgetWindow;
+  limit: number | null;
+  limit_source: BudgetLimitSource;
+}
+
+export interface ReserveRequest {
+  agent_id: string;
+  reference?: string;
+  /** In the base currency */
+  amount: number;
+  original_amount: number;
+  original_currency: string;
+  merchant_category?: string;
+  merchant_id?: string;
+  ttl_seconds?: number;
+}
+
+const WINDOWS: BudgetWindow[] = ["per_transaction", "daily", "monthly"];
+
+const round = (n: number) => parseFloat(n.toFixed(2));
+const category = (c: string | undefined | null) => (c ? c.trim().toLowerCase() : null);
+
+function windowStart(window: BudgetWindow, now: Date): Date | null {
+  if (window === "daily") return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (window === "monthly") return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return null;
+}
+
+function windowEnd(window: BudgetWindow, now: Date): Date | null {
+  if (window === "daily") return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  if (window === "monthly") return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return null;
+}
+
+/**
+ * Per-agent spending budgets.
+ *
+ * Caps per transaction, per UTC day and per UTC month, agent-wide and per merchant
+ * category, come from the budget policy; an agent override replaces the default
+ * cap by cap. Where the policy sets no agent-wide per-transaction or daily cap, the
+ * agent's verified spending_limit fills in for both, so an agent with a 1,000 limit
+ * cannot spend it again on every purchase. Spend is reserved before a payment,
+ * then committed or released; reservations and commits are persisted to a JSON
+ * file and count against the window they were reserved in. All amounts are in the
+ * FX table's base currency.
+ */
+export class AgentBudgets {
+  readonly reservationTtlSeconds: number;
+  private readonly defaults: CapSet;
+  private readonly agents: Map<string, CapSet>;
+  private readonly filePath: string | null;
+  private readonly reservations = new Map<string, BudgetReservation>();
+
+  constructor(policy: AgentBudgetPolicy, filePath: string | null = null) {
+    this.reservationTtlSeconds = policy.reservation_ttl_seconds;
+    this.defaults = policy.defaults;
+    this.agents = new Map(policy.agents.map(({ agent_id, ...caps }) => [agent_id, caps]));
+    this.filePath = filePath;
+    this.load();
+  }
+
+  /**
+   * Load and validate a budget policy file (JSON or YAML). Without a file, only
+   * verified spending limits cap agents. Invalid files throw so the server refuses to start.
+   */
+  static load(policyFile: string | undefined, filePath: string | null = null): AgentBudgets {
+    if (!policyFile) return new AgentBudgets(agentBudgetPolicySchema.parse({}), filePath);
+
+    const raw = fs.readFileSync(policyFile, "utf8");
+    const ext = path.extname(policyFile).toLowerCase();
+    const parsed: unknown = ext === ".yaml" || ext === ".yml" ? YAML.parse(raw) : JSON.parse(raw);
+    const result = agentBudgetPolicySchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+      throw new Error(`Invalid agent budget policy ${policyFile} — ${issues}`);
+    }
+
+    const budgets = new AgentBudgets(result.data, filePath);
+    logger.info(`Agent budget policy loaded with ${budgets.agents.size} agent override(s) from ${policyFile}`);
+    return budgets;
+  }
+
+  private load() {
+    if (!this.filePath) return;
+    if (!fs.existsSync(this.filePath)) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      return;
+    }
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as BudgetReservation[];
+      for (const r of saved) this.reservations.set(r.reservation_id, r);
+      logger.info(`Agent budget reservations loaded (${this.reservations.size}) from ${this.filePath}`);
+    } catch (err) {
+      logger.warn(`Agent budget file ${this.filePath} is unreadable, starting empty: ${(err as Error).message}`);
+    }
+  }
+
+  private save(now: Date) {
+    // Nothing before this month counts toward any window; keep reservations that can still be committed
+    const monthStart = windowStart("monthly", now)!.toISOString();
+    for (const [id, r] of this.reservations) {
+      if (r.created_at < monthStart && this.refresh(r, now).status !== "reserved") this.reservations.delete(id);
+    }
+    if (!this.filePath) return;
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify([...this.reservations.values()]));
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  /** Mark a reservation expired once its hold has lapsed */
+  private refresh(r: BudgetReservation, now: Date): BudgetReservation {
+    if (r.status === "reserved" && Date.parse(r.expires_at) <= now.getTime()) r.status = "expired";
+    return r;
+  }
+
+  private caps(agentId: string, merchantCategory: string | null, verifiedLimit: number | null): Cap[] {
+    const agent = this.agents.get(agentId) ?? {};
+    const pick = (window: BudgetWindow, own: Caps | undefined, fallback: Caps | undefined) => own?.[window] ?? fallback?.[window];
+
+    const caps: Cap[] = WINDOWS.map(window => {
+      const configured = pick(window, agent, this.defaults);
+      if (configured !== undefined) return { merchant_category: null, window, limit: configured, limit_source: "policy" };
+      if (window !== "monthly" && verifiedLimit !== null) {
+        return { merchant_category: null, window, limit: verifiedLimit, limit_source: "verification" };
+      }
+      return { merchant_category: null, window, limit: null, limit_source: null };
+    });
+
+    if (merchantCategory) {
+      const find = (set: CapSet) => Object.entries(set.categories ?? {}).find(([c]) => category(c) === merchantCategory)?.[1];
+      const own = find(agent);
+      const fallback = find(this.defaults);
+      for (const window of WINDOWS) {
+        const limit = pick(window, own, fallback);
+        if (limit !== undefined) caps.push({ merchant_category: merchantCategory, window, limit, limit_source: "policy" });
+      }
+    }
+    return caps;
+  }
+
+  private spend(agentId: string, merchantCategory: string | null, window: BudgetWindow, now: Date): { committed: number; reserved: number } {
+    const start = windowStart(window, now);
+    let committed = 0;
+    let reserved = 0;
+    if (!start) return { committed, reserved };
+    for (const r of this.reservations.values()) {
+      if (r.agent_id !== agentId || Date.parse(r.created_at) < start.getTime()) continue;
+      if (merchantCategory && r.merchant_category !== merchantCategory) continue;
+      const status = this.refresh(r, now).status;
+      if (status === "committed") committed += r.amount;
+      else if (status === "reserved") reserved += r.amount;
+    }
+    return { committed: round(committed), reserved: round(reserved) };
+  }
+
+  /** Every cap that applies to the agent (and category), with what is left under each */
+  allowances(agentId: string, merchantCategory: string | null | undefined, verifiedLimit: number | null, now = new Date()): BudgetAllowance[] {
+    const cat = category(merchantCategory);
+    return this.caps(agentId, cat, verifiedLimit).map(cap => {
+      const { committed, reserved } = this.spend(agentId, cap.merchant_category, cap.window, now);
+      return {
+        ...cap,
+        committed,
+        reserved,
+        remaining: cap.limit === null ? null : round(Math.max(0, cap.limit - committed - reserved)),
+        resets_at: windowEnd(cap.window, now)?.toISOString() ?? null,
+      };
+    });
+  }
+
+  /** The caps an amount would break; empty when it fits */
+  check(allowances: BudgetAllowance[], amount: number): BudgetExceedance[] {
+    return allowances
+      .filter(a => a.remaining !== null && amount > a.remaining)
+      .map(a => ({ merchant_category: a.merchant_category, window: a.window, limit: a.limit!, remaining: a.remaining!, requested: amount }));
+  }
+
+  /** Smallest remaining allowance, i.e. the most one transaction can spend; null when uncapped */
+  remaining(allowances: BudgetAllowance[]): number | null {
+    const capped = allowances.filter(a => a.remaining !== null).map(a => a.remaining!);
+    return capped.length > 0 ? Math.min(...capped) : null;
+  }
+
+  activeReservations(agentId: string, now = new Date()): number {
+    return [...this.reservations.values()].filter(r => r.agent_id === agentId && this.refresh(r, now).status === "reserved").length;
+  }
+
+  get(reservationId: string, now = new Date()): BudgetReservation | undefined {
+    const r = this.reservations.get(reservationId);
+    return r ? this.refresh(r, now) : undefined;
+  }
+
+  /**
+   * Hold an amount against the agent's budget if it fits under every cap. A
+   * reference already reserved or committed for the agent returns that reservation
+   * instead of holding the amount twice.
+   */
+  reserve(req: ReserveRequest, verifiedLimit: number | null, now = new Date()): { reservation: BudgetReservation | null; exceeded: BudgetExceedance[] } {
+    if (req.reference) {
+      const existing = [...this.reservations.values()].find(r =>
+        r.agent_id === req.agent_id && r.reference === req.reference && ["reserved", "committed"].includes(this.refresh(r, now).status));
+      if (existing) return { reservation: existing, exceeded: [] };
+    }
+
+    const exceeded = this.check(this.allowances(req.agent_id, req.merchant_category, verifiedLimit, now), req.amount);
+    if (exceeded.length > 0) return { reservation: null, exceeded };
+
+    const ttl = req.ttl_seconds ?? this.reservationTtlSeconds;
+    const reservation: BudgetReservation = {
+      reservation_id: `rsv_${randomUUID()}`,
+      agent_id: req.agent_id,
+      reference: req.reference ?? null,
+      amount: req.amount,
+      original_amount: req.original_amount,
+      original_currency: req.original_currency,
+      merchant_category: category(req.merchant_category),
+      merchant_id: req.merchant_id ?? null,
+      status: "reserved",
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttl * 1000).toISOString(),
+      committed_at: null,
+      released_at: null,
+    };
+    this.reservations.set(reservation.reservation_id, reservation);
+    this.save(now);
+    return { reservation, exceeded: [] };
+  }
+
+  /**
+   * Turn a hold into spend, optionally for a smaller final amount. Committing an
+   * already committed reservation with the same amount is a no-op.
+   */
+  commit(reservationId: string, final: { amount: number; original_amount: number } | undefined, now = new Date()): BudgetReservation {
+    const r = this.get(reservationId, now);
+    if (!r) throw new Error(`Unknown reservation "${reservationId}"`);
+    if (r.status === "committed" && (!final || final.original_amount === r.original_amount)) return r;
+    if (r.status !== "reserved") throw new Error(`Reservation ${reservationId} is ${r.status} and cannot be committed`);
+    if (final && final.original_amount > r.original_amount) {
+      throw new Error(`Commit amount ${final.original_amount} ${r.original_currency} exceeds the reserved ${r.original_amount} — reserve the difference separately`);
+    }
+    if (final) {
+      r.amount = final.amount;
+      r.original_amount = final.original_amount;
+    }
+    r.status = "committed";
+    r.committed_at = now.toISOString();
+    this.save(now);
+    return r;
+  }
+
+  /** Give a hold back; releasing a released or expired reservation is a no-op */
+  release(reservationId: string, now = new Date()): BudgetReservation {
+    const r = this.get(reservationId, now);
+    if (!r) throw new Error(`Unknown reservation "${reservationId}"`);
+    if (r.status === "released" || r.status === "expired") return r;
+    if (r.status === "committed") throw new Error(`Reservation ${reservationId} is already committed — spend cannot be released`);
+    r.status = "released";
+    r.released_at = now.toISOString();
+    this.save(now);
+    return r;
+  }
+}
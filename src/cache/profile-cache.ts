@@ -0,0 +1,93 @@
+import type { AgentVerification, MerchantProfile, Provenance, VAMPAnalysis } from "../types/index.js";
+
+export type ProfileKind = "merchant" | "agent" | "vamp";
+
+interface ProfileData {
+  merchant: MerchantProfile;
+  agent: AgentVerification;
+  vamp: VAMPAnalysis;
+}
+
+export interface CachedProfile<K extends ProfileKind = ProfileKind> {
+  kind: K;
+  id: string;
+  uri: string;
+  data: ProfileData[K];
+  cached_at: number;
+}
+
+export interface ProfileChange {
+  uri: string;
+  kind: ProfileKind;
+  id: string;
+  /** Watched fields before and after, e.g. { risk_level: "medium", vamp_status: "standard" } */
+  previous: Record<string, string>;
+  current: Record<string, string>;
+}
+
+/** Fields whose change makes a profile "updated" for resource subscribers */
+const WATCHED_FIELDS: { [K in ProfileKind]: Array<keyof ProfileData[K]> } = {
+  merchant: ["risk_level", "vamp_status"],
+  agent: ["verification_status"],
+  vamp: ["vamp_status"],
+};
+
+export function profileUri(kind: ProfileKind, id: string): string {
+  return `guardscore://${kind}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Recently seen merchant, agent and VAMP results, most recent last. Backs MCP
+ * resource listing and reads, and reports when a re-fetched profile's risk level,
+ * verification status or VAMP status differs from the cached one.
+ */
+export class ProfileCache {
+  private readonly entries = new Map<string, CachedProfile>();
+  private readonly listeners = new Set<(change: ProfileChange) => void>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  record<K extends ProfileKind>(kind: K, id: string, data: ProfileData[K]): void {
+    const uri = profileUri(kind, id);
+    const previous = this.entries.get(uri) as CachedProfile<K> | undefined;
+    this.entries.delete(uri);
+    this.entries.set(uri, { kind, id, uri, data, cached_at: Date.now() } as CachedProfile);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+
+    if (!previous) return;
+    const before = watched(kind, previous.data);
+    const after = watched(kind, data);
+    if (Object.keys(after).some(field => after[field] !== before[field])) {
+      for (const listener of this.listeners) listener({ uri, kind, id, previous: before, current: after });
+    }
+  }
+
+  get<K extends ProfileKind>(kind: K, id: string): CachedProfile<K> | undefined {
+    return this.entries.get(profileUri(kind, id)) as CachedProfile<K> | undefined;
+  }
+
+  /** Cached profiles of one kind, most recently seen first */
+  list<K extends ProfileKind>(kind: K): Array<CachedProfile<K>> {
+    return [...this.entries.values()].filter(e => e.kind === kind).reverse() as Array<CachedProfile<K>>;
+  }
+
+  /** Register a change listener; returns a function that removes it */
+  onChange(listener: (change: ProfileChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+function watched<K extends ProfileKind>(kind: K, data: ProfileData[K]): Record<string, string> {
+  return Object.fromEntries(WATCHED_FIELDS[kind].map(field => [field, String(data[field])]));
+}
+
+/** A cached copy of a live result is reported as "cached"; mock and local results keep their source */
+export function cachedProvenance(provenance: Provenance): Provenance {
+  return provenance.source === "live" ? { ...provenance, source: "cached" } : provenance;
+}
@@ -0,0 +1,78 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { NetworkComplianceRequest, assessNetworkCompliance } from "./network-compliance.js";
+import { GuardScoreAPI } from "../api/guardscore.js";
+import { TransactionLedger } from "../ledger/transaction-ledger.js";
+import { RiskPolicy } from "../policy/risk-policy.js";
+import { networkComplianceSchema } from "../schemas/schemas.js";
+
+const request = (record: Record<string, unknown>): NetworkComplianceRequest => networkComplianceSchema.parse({ merchant_id: "m1", ...record });
+
+describe("assessNetworkCompliance", () => {
+  let dir: string;
+  let api: GuardScoreAPI;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "compliance-"));
+    api = new GuardScoreAPI(
+      { apiUrl: "https://api.example.test", apiKey: "demo", upstream: { retries: 0 } },
+      {
+        ledger: new TransactionLedger({ filePath: path.join(dir, "ledger.ndjson") }),
+        policy: RiskPolicy.load(undefined, { auto_decline: 15, high_risk: 30, medium_risk: 60 }),
+      },
+    );
+    const vamp = await api.analyzeVAMP({ merchant_id: "m1" });
+    jest.spyOn(api, "analyzeVAMP").mockResolvedValue({
+      ...vamp,
+      vamp_status: "monitored",
+      fraud_rate: 1.2,
+      visa_threshold_distance: 0.3,
+      recommended_actions: ["Enroll in Visa RDR"],
+      provenance: { ...vamp.provenance, source: "live", fallback_reason: null },
+    });
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reports each network's programs side by side, the worst standing overall", async () => {
+    const view = await assessNetworkCompliance(api, request({
+      mastercard: {
+        chargeback_count: 160,
+        previous_month_transactions: 10_000,
+        ecommerce_transactions: 5000,
+        fraud_amount: 60_000,
+        sales_amount: 2_000_000,
+        three_ds_coverage_pct: 20,
+      },
+    }));
+    expect(view.programs.map(p => [p.network, p.program, p.status, p.standing, p.threshold_pct])).toEqual([
+      ["visa", "VAMP", "monitored", "warning", 1.5],
+      ["mastercard", "ECM", "ecm", "in_program", 3],
+      ["mastercard", "EFM", "standard", "warning", 0.5],
+    ]);
+    expect(view.overall_standing).toBe("in_program");
+    expect(view.recommended_actions[0]).toBe("Enroll in Visa RDR");
+    expect(view.provenance).toMatchObject({ source: "local", fallback_reason: null });
+  });
+
+  it("leaves Mastercard programs unassessed without figures, and Visa when its analysis fails", async () => {
+    const view = await assessNetworkCompliance(api, request({}));
+    expect(view.programs.filter(p => p.network === "mastercard").map(p => [p.standing, p.detail])).toEqual([
+      ["not_assessed", "No Mastercard figures supplied"],
+      ["not_assessed", "No Mastercard figures supplied"],
+    ]);
+    expect(view.overall_standing).toBe("warning");
+
+    jest.spyOn(api, "analyzeVAMP").mockRejectedValue(new Error("VAMP data unavailable"));
+    const failed = await assessNetworkCompliance(api, request({}));
+    expect(failed.programs[0]).toMatchObject({ program: "VAMP", standing: "not_assessed", detail: "VAMP analysis failed: VAMP data unavailable" });
+    expect(failed.overall_standing).toBe("not_assessed");
+  });
+
+  it("rejects Mastercard amounts the currency cannot represent", async () => {
+    await expect(assessNetworkCompliance(api, request({
+      mastercard: { chargeback_count: 1, previous_month_transactions: 100, ecommerce_transactions: 10, fraud_amount: 10.5, sales_amount: 1000, currency: "JPY" },
+    }))).rejects.toThrow(/JPY has no minor units/);
+  });
+});
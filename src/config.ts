@@ -0,0 +1,74 @@
+import type { MerchantGuardMCPConfig } from "./merchantguard-mcp-server.js";
+import type { EndpointPolicy } from "./api/upstream-client.js";
+
+function intEnv(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name];
+  if (value === undefined || value === "") return fallback;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed)) throw new Error(`${name} must be an integer (got "${value}")`);
+  return parsed;
+}
+
+function boolEnv(env: NodeJS.ProcessEnv, name: string): boolean {
+  return ["1", "true", "yes"].includes((env[name] || "").toLowerCase());
+}
+
+function jsonEnv<T>(env: NodeJS.ProcessEnv, name: string): T | undefined {
+  const value = env[name];
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch (err) {
+    throw new Error(`${name} is not valid JSON: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Build the server configuration from environment variables.
+ * Shared by the HTTP and stdio entry points; see .env.example for the full list.
+ */
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): MerchantGuardMCPConfig {
+  return {
+    name: "merchantguard-mcp",
+    version: "1.0.0",
+    apiUrl: env.MERCHANTGUARD_API_URL || "https://api.merchantguard.ai/v1",
+    apiKey: env.MERCHANTGUARD_API_KEY || "demo",
+    highRiskThreshold: intEnv(env, "GUARDSCORE_HIGH_RISK_THRESHOLD", 30),
+    mediumRiskThreshold: intEnv(env, "GUARDSCORE_MEDIUM_RISK_THRESHOLD", 60),
+    autoDeclineThreshold: intEnv(env, "GUARDSCORE_AUTO_DECLINE_THRESHOLD", 15),
+    policyFile: env.GUARDSCORE_POLICY_FILE,
+    fxRatesFile: env.MERCHANTGUARD_FX_RATES_FILE,
+    agentBudgetsFile: env.MERCHANTGUARD_AGENT_BUDGETS_FILE,
+    alertsFile: env.MERCHANTGUARD_ALERTS_FILE,
+    walletListsFile: env.MERCHANTGUARD_WALLET_LISTS_FILE,
+    watchlistsFile: env.MERCHANTGUARD_WATCHLISTS_FILE,
+    authorizationTokens: {
+      signingKeyFile: env.MERCHANTGUARD_TAT_SIGNING_KEY_FILE,
+      hmacSecret: env.MERCHANTGUARD_TAT_HMAC_SECRET,
+      ttlSeconds: intEnv(env, "MERCHANTGUARD_TAT_TTL_SECONDS", 300),
+    },
+    oprfLocalSeed: env.MERCHANTGUARD_OPRF_LOCAL_SEED,
+    strict: boolEnv(env, "MERCHANTGUARD_STRICT"),
+    dataDir: env.MERCHANTGUARD_DATA_DIR || "data",
+    ledgerRetentionDays: intEnv(env, "MERCHANTGUARD_LEDGER_RETENTION_DAYS", 90),
+    resourceCacheTtlMs: intEnv(env, "MERCHANTGUARD_RESOURCE_CACHE_TTL_MS", 60_000),
+    upstream: {
+      timeoutMs: intEnv(env, "MERCHANTGUARD_TIMEOUT_MS", 5000),
+      retries: intEnv(env, "MERCHANTGUARD_RETRIES", 2),
+      retryBaseDelayMs: intEnv(env, "MERCHANTGUARD_RETRY_BASE_DELAY_MS", 200),
+      retryMaxDelayMs: intEnv(env, "MERCHANTGUARD_RETRY_MAX_DELAY_MS", 5000),
+      breakerFailureThreshold: intEnv(env, "MERCHANTGUARD_BREAKER_FAILURE_THRESHOLD", 5),
+      breakerCooldownMs: intEnv(env, "MERCHANTGUARD_BREAKER_COOLDOWN_MS", 30_000),
+      endpoints: jsonEnv<Record<string, Partial<EndpointPolicy>>>(env, "MERCHANTGUARD_ENDPOINT_POLICIES"),
+    },
+    limits: {
+      ratePerMinute: intEnv(env, "MERCHANTGUARD_RATE_LIMIT_PER_MINUTE", 120),
+      burst: intEnv(env, "MERCHANTGUARD_RATE_LIMIT_BURST", 30),
+      toolRatePerMinute: jsonEnv<Record<string, number>>(env, "MERCHANTGUARD_TOOL_RATE_LIMITS") ?? {
+        guardscore_batch_transaction_risk: 6,
+      },
+      dailyQuota: intEnv(env, "MERCHANTGUARD_DAILY_QUOTA", 0),
+      monthlyQuota: intEnv(env, "MERCHANTGUARD_MONTHLY_QUOTA", 0),
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { decidePrepayment, PrepaymentRequest } from "./prepayment-decision.js";
+import { GuardScoreAPI } from "../api/guardscore.js";
+import { TransactionLedger } from "../ledger/transaction-ledger.js";
+import { RiskPolicy } from "../policy/risk-policy.js";
+import { prepaymentDecisionSchema } from "../schemas/schemas.js";
+import type { AgentVerification, DisputePrediction, MerchantProfile, Provenance, TransactionRiskResult } from "../types/index.js";
+
+const request = (overrides: Partial<PrepaymentRequest> = {}): PrepaymentRequest => prepaymentDecisionSchema.parse({
+  amount: 40,
+  merchant_category: "retail",
+  payment_rail: "card",
+  agent_id: "agent-1",
+  merchant_id: "m1",
+  ...overrides,
+});
+
+const provenance = (source: Provenance["source"], fallback_reason: string | null = null): Provenance => ({
+  source,
+  endpoint: null,
+  latency_ms: null,
+  fallback_reason,
+  retrieved_at: new Date().toISOString(),
+});
+
+describe("decidePrepayment", () => {
+  let dir: string;
+  let api: GuardScoreAPI;
+  let agent: AgentVerification;
+  let merchant: MerchantProfile;
+  let transaction: TransactionRiskResult;
+  let dispute: DisputePrediction;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "prepayment-"));
+    api = new GuardScoreAPI(
+      { apiUrl: "https://api.example.test", apiKey: "demo", upstream: { retries: 0 } },
+      {
+        ledger: new TransactionLedger({ filePath: path.join(dir, "ledger.ndjson") }),
+        policy: RiskPolicy.load(undefined, { auto_decline: 15, high_risk: 30, medium_risk: 60 }),
+      },
+    );
+    // Start every check from a clean, live pass; each test degrades one of them
+    const base = await api.verifyAgent({ agent_id: "agent-1", requesting_action: "purchase" });
+    agent = {
+      ...base,
+      verification_status: "verified",
+      authorization_level: "standard",
+      spending_limit: 500,
+      spending_limit_currency: "USD",
+      anomaly_flags: [],
+      budget: { ...base.budget, exceeded: [] },
+      provenance: provenance("live"),
+    };
+    merchant = {
+      ...(await api.lookupMerchant({ merchant_id: "m1" })),
+      guardscore: 85,
+      risk_level: "low",
+      verification_status: "verified",
+      vamp_status: "standard",
+      watchlist_hits: [],
+      screened_name: null,
+      provenance: provenance("live"),
+    };
+    transaction = {
+      ...(await api.scoreTransaction({ amount: 40, currency: "USD", merchant_category: "retail", payment_rail: "card" })),
+      risk_score: 90,
+      risk_level: "low",
+      recommended_action: "approve",
+      provenance: provenance("live"),
+    };
+    dispute = {
+      ...(await api.predictDispute({ transaction_amount: 40, merchant_category: "retail", payment_rail: "card" })),
+      dispute_probability: 0.05,
+      predicted_dispute_type: null,
+      risk_level: "low",
+      provenance: provenance("live"),
+    };
+    jest.spyOn(api, "verifyAgent").mockImplementation(async () => agent);
+    jest.spyOn(api, "lookupMerchant").mockImplementation(async () => merchant);
+    jest.spyOn(api, "scoreTransaction").mockImplementation(async () => transaction);
+    jest.spyOn(api, "predictDispute").mockImplementation(async () => dispute);
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("approves when every check passes", async () => {
+    const decision = await decidePrepayment(api, request());
+    expect(decision).toMatchObject({
+      recommended_action: "approve",
+      rationale: "Transaction scored 90, low risk: approve.",
+      live_checks: ["agent", "merchant", "transaction", "dispute"],
+      mock_checks: [],
+      provenance: { source: "live", fallback_reason: null },
+    });
+  });
+
+  it("lets the most severe check win", async () => {
+    dispute = { ...dispute, dispute_probability: 0.7 };
+    merchant = { ...merchant, verification_status: "suspended" };
+    const decision = await decidePrepayment(api, request());
+    expect(decision.recommended_action).toBe("decline");
+    expect(decision.rationale).toBe("Merchant m1 is suspended.");
+    expect(decision.reasons.map(r => [r.check, r.action])).toEqual([
+      ["merchant", "decline"],
+      ["transaction", "approve"],
+      ["dispute", "review"],
+    ]);
+  });
+
+  it("compares the amount with the spending limit in the limit's currency", async () => {
+    // ¥50,000 is within a 500 USD limit and ¥100,000 is not
+    const decision = await decidePrepayment(api, request({ amount: 100000, currency: "JPY" }));
+    expect(decision.recommended_action).toBe("decline");
+    expect(decision.rationale).toMatch(/^Amount 100000 JPY \([\d.]+ USD\) exceeds the agent's spending limit of 500 USD\.$/);
+
+    const within = await decidePrepayment(api, request({ amount: 50000, currency: "JPY" }));
+    expect(within.recommended_action).toBe("approve");
+  });
+
+  it("sends the payment to review when a check fails", async () => {
+    jest.spyOn(api, "predictDispute").mockRejectedValue(new Error("model offline"));
+    const decision = await decidePrepayment(api, request());
+    expect(decision.recommended_action).toBe("review");
+    expect(decision.rationale).toBe("dispute check unavailable: model offline.");
+    expect(decision.checks.find(c => c.check === "dispute")).toMatchObject({ status: "failed", error: "model offline" });
+    expect(decision.dispute).toBeNull();
+  });
+
+  it("skips the merchant check when no merchant is identified", async () => {
+    const decision = await decidePrepayment(api, request({ merchant_id: undefined }));
+    expect(api.lookupMerchant).not.toHaveBeenCalled();
+    expect(decision.checks.find(c => c.check === "merchant")).toMatchObject({ status: "skipped", source: null });
+    expect(decision).toMatchObject({ recommended_action: "approve", merchant: null });
+  });
+
+  it("reports the decision as mock when any check fell back", async () => {
+    merchant = { ...merchant, provenance: provenance("mock", "UPSTREAM_TIMEOUT: no response after 5000ms") };
+    transaction = { ...transaction, provenance: provenance("local") };
+    const decision = await decidePrepayment(api, request());
+    expect(decision).toMatchObject({
+      live_checks: ["agent", "dispute"],
+      mock_checks: ["merchant"],
+      provenance: { source: "mock", fallback_reason: "merchant: UPSTREAM_TIMEOUT: no response after 5000ms" },
+    });
+  });
+
+  it("rejects an amount the currency cannot represent before running any check", async () => {
+    await expect(decidePrepayment(api, request({ amount: 10.5, currency: "JPY" }))).rejects.toThrow();
+    expect(api.verifyAgent).not.toHaveBeenCalled();
+    expect(api.scoreTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,214 @@
+import { z } from "zod";
+import { GuardScoreAPI } from "../api/guardscore.js";
+import { FxRates } from "../fx/fx-rates.js";
+import { prepaymentDecisionSchema } from "../schemas/schemas.js";
+import { logger } from "../utils/logger.js";
+import type {
+  AgentVerification,
+  DecisionReason,
+  DisputePrediction,
+  MerchantProfile,
+  PrepaymentCheck,
+  PrepaymentCheckStatus,
+  PrepaymentDecision,
+  Provenance,
+  RecommendedAction,
+  TransactionRiskResult,
+} from "../types/index.js";
+
+export type PrepaymentRequest = z.infer<typeof prepaymentDecisionSchema>;
+
+const SEVERITY: Record<RecommendedAction, number> = { approve: 0, review: 1, decline: 2 };
+
+/** Dispute probability at or above which a payment goes to review */
+const DISPUTE_REVIEW_PROBABILITY = 0.5;
+
+function checkStatus(check: PrepaymentCheck, outcome: PromiseSettledResult<{ provenance: Provenance }> | null): PrepaymentCheckStatus {
+  if (!outcome) return { check, status: "skipped", source: null, fallback_reason: null, error: null };
+  if (outcome.status === "rejected") {
+    return { check, status: "failed", source: null, fallback_reason: null, error: (outcome.reason as Error).message };
+  }
+  const { provenance } = outcome.value;
+  return { check, status: "completed", source: provenance.source, fallback_reason: provenance.fallback_reason, error: null };
+}
+
+function agentReasons(agent: AgentVerification, req: PrepaymentRequest, fx: FxRates): DecisionReason[] {
+  const reasons: DecisionReason[] = [];
+  const add = (action: RecommendedAction, reason: string) => reasons.push({ check: "agent", action, reason });
+
+  if (agent.verification_status === "suspended" || agent.verification_status === "revoked") {
+    add("decline", `Agent ${agent.agent_id} is ${agent.verification_status}`);
+  } else if (agent.verification_status !== "verified") {
+    add("review", `Agent ${agent.agent_id} is ${agent.verification_status}, not verified`);
+  }
+  if (agent.authorization_level === "none") {
+    add("decline", `Agent ${agent.agent_id} has no payment authorization`);
+  }
+  // Compare in the limit's currency so a JPY payment is checked against a USD limit
+  let amountInLimitCurrency: number | null = null;
+  try {
+    amountInLimitCurrency = fx.convert(req.amount, req.currency, agent.spending_limit_currency);
+  } catch (err) {
+    add("review", `Agent spending limit is in ${agent.spending_limit_currency} and could not be compared: ${(err as Error).message}`);
+  }
+  if (amountInLimitCurrency !== null && amountInLimitCurrency > agent.spending_limit) {
+    const converted = req.currency.toUpperCase() === agent.spending_limit_currency.toUpperCase()
+      ? ""
+      : ` (${amountInLimitCurrency} ${agent.spending_limit_currency})`;
+    add("decline", `Amount ${req.amount} ${req.currency}${converted} exceeds the agent's spending limit of ${agent.spending_limit} ${agent.spending_limit_currency}`);
+  }
+  for (const e of agent.budget.exceeded) {
+    const scope = e.merchant_category ? ` for ${e.merchant_category}` : "";
+    add("decline", e.window === "per_transaction"
+      ? `Amount exceeds the agent's per-transaction budget${scope} of ${e.limit} ${agent.budget.currency}`
+      : `Amount exceeds the agent's ${e.window} budget${scope}: ${e.remaining} of ${e.limit} ${agent.budget.currency} left`);
+  }
+  if (agent.anomaly_flags.length > 0) {
+    add("review", `Agent screening flagged: ${agent.anomaly_flags.join(", ")}`);
+  }
+  return reasons;
+}
+
+function merchantReasons(merchant: MerchantProfile): DecisionReason[] {
+  const reasons: DecisionReason[] = [];
+  const add = (action: RecommendedAction, reason: string) => reasons.push({ check: "merchant", action, reason });
+
+  if (merchant.verification_status === "suspended" || merchant.verification_status === "revoked") {
+    add("decline", `Merchant ${merchant.merchant_id} is ${merchant.verification_status}`);
+  }
+  if (merchant.risk_level === "critical") {
+    add("decline", `Merchant ${merchant.merchant_id} is critical risk (GuardScore ${merchant.guardscore})`);
+  } else if (merchant.risk_level === "high") {
+    add("review", `Merchant ${merchant.merchant_id} is high risk (GuardScore ${merchant.guardscore})`);
+  }
+  if (merchant.vamp_status === "excessive" || merchant.vamp_status === "at_risk") {
+    add("review", `Merchant VAMP status is ${merchant.vamp_status}`);
+  }
+  const hit = merchant.watchlist_hits[0];
+  if (hit) {
+    add(hit.strength === "match" ? "decline" : "review",
+      `Merchant name ${hit.strength === "match" ? "matches" : "resembles"} ${hit.list_name} entry ${hit.entry_name} (score ${hit.score})`);
+  }
+  return reasons;
+}
+
+function transactionReasons(tx: TransactionRiskResult): DecisionReason[] {
+  const rule = tx.policy.rule_id ? ` (policy rule ${tx.policy.rule_id})` : "";
+  return [{
+    check: "transaction",
+    action: tx.recommended_action,
+    reason: `Transaction scored ${tx.risk_score}, ${tx.risk_level} risk: ${tx.recommended_action}${rule}`,
+  }];
+}
+
+function disputeReasons(dispute: DisputePrediction): DecisionReason[] {
+  if (dispute.dispute_probability < DISPUTE_REVIEW_PROBABILITY && dispute.risk_level !== "critical") return [];
+  const type = dispute.predicted_dispute_type ? ` (likely ${dispute.predicted_dispute_type})` : "";
+  return [{
+    check: "dispute",
+    action: "review",
+    reason: `Dispute probability ${(dispute.dispute_probability * 100).toFixed(0)}%${type}`,
+  }];
+}
+
+/**
+ * Run the agent, merchant, transaction and dispute checks for one payment in
+ * parallel and reconcile them into a single action. The most severe action any
+ * check calls for wins; a check that fails outright sends the payment to review
+ * rather than letting it through unchecked.
+ */
+export async function decidePrepayment(api: GuardScoreAPI, req: PrepaymentRequest): Promise<PrepaymentDecision> {
+  const started = Date.now();
+  const hasMerchant = Boolean(req.merchant_id || req.merchant_name || req.website);
+  logger.info("Pre-payment decision", { agent: req.agent_id, merchant: req.merchant_id, amount: req.amount, currency: req.currency });
+  // An invalid amount or currency fails the whole decision rather than every sub-check
+  api.fx.normalize(req.amount, req.currency);
+
+  const [agent, merchant, transaction, dispute] = await Promise.allSettled([
+    api.verifyAgent({
+      agent_id: req.agent_id,
+      agent_name: req.agent_name,
+      requesting_action: req.requesting_action,
+      transaction_amount: req.amount,
+      transaction_currency: req.currency,
+      merchant_category: req.merchant_category,
+    }),
+    hasMerchant
+      ? api.lookupMerchant({ merchant_id: req.merchant_id, merchant_name: req.merchant_name, website: req.website })
+      : Promise.resolve(null),
+    api.scoreTransaction({
+      amount: req.amount,
+      currency: req.currency,
+      merchant_category: req.merchant_category,
+      payment_rail: req.payment_rail,
+      merchant_id: req.merchant_id,
+      agent_id: req.agent_id,
+      card_fingerprint: req.card_fingerprint,
+      wallet_address: req.wallet_address,
+      description: req.description,
+    }),
+    api.predictDispute({
+      transaction_amount: req.amount,
+      currency: req.currency,
+      merchant_category: req.merchant_category,
+      payment_rail: req.payment_rail,
+      card_type: req.card_type,
+      is_recurring: req.is_recurring,
+      merchant_id: req.merchant_id,
+    }),
+  ]);
+
+  const value = <T>(r: PromiseSettledResult<T | null>): T | null => (r.status === "fulfilled" ? r.value : null);
+  const agentResult = value(agent);
+  const merchantResult = value(merchant);
+  const transactionResult = value(transaction);
+  const disputeResult = value(dispute);
+
+  const checks = [
+    checkStatus("agent", agent),
+    checkStatus("merchant", hasMerchant ? merchant as PromiseSettledResult<MerchantProfile> : null),
+    checkStatus("transaction", transaction),
+    checkStatus("dispute", dispute),
+  ];
+
+  const reasons: DecisionReason[] = [
+    ...(agentResult ? agentReasons(agentResult, req, api.fx) : []),
+    ...(merchantResult ? merchantReasons(merchantResult) : []),
+    ...(transactionResult ? transactionReasons(transactionResult) : []),
+    ...(disputeResult ? disputeReasons(disputeResult) : []),
+    ...checks
+      .filter(c => c.status === "failed")
+      .map(c => ({ check: c.check, action: "review" as const, reason: `${c.check} check unavailable: ${c.error}` })),
+  ];
+
+  const action = reasons.reduce<RecommendedAction>((worst, r) => (SEVERITY[r.action] > SEVERITY[worst] ? r.action : worst), "approve");
+  const deciding = reasons.filter(r => r.action === action);
+  const completed = checks.filter(c => c.status === "completed");
+  const mockChecks = completed.filter(c => c.source === "mock");
+
+  return {
+    recommended_action: action,
+    rationale: deciding.length > 0
+      ? deciding.map(r => `${r.reason}.`).join(" ")
+      : "All checks passed.",
+    reasons,
+    checks,
+    live_checks: completed.filter(c => c.source === "live").map(c => c.check),
+    mock_checks: mockChecks.map(c => c.check),
+    agent: agentResult,
+    merchant: merchantResult,
+    transaction: transactionResult,
+    dispute: disputeResult,
+    decided_at: new Date().toISOString(),
+    provenance: {
+      // Only as trustworthy as the weakest input: mock if any check fell back
+      source: mockChecks.length > 0 ? "mock" : completed.every(c => c.source === "live") ? "live" : "local",
+      endpoint: null,
+      latency_ms: Date.now() - started,
+      fallback_reason: mockChecks.length > 0
+        ? mockChecks.map(c => `${c.check}: ${c.fallback_reason}`).join("; ")
+        : null,
+      retrieved_at: new Date().toISOString(),
+    },
+  };
+}
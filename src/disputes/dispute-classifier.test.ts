@@ -0,0 +1,49 @@
+import { describe, expect, it } from "@jest/globals";
+import { classifyDispute } from "./dispute-classifier.js";
+
+describe("classifyDispute", () => {
+  it("classifies a Visa fraud code with its deadline and compelling evidence", () => {
+    const result = classifyDispute({ reason_code: "10.4", dispute_date: "2026-10-01" });
+    expect(result).toMatchObject({
+      reason_code: "10.4",
+      card_network: "visa",
+      reason_title: "Other Fraud — Card-Absent Environment",
+      dispute_type: "fraud",
+      counts_toward_vamp: true,
+      counts_toward_ecm: false,
+      network_response_days: 30,
+      response_deadline: "2026-10-31",
+      recommended_respond_by: "2026-10-21",
+      compelling_evidence: { eligible: true, program: "visa_compelling_evidence_3" },
+      provenance: { source: "local", endpoint: null },
+    });
+    expect(result.next_steps[0]).toMatch(/^Check whether the payment was 3-D Secure authenticated/);
+    expect(result.next_steps).toContain("Send the evidence to your acquirer by 2026-10-21; the Visa deadline is 2026-10-31");
+    expect(result.next_steps.at(-1)).toMatch(/Visa RDR/);
+  });
+
+  it("counts Mastercard chargebacks toward ECM and uses its 45-day window", () => {
+    const result = classifyDispute({ reason_code: "4855", dispute_date: "2026-12-20" });
+    expect(result).toMatchObject({
+      card_network: "mastercard",
+      dispute_type: "product_not_received",
+      counts_toward_vamp: false,
+      counts_toward_ecm: true,
+      response_deadline: "2027-02-03",
+      compelling_evidence: { eligible: false, program: null, criteria: null },
+    });
+    expect(result.next_steps.at(-1)).toMatch(/Ethoca alerts/);
+  });
+
+  it("lists the required evidence and a response window without a dispute date", () => {
+    const result = classifyDispute({ reason_code: "C28", card_network: "amex" });
+    expect(result).toMatchObject({ dispute_type: "subscription_canceled", response_deadline: null, recommended_respond_by: null });
+    expect(result.next_steps).toContain("Send the evidence to your acquirer well within the 20-day Amex response window");
+    expect(result.next_steps.find(s => s.startsWith("Gather the required evidence"))).toContain("Cancellation policy disclosed at sign-up");
+  });
+
+  it("rejects codes outside the catalog or on another network", () => {
+    expect(() => classifyDispute({ reason_code: "99.9" })).toThrow('Unknown reason code "99.9"');
+    expect(() => classifyDispute({ reason_code: "10.4", card_network: "amex" })).toThrow('Unknown reason code "10.4" for amex');
+  });
+});
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { disputeClassifySchema } from "../schemas/schemas.js";
+import { NETWORK_RESPONSE_DAYS, compellingEvidenceProgram, lookupReasonCode } from "./reason-codes.js";
+import { requiredEvidence } from "./evidence-pack.js";
+import { logger } from "../utils/logger.js";
+import type { CardNetwork, DisputeClassification, DisputeType } from "../types/index.js";
+
+export type DisputeClassifyRequest = z.infer<typeof disputeClassifySchema>;
+
+/** Days before the network deadline to get evidence to the acquirer, which files the response */
+const ACQUIRER_BUFFER_DAYS = 10;
+
+const FIRST_STEP: Record<DisputeType, string> = {
+  fraud: "Check whether the payment was 3-D Secure authenticated — the liability shift wins most fraud disputes outright",
+  product_not_received: "Pull carrier tracking with delivery confirmation, or access logs for digital goods and services",
+  product_not_as_described: "Compare the product description at checkout with what was delivered, and look for return or replacement offers",
+  duplicate: "Confirm whether the charges are separate orders or the duplicate was already refunded",
+  subscription_canceled: "Check for a cancellation request before the billing date, and the recurring terms the customer accepted",
+  authorization_issue: "Pull the authorization record: approval code, date and approved amount",
+};
+
+const CE_CRITERIA: Record<string, string> = {
+  visa_compelling_evidence_3:
+    "Two prior undisputed transactions 120-365 days before the disputed one, sharing its IP address or device ID plus one more data element",
+  mastercard_first_party_trust:
+    "Prior undisputed transactions from the same device, IP address or account showing the cardholder made the purchase",
+};
+
+const NETWORK_NAMES: Record<CardNetwork, string> = { visa: "Visa", mastercard: "Mastercard", amex: "Amex", discover: "Discover" };
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
+
+/**
+ * Classify a received chargeback from its network reason code: the DisputeType it
+ * falls under, which monitoring program it counts toward, when the response is due,
+ * whether prior-transaction evidence can answer it, and what to do next. Computed
+ * from the local catalog; throws for codes the catalog does not know.
+ */
+export function classifyDispute(req: DisputeClassifyRequest): DisputeClassification {
+  const started = Date.now();
+  const entry = lookupReasonCode(req.reason_code, req.card_network);
+  if (!entry) {
+    throw new Error(`Unknown reason code "${req.reason_code}"${req.card_network ? ` for ${req.card_network}` : ""}`);
+  }
+  logger.info("Classifying dispute", { network: entry.network, reason_code: entry.code });
+
+  const days = NETWORK_RESPONSE_DAYS[entry.network];
+  const deadline = req.dispute_date ? addDays(req.dispute_date, days) : null;
+  const respondBy = req.dispute_date ? addDays(req.dispute_date, days - ACQUIRER_BUFFER_DAYS) : null;
+  const ceProgram = compellingEvidenceProgram(entry);
+
+  const steps = [FIRST_STEP[entry.dispute_type]];
+  if (ceProgram) steps.push(`Check whether compelling evidence applies (${ceProgram}): ${CE_CRITERIA[ceProgram]}`);
+  steps.push(`Gather the required evidence: ${requiredEvidence(entry.dispute_type).join("; ")}`);
+  steps.push("Build the representment with guardscore_dispute_evidence and accept the dispute if the win likelihood is low");
+  steps.push(respondBy
+    ? `Send the evidence to your acquirer by ${respondBy}; the ${NETWORK_NAMES[entry.network]} deadline is ${deadline}`
+    : `Send the evidence to your acquirer well within the ${days}-day ${NETWORK_NAMES[entry.network]} response window`);
+  if (entry.network === "visa") {
+    steps.push("If enrolled in Visa RDR, check whether a rule could have resolved this dispute before it counted toward VAMP");
+  } else if (entry.network === "mastercard") {
+    steps.push("Ethoca alerts resolve comparable disputes before they count toward the Excessive Chargeback Program");
+  }
+
+  return {
+    reason_code: entry.code,
+    card_network: entry.network,
+    reason_title: entry.title,
+    dispute_type: entry.dispute_type,
+    counts_toward_vamp: entry.network === "visa",
+    counts_toward_ecm: entry.network === "mastercard",
+    network_response_days: days,
+    response_deadline: deadline,
+    recommended_respond_by: respondBy,
+    compelling_evidence: {
+      eligible: ceProgram !== null,
+      program: ceProgram,
+      criteria: ceProgram ? CE_CRITERIA[ceProgram] : null,
+    },
+    next_steps: steps,
+    classified_at: new Date().toISOString(),
+    provenance: {
+      source: "local",
+      endpoint: null,
+      latency_ms: Date.now() - started,
+      fallback_reason: null,
+      retrieved_at: new Date().toISOString(),
+    },
+  };
+}
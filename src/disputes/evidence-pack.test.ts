@@ -0,0 +1,119 @@
+import { describe, expect, it } from "@jest/globals";
+import { buildEvidencePack, requiredEvidence } from "./evidence-pack.js";
+import { disputeEvidenceSchema } from "../schemas/schemas.js";
+
+const TRANSACTION = { transaction_id: "ord-1001", amount: 89.5, transaction_date: "2026-09-10T12:00:00Z" };
+
+const dispute = (record: Record<string, unknown>) => disputeEvidenceSchema.parse({ transaction: TRANSACTION, ...record });
+const status = (pack: ReturnType<typeof buildEvidencePack>) => Object.fromEntries(pack.checklist.map(i => [i.id, i.status]));
+
+describe("buildEvidencePack", () => {
+  it("builds the checklist for the reason code's dispute type and fulfillment method", () => {
+    const pack = buildEvidencePack(dispute({ reason_code: "13.1", fulfillment: { method: "shipped" } }));
+    expect(pack).toMatchObject({ card_network: "visa", reason_title: "Merchandise/Services Not Received", dispute_type: "product_not_received" });
+    expect(status(pack)).toEqual({
+      transaction_receipt: "provided",
+      fulfillment_record: "provided",
+      proof_of_delivery: "missing",
+      delivery_address: "missing",
+      delivery_signature: "missing",
+      customer_communication: "missing",
+    });
+    // Required evidence is listed first
+    expect(pack.missing_evidence).toEqual([
+      "Carrier tracking showing delivery",
+      "Delivery address matching the address the customer provided",
+      "Signature on delivery",
+      "Correspondence with the customer about the order",
+    ]);
+    expect(pack.win_likelihood).toBe(0.35);
+    expect(pack.recommendation).toBe("gather_evidence");
+    expect(pack.provenance).toMatchObject({ source: "local", endpoint: null });
+  });
+
+  it("recommends representment when the evidence is complete", () => {
+    const pack = buildEvidencePack(dispute({
+      dispute_id: "case-77",
+      reason_code: "13.1",
+      fulfillment: { method: "shipped", fulfilled_at: "2026-09-11T09:00:00Z" },
+      delivery: {
+        carrier: "UPS",
+        tracking_number: "1Z999",
+        delivered_at: "2026-09-13T15:00:00Z",
+        delivery_address: "1 Main St, Springfield",
+        signature_obtained: true,
+      },
+      communications: [{ at: "2026-09-14T10:00:00Z", channel: "email", direction: "outbound", summary: "Confirmed delivery" }],
+    }));
+    expect(pack.missing_evidence).toEqual([]);
+    expect(pack).toMatchObject({ win_likelihood: 0.95, recommendation: "represent" });
+    expect(pack.rebuttal_narrative).toContain("dispute case-77, filed under reason code 13.1 (Merchandise/Services Not Received)");
+    expect(pack.rebuttal_narrative).toContain("delivered to 1 Main St, Springfield (UPS tracking 1Z999, delivered 2026-09-13T15:00:00Z)");
+  });
+
+  it("treats a 3-D Secure fraud dispute as likely won even with other evidence missing", () => {
+    const pack = buildEvidencePack(dispute({ reason_code: "10.4", transaction: { ...TRANSACTION, three_ds_authenticated: true } }));
+    expect(pack).toMatchObject({ dispute_type: "fraud", win_likelihood: 0.9, recommendation: "represent" });
+    expect(pack.win_likelihood_factors).toContain("3-D Secure liability shift applies");
+  });
+
+  it("credits Visa Compelling Evidence 3.0 only for qualifying prior transactions", () => {
+    const record = (priorDates: string[]) => dispute({
+      reason_code: "10.4",
+      transaction: { ...TRANSACTION, ip_address: "203.0.113.7", customer_name: "Ann Lee", cvv_result: "match" },
+      prior_undisputed_transactions: priorDates.map((transaction_date, i) => ({ transaction_id: `ord-${i}`, transaction_date, ip_address: "203.0.113.7" })),
+    });
+
+    // 150 and 200 days before the disputed transaction
+    const qualifying = buildEvidencePack(record(["2026-04-13T12:00:00Z", "2026-02-22T12:00:00Z"]));
+    expect(status(qualifying).compelling_evidence_3).toBe("provided");
+    expect(qualifying.win_likelihood_factors).toContain("Visa Compelling Evidence 3.0 criteria met");
+
+    // One of them is only 30 days old
+    const tooRecent = buildEvidencePack(record(["2026-08-11T12:00:00Z", "2026-02-22T12:00:00Z"]));
+    expect(status(tooRecent).compelling_evidence_3).toBe("missing");
+    expect(tooRecent.win_likelihood).toBeLessThan(qualifying.win_likelihood);
+  });
+
+  it("recommends accepting when the customer cancelled before the charge", () => {
+    const pack = buildEvidencePack(dispute({
+      reason_code: "13.2",
+      cancellation_requested_at: "2026-09-01T00:00:00Z",
+      policies: { terms_accepted_at: "2025-09-10T12:00:00Z", cancellation_policy_disclosed: true },
+    }));
+    expect(status(pack).no_prior_cancellation).toBe("missing");
+    expect(pack.recommendation).toBe("accept");
+    expect(pack.win_likelihood).toBeLessThanOrEqual(0.1);
+  });
+
+  it("recommends accepting once a refund was issued, except for duplicates", () => {
+    const refunded = buildEvidencePack(dispute({ reason_code: "4853", refund_issued: true }));
+    expect(refunded).toMatchObject({ card_network: "mastercard", dispute_type: "product_not_as_described", recommendation: "accept" });
+    expect(refunded.win_likelihood).toBeLessThanOrEqual(0.15);
+
+    const duplicate = buildEvidencePack(dispute({ reason_code: "12.6.1", refund_issued: true }));
+    expect(status(duplicate).distinct_or_credited).toBe("provided");
+    expect(duplicate.rebuttal_narrative).toContain("The duplicate charge has already been credited to the cardholder.");
+    expect(duplicate.recommendation).toBe("represent");
+  });
+
+  it("needs a dispute type for a reason code outside the catalog", () => {
+    expect(() => buildEvidencePack(dispute({ reason_code: "99.9" }))).toThrow(/Unknown reason code "99.9" — pass dispute_type/);
+    const pack = buildEvidencePack(dispute({ reason_code: "99.9", dispute_type: "authorization_issue" }));
+    expect(pack).toMatchObject({ dispute_type: "authorization_issue", reason_title: null });
+    expect(pack.rebuttal_narrative).toContain("filed under reason code 99.9, for transaction ord-1001");
+  });
+});
+
+describe("requiredEvidence", () => {
+  it("lists the evidence every dispute of a type needs", () => {
+    expect(requiredEvidence("subscription_canceled")).toEqual([
+      "Transaction receipt or invoice (ID, amount, date)",
+      "Customer's acceptance of the recurring billing terms",
+      "Cancellation policy disclosed at sign-up",
+      "No cancellation request before the disputed charge",
+    ]);
+    // Shipping evidence depends on the fulfillment method
+    expect(requiredEvidence("product_not_received")).not.toContain("Carrier tracking showing delivery");
+  });
+});
@@ -0,0 +1,452 @@
+import { z } from "zod";
+import { disputeEvidenceSchema } from "../schemas/schemas.js";
+import { inferNetwork, lookupReasonCode } from "./reason-codes.js";
+import { logger } from "../utils/logger.js";
+import type { DisputeEvidencePack, DisputeType, EvidenceItem } from "../types/index.js";
+
+export type DisputeRecord = z.infer<typeof disputeEvidenceSchema>;
+
+interface EvidenceRule {
+  id: string;
+  description: string;
+  required: boolean;
+  /** Rule only applies to some disputes, e.g. shipping evidence for shipped goods */
+  applies?: (d: DisputeRecord) => boolean;
+  /** What satisfies the rule, or null when the records don't */
+  check: (d: DisputeRecord) => string | null;
+}
+
+/** Share of representments won with an average evidence pack, by dispute type */
+const BASE_WIN_RATE: Record<DisputeType, number> = {
+  fraud: 0.25,
+  product_not_received: 0.45,
+  product_not_as_described: 0.3,
+  duplicate: 0.5,
+  subscription_canceled: 0.4,
+  authorization_issue: 0.35,
+};
+
+const REQUIRED_PROVIDED_WEIGHT = 0.1;
+const REQUIRED_MISSING_WEIGHT = 0.15;
+const OPTIONAL_PROVIDED_WEIGHT = 0.05;
+
+const shipped = (d: DisputeRecord) => d.fulfillment?.method === "shipped";
+const digital = (d: DisputeRecord) => d.fulfillment?.method === "digital";
+const serviced = (d: DisputeRecord) => d.fulfillment?.method === "service" || d.fulfillment?.method === "in_person";
+const time = (value: string) => Date.parse(value);
+
+function receipt(d: DisputeRecord): string {
+  return `Transaction ${d.transaction.transaction_id}, ${d.transaction.amount} ${d.transaction.currency} on ${d.transaction.transaction_date}`;
+}
+
+function proofOfDelivery(d: DisputeRecord): string | null {
+  if (!d.delivery?.tracking_number || !d.delivery.delivered_at) return null;
+  const carrier = d.delivery.carrier ? `${d.delivery.carrier} ` : "";
+  return `${carrier}tracking ${d.delivery.tracking_number}, delivered ${d.delivery.delivered_at}`;
+}
+
+function usage(d: DisputeRecord): string | null {
+  const events = d.fulfillment?.access_log ?? [];
+  return events.length > 0 ? `${events.length} access event(s) after purchase` : null;
+}
+
+function customerContact(d: DisputeRecord): string | null {
+  const messages = d.communications ?? [];
+  return messages.length > 0 ? `${messages.length} message(s) with the customer` : null;
+}
+
+/**
+ * Visa Compelling Evidence 3.0: two prior undisputed transactions 120-365 days
+ * before the disputed one, sharing its IP address or device ID.
+ */
+function compellingEvidence3(d: DisputeRecord): string | null {
+  const disputed = time(d.transaction.transaction_date);
+  const qualifying = (d.prior_undisputed_transactions ?? []).filter(p => {
+    const days = (disputed - time(p.transaction_date)) / 86_400_000;
+    const sameIp = Boolean(p.ip_address && p.ip_address === d.transaction.ip_address);
+    const sameDevice = Boolean(p.device_id && p.device_id === d.transaction.device_id);
+    return days >= 120 && days <= 365 && (sameIp || sameDevice);
+  });
+  return qualifying.length >= 2
+    ? `${qualifying.length} qualifying prior transactions (${qualifying.map(p => p.transaction_id).join(", ")})`
+    : null;
+}
+
+function cancelledBeforeCharge(d: DisputeRecord): boolean {
+  return Boolean(d.cancellation_requested_at && time(d.cancellation_requested_at) <= time(d.transaction.transaction_date));
+}
+
+const TRANSACTION_RECEIPT: EvidenceRule = {
+  id: "transaction_receipt",
+  description: "Transaction receipt or invoice (ID, amount, date)",
+  required: true,
+  check: receipt,
+};
+
+const CUSTOMER_COMMUNICATION: EvidenceRule = {
+  id: "customer_communication",
+  description: "Correspondence with the customer about the order",
+  required: false,
+  check: customerContact,
+};
+
+const CHECKLISTS: Record<DisputeType, EvidenceRule[]> = {
+  fraud: [
+    TRANSACTION_RECEIPT,
+    {
+      id: "avs_cvv_match",
+      description: "AVS and/or CVV match at authorization",
+      required: true,
+      check: d => {
+        const t = d.transaction;
+        const matched = [
+          t.avs_result === "match" || t.avs_result === "partial" ? `AVS ${t.avs_result}` : null,
+          t.cvv_result === "match" ? "CVV match" : null,
+        ].filter(Boolean);
+        return matched.length > 0 ? matched.join(", ") : null;
+      },
+    },
+    {
+      id: "customer_identity",
+      description: "Customer name and email used for the purchase",
+      required: true,
+      check: d => [d.transaction.customer_name, d.transaction.customer_email].filter(Boolean).join(", ") || null,
+    },
+    {
+      id: "three_ds_authentication",
+      description: "3-D Secure authentication (shifts fraud liability to the issuer)",
+      required: false,
+      check: d => (d.transaction.three_ds_authenticated ? "Payment authenticated with 3-D Secure" : null),
+    },
+    {
+      id: "device_and_ip",
+      description: "IP address and device fingerprint of the purchase",
+      required: false,
+      check: d => [d.transaction.ip_address && `IP ${d.transaction.ip_address}`, d.transaction.device_id && `device ${d.transaction.device_id}`]
+        .filter(Boolean).join(", ") || null,
+    },
+    {
+      id: "compelling_evidence_3",
+      description: "Two prior undisputed transactions 120-365 days old sharing the IP address or device (Visa CE 3.0)",
+      required: false,
+      applies: d => d.card_network === "visa" || inferNetwork(d.reason_code) === "visa",
+      check: compellingEvidence3,
+    },
+    {
+      id: "proof_of_delivery",
+      description: "Proof of delivery to the cardholder's address",
+      required: false,
+      applies: shipped,
+      check: proofOfDelivery,
+    },
+    {
+      id: "digital_usage",
+      description: "Logins, downloads or usage of the purchased goods by the cardholder",
+      required: false,
+      applies: digital,
+      check: usage,
+    },
+    CUSTOMER_COMMUNICATION,
+  ],
+  product_not_received: [
+    TRANSACTION_RECEIPT,
+    {
+      id: "fulfillment_record",
+      description: "Fulfillment record stating how and when the order was provided",
+      required: true,
+      check: d => (d.fulfillment ? `${d.fulfillment.method}${d.fulfillment.fulfilled_at ? ` on ${d.fulfillment.fulfilled_at}` : ""}` : null),
+    },
+    {
+      id: "proof_of_delivery",
+      description: "Carrier tracking showing delivery",
+      required: true,
+      applies: shipped,
+      check: proofOfDelivery,
+    },
+    {
+      id: "delivery_address",
+      description: "Delivery address matching the address the customer provided",
+      required: true,
+      applies: shipped,
+      check: d => d.delivery?.delivery_address ?? null,
+    },
+    {
+      id: "delivery_signature",
+      description: "Signature on delivery",
+      required: false,
+      applies: shipped,
+      check: d => (d.delivery?.signature_obtained ? "Signature obtained" : null),
+    },
+    {
+      id: "digital_access",
+      description: "Logs showing the customer downloaded or accessed the purchase",
+      required: true,
+      applies: digital,
+      check: usage,
+    },
+    {
+      id: "service_rendered",
+      description: "Date and description of the service provided",
+      required: true,
+      applies: serviced,
+      check: d => (d.fulfillment?.fulfilled_at ? `Provided ${d.fulfillment.fulfilled_at}${d.fulfillment.description ? `: ${d.fulfillment.description}` : ""}` : null),
+    },
+    CUSTOMER_COMMUNICATION,
+  ],
+  product_not_as_described: [
+    TRANSACTION_RECEIPT,
+    {
+      id: "product_description",
+      description: "Product description as presented at checkout",
+      required: true,
+      check: d => d.transaction.product_description ?? null,
+    },
+    {
+      id: "refund_policy",
+      description: "Refund or return policy disclosed and accepted before purchase",
+      required: true,
+      check: d => {
+        const p = d.policies;
+        if (p?.terms_accepted_at) return `Terms accepted ${p.terms_accepted_at}`;
+        return p?.refund_policy_disclosed ? "Refund policy disclosed at checkout" : null;
+      },
+    },
+    {
+      id: "resolution_attempt",
+      description: "Merchant's replies offering a return, repair or replacement",
+      required: true,
+      check: d => {
+        const replies = (d.communications ?? []).filter(c => c.direction === "outbound");
+        return replies.length > 0 ? `${replies.length} reply/replies to the customer` : null;
+      },
+    },
+    {
+      id: "fulfillment_record",
+      description: "Record of what was delivered",
+      required: false,
+      check: d => d.fulfillment?.description ?? proofOfDelivery(d),
+    },
+  ],
+  duplicate: [
+    TRANSACTION_RECEIPT,
+    {
+      id: "distinct_or_credited",
+      description: "Evidence the charges are separate purchases (own authorization and items), or that the duplicate was already credited",
+      required: true,
+      check: d => {
+        if (d.refund_issued) return "Duplicate already credited";
+        const t = d.transaction;
+        return t.authorization_code && t.product_description
+          ? `Authorization ${t.authorization_code} for ${t.product_description}`
+          : null;
+      },
+    },
+    CUSTOMER_COMMUNICATION,
+  ],
+  subscription_canceled: [
+    TRANSACTION_RECEIPT,
+    {
+      id: "terms_accepted",
+      description: "Customer's acceptance of the recurring billing terms",
+      required: true,
+      check: d => (d.policies?.terms_accepted_at ? `Terms accepted ${d.policies.terms_accepted_at}` : null),
+    },
+    {
+      id: "cancellation_policy",
+      description: "Cancellation policy disclosed at sign-up",
+      required: true,
+      check: d => (d.policies?.cancellation_policy_disclosed ? "Cancellation policy disclosed" : null),
+    },
+    {
+      id: "no_prior_cancellation",
+      description: "No cancellation request before the disputed charge",
+      required: true,
+      check: d => {
+        if (cancelledBeforeCharge(d)) return null;
+        return d.cancellation_requested_at
+          ? `Cancellation requested ${d.cancellation_requested_at}, after the charge`
+          : "No cancellation request on record";
+      },
+    },
+    {
+      id: "usage_after_billing",
+      description: "Use of the subscription after the billing date",
+      required: false,
+      check: d => {
+        const billed = time(d.transaction.transaction_date);
+        const after = (d.fulfillment?.access_log ?? []).filter(e => time(e.split(/\s/)[0]) > billed);
+        return after.length > 0 ? `${after.length} access event(s) after billing` : null;
+      },
+    },
+    {
+      id: "pre_billing_notice",
+      description: "Renewal reminder sent before the charge",
+      required: false,
+      check: d => {
+        const billed = time(d.transaction.transaction_date);
+        const notice = (d.communications ?? []).find(c => c.direction === "outbound" && time(c.at) < billed);
+        return notice ? `${notice.channel} on ${notice.at}` : null;
+      },
+    },
+  ],
+  authorization_issue: [
+    TRANSACTION_RECEIPT,
+    {
+      id: "authorization_approval",
+      description: "Issuer authorization approval code for the charged amount",
+      required: true,
+      check: d => (d.transaction.authorization_code ? `Approval code ${d.transaction.authorization_code}` : null),
+    },
+    {
+      id: "timely_presentment",
+      description: "Settlement within the authorization's validity period",
+      required: false,
+      check: d => (d.fulfillment?.fulfilled_at ? `Fulfilled ${d.fulfillment.fulfilled_at}` : null),
+    },
+  ],
+};
+
+function narrative(d: DisputeRecord, type: DisputeType, reasonTitle: string | null, items: EvidenceItem[]): string {
+  const provided = new Map(items.filter(i => i.status === "provided").map(i => [i.id, i.detail]));
+  const t = d.transaction;
+  const code = reasonTitle ? `reason code ${d.reason_code} (${reasonTitle})` : `reason code ${d.reason_code}`;
+  const paragraphs: string[] = [
+    `We are responding to dispute ${d.dispute_id ?? "(no case ID)"}, filed under ${code}, for transaction ${t.transaction_id} of ${t.amount} ${t.currency} on ${t.transaction_date}. The evidence below shows the charge is valid.`,
+  ];
+
+  const facts: string[] = [];
+  if (provided.has("three_ds_authentication")) {
+    facts.push("The payment was authenticated by the cardholder's issuer with 3-D Secure, which moves fraud liability to the issuer.");
+  }
+  if (provided.has("avs_cvv_match")) facts.push(`At authorization the card details were verified (${provided.get("avs_cvv_match")}).`);
+  if (provided.has("customer_identity")) facts.push(`The order was placed by ${provided.get("customer_identity")}.`);
+  if (provided.has("device_and_ip")) facts.push(`It was placed from ${provided.get("device_and_ip")}.`);
+  if (provided.has("compelling_evidence_3")) {
+    facts.push(`The same cardholder made ${provided.get("compelling_evidence_3")} from the same IP address or device without dispute, meeting Visa Compelling Evidence 3.0.`);
+  }
+  if (provided.has("proof_of_delivery")) {
+    const address = d.delivery?.delivery_address ? ` to ${d.delivery.delivery_address}` : "";
+    facts.push(`The order shipped and was delivered${address} (${provided.get("proof_of_delivery")}).`);
+  }
+  if (provided.has("delivery_signature")) facts.push("A signature was obtained on delivery.");
+  if (provided.has("digital_usage") || provided.has("digital_access")) {
+    facts.push(`The cardholder accessed the purchase after buying it: ${provided.get("digital_usage") ?? provided.get("digital_access")}.`);
+  }
+  if (provided.has("service_rendered")) facts.push(`The service was provided as agreed. ${provided.get("service_rendered")}.`);
+  if (provided.has("product_description")) facts.push(`The product was described at checkout as: "${provided.get("product_description")}".`);
+  if (provided.has("refund_policy")) facts.push(`Our refund policy was disclosed before purchase (${provided.get("refund_policy")}).`);
+  if (provided.has("resolution_attempt")) facts.push(`We offered to resolve the issue directly (${provided.get("resolution_attempt")}).`);
+  if (provided.has("distinct_or_credited")) {
+    facts.push(d.refund_issued
+      ? "The duplicate charge has already been credited to the cardholder."
+      : `This charge is a separate purchase (${provided.get("distinct_or_credited")}), not a duplicate.`);
+  }
+  if (provided.has("terms_accepted")) facts.push(`The cardholder accepted the recurring billing terms (${provided.get("terms_accepted")}).`);
+  if (provided.has("cancellation_policy")) facts.push("The cancellation policy was disclosed at sign-up.");
+  if (type === "subscription_canceled" && provided.has("no_prior_cancellation")) {
+    facts.push(`${provided.get("no_prior_cancellation")}.`);
+  }
+  if (provided.has("usage_after_billing")) facts.push(`The subscription was used after billing (${provided.get("usage_after_billing")}).`);
+  if (provided.has("pre_billing_notice")) facts.push(`A renewal reminder was sent before the charge (${provided.get("pre_billing_notice")}).`);
+  if (provided.has("authorization_approval")) facts.push(`The charge was approved by the issuer (${provided.get("authorization_approval")}).`);
+  if (provided.has("customer_communication")) {
+    const recent = (d.communications ?? []).slice(-3).map(c => `${c.at} (${c.channel}, ${c.direction}): ${c.summary}`);
+    facts.push(`Our correspondence with the cardholder includes: ${recent.join("; ")}.`);
+  }
+  if (facts.length > 0) paragraphs.push(facts.join(" "));
+
+  paragraphs.push("Based on the enclosed evidence, we request that this dispute be reversed in our favor.");
+  return paragraphs.join("\n\n");
+}
+
+/** Evidence the network rules require for a dispute type, whatever the fulfillment method */
+export function requiredEvidence(type: DisputeType): string[] {
+  return CHECKLISTS[type].filter(rule => rule.required && !rule.applies).map(rule => rule.description);
+}
+
+/**
+ * Build a representment package for a received dispute: the evidence checklist
+ * for its reason code's dispute type, what the caller's records are missing, a
+ * draft rebuttal and an estimate of the chance of winning. Computed locally from
+ * the supplied records; nothing is sent upstream.
+ */
+export function buildEvidencePack(d: DisputeRecord): DisputeEvidencePack {
+  const started = Date.now();
+  const entry = lookupReasonCode(d.reason_code, d.card_network);
+  const type = d.dispute_type ?? entry?.dispute_type;
+  if (!type) {
+    throw new Error(`Unknown reason code "${d.reason_code}"${d.card_network ? ` for ${d.card_network}` : ""} — pass dispute_type to build the pack`);
+  }
+  logger.info("Building dispute evidence pack", { reason_code: d.reason_code, dispute_type: type });
+
+  const checklist: EvidenceItem[] = CHECKLISTS[type]
+    .filter(rule => !rule.applies || rule.applies(d))
+    .map(rule => {
+      const detail = rule.check(d);
+      return { id: rule.id, description: rule.description, required: rule.required, status: detail ? "provided" : "missing", detail };
+    });
+
+  const factors: string[] = [`Base rate for ${type} representments: ${Math.round(BASE_WIN_RATE[type] * 100)}%`];
+  let likelihood = BASE_WIN_RATE[type];
+  for (const item of checklist) {
+    if (item.status === "provided") {
+      likelihood += item.required ? REQUIRED_PROVIDED_WEIGHT : OPTIONAL_PROVIDED_WEIGHT;
+    } else if (item.required) {
+      likelihood -= REQUIRED_MISSING_WEIGHT;
+      factors.push(`Missing required evidence: ${item.description}`);
+    }
+  }
+
+  // Facts that lose the case whatever else is provided
+  let conceded = false;
+  const has = (id: string) => checklist.some(i => i.id === id && i.status === "provided");
+  if (type === "fraud" && has("three_ds_authentication")) {
+    likelihood = Math.max(likelihood, 0.9);
+    factors.push("3-D Secure liability shift applies");
+  }
+  if (has("compelling_evidence_3")) {
+    likelihood += 0.25;
+    factors.push("Visa Compelling Evidence 3.0 criteria met");
+  }
+  if (type === "subscription_canceled" && cancelledBeforeCharge(d)) {
+    likelihood = Math.min(likelihood, 0.1);
+    conceded = true;
+    factors.push("Customer asked to cancel before the charge");
+  }
+  if (d.refund_issued && type !== "duplicate") {
+    likelihood = Math.min(likelihood, 0.15);
+    conceded = true;
+    factors.push("A refund was already issued — respond with proof of credit rather than contesting");
+  }
+  likelihood = parseFloat(Math.min(0.95, Math.max(0.02, likelihood)).toFixed(2));
+
+  const missing = checklist
+    .filter(i => i.status === "missing")
+    .sort((a, b) => Number(b.required) - Number(a.required))
+    .map(i => i.description);
+  const missingRequired = checklist.some(i => i.required && i.status === "missing");
+
+  return {
+    dispute_id: d.dispute_id ?? null,
+    reason_code: d.reason_code,
+    card_network: d.card_network ?? entry?.network ?? inferNetwork(d.reason_code),
+    reason_title: entry?.title ?? null,
+    dispute_type: type,
+    checklist,
+    missing_evidence: missing,
+    rebuttal_narrative: narrative(d, type, entry?.title ?? null, checklist),
+    win_likelihood: likelihood,
+    win_likelihood_factors: factors,
+    recommendation: conceded
+      ? "accept"
+      : missingRequired && likelihood < 0.5 ? "gather_evidence" : likelihood < 0.25 ? "accept" : "represent",
+    generated_at: new Date().toISOString(),
+    provenance: {
+      source: "local",
+      endpoint: null,
+      latency_ms: Date.now() - started,
+      fallback_reason: null,
+      retrieved_at: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "@jest/globals";
+import { cardNetworkOf, compellingEvidenceProgram, inferNetwork, likelyReasonCodes, lookupReasonCode } from "./reason-codes.js";
+import type { CardNetwork, DisputeType } from "../types/index.js";
+
+describe("inferNetwork", () => {
+  it.each([
+    ["10.4", "visa"],
+    ["12.6.1", "visa"],
+    ["4853", "mastercard"],
+    [" c08 ", "amex"],
+    ["UA02", "discover"],
+    // Not in the catalog, but shaped like the network's codes
+    ["11.4", "visa"],
+    ["4899", "mastercard"],
+    ["ZZ9", null],
+  ])("reads %s as %s", (code, network) => {
+    expect(inferNetwork(code)).toBe(network);
+  });
+});
+
+describe("lookupReasonCode", () => {
+  it("normalizes the code and honours an explicit network", () => {
+    expect(lookupReasonCode("f29")).toEqual({ network: "amex", code: "F29", title: expect.any(String), dispute_type: "fraud" });
+    expect(lookupReasonCode("10.4", "mastercard")).toBeNull();
+    expect(lookupReasonCode("11.4")).toBeNull();
+  });
+});
+
+describe("likelyReasonCodes", () => {
+  it("lists catalogued codes for every network and dispute type", () => {
+    const types: DisputeType[] = ["fraud", "product_not_received", "product_not_as_described", "duplicate", "subscription_canceled", "authorization_issue"];
+    for (const type of types) {
+      for (const code of likelyReasonCodes(type)) {
+        expect(lookupReasonCode(code.code, code.network)).toMatchObject({ dispute_type: type });
+      }
+    }
+    expect(likelyReasonCodes("product_not_received", "visa")).toEqual([{ network: "visa", code: "13.1", title: "Merchandise/Services Not Received" }]);
+    expect(new Set(likelyReasonCodes("fraud").map(c => c.network))).toEqual(new Set<CardNetwork>(["visa", "mastercard", "amex", "discover"]));
+  });
+});
+
+describe("compellingEvidenceProgram", () => {
+  it("applies to Visa 10.4 and Mastercard 4837/4863 only", () => {
+    expect(compellingEvidenceProgram(lookupReasonCode("10.4")!)).toBe("visa_compelling_evidence_3");
+    expect(compellingEvidenceProgram(lookupReasonCode("4863")!)).toBe("mastercard_first_party_trust");
+    expect(compellingEvidenceProgram(lookupReasonCode("13.1")!)).toBeNull();
+    expect(compellingEvidenceProgram(lookupReasonCode("UA02")!)).toBeNull();
+  });
+});
+
+describe("cardNetworkOf", () => {
+  it("recognizes common spellings", () => {
+    expect(cardNetworkOf("MC")).toBe("mastercard");
+    expect(cardNetworkOf("American Express")).toBe("amex");
+    expect(cardNetworkOf(" Visa ")).toBe("visa");
+    expect(cardNetworkOf("jcb")).toBeNull();
+    expect(cardNetworkOf(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import type { CardNetwork, DisputeType, LikelyReasonCode } from "../types/index.js";
+
+export interface ReasonCodeEntry {
+  network: CardNetwork;
+  code: string;
+  title: string;
+  dispute_type: DisputeType;
+}
+
+/**
+ * Chargeback reason codes acquirers send, mapped onto the DisputeType taxonomy.
+ * Processing errors other than duplicates fall under authorization_issue, and
+ * cancellation and credit disputes under subscription_canceled or
+ * product_not_as_described, whichever the evidence rules fit better.
+ */
+const CATALOG: ReasonCodeEntry[] = [
+  // Visa — Fraud (10.x)
+  { network: "visa", code: "10.1", title: "EMV Liability Shift Counterfeit Fraud", dispute_type: "fraud" },
+  { network: "visa", code: "10.2", title: "EMV Liability Shift Non-Counterfeit Fraud", dispute_type: "fraud" },
+  { network: "visa", code: "10.3", title: "Other Fraud — Card-Present Environment", dispute_type: "fraud" },
+  { network: "visa", code: "10.4", title: "Other Fraud — Card-Absent Environment", dispute_type: "fraud" },
+  { network: "visa", code: "10.5", title: "Visa Fraud Monitoring Program", dispute_type: "fraud" },
+  // Visa — Authorization (11.x)
+  { network: "visa", code: "11.1", title: "Card Recovery Bulletin", dispute_type: "authorization_issue" },
+  { network: "visa", code: "11.2", title: "Declined Authorization", dispute_type: "authorization_issue" },
+  { network: "visa", code: "11.3", title: "No Authorization", dispute_type: "authorization_issue" },
+  // Visa — Processing Errors (12.x)
+  { network: "visa", code: "12.1", title: "Late Presentment", dispute_type: "authorization_issue" },
+  { network: "visa", code: "12.2", title: "Incorrect Transaction Code", dispute_type: "authorization_issue" },
+  { network: "visa", code: "12.3", title: "Incorrect Currency", dispute_type: "authorization_issue" },
+  { network: "visa", code: "12.4", title: "Incorrect Account Number", dispute_type: "authorization_issue" },
+  { network: "visa", code: "12.5", title: "Incorrect Amount", dispute_type: "authorization_issue" },
+  { network: "visa", code: "12.6.1", title: "Duplicate Processing", dispute_type: "duplicate" },
+  { network: "visa", code: "12.6.2", title: "Paid by Other Means", dispute_type: "duplicate" },
+  { network: "visa", code: "12.7", title: "Invalid Data", dispute_type: "authorization_issue" },
+  // Visa — Consumer Disputes (13.x)
+  { network: "visa", code: "13.1", title: "Merchandise/Services Not Received", dispute_type: "product_not_received" },
+  { network: "visa", code: "13.2", title: "Cancelled Recurring Transaction", dispute_type: "subscription_canceled" },
+  { network: "visa", code: "13.3", title: "Not as Described or Defective Merchandise/Services", dispute_type: "product_not_as_described" },
+  { network: "visa", code: "13.4", title: "Counterfeit Merchandise", dispute_type: "product_not_as_described" },
+  { network: "visa", code: "13.5", title: "Misrepresentation", dispute_type: "product_not_as_described" },
+  { network: "visa", code: "13.6", title: "Credit Not Processed", dispute_type: "product_not_as_described" },
+  { network: "visa", code: "13.7", title: "Cancelled Merchandise/Services", dispute_type: "subscription_canceled" },
+  { network: "visa", code: "13.8", title: "Original Credit Transaction Not Accepted", dispute_type: "product_not_received" },
+  { network: "visa", code: "13.9", title: "Non-Receipt of Cash or Load Transaction Value", dispute_type: "product_not_received" },
+
+  // Mastercard
+  { network: "mastercard", code: "4808", title: "Authorization-Related Chargeback", dispute_type: "authorization_issue" },
+  { network: "mastercard", code: "4831", title: "Transaction Amount Differs", dispute_type: "authorization_issue" },
+  { network: "mastercard", code: "4834", title: "Point-of-Interaction Error (incl. Duplicate Processing)", dispute_type: "duplicate" },
+  { network: "mastercard", code: "4837", title: "No Cardholder Authorization", dispute_type: "fraud" },
+  { network: "mastercard", code: "4840", title: "Fraudulent Processing of Transactions", dispute_type: "fraud" },
+  { network: "mastercard", code: "4841", title: "Cancelled Recurring or Digital Goods Transactions", dispute_type: "subscription_canceled" },
+  { network: "mastercard", code: "4842", title: "Late Presentment", dispute_type: "authorization_issue" },
+  { network: "mastercard", code: "4849", title: "Questionable Merchant Activity", dispute_type: "fraud" },
+  { network: "mastercard", code: "4853", title: "Cardholder Dispute — Not as Described or Defective", dispute_type: "product_not_as_described" },
+  { network: "mastercard", code: "4855", title: "Goods or Services Not Provided", dispute_type: "product_not_received" },
+  { network: "mastercard", code: "4860", title: "Credit Not Processed", dispute_type: "product_not_as_described" },
+  { network: "mastercard", code: "4863", title: "Cardholder Does Not Recognize — Potential Fraud", dispute_type: "fraud" },
+  { network: "mastercard", code: "4870", title: "Chip Liability Shift", dispute_type: "fraud" },
+  { network: "mastercard", code: "4871", title: "Chip/PIN Liability Shift", dispute_type: "fraud" },
+
+  // American Express
+  { network: "amex", code: "A01", title: "Charge Amount Exceeds Authorization Amount", dispute_type: "authorization_issue" },
+  { network: "amex", code: "A02", title: "No Valid Authorization", dispute_type: "authorization_issue" },
+  { network: "amex", code: "A08", title: "Authorization Approval Expired", dispute_type: "authorization_issue" },
+  { network: "amex", code: "C02", title: "Credit Not Processed", dispute_type: "product_not_as_described" },
+  { network: "amex", code: "C04", title: "Goods/Services Returned or Refused", dispute_type: "product_not_as_described" },
+  { network: "amex", code: "C05", title: "Goods/Services Cancelled", dispute_type: "subscription_canceled" },
+  { network: "amex", code: "C08", title: "Goods/Services Not Received or Only Partially Received", dispute_type: "product_not_received" },
+  { network: "amex", code: "C14", title: "Paid by Other Means", dispute_type: "duplicate" },
+  { network: "amex", code: "C28", title: "Cancelled Recurring Billing", dispute_type: "subscription_canceled" },
+  { network: "amex", code: "C31", title: "Goods/Services Not as Described", dispute_type: "product_not_as_described" },
+  { network: "amex", code: "C32", title: "Goods/Services Damaged or Defective", dispute_type: "product_not_as_described" },
+  { network: "amex", code: "F10", title: "Missing Imprint", dispute_type: "fraud" },
+  { network: "amex", code: "F14", title: "Missing Signature", dispute_type: "fraud" },
+  { network: "amex", code: "F24", title: "No Card Member Authorization", dispute_type: "fraud" },
+  { network: "amex", code: "F29", title: "Card Not Present", dispute_type: "fraud" },
+  { network: "amex", code: "P01", title: "Unassigned Card Number", dispute_type: "authorization_issue" },
+  { network: "amex", code: "P05", title: "Incorrect Charge Amount", dispute_type: "authorization_issue" },
+  { network: "amex", code: "P08", title: "Duplicate Charge", dispute_type: "duplicate" },
+
+  // Discover
+  { network: "discover", code: "AA", title: "Does Not Recognize", dispute_type: "fraud" },
+  { network: "discover", code: "AP", title: "Cancelled Recurring Transaction", dispute_type: "subscription_canceled" },
+  { network: "discover", code: "AT", title: "Authorization Noncompliance", dispute_type: "authorization_issue" },
+  { network: "discover", code: "AW", title: "Altered Amount", dispute_type: "authorization_issue" },
+  { network: "discover", code: "CD", title: "Credit/Debit Presentment Error", dispute_type: "authorization_issue" },
+  { network: "discover", code: "DP", title: "Duplicate Processing", dispute_type: "duplicate" },
+  { network: "discover", code: "NF", title: "Non-Receipt of Cash", dispute_type: "product_not_received" },
+  { network: "discover", code: "PM", title: "Paid by Other Means", dispute_type: "duplicate" },
+  { network: "discover", code: "RG", title: "Non-Receipt of Goods or Services", dispute_type: "product_not_received" },
+  { network: "discover", code: "RM", title: "Quality Discrepancy", dispute_type: "product_not_as_described" },
+  { network: "discover", code: "RN2", title: "Credit Not Processed", dispute_type: "product_not_as_described" },
+  { network: "discover", code: "UA01", title: "Fraud — Card Present Transaction", dispute_type: "fraud" },
+  { network: "discover", code: "UA02", title: "Fraud — Card Not Present Transaction", dispute_type: "fraud" },
+  { network: "discover", code: "UA05", title: "Fraud — Chip Counterfeit Transaction", dispute_type: "fraud" },
+];
+
+/** Network a reason code belongs to, judged by its format — null when ambiguous or unknown */
+export function inferNetwork(code: string): CardNetwork | null {
+  const normalized = code.trim().toUpperCase();
+  const matches = new Set(CATALOG.filter(e => e.code === normalized).map(e => e.network));
+  if (matches.size === 1) return [...matches][0];
+  if (/^1[0-3]\.\d(\.\d)?$/.test(normalized)) return "visa";
+  if (/^48\d\d$/.test(normalized)) return "mastercard";
+  return null;
+}
+
+/** Catalog entry for a reason code, optionally restricted to one network */
+export function lookupReasonCode(code: string, network?: CardNetwork): ReasonCodeEntry | null {
+  const normalized = code.trim().toUpperCase();
+  const target = network ?? inferNetwork(normalized);
+  return CATALOG.find(e => e.code === normalized && (!target || e.network === target)) ?? null;
+}
+
+/** Days the acquirer has to answer a first chargeback, from the day it is received */
+export const NETWORK_RESPONSE_DAYS: Record<CardNetwork, number> = {
+  visa: 30,
+  mastercard: 45,
+  amex: 20,
+  discover: 30,
+};
+
+/**
+ * Codes acquirers most often send for each dispute type on card-not-present
+ * traffic, most frequent first. Card-present and processing-error codes that
+ * rarely reach e-commerce merchants are left out.
+ */
+const COMMON_CODES: Record<CardNetwork, Record<DisputeType, string[]>> = {
+  visa: {
+    fraud: ["10.4"],
+    product_not_received: ["13.1"],
+    product_not_as_described: ["13.3", "13.6", "13.5"],
+    duplicate: ["12.6.1", "12.6.2"],
+    subscription_canceled: ["13.2", "13.7"],
+    authorization_issue: ["11.3", "12.5", "11.2"],
+  },
+  mastercard: {
+    fraud: ["4837", "4863"],
+    product_not_received: ["4855"],
+    product_not_as_described: ["4853", "4860"],
+    duplicate: ["4834"],
+    subscription_canceled: ["4841"],
+    authorization_issue: ["4808", "4831"],
+  },
+  amex: {
+    fraud: ["F29", "F24"],
+    product_not_received: ["C08"],
+    product_not_as_described: ["C31", "C32", "C02"],
+    duplicate: ["P08", "C14"],
+    subscription_canceled: ["C28", "C05"],
+    authorization_issue: ["A02", "P05"],
+  },
+  discover: {
+    fraud: ["UA02", "AA"],
+    product_not_received: ["RG"],
+    product_not_as_described: ["RM", "RN2"],
+    duplicate: ["DP", "PM"],
+    subscription_canceled: ["AP"],
+    authorization_issue: ["AT", "AW"],
+  },
+};
+
+/** Codes a dispute of this type is likely to arrive under, for one network or all of them */
+export function likelyReasonCodes(type: DisputeType, network?: CardNetwork): LikelyReasonCode[] {
+  const networks = network ? [network] : (Object.keys(COMMON_CODES) as CardNetwork[]);
+  return networks.flatMap(n => COMMON_CODES[n][type].map(code => {
+    const entry = lookupReasonCode(code, n)!;
+    return { network: n, code: entry.code, title: entry.title };
+  }));
+}
+
+/**
+ * Network program that lets the merchant answer with prior-transaction history,
+ * or null: Visa Compelling Evidence 3.0 for 10.4, Mastercard First-Party Trust
+ * for 4837 and 4863.
+ */
+export function compellingEvidenceProgram(entry: ReasonCodeEntry): string | null {
+  if (entry.network === "visa" && entry.code === "10.4") return "visa_compelling_evidence_3";
+  if (entry.network === "mastercard" && (entry.code === "4837" || entry.code === "4863")) return "mastercard_first_party_trust";
+  return null;
+}
+
+/** Card network named by a free-text card type ("Visa", "MC", "American Express"), or null */
+export function cardNetworkOf(cardType: string | undefined): CardNetwork | null {
+  const t = cardType?.trim().toLowerCase().replace(/[\s_-]+/g, "");
+  if (!t) return null;
+  if (t === "visa") return "visa";
+  if (t === "mastercard" || t === "mc") return "mastercard";
+  if (t === "amex" || t === "americanexpress") return "amex";
+  if (t === "discover") return "discover";
+  return null;
+}
@@ -0,0 +1,78 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { FxRates } from "./fx-rates.js";
+import { fitsMinorUnits, isoMinorUnits } from "./currencies.js";
+
+describe("currency minor units", () => {
+  it("knows zero-, two-, three- and four-decimal currencies", () => {
+    expect(isoMinorUnits("jpy")).toBe(0);
+    expect(isoMinorUnits("USD")).toBe(2);
+    expect(isoMinorUnits("KWD")).toBe(3);
+    expect(isoMinorUnits("CLF")).toBe(4);
+    expect(isoMinorUnits("XAU")).toBeNull();
+    expect(isoMinorUnits("USDC")).toBeNull();
+  });
+
+  it("tolerates float noise but not an extra decimal", () => {
+    expect(fitsMinorUnits(19.99, 2)).toBe(true);
+    expect(fitsMinorUnits(0.1 + 0.2, 1)).toBe(true);
+    expect(fitsMinorUnits(19.999, 2)).toBe(false);
+    expect(fitsMinorUnits(100, 0)).toBe(true);
+    expect(fitsMinorUnits(100.5, 0)).toBe(false);
+  });
+});
+
+describe("FxRates", () => {
+  const fx = new FxRates({ base: "USD", as_of: "2026-10-01", rates: { JPY: 150, KWD: 0.3, EUR: 0.8, USDC: 1 }, custom_currencies: { USDC: 6 } });
+
+  it("normalizes amounts to the base currency, rounded to its minor units", () => {
+    expect(fx.normalize(15000, "jpy")).toEqual({
+      amount: 15000,
+      currency: "JPY",
+      base_amount: 100,
+      base_currency: "USD",
+      fx_rate: 150,
+      rates_as_of: "2026-10-01",
+    });
+    expect(fx.normalize(1.234, "KWD").base_amount).toBe(4.11);
+    expect(fx.normalize(1.234567, "USDC").base_amount).toBe(1.23);
+  });
+
+  it("rejects amounts with more decimals than the currency has", () => {
+    expect(() => fx.normalize(10.5, "JPY")).toThrow("JPY has no minor units — amount 10.5 must be a whole number");
+    expect(() => fx.normalize(1.2345, "KWD")).toThrow("KWD amounts have at most 3 decimal place(s) — got 1.2345");
+    expect(() => fx.normalize(1.2345678, "USDC")).toThrow(/USDC amounts have at most 6/);
+  });
+
+  it("rejects unknown currencies and currencies without a rate", () => {
+    expect(() => fx.normalize(10, "XYZ")).toThrow(/Unknown currency "XYZ"/);
+    expect(() => fx.normalize(10, "GBP")).toThrow(/No FX rate for GBP to USD/);
+  });
+
+  it("converts between two non-base currencies in the target's minor units", () => {
+    expect(fx.convert(100, "EUR", "JPY")).toBe(18750);
+    expect(fx.convert(1000, "JPY", "EUR")).toBe(5.33);
+  });
+});
+
+describe("FxRates.load", () => {
+  let dir: string;
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "fx-")); });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("uses the built-in table without a file", () => {
+    expect(FxRates.load(undefined).base).toBe("USD");
+  });
+
+  it("loads YAML and refuses undeclared non-ISO codes", () => {
+    const good = path.join(dir, "fx.yaml");
+    fs.writeFileSync(good, "base: EUR\nrates:\n  USD: 1.16\n  USDC: 1.16\ncustom_currencies:\n  USDC: 6\n");
+    expect(FxRates.load(good).normalize(116, "USD").base_amount).toBe(100);
+
+    const bad = path.join(dir, "bad.json");
+    fs.writeFileSync(bad, JSON.stringify({ base: "USD", rates: { DOGE: 7 } }));
+    expect(() => FxRates.load(bad)).toThrow(/Invalid FX rate table .* rates\.DOGE: "DOGE" is not an ISO 4217 code/);
+  });
+});
@@ -0,0 +1,152 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import YAML from "yaml";
+import { logger } from "../utils/logger.js";
+import { fitsMinorUnits, isoMinorUnits, roundTo } from "./currencies.js";
+import type { NormalizedAmount } from "../types/index.js";
+
+const codeSchema = z.string().regex(/^[A-Za-z0-9]{3,5}$/, "Currency codes are 3-5 letters or digits").transform(c => c.toUpperCase());
+
+export const fxRateTableSchema = z.object({
+  base: codeSchema.refine(c => isoMinorUnits(c) !== null, { message: "Base currency must be an ISO 4217 code" }),
+  as_of: z.string().optional(),
+  /** Units of each currency per one unit of the base currency */
+  rates: z.record(z.number().positive()),
+  /** Non-ISO currencies (stablecoins, crypto) the table accepts, with their decimal places */
+  custom_currencies: z.record(z.number().int().min(0).max(18)).default({}),
+}).strict().superRefine((table, ctx) => {
+  const custom = new Set(Object.keys(table.custom_currencies).map(c => c.toUpperCase()));
+  for (const [field, codes] of [["rates", Object.keys(table.rates)], ["custom_currencies", [...custom]]] as const) {
+    for (const code of codes) {
+      if (!/^[A-Za-z0-9]{3,5}$/.test(code)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field, code], message: `"${code}" is not a currency code` });
+      } else if (field === "rates" && isoMinorUnits(code) === null && !custom.has(code.toUpperCase())) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field, code], message: `"${code}" is not an ISO 4217 code — declare it under custom_currencies` });
+      }
+    }
+  }
+});
+
+export type FxRateTable = z.infer<typeof fxRateTableSchema>;
+
+/**
+ * Indicative USD rates used when no rate file is configured. Good enough to put a
+ * ¥10,000 order in the right value band, not for settlement — configure a file
+ * with current rates for production use.
+ */
+export const DEFAULT_FX_RATES: FxRateTable = {
+  base: "USD",
+  as_of: "2026-10-01",
+  rates: {
+    EUR: 0.86, GBP: 0.75, JPY: 150, CHF: 0.8, CAD: 1.38, AUD: 1.52, NZD: 1.72,
+    CNY: 7.12, HKD: 7.78, SGD: 1.29, KRW: 1400, INR: 88, IDR: 16500, THB: 32.5,
+    BRL: 5.35, MXN: 18.4, ZAR: 17.4, AED: 3.6725, SAR: 3.75, TRY: 41.5,
+    SEK: 9.4, NOK: 10, DKK: 6.42, PLN: 3.65, CZK: 20.9, HUF: 335,
+    USDC: 1, USDT: 1,
+  },
+  custom_currencies: { USDC: 6, USDT: 6 },
+};
+
+/**
+ * Local FX rate table.
+ *
+ * Validates currency codes (ISO 4217, plus any custom currencies the table
+ * declares), checks that amounts fit the currency's minor units, and converts
+ * amounts to the base currency so value thresholds mean the same thing whatever
+ * the transaction currency. Rates come from a JSON or YAML file, or the built-in
+ * indicative table.
+ */
+export class FxRates {
+  readonly base: string;
+  readonly asOf: string | null;
+  private readonly rates = new Map<string, number>();
+  private readonly custom = new Map<string, number>();
+
+  constructor(table: FxRateTable) {
+    this.base = table.base.toUpperCase();
+    this.asOf = table.as_of ?? null;
+    for (const [code, units] of Object.entries(table.custom_currencies)) this.custom.set(code.toUpperCase(), units);
+    for (const [code, rate] of Object.entries(table.rates)) this.rates.set(code.toUpperCase(), rate);
+    this.rates.set(this.base, 1);
+  }
+
+  /**
+   * Load and validate a rate file. Without a file, the built-in indicative table
+   * is used. Invalid files throw so the server refuses to start.
+   */
+  static load(filePath: string | undefined): FxRates {
+    if (!filePath) return new FxRates(DEFAULT_FX_RATES);
+
+    const raw = fs.readFileSync(filePath, "utf8");
+    const ext = path.extname(filePath).toLowerCase();
+    const parsed: unknown = ext === ".yaml" || ext === ".yml" ? YAML.parse(raw) : JSON.parse(raw);
+    const result = fxRateTableSchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+      throw new Error(`Invalid FX rate table ${filePath} — ${issues}`);
+    }
+
+    const fx = new FxRates(result.data);
+    logger.info(`FX rates loaded for ${fx.rates.size} currencies (base ${fx.base}${fx.asOf ? `, as of ${fx.asOf}` : ""}) from ${filePath}`);
+    return fx;
+  }
+
+  /** Decimal places of a currency; throws for codes that are neither ISO 4217 nor declared custom */
+  minorUnits(currency: string): number {
+    const upper = currency.toUpperCase();
+    const units = this.custom.get(upper) ?? isoMinorUnits(upper);
+    if (units === null) {
+      throw new Error(`Unknown currency "${currency}" — expected an ISO 4217 code such as USD, EUR or JPY`);
+    }
+    return units;
+  }
+
+  /** Convert between any two currencies in the table, rounded to the target's minor units */
+  convert(amount: number, from: string, to: string): number {
+    const source = this.rate(from);
+    const target = this.rate(to);
+    return roundTo((amount / source) * target, this.minorUnits(to));
+  }
+
+  /**
+   * Validate an amount in its currency and express it in the base currency.
+   * Throws for unknown currencies, amounts with more decimals than the currency
+   * has, and currencies without a rate.
+   */
+  normalize(amount: number, currency: string): NormalizedAmount {
+    const code = currency.toUpperCase();
+    const decimals = this.minorUnits(code);
+    if (!fitsMinorUnits(amount, decimals)) {
+      throw new Error(decimals === 0
+        ? `${code} has no minor units — amount ${amount} must be a whole number`
+        : `${code} amounts have at most ${decimals} decimal place(s) — got ${amount}`);
+    }
+    const rate = this.rate(code);
+    return {
+      amount,
+      currency: code,
+      base_amount: roundTo(amount / rate, this.minorUnits(this.base)),
+      base_currency: this.base,
+      fx_rate: rate,
+      rates_as_of: this.asOf,
+    };
+  }
+
+  private rate(currency: string): number {
+    const code = currency.toUpperCase();
+    // Unknown codes fail here with the clearer message
+    this.minorUnits(code);
+    const rate = this.rates.get(code);
+    if (rate === undefined) {
+      throw new Error(`No FX rate for ${code} to ${this.base} — add it to the FX rate table (MERCHANTGUARD_FX_RATES_FILE)`);
+    }
+    return rate;
+  }
+}
+
+/** "10000 JPY (66.67 USD)", or just "250 USD" when already in the base currency */
+export function formatAmount(money: NormalizedAmount): string {
+  const own = `${money.amount} ${money.currency}`;
+  return money.currency === money.base_currency ? own : `${own} (${money.base_amount} ${money.base_currency})`;
+}
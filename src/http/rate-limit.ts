@@ -0,0 +1,33 @@
+import type { Request, RequestHandler } from "express";
+import type { LimitSettings, UsageLimits } from "../limits/usage-limits.js";
+import { logger } from "../utils/logger.js";
+
+export interface HttpRateLimitConfig {
+  limits: UsageLimits;
+  /** Requests per minute per caller; 0 disables the request bucket */
+  perMinute: number;
+  /** Who the request bucket belongs to (tenant, else remote address) */
+  caller: (req: Request) => string;
+  /** Client whose quotas apply to the request */
+  client: (req: Request) => string;
+  settings: (req: Request) => LimitSettings;
+}
+
+/**
+ * Per-caller request limit for /mcp. Over-limit requests and clients with an
+ * exhausted quota get 429 with Retry-After and a JSON-RPC error body.
+ */
+export function httpRateLimit(config: HttpRateLimitConfig): RequestHandler {
+  return (req, res, next) => {
+    const denial = config.limits.checkRequest(config.caller(req), config.client(req), config.perMinute, config.settings(req));
+    if (!denial) return next();
+
+    logger.warn(`HTTP request refused: ${denial.message}`, { caller: config.caller(req) });
+    res.setHeader("Retry-After", String(Math.ceil(denial.retry_after_ms / 1000)));
+    res.status(429).json({
+      jsonrpc: "2.0",
+      error: { code: -32000, message: `[${denial.code}] ${denial.message}`, data: denial },
+      id: null,
+    });
+  };
+}
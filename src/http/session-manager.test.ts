@@ -0,0 +1,105 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterEach, describe, expect, it } from "@jest/globals";
+import express from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SessionManager, SessionManagerConfig } from "./session-manager.js";
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+};
+
+describe("SessionManager", () => {
+  let server: Server;
+  let sessions: SessionManager;
+  let baseUrl: string;
+
+  const start = async (config: Partial<SessionManagerConfig> = {}) => {
+    sessions = new SessionManager({
+      createServer: () => new McpServer({ name: "test", version: "1.0.0" }),
+      // Tests pick the principal with a header, standing in for bearer auth
+      owner: req => req.header("x-owner"),
+      ...config,
+    });
+    const app = express();
+    app.use(express.json());
+    app.post("/mcp", (req, res) => void sessions.handlePost(req, res));
+    app.get("/mcp", (req, res) => void sessions.handleSessionRequest(req, res));
+    app.delete("/mcp", (req, res) => void sessions.handleSessionRequest(req, res));
+    server = await new Promise(resolve => { const s = app.listen(0, "127.0.0.1", () => resolve(s)); });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  };
+
+  const call = (method: string, body?: unknown, headers: Record<string, string> = {}) => fetch(baseUrl, {
+    method,
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const open = async (owner = "acme"): Promise<string> => {
+    const res = await call("POST", INITIALIZE, { "x-owner": owner });
+    await res.text();
+    expect(res.status).toBe(200);
+    return res.headers.get("mcp-session-id")!;
+  };
+
+  afterEach(async () => {
+    await sessions.closeAll();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("opens a session on initialize and reuses it for later requests", async () => {
+    await start();
+    const id = await open();
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(sessions.size).toBe(1);
+
+    const res = await call("POST", { jsonrpc: "2.0", id: 2, method: "ping" }, { "x-owner": "acme", "mcp-session-id": id });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('"id":2');
+  });
+
+  it("requires a session id for anything but initialize", async () => {
+    await start();
+    const res = await call("POST", { jsonrpc: "2.0", id: 1, method: "ping" });
+    expect(res.status).toBe(400);
+    expect((await res.json() as { error: { code: number } }).error.code).toBe(-32000);
+  });
+
+  it("hides sessions from other principals and unknown ids", async () => {
+    await start();
+    const id = await open("acme");
+    const ping = { jsonrpc: "2.0", id: 2, method: "ping" };
+    expect((await call("POST", ping, { "x-owner": "shopbot", "mcp-session-id": id })).status).toBe(404);
+    expect((await call("POST", ping, { "x-owner": "acme", "mcp-session-id": "nope" })).status).toBe(404);
+  });
+
+  it("closes the session on DELETE", async () => {
+    await start();
+    const id = await open();
+    const res = await call("DELETE", undefined, { "x-owner": "acme", "mcp-session-id": id });
+    expect(res.status).toBe(200);
+    expect(sessions.size).toBe(0);
+  });
+
+  it("refuses new sessions beyond maxSessions", async () => {
+    await start({ maxSessions: 1 });
+    await open();
+    const res = await call("POST", INITIALIZE, { "x-owner": "acme" });
+    expect(res.status).toBe(503);
+  });
+
+  it("serves POSTs without sessions in stateless mode", async () => {
+    await start({ stateless: true });
+    const res = await call("POST", INITIALIZE);
+    await res.text();
+    expect(res.status).toBe(200);
+    expect(res.headers.get("mcp-session-id")).toBeNull();
+    expect(sessions.size).toBe(0);
+    expect((await call("GET")).status).toBe(405);
+  });
+});
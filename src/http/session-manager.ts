@@ -0,0 +1,165 @@
+import { randomUUID } from "node:crypto";
+import type { Request, Response } from "express";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { logger } from "../utils/logger.js";
+
+export interface SessionManagerConfig {
+  /** Builds a fresh MCP server for a new session (or for each request when stateless) */
+  createServer: (req: Request) => McpServer;
+  /** Principal making the request (e.g. tenant ID); a session only serves the principal that opened it */
+  owner?: (req: Request) => string | undefined;
+  /** Stateless mode: no session IDs, one server and transport per POST (default false) */
+  stateless?: boolean;
+  /** Sessions with no request for this long are closed (default 30 minutes) */
+  idleTimeoutMs?: number;
+  /** New sessions are refused beyond this many open ones (default 1000) */
+  maxSessions?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  owner: string | undefined;
+  lastSeen: number;
+}
+
+function jsonRpcError(res: Response, status: number, code: number, message: string) {
+  res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+/**
+ * Streamable HTTP session lifecycle for /mcp.
+ *
+ * Stateful (default): an initialize POST creates a transport and server bound to a
+ * new mcp-session-id; later POSTs, the GET SSE stream for server-initiated
+ * notifications, and DELETE reuse that transport. Idle sessions are swept.
+ *
+ * Stateless: every POST gets its own server and transport, torn down when the
+ * response closes — for horizontally scaled deployments without sticky sessions.
+ */
+export class SessionManager {
+  private readonly sessions = new Map<string, Session>();
+  private readonly config: Required<Omit<SessionManagerConfig, "owner">> & Pick<SessionManagerConfig, "owner">;
+  private readonly sweeper: NodeJS.Timeout | null;
+
+  constructor(config: SessionManagerConfig) {
+    this.config = {
+      stateless: false,
+      idleTimeoutMs: 30 * 60_000,
+      maxSessions: 1000,
+      ...config,
+    };
+    this.sweeper = this.config.stateless
+      ? null
+      : setInterval(() => this.sweep(), Math.min(60_000, this.config.idleTimeoutMs)).unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get stateless(): boolean {
+    return this.config.stateless;
+  }
+
+  async handlePost(req: Request, res: Response): Promise<void> {
+    if (this.config.stateless) {
+      return this.handleStateless(req, res);
+    }
+
+    const sessionId = req.header("mcp-session-id");
+    if (sessionId) {
+      const session = this.touch(sessionId, req);
+      if (!session) return jsonRpcError(res, 404, -32001, "Session not found");
+      return session.transport.handleRequest(req, res, req.body);
+    }
+
+    if (!isInitializeRequest(req.body)) {
+      return jsonRpcError(res, 400, -32000, "Bad Request: mcp-session-id header is required for non-initialize requests");
+    }
+    if (this.sessions.size >= this.config.maxSessions) {
+      return jsonRpcError(res, 503, -32000, "Too many open sessions — try again later");
+    }
+
+    const server = this.config.createServer(req);
+    const owner = this.config.owner?.(req);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { transport, server, owner, lastSeen: Date.now() });
+        logger.info("MCP session opened", { session: id, owner, open: this.sessions.size });
+      },
+    });
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && this.sessions.delete(id)) {
+        logger.info("MCP session closed", { session: id, open: this.sessions.size });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  /** GET opens the SSE stream for server-initiated notifications; DELETE ends the session */
+  async handleSessionRequest(req: Request, res: Response): Promise<void> {
+    if (this.config.stateless) {
+      res.setHeader("Allow", "POST");
+      return jsonRpcError(res, 405, -32000, "Method not allowed in stateless mode");
+    }
+
+    const sessionId = req.header("mcp-session-id");
+    if (!sessionId) return jsonRpcError(res, 400, -32000, "Bad Request: mcp-session-id header is required");
+    const session = this.touch(sessionId, req);
+    if (!session) return jsonRpcError(res, 404, -32001, "Session not found");
+    await session.transport.handleRequest(req, res);
+  }
+
+  /** Close every session (graceful shutdown) */
+  async closeAll(): Promise<void> {
+    if (this.sweeper) clearInterval(this.sweeper);
+    await Promise.all([...this.sessions.keys()].map(id => this.close(id, "shutdown")));
+  }
+
+  private async handleStateless(req: Request, res: Response): Promise<void> {
+    const server = this.config.createServer(req);
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on("close", () => {
+      void transport.close();
+      void server.close();
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  /** Look up a session for a request; another principal's session reads as not found */
+  private touch(sessionId: string, req: Request): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.owner !== this.config.owner?.(req)) return undefined;
+    session.lastSeen = Date.now();
+    return session;
+  }
+
+  private async close(sessionId: string, reason: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    logger.info("MCP session closed", { session: sessionId, reason, open: this.sessions.size });
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (err) {
+      logger.warn(`Error closing session ${sessionId}: ${(err as Error).message}`);
+    }
+  }
+
+  private sweep(now = Date.now()) {
+    for (const [id, session] of this.sessions) {
+      if (now - session.lastSeen > this.config.idleTimeoutMs) {
+        void this.close(id, "idle");
+      }
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// Library entry point — import the scoring engine without starting a server.
+// Use dist/server-http.js or dist/server-stdio.js to run the MCP server.
+export { MerchantGuardMCPServer } from "./merchantguard-mcp-server.js";
+export { openServerServices, openAlerts, openTokenIssuer } from "./merchantguard-mcp-server.js";
+export type { MerchantGuardMCPConfig, ServerServices } from "./merchantguard-mcp-server.js";
+export { GuardScoreAPI } from "./api/guardscore.js";
+export type { GuardScoreConfig, GuardScoreServices } from "./api/guardscore.js";
+export { TransactionLedger, parseTimeWindow } from "./ledger/transaction-ledger.js";
+export { RiskPolicy, riskPolicySchema } from "./policy/risk-policy.js";
+export { FxRates, fxRateTableSchema, DEFAULT_FX_RATES, formatAmount } from "./fx/fx-rates.js";
+export type { FxRateTable } from "./fx/fx-rates.js";
+export { isIsoCurrency, isoMinorUnits } from "./fx/currencies.js";
+export { scoreTransactionBatch, parseTransactionPayload } from "./batch/transaction-batch.js";
+export type { BatchRow, BatchOptions, BatchProgress, BatchTransaction } from "./batch/transaction-batch.js";
+export { decidePrepayment } from "./decision/prepayment-decision.js";
+export type { PrepaymentRequest } from "./decision/prepayment-decision.js";
+export { buildEvidencePack } from "./disputes/evidence-pack.js";
+export type { DisputeRecord } from "./disputes/evidence-pack.js";
+export { lookupReasonCode, inferNetwork, likelyReasonCodes, cardNetworkOf, compellingEvidenceProgram, NETWORK_RESPONSE_DAYS } from "./disputes/reason-codes.js";
+export { classifyDispute } from "./disputes/dispute-classifier.js";
+export type { DisputeClassifyRequest } from "./disputes/dispute-classifier.js";
+export type { ReasonCodeEntry } from "./disputes/reason-codes.js";
+export { VAMP_THRESHOLDS, VAMP_MINIMUM_COUNT, vampThreshold, vampCounts, vampStatus, rankVAMPLevers } from "./vamp/vamp-simulator.js";
+export type { VAMPInputs, VAMPCounts, VAMPThreshold } from "./vamp/vamp-simulator.js";
+export { VAMPHistoryStore, vampTier, summarizeVAMPHistory, parseVAMPHistoryCsv } from "./vamp/vamp-history.js";
+export type { VAMPHistoryRow } from "./vamp/vamp-history.js";
+export { MASTERCARD_CHARGEBACK_TIERS, MASTERCARD_EFM_CRITERIA, mastercardChargebackStanding, mastercardFraudStanding } from "./mastercard/mastercard-programs.js";
+export type { MastercardInputs } from "./mastercard/mastercard-programs.js";
+export { assessNetworkCompliance } from "./compliance/network-compliance.js";
+export type { NetworkComplianceRequest } from "./compliance/network-compliance.js";
+export { TenantRegistry, tenantRegistrySchema } from "./tenants/tenant-registry.js";
+export type { Tenant } from "./tenants/tenant-registry.js";
+export { UsageLimits } from "./limits/usage-limits.js";
+export type { LimitSettings, LimitDenial } from "./limits/usage-limits.js";
+export { QuotaStore } from "./limits/quota-store.js";
+export { ProfileCache, profileUri } from "./cache/profile-cache.js";
+export type { CachedProfile, ProfileChange, ProfileKind } from "./cache/profile-cache.js";
+export { AgentBudgets, agentBudgetPolicySchema } from "./budgets/agent-budgets.js";
+export type { AgentBudgetPolicy, ReserveRequest } from "./budgets/agent-budgets.js";
+export { AlertManager, alertsConfigSchema, ALERT_FIELDS } from "./alerts/alert-manager.js";
+export type { AlertsConfig, AlertRule, AlertEvent, AlertObservation, AlertSink, AlertField, AlertSource } from "./alerts/alert-manager.js";
+export { WebhookDispatcher, signWebhook, verifyWebhookSignature } from "./alerts/webhook-dispatcher.js";
+export type { WebhookTarget, DeliveryPolicy, DeadLetter, DeliveryOutcome } from "./alerts/webhook-dispatcher.js";
+export { signAuthorizationToken, verifyAuthorizationToken, decodeAuthorizationToken, MemoryNonceStore } from "./tokens/authorization-token.js";
+export type {
+  AuthorizationTokenClaims,
+  TokenAlgorithm,
+  TokenErrorCode,
+  TokenExpectations,
+  TokenSigningKey,
+  TokenVerificationKey,
+  TokenVerification,
+  NonceStore,
+  VerifyOptions,
+} from "./tokens/authorization-token.js";
+export { TokenIssuer, FileNonceStore } from "./tokens/token-issuer.js";
+export { OPRF_SUITE, blind, blindEvaluate, finalize, evaluate, deriveKeyPair, InvalidInputError } from "./oprf/oprf.js";
+export type { BlindResult } from "./oprf/oprf.js";
+export { AgentPseudonyms, LocalOprfEvaluator } from "./oprf/agent-pseudonyms.js";
+export type { OprfEvaluator } from "./oprf/agent-pseudonyms.js";
+export { WalletLists, walletListsConfigSchema, parseWalletList } from "./wallets/wallet-lists.js";
+export type { WalletListsConfig, WalletListConfig, WalletListEntry, WalletListRefresh } from "./wallets/wallet-lists.js";
+export { parseWalletAddress, walletMatchKey, eip55Checksum, base58Decode } from "./wallets/wallet-address.js";
+export type { ParsedWalletAddress } from "./wallets/wallet-address.js";
+export { keccak256 } from "./wallets/keccak.js";
+export { parseOfacSdnXml } from "./sanctions/ofac-sdn.js";
+export type { SdnList, SdnEntry, SdnDigitalCurrencyAddress } from "./sanctions/ofac-sdn.js";
+export { Watchlists, watchlistsConfigSchema, parseWatchlist, DEFAULT_WATCHLIST_THRESHOLDS } from "./sanctions/watchlists.js";
+export type { WatchlistsConfig, WatchlistConfig, WatchlistEntry, WatchlistRefresh, WatchlistScreenOptions } from "./sanctions/watchlists.js";
+export { transliterate, nameTokens, jaroWinkler, metaphone, prepareName, compareNames } from "./sanctions/name-matching.js";
+export type { PreparedName, NameComparison } from "./sanctions/name-matching.js";
+export { downloadListFile } from "./sanctions/list-download.js";
+export type { TokenIssuerOptions, TokenGrantRequest, TokenAuthority } from "./tokens/token-issuer.js";
+export { AuditLog, toolCallRecord } from "./audit/audit-log.js";
+export type { AuditEntry, AuditQuery, AuditRecord, ChainVerification } from "./audit/audit-log.js";
+export * from "./schemas/output-schemas.js";
+export * from "./types/index.js";
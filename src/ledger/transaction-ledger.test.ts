@@ -0,0 +1,106 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { TransactionLedger, parseTimeWindow } from "./transaction-ledger.js";
+
+const HOUR = 3_600_000;
+// Recent enough that reloading the file keeps the entries within retention
+const NOW = Date.now();
+const at = (hoursAgo: number) => new Date(NOW - hoursAgo * HOUR).toISOString();
+
+describe("parseTimeWindow", () => {
+  it("converts units to milliseconds", () => {
+    expect(parseTimeWindow("15m")).toBe(15 * 60_000);
+    expect(parseTimeWindow("24h")).toBe(24 * HOUR);
+    expect(parseTimeWindow(" 7D ")).toBe(7 * 24 * HOUR);
+    expect(parseTimeWindow("2w")).toBe(14 * 24 * HOUR);
+  });
+
+  it("rejects zero and malformed windows", () => {
+    expect(() => parseTimeWindow("0h")).toThrow(/Invalid time window/);
+    expect(() => parseTimeWindow("1y")).toThrow(/Invalid time window/);
+    expect(() => parseTimeWindow("h")).toThrow(/Invalid time window/);
+  });
+});
+
+describe("TransactionLedger.windowStats", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ledger-"));
+    file = path.join(dir, "ledger.ndjson");
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("counts entries inside the window, excluding its start and the future", () => {
+    const ledger = new TransactionLedger({ filePath: file });
+    for (const [hoursAgo, amount] of [[0.5, 10], [0.99, 20], [1, 40], [-0.1, 80]]) {
+      ledger.record({ amount, currency: "USD", base_amount: amount, merchant_id: "m1", timestamp: at(hoursAgo) }, "ingest");
+    }
+
+    const stats = ledger.windowStats("merchant", "m1", HOUR, NOW);
+    expect(stats.count).toBe(2);
+    expect(stats.amount).toBe(30);
+  });
+
+  it("averages the baseline over the full windows before the current one", () => {
+    const ledger = new TransactionLedger({ filePath: file });
+    // First seen 4.5h ago: three full one-hour windows precede the current one
+    ledger.record({ amount: 100, currency: "USD", base_amount: 100, agent_id: "a1", timestamp: at(4.5) }, "ingest");
+    ledger.record({ amount: 50, currency: "USD", base_amount: 50, agent_id: "a1", timestamp: at(2.5) }, "ingest");
+    ledger.record({ amount: 30, currency: "USD", base_amount: 30, agent_id: "a1", timestamp: at(1.5) }, "ingest");
+    ledger.record({ amount: 5, currency: "USD", base_amount: 5, agent_id: "a1", timestamp: at(0.2) }, "ingest");
+
+    const stats = ledger.windowStats("agent", "a1", HOUR, NOW);
+    expect(stats.baselineWindows).toBe(3);
+    // The entry 4.5h ago is older than the three baseline windows
+    expect(stats.baselineCount).toBeCloseTo(2 / 3);
+    expect(stats.baselineAmount).toBeCloseTo(80 / 3);
+    expect(stats.count).toBe(1);
+  });
+
+  it("sums base amounts rather than amounts in their own currencies", () => {
+    const ledger = new TransactionLedger({ filePath: file });
+    ledger.record({ amount: 15000, currency: "JPY", base_amount: 100, merchant_id: "m1", timestamp: at(0.2) }, "ingest");
+    ledger.record({ amount: 20, currency: "USD", base_amount: 20, merchant_id: "m1", timestamp: at(0.3) }, "ingest");
+    ledger.record({ amount: 30000, currency: "JPY", base_amount: 200, merchant_id: "m1", timestamp: at(1.5) }, "ingest");
+    // Seen earlier still, so one full window precedes the current one
+    ledger.record({ amount: 0, currency: "USD", base_amount: 0, merchant_id: "m1", timestamp: at(2.5) }, "ingest");
+
+    const stats = new TransactionLedger({ filePath: file }).windowStats("merchant", "m1", HOUR, NOW);
+    expect(stats.amount).toBe(120);
+    expect(stats.baselineAmount).toBe(200);
+  });
+
+  it("has no baseline before a full window of history", () => {
+    const ledger = new TransactionLedger({ filePath: file });
+    ledger.record({ amount: 1, currency: "USD", base_amount: 1, card_fingerprint: "c1", timestamp: at(1.5) }, "ingest");
+    const stats = ledger.windowStats("card", "c1", HOUR, NOW);
+    expect(stats.baselineWindows).toBe(0);
+    expect(stats.baselineCount).toBeNull();
+  });
+
+  it("caps baseline windows at maxBaselineWindows", () => {
+    const ledger = new TransactionLedger({ filePath: file, maxBaselineWindows: 2 });
+    ledger.record({ amount: 1, currency: "USD", base_amount: 1, wallet_address: "w1", timestamp: at(10) }, "ingest");
+    expect(ledger.windowStats("wallet", "w1", HOUR, NOW).baselineWindows).toBe(2);
+  });
+
+  it("ignores duplicate ids and replays the file on restart", () => {
+    const ledger = new TransactionLedger({ filePath: file });
+    expect(ledger.record({ id: "tx1", amount: 10, currency: "usd", base_amount: 10, merchant_id: "m1", timestamp: at(0.1) }, "ingest")).not.toBeNull();
+    expect(ledger.record({ id: "tx1", amount: 10, currency: "usd", base_amount: 10, merchant_id: "m1", timestamp: at(0.1) }, "ingest")).toBeNull();
+
+    const reopened = new TransactionLedger({ filePath: file });
+    expect(reopened.windowStats("merchant", "m1", HOUR, NOW).count).toBe(1);
+  });
+
+  it("drops entries older than the retention period on load", () => {
+    const ledger = new TransactionLedger({ filePath: file, retentionDays: 1 });
+    ledger.record({ amount: 10, currency: "USD", base_amount: 10, merchant_id: "m1", timestamp: new Date(Date.now() - 2 * 24 * HOUR).toISOString() }, "ingest");
+    const reopened = new TransactionLedger({ filePath: file, retentionDays: 1 });
+    expect(reopened.windowStats("merchant", "m1", 7 * 24 * HOUR).count).toBe(0);
+  });
+});
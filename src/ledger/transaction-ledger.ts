@@ -0,0 +1,201 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { logger } from "../utils/logger.js";
+import type { EntityType, PaymentRail } from "../types/index.js";
+
+export interface LedgerEntry {
+  id: string;
+  timestamp: string;
+  amount: number;
+  currency: string;
+  /** amount in the FX table's base currency */
+  base_amount: number;
+  payment_rail?: PaymentRail;
+  merchant_category?: string;
+  merchant_id?: string;
+  agent_id?: string;
+  card_fingerprint?: string;
+  wallet_address?: string;
+  source: "transaction_risk" | "ingest";
+}
+
+export type LedgerEvent = Omit<LedgerEntry, "id" | "timestamp" | "source"> & {
+  id?: string;
+  timestamp?: string;
+};
+
+export interface WindowStats {
+  count: number;
+  amount: number;
+  /** Average count per window over the preceding full windows, null without history */
+  baselineCount: number | null;
+  baselineAmount: number | null;
+  baselineWindows: number;
+}
+
+export interface TransactionLedgerConfig {
+  filePath: string;
+  retentionDays?: number;
+  maxBaselineWindows?: number;
+}
+
+const ENTITY_FIELDS: Record<EntityType, keyof LedgerEntry> = {
+  merchant: "merchant_id",
+  agent: "agent_id",
+  card: "card_fingerprint",
+  wallet: "wallet_address",
+};
+
+const WINDOW_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse a velocity window such as "15m", "1h", "7d" or "2w" into milliseconds.
+ */
+export function parseTimeWindow(window: string): number {
+  const match = /^(\d+)\s*([mhdw])$/.exec(window.trim().toLowerCase());
+  if (!match || parseInt(match[1], 10) <= 0) {
+    throw new Error(`Invalid time window "${window}" — expected e.g. 15m, 1h, 24h, 7d, 2w`);
+  }
+  return parseInt(match[1], 10) * WINDOW_UNITS[match[2]];
+}
+
+/**
+ * Local transaction ledger.
+ *
+ * Append-only NDJSON file, replayed into a per-entity in-memory index on startup.
+ * Every transaction scored by guardscore_transaction_risk is recorded here, and
+ * external events can be ingested directly. Velocity checks read sliding-window
+ * counts and baselines from this index.
+ */
+export class TransactionLedger {
+  private readonly filePath: string;
+  private readonly retentionMs: number;
+  private readonly maxBaselineWindows: number;
+  private readonly index = new Map<string, LedgerEntry[]>();
+  private readonly ids = new Set<string>();
+
+  constructor(config: TransactionLedgerConfig) {
+    this.filePath = config.filePath;
+    this.retentionMs = (config.retentionDays ?? 90) * 86_400_000;
+    this.maxBaselineWindows = config.maxBaselineWindows ?? 30;
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      logger.info(`Transaction ledger created at ${this.filePath}`);
+      return;
+    }
+
+    const cutoff = Date.now() - this.retentionMs;
+    let loaded = 0;
+    let skipped = 0;
+    for (const line of fs.readFileSync(this.filePath, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as LedgerEntry;
+        if (Date.parse(entry.timestamp) < cutoff) continue;
+        this.indexEntry(entry);
+        loaded++;
+      } catch {
+        skipped++;
+      }
+    }
+    if (skipped > 0) logger.warn(`Transaction ledger skipped ${skipped} unreadable line(s)`);
+    logger.info(`Transaction ledger loaded ${loaded} entries from ${this.filePath}`);
+  }
+
+  private indexEntry(entry: LedgerEntry) {
+    this.ids.add(entry.id);
+    const ts = Date.parse(entry.timestamp);
+    for (const [type, field] of Object.entries(ENTITY_FIELDS)) {
+      const entityId = entry[field];
+      if (typeof entityId !== "string" || !entityId) continue;
+      const key = `${type}:${entityId}`;
+      const list = this.index.get(key) ?? [];
+      // Keep each list sorted by time; ingested events may arrive out of order
+      let i = list.length;
+      while (i > 0 && Date.parse(list[i - 1].timestamp) > ts) i--;
+      list.splice(i, 0, entry);
+      this.index.set(key, list);
+    }
+  }
+
+  /**
+   * Record a transaction. Events with an id that is already in the ledger are ignored,
+   * which makes re-ingesting the same batch safe.
+   */
+  record(event: LedgerEvent, source: LedgerEntry["source"]): LedgerEntry | null {
+    if (event.id && this.ids.has(event.id)) return null;
+    const timestamp = event.timestamp ? new Date(event.timestamp) : new Date();
+    if (isNaN(timestamp.getTime())) {
+      throw new Error(`Invalid timestamp "${event.timestamp}"`);
+    }
+
+    const entry: LedgerEntry = {
+      ...event,
+      id: event.id ?? randomUUID(),
+      timestamp: timestamp.toISOString(),
+      currency: event.currency.toUpperCase(),
+      source,
+    };
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n");
+    this.indexEntry(entry);
+    return entry;
+  }
+
+  /**
+   * Sliding-window count and base-currency amount for an entity, plus the average per window over
+   * the full windows preceding it (bounded by retention and maxBaselineWindows).
+   */
+  windowStats(entityType: EntityType, entityId: string, windowMs: number, now = Date.now()): WindowStats {
+    const list = this.index.get(`${entityType}:${entityId}`) ?? [];
+    const windowStart = now - windowMs;
+
+    let count = 0;
+    let amount = 0;
+    for (const entry of list) {
+      const ts = Date.parse(entry.timestamp);
+      if (ts > windowStart && ts <= now) {
+        count++;
+        amount += entry.base_amount;
+      }
+    }
+
+    const firstSeen = list.length > 0 ? Date.parse(list[0].timestamp) : now;
+    const historyStart = Math.max(firstSeen, now - this.retentionMs);
+    const baselineWindows = Math.min(
+      this.maxBaselineWindows,
+      Math.max(0, Math.floor((windowStart - historyStart) / windowMs)),
+    );
+    if (baselineWindows === 0) {
+      return { count, amount, baselineCount: null, baselineAmount: null, baselineWindows: 0 };
+    }
+
+    const baselineStart = windowStart - baselineWindows * windowMs;
+    let baselineCount = 0;
+    let baselineAmount = 0;
+    for (const entry of list) {
+      const ts = Date.parse(entry.timestamp);
+      if (ts > baselineStart && ts <= windowStart) {
+        baselineCount++;
+        baselineAmount += entry.base_amount;
+      }
+    }
+
+    return {
+      count,
+      amount,
+      baselineCount: baselineCount / baselineWindows,
+      baselineAmount: baselineAmount / baselineWindows,
+      baselineWindows,
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import fs from "node:fs";
+import path from "node:path";
+import { logger } from "../utils/logger.js";
+
+export type QuotaPeriod = "daily" | "monthly";
+
+interface ClientUsage {
+  day: string;
+  daily: number;
+  month: string;
+  monthly: number;
+}
+
+export interface QuotaUsage {
+  daily: number;
+  monthly: number;
+  /** When each counter resets (UTC day and month boundaries) */
+  daily_resets_at: string;
+  monthly_resets_at: string;
+}
+
+const dayKey = (now: Date) => now.toISOString().slice(0, 10);
+const monthKey = (now: Date) => now.toISOString().slice(0, 7);
+
+function nextDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+function nextMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Daily and monthly call counters per client, persisted as a JSON file so quotas
+ * survive restarts. Periods are UTC calendar days and months; a counter from an
+ * earlier period reads as zero. Counts are written at most once per flush delay
+ * rather than on every call; call flush() before exiting to keep the last ones.
+ */
+export class QuotaStore {
+  private readonly filePath: string;
+  private readonly flushDelayMs: number;
+  private readonly clients = new Map<string, ClientUsage>();
+  private pendingSave: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string, flushDelayMs = 1000) {
+    this.filePath = filePath;
+    this.flushDelayMs = flushDelayMs;
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      return;
+    }
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Record<string, ClientUsage>;
+      for (const [client, usage] of Object.entries(saved)) this.clients.set(client, usage);
+      logger.info(`Quota counters loaded for ${this.clients.size} client(s) from ${this.filePath}`);
+    } catch (err) {
+      logger.warn(`Quota file ${this.filePath} is unreadable, starting from zero: ${(err as Error).message}`);
+    }
+  }
+
+  private save() {
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(Object.fromEntries(this.clients)));
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  private current(client: string, now: Date): ClientUsage {
+    const usage = this.clients.get(client) ?? { day: dayKey(now), daily: 0, month: monthKey(now), monthly: 0 };
+    if (usage.day !== dayKey(now)) {
+      usage.day = dayKey(now);
+      usage.daily = 0;
+    }
+    if (usage.month !== monthKey(now)) {
+      usage.month = monthKey(now);
+      usage.monthly = 0;
+    }
+    return usage;
+  }
+
+  usage(client: string, now = new Date()): QuotaUsage {
+    const usage = this.current(client, now);
+    return {
+      daily: usage.daily,
+      monthly: usage.monthly,
+      daily_resets_at: nextDay(now).toISOString(),
+      monthly_resets_at: nextMonth(now).toISOString(),
+    };
+  }
+
+  /** Count one call against both periods */
+  increment(client: string, now = new Date()): void {
+    const usage = this.current(client, now);
+    usage.daily++;
+    usage.monthly++;
+    this.clients.set(client, usage);
+    if (!this.pendingSave) {
+      this.pendingSave = setTimeout(() => this.flush(), this.flushDelayMs).unref();
+    }
+  }
+
+  /** Write counts not yet persisted; a no-op when nothing changed */
+  flush(): void {
+    if (!this.pendingSave) return;
+    clearTimeout(this.pendingSave);
+    this.pendingSave = null;
+    try {
+      this.save();
+    } catch (err) {
+      logger.error(`Failed to persist quota counters: ${(err as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+export interface BucketLimit {
+  /** Sustained rate; 0 or less disables the limit */
+  perMinute: number;
+  /** Bucket size — calls allowed back-to-back after an idle period (default: perMinute) */
+  burst?: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets keyed by an arbitrary string (client, client+tool, ...). Buckets
+ * start full and refill continuously; a full bucket is forgotten on the next sweep
+ * so idle clients don't accumulate.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private lastSweep = Date.now();
+
+  /**
+   * Take one token. Returns 0 when allowed, otherwise the milliseconds until a
+   * token will be available (nothing is consumed in that case).
+   */
+  take(key: string, limit: BucketLimit, now = Date.now()): number {
+    const wait = this.wait(key, limit, now);
+    if (wait === 0 && limit.perMinute > 0) this.buckets.get(key)!.tokens -= 1;
+    return wait;
+  }
+
+  /** Like take, but only reports the wait; the token stays in the bucket */
+  wait(key: string, limit: BucketLimit, now = Date.now()): number {
+    if (limit.perMinute <= 0) return 0;
+    const capacity = Math.max(1, limit.burst ?? limit.perMinute);
+    const refillPerMs = limit.perMinute / 60_000;
+
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    this.sweep(now);
+
+    return bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) / refillPerMs);
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < 60_000) return;
+    this.lastSweep = now;
+    // Drop buckets idle for 10 minutes; at any practical rate they have refilled by then
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > 10 * 60_000) this.buckets.delete(key);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { QuotaStore } from "./quota-store.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { UsageLimits } from "./usage-limits.js";
+
+const NOW = new Date("2026-06-15T12:00:00Z");
+const later = (ms: number) => new Date(NOW.getTime() + ms);
+
+let dir: string;
+let file: string;
+let stores: QuotaStore[];
+
+/** A store whose pending write lands before its directory is removed */
+const openStore = (flushDelayMs?: number) => {
+  const store = new QuotaStore(file, flushDelayMs);
+  stores.push(store);
+  return store;
+};
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "limits-"));
+  file = path.join(dir, "quotas.json");
+  stores = [];
+});
+afterEach(() => {
+  for (const store of stores) store.flush();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("RateLimiter", () => {
+  it("allows a burst, then refills continuously", () => {
+    const limiter = new RateLimiter();
+    const limit = { perMinute: 60, burst: 2 };
+    const t = NOW.getTime();
+    expect(limiter.take("k", limit, t)).toBe(0);
+    expect(limiter.take("k", limit, t)).toBe(0);
+    expect(limiter.take("k", limit, t)).toBe(1000);
+    expect(limiter.take("k", limit, t + 500)).toBe(500);
+    expect(limiter.take("k", limit, t + 1000)).toBe(0);
+  });
+
+  it("reports the wait without taking a token", () => {
+    const limiter = new RateLimiter();
+    const limit = { perMinute: 60, burst: 1 };
+    expect(limiter.wait("k", limit)).toBe(0);
+    expect(limiter.wait("k", limit)).toBe(0);
+    expect(limiter.take("k", limit)).toBe(0);
+    expect(limiter.wait("k", limit)).toBeGreaterThan(0);
+  });
+
+  it("treats a zero rate as unlimited", () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 100; i++) expect(limiter.take("k", { perMinute: 0 })).toBe(0);
+  });
+});
+
+describe("UsageLimits.checkToolCall", () => {
+  it("does not spend the client bucket on a call its tool limit refuses", () => {
+    const limits = new UsageLimits(openStore());
+    const settings = { ratePerMinute: 2, toolRatePerMinute: { guardscore_batch_transaction_risk: 1 } };
+
+    expect(limits.checkToolCall("acme", "guardscore_batch_transaction_risk", settings, NOW)).toBeNull();
+    const refused = limits.checkToolCall("acme", "guardscore_batch_transaction_risk", settings, NOW);
+    expect(refused).toMatchObject({ code: "RATE_LIMITED", scope: "tool", limit: 1 });
+
+    // The refused call left the client's second token in place
+    expect(limits.checkToolCall("acme", "guardscore_transaction_risk", settings, NOW)).toBeNull();
+    expect(limits.checkToolCall("acme", "guardscore_transaction_risk", settings, NOW)).toMatchObject({ scope: "client" });
+    expect(limits.usage("acme", NOW).daily).toBe(2);
+  });
+
+  it("keeps clients apart", () => {
+    const limits = new UsageLimits(openStore());
+    const settings = { ratePerMinute: 1 };
+    expect(limits.checkToolCall("ip:10.0.0.1", "t", settings, NOW)).toBeNull();
+    expect(limits.checkToolCall("ip:10.0.0.2", "t", settings, NOW)).toBeNull();
+    expect(limits.checkToolCall("ip:10.0.0.1", "t", settings, NOW)).not.toBeNull();
+  });
+
+  it("refuses calls once the daily quota is used up, until the next UTC day", () => {
+    const limits = new UsageLimits(openStore());
+    const settings = { dailyQuota: 2 };
+    limits.checkToolCall("acme", "t", settings, NOW);
+    limits.checkToolCall("acme", "t", settings, NOW);
+
+    const refused = limits.checkToolCall("acme", "t", settings, NOW);
+    expect(refused).toMatchObject({ code: "QUOTA_EXCEEDED", scope: "daily", retry_after_ms: 12 * 3_600_000 });
+    expect(limits.checkToolCall("acme", "t", settings, later(12 * 3_600_000))).toBeNull();
+  });
+});
+
+describe("QuotaStore", () => {
+  it("debounces writes and persists counts across restarts", () => {
+    const store = openStore(60_000);
+    store.increment("acme", NOW);
+    store.increment("acme", NOW);
+    expect(fs.existsSync(file)).toBe(false);
+
+    store.flush();
+    const reloaded = new QuotaStore(file);
+    expect(reloaded.usage("acme", NOW)).toMatchObject({
+      daily: 2,
+      monthly: 2,
+      daily_resets_at: "2026-06-16T00:00:00.000Z",
+      monthly_resets_at: "2026-07-01T00:00:00.000Z",
+    });
+  });
+
+  it("writes on its own after the flush delay", async () => {
+    const store = openStore(10);
+    store.increment("acme", NOW);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(JSON.parse(fs.readFileSync(file, "utf8")).acme).toMatchObject({ daily: 1, monthly: 1 });
+  });
+
+  it("resets counters from earlier periods", () => {
+    const store = openStore();
+    store.increment("acme", NOW);
+    expect(store.usage("acme", later(86_400_000))).toMatchObject({ daily: 0, monthly: 1 });
+    expect(store.usage("acme", new Date("2026-07-01T00:00:00Z"))).toMatchObject({ daily: 0, monthly: 0 });
+  });
+
+  it("starts from zero when the file is unreadable", () => {
+    fs.writeFileSync(file, "{not json");
+    expect(new QuotaStore(file).usage("acme", NOW).monthly).toBe(0);
+  });
+});
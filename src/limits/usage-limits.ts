@@ -0,0 +1,124 @@
+import { RateLimiter } from "./rate-limiter.js";
+import { QuotaStore } from "./quota-store.js";
+import type { QuotaUsage } from "./quota-store.js";
+
+export interface LimitSettings {
+  /** Tool calls per minute per client, across all tools; 0 disables */
+  ratePerMinute?: number;
+  /** Burst size for the per-client bucket (default: ratePerMinute) */
+  burst?: number;
+  /** Tool calls per minute per client for individual tools */
+  toolRatePerMinute?: Record<string, number>;
+  /** Tool calls per client per UTC day / month; 0 or unset means unlimited */
+  dailyQuota?: number;
+  monthlyQuota?: number;
+}
+
+export type LimitScope = "client" | "tool" | "daily" | "monthly" | "http";
+
+export interface LimitDenial {
+  code: "RATE_LIMITED" | "QUOTA_EXCEEDED";
+  scope: LimitScope;
+  message: string;
+  limit: number;
+  retry_after_ms: number;
+}
+
+/**
+ * Rate limits and quotas for MCP clients (a tenant, or the single local client).
+ *
+ * One instance per process: token buckets per client, per client+tool and per HTTP
+ * caller live in memory, while daily and monthly counters persist in the quota store.
+ */
+export class UsageLimits {
+  private readonly buckets = new RateLimiter();
+  private readonly quotas: QuotaStore;
+
+  constructor(quotas: QuotaStore) {
+    this.quotas = quotas;
+  }
+
+  /**
+   * Admit one tool call. Checks the quotas, then the client and tool buckets, and
+   * takes a token from each bucket only when both have one, so a call refused by
+   * its tool limit doesn't use up the client's budget. Every admitted call is
+   * counted, whether or not quotas are configured.
+   */
+  checkToolCall(client: string, tool: string, settings: LimitSettings, now = new Date()): LimitDenial | null {
+    const exhausted = this.quotaDenial(client, settings, now);
+    if (exhausted) return exhausted;
+
+    const clientKey = `client:${client}`;
+    const clientLimit = { perMinute: settings.ratePerMinute ?? 0, burst: settings.burst };
+    const clientWait = this.buckets.wait(clientKey, clientLimit, now.getTime());
+    if (clientWait > 0) {
+      return rateDenial("client", settings.ratePerMinute!, clientWait, `Client "${client}" exceeded ${settings.ratePerMinute} tool calls per minute`);
+    }
+
+    const toolKey = `tool:${client}:${tool}`;
+    const toolRate = settings.toolRatePerMinute?.[tool] ?? 0;
+    const toolWait = this.buckets.wait(toolKey, { perMinute: toolRate }, now.getTime());
+    if (toolWait > 0) {
+      return rateDenial("tool", toolRate, toolWait, `Client "${client}" exceeded ${toolRate} ${tool} calls per minute`);
+    }
+
+    this.buckets.take(clientKey, clientLimit, now.getTime());
+    this.buckets.take(toolKey, { perMinute: toolRate }, now.getTime());
+    this.quotas.increment(client, now);
+    return null;
+  }
+
+  /**
+   * Admit one HTTP request to /mcp. Only the request bucket is consumed; an
+   * exhausted quota is reported here too so clients get a 429 before a session
+   * is set up.
+   */
+  checkRequest(caller: string, client: string | undefined, perMinute: number, settings: LimitSettings, now = new Date()): LimitDenial | null {
+    if (client) {
+      const exhausted = this.quotaDenial(client, settings, now);
+      if (exhausted) return exhausted;
+    }
+    const wait = this.buckets.take(`http:${caller}`, { perMinute }, now.getTime());
+    return wait > 0 ? rateDenial("http", perMinute, wait, `Exceeded ${perMinute} requests per minute`) : null;
+  }
+
+  usage(client: string, now = new Date()): QuotaUsage {
+    return this.quotas.usage(client, now);
+  }
+
+  /** Persist quota counters that are still waiting for a debounced write */
+  flush(): void {
+    this.quotas.flush();
+  }
+
+  private quotaDenial(client: string, settings: LimitSettings, now: Date): LimitDenial | null {
+    const usage = this.quotas.usage(client, now);
+    if (settings.monthlyQuota && usage.monthly >= settings.monthlyQuota) {
+      return quotaDenial("monthly", settings.monthlyQuota, usage.monthly_resets_at, now);
+    }
+    if (settings.dailyQuota && usage.daily >= settings.dailyQuota) {
+      return quotaDenial("daily", settings.dailyQuota, usage.daily_resets_at, now);
+    }
+    return null;
+  }
+}
+
+function rateDenial(scope: LimitScope, limit: number, waitMs: number, message: string): LimitDenial {
+  return {
+    code: "RATE_LIMITED",
+    scope,
+    message: `${message} — retry in ${Math.ceil(waitMs / 1000)}s`,
+    limit,
+    retry_after_ms: waitMs,
+  };
+}
+
+function quotaDenial(scope: "daily" | "monthly", limit: number, resetsAt: string, now: Date): LimitDenial {
+  return {
+    code: "QUOTA_EXCEEDED",
+    scope,
+    message: `${scope === "daily" ? "Daily" : "Monthly"} quota of ${limit} tool calls used up — resets at ${resetsAt}`,
+    limit,
+    retry_after_ms: Date.parse(resetsAt) - now.getTime(),
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "@jest/globals";
+import { MastercardInputs, mastercardActions, mastercardChargebackStanding, mastercardFraudStanding } from "./mastercard-programs.js";
+
+const inputs = (overrides: Partial<MastercardInputs> = {}): MastercardInputs => ({
+  chargeback_count: 50,
+  previous_month_transactions: 10_000,
+  ecommerce_transactions: 8000,
+  fraud_amount_usd: 10_000,
+  sales_amount_usd: 1_000_000,
+  three_ds_coverage_pct: 50,
+  ...overrides,
+});
+
+describe("mastercardChargebackStanding", () => {
+  it.each([
+    [50, 10_000, "standard", "cmm", 1],
+    [120, 10_000, "cmm", "ecm", 1.5],
+    [160, 10_000, "ecm", "hecm", 3],
+    [320, 10_000, "hecm", null, null],
+  ])("tiers %i chargebacks over %i transactions as %s", (chargebacks, transactions, tier, next, nextRatio) => {
+    const standing = mastercardChargebackStanding(inputs({ chargeback_count: chargebacks, previous_month_transactions: transactions }));
+    expect(standing).toMatchObject({ tier, next_tier: next, next_tier_ratio_pct: nextRatio });
+  });
+
+  it("needs the minimum chargeback count as well as the ratio", () => {
+    // 4% of a small merchant's volume, but only 80 chargebacks
+    const standing = mastercardChargebackStanding(inputs({ chargeback_count: 80, previous_month_transactions: 2000 }));
+    expect(standing).toMatchObject({ ratio_pct: 4, tier: "standard" });
+    expect(standing.criteria).toContainEqual({ criterion: "hecm_ratio_pct", value: 4, threshold: 3, met: true });
+    expect(standing.criteria).toContainEqual({ criterion: "cmm_min_chargebacks", value: 80, threshold: 100, met: false });
+  });
+
+  it("needs 300 chargebacks for the high excessive tier", () => {
+    expect(mastercardChargebackStanding(inputs({ chargeback_count: 299, previous_month_transactions: 5000 })).tier).toBe("ecm");
+  });
+});
+
+describe("mastercardFraudStanding", () => {
+  const efm = inputs({ ecommerce_transactions: 5000, fraud_amount_usd: 60_000, sales_amount_usd: 2_000_000, three_ds_coverage_pct: 5 });
+
+  it("applies EFM only when every criterion holds", () => {
+    expect(mastercardFraudStanding(efm)).toMatchObject({ tier: "efm", fraud_to_sales_pct: 3 });
+    expect(mastercardFraudStanding({ ...efm, three_ds_coverage_pct: 10 }).tier).toBe("standard");
+    expect(mastercardFraudStanding({ ...efm, fraud_amount_usd: 49_999 }).tier).toBe("standard");
+    expect(mastercardFraudStanding({ ...efm, ecommerce_transactions: 999 }).tier).toBe("standard");
+    expect(mastercardFraudStanding({ ...efm, sales_amount_usd: 20_000_000 }).tier).toBe("standard");
+  });
+
+  it("reports each criterion with its value", () => {
+    expect(mastercardFraudStanding({ ...efm, three_ds_coverage_pct: 10 }).criteria).toEqual([
+      { criterion: "min_ecommerce_transactions", value: 5000, threshold: 1000, met: true },
+      { criterion: "min_fraud_amount_usd", value: 60_000, threshold: 50_000, met: true },
+      { criterion: "fraud_to_sales_pct", value: 3, threshold: 0.5, met: true },
+      { criterion: "max_three_ds_coverage_pct", value: 10, threshold: 10, met: false },
+    ]);
+  });
+});
+
+describe("mastercardActions", () => {
+  it("flags the program the merchant is in and an EFM criterion left to meet", () => {
+    const all = inputs({ chargeback_count: 350, ecommerce_transactions: 5000, fraud_amount_usd: 60_000, three_ds_coverage_pct: 20 });
+    const actions = mastercardActions(mastercardChargebackStanding(all), mastercardFraudStanding(all));
+    expect(actions[0]).toMatch(/^URGENT: High Excessive Chargeback Merchant/);
+    expect(actions.at(-1)).toBe("One Excessive Fraud Merchant criterion left unmet (max_three_ds_coverage_pct) — keep it that way and reduce card-not-present fraud");
+  });
+
+  it("has nothing to recommend for a merchant clear of both programs", () => {
+    expect(mastercardActions(mastercardChargebackStanding(inputs()), mastercardFraudStanding(inputs()))).toEqual([]);
+  });
+});
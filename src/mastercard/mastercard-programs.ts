@@ -0,0 +1,108 @@
+import type {
+  MastercardChargebackStanding,
+  MastercardChargebackTier,
+  MastercardFraudStanding,
+  ProgramCriterion,
+} from "../types/index.js";
+
+/**
+ * Excessive Chargeback Program tiers, most severe first. The ratio is this month's
+ * chargebacks over the previous month's transactions, and a tier applies only with
+ * at least its minimum number of chargebacks.
+ */
+export const MASTERCARD_CHARGEBACK_TIERS: Array<{ tier: Exclude<MastercardChargebackTier, "standard">; ratio_pct: number; min_chargebacks: number }> = [
+  { tier: "hecm", ratio_pct: 3.0, min_chargebacks: 300 },
+  { tier: "ecm", ratio_pct: 1.5, min_chargebacks: 100 },
+  { tier: "cmm", ratio_pct: 1.0, min_chargebacks: 100 },
+];
+
+/** Excessive Fraud Merchant criteria for card-not-present volume; all must hold in the month */
+export const MASTERCARD_EFM_CRITERIA = {
+  min_ecommerce_transactions: 1000,
+  min_fraud_amount_usd: 50_000,
+  fraud_to_sales_pct: 0.5,
+  /** EFM applies only below this share of volume authenticated with EMV 3-D Secure */
+  max_three_ds_coverage_pct: 10,
+};
+
+export interface MastercardInputs {
+  chargeback_count: number;
+  previous_month_transactions: number;
+  ecommerce_transactions: number;
+  fraud_amount_usd: number;
+  sales_amount_usd: number;
+  three_ds_coverage_pct: number;
+}
+
+const round = (n: number, digits = 3) => parseFloat(n.toFixed(digits));
+
+export function mastercardChargebackStanding(inputs: MastercardInputs): MastercardChargebackStanding {
+  const ratio = inputs.previous_month_transactions > 0
+    ? (inputs.chargeback_count / inputs.previous_month_transactions) * 100
+    : 0;
+  const tier = MASTERCARD_CHARGEBACK_TIERS.find(t => ratio >= t.ratio_pct && inputs.chargeback_count >= t.min_chargebacks);
+  const current: MastercardChargebackTier = tier?.tier ?? "standard";
+  // Tiers are listed most severe first, so the next one up sits just before the current one
+  const index = tier ? MASTERCARD_CHARGEBACK_TIERS.indexOf(tier) : MASTERCARD_CHARGEBACK_TIERS.length;
+  const next = index > 0 ? MASTERCARD_CHARGEBACK_TIERS[index - 1] : null;
+
+  const criteria: ProgramCriterion[] = MASTERCARD_CHARGEBACK_TIERS.flatMap(t => [
+    { criterion: `${t.tier}_ratio_pct`, value: round(ratio), threshold: t.ratio_pct, met: ratio >= t.ratio_pct },
+    { criterion: `${t.tier}_min_chargebacks`, value: inputs.chargeback_count, threshold: t.min_chargebacks, met: inputs.chargeback_count >= t.min_chargebacks },
+  ]);
+
+  return {
+    ratio_pct: round(ratio),
+    chargeback_count: inputs.chargeback_count,
+    previous_month_transactions: inputs.previous_month_transactions,
+    tier: current,
+    next_tier: next?.tier ?? null,
+    next_tier_ratio_pct: next?.ratio_pct ?? null,
+    criteria,
+  };
+}
+
+export function mastercardFraudStanding(inputs: MastercardInputs): MastercardFraudStanding {
+  const ratio = inputs.sales_amount_usd > 0 ? (inputs.fraud_amount_usd / inputs.sales_amount_usd) * 100 : 0;
+  const c = MASTERCARD_EFM_CRITERIA;
+  const criteria: ProgramCriterion[] = [
+    { criterion: "min_ecommerce_transactions", value: inputs.ecommerce_transactions, threshold: c.min_ecommerce_transactions, met: inputs.ecommerce_transactions >= c.min_ecommerce_transactions },
+    { criterion: "min_fraud_amount_usd", value: inputs.fraud_amount_usd, threshold: c.min_fraud_amount_usd, met: inputs.fraud_amount_usd >= c.min_fraud_amount_usd },
+    { criterion: "fraud_to_sales_pct", value: round(ratio), threshold: c.fraud_to_sales_pct, met: ratio >= c.fraud_to_sales_pct },
+    { criterion: "max_three_ds_coverage_pct", value: inputs.three_ds_coverage_pct, threshold: c.max_three_ds_coverage_pct, met: inputs.three_ds_coverage_pct < c.max_three_ds_coverage_pct },
+  ];
+
+  return {
+    fraud_to_sales_pct: round(ratio),
+    fraud_amount_usd: inputs.fraud_amount_usd,
+    sales_amount_usd: inputs.sales_amount_usd,
+    ecommerce_transactions: inputs.ecommerce_transactions,
+    three_ds_coverage_pct: inputs.three_ds_coverage_pct,
+    tier: criteria.every(k => k.met) ? "efm" : "standard",
+    criteria,
+  };
+}
+
+/** Remediation for the tiers the merchant is in or one step from */
+export function mastercardActions(chargeback: MastercardChargebackStanding, fraud: MastercardFraudStanding): string[] {
+  const actions: string[] = [];
+  if (chargeback.tier === "hecm") {
+    actions.push("URGENT: High Excessive Chargeback Merchant — Mastercard assessments escalate monthly until the ratio stays under 1.5% for three consecutive months");
+  } else if (chargeback.tier === "ecm") {
+    actions.push("Excessive Chargeback Merchant — submit a chargeback reduction plan to the acquirer and bring the ratio under 1.5%");
+  } else if (chargeback.tier === "cmm") {
+    actions.push("Chargeback Monitored Merchant — reduce chargebacks now to stay out of the Excessive Chargeback Program at 1.5%");
+  }
+  if (chargeback.tier !== "standard") {
+    actions.push("Enroll in Mastercard Consumer Clarity and Ethoca alerts to resolve disputes before they become chargebacks");
+    actions.push("Review descriptors, refund policy and cancellation flows behind the most frequent reason codes");
+  }
+
+  if (fraud.tier === "efm") {
+    actions.push("URGENT: Excessive Fraud Merchant — deploy EMV 3-D Secure on card-not-present volume; EFM no longer applies at 10% coverage");
+  } else if (fraud.criteria.filter(c => !c.met).length === 1) {
+    const open = fraud.criteria.find(c => !c.met)!;
+    actions.push(`One Excessive Fraud Merchant criterion left unmet (${open.criterion}) — keep it that way and reduce card-not-present fraud`);
+  }
+  return actions;
+}
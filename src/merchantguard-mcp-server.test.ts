@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MerchantGuardMCPServer, MerchantGuardMCPConfig, ServerServices, createGuardScoreAPI, openServerServices } from "./merchantguard-mcp-server.js";
+import { GuardScoreAPI } from "./api/guardscore.js";
+
+describe("MerchantGuardMCPServer resources", () => {
+  let dir: string;
+  let api: GuardScoreAPI;
+  let services: ServerServices;
+  let client: Client;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-server-"));
+    const config: MerchantGuardMCPConfig = {
+      name: "merchantguard-mcp",
+      version: "1.0.0",
+      apiUrl: "https://api.example.test",
+      apiKey: "demo",
+      dataDir: dir,
+      resourceCacheTtlMs: 0,
+    };
+    api = createGuardScoreAPI(config);
+    services = openServerServices(config);
+    const server = new MerchantGuardMCPServer(config, api, services);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "test", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+  afterEach(async () => {
+    await client.close();
+    services.limits.flush();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("never screens an agent to serve a resource read", async () => {
+    const verify = jest.spyOn(api, "verifyAgent");
+    await expect(client.readResource({ uri: "guardscore://agent/agent-7" })).rejects.toThrow(/has not been verified yet/);
+    expect(verify).not.toHaveBeenCalled();
+
+    await client.callTool({ name: "guardscore_agent_verify", arguments: { agent_id: "agent-7", requesting_action: "purchase" } });
+    expect(verify).toHaveBeenCalledTimes(1);
+
+    // The cache TTL is 0, so any other kind would be fetched again here
+    const read = await client.readResource({ uri: "guardscore://agent/agent-7" });
+    const profile = JSON.parse((read.contents[0] as { text: string }).text);
+    // Demo-mode results keep their mock provenance when served from the cache
+    expect(profile).toMatchObject({ agent_id: "agent-7", authorization_token: null, provenance: { source: "mock" } });
+    expect(verify).toHaveBeenCalledTimes(1);
+  });
+
+  it("fetches a stale merchant profile again", async () => {
+    const lookup = jest.spyOn(api, "lookupMerchant");
+    const read = await client.readResource({ uri: "guardscore://merchant/m-42" });
+    expect(JSON.parse((read.contents[0] as { text: string }).text)).toMatchObject({ merchant_id: "m-42" });
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it("screens a stale merchant profile under the name it was screened with", async () => {
+    await client.callTool({ name: "guardscore_merchant_lookup", arguments: { merchant_id: "m-42", merchant_name: "Acme Trading" } });
+    const lookup = jest.spyOn(api, "lookupMerchant");
+    const read = await client.readResource({ uri: "guardscore://merchant/m-42" });
+    expect(JSON.parse((read.contents[0] as { text: string }).text)).toMatchObject({ merchant_id: "m-42", screened_name: "Acme Trading" });
+    expect(lookup).toHaveBeenCalledWith({ merchant_id: "m-42", merchant_name: "Acme Trading" });
+  });
+});
@@ -1,13 +1,52 @@
 import { GuardScoreAPI, GuardScoreConfig } from "./api/guardscore.js";
 import { TransactionRiskScore } from "./tools/scoring/TransactionRiskScore.js";
+import { BatchTransactionRisk } from "./tools/scoring/BatchTransactionRisk.js";
 import { MerchantLookup } from "./tools/scoring/MerchantLookup.js";
 import { AgentVerify } from "./tools/scoring/AgentVerify.js";
+import { PrepaymentDecision } from "./tools/scoring/PrepaymentDecision.js";
+import { AgentBudget } from "./tools/scoring/AgentBudget.js";
+import { AgentBudgetReserve } from "./tools/scoring/AgentBudgetReserve.js";
+import { AgentBudgetCommit } from "./tools/scoring/AgentBudgetCommit.js";
+import { AgentBudgetRelease } from "./tools/scoring/AgentBudgetRelease.js";
+import { VerifyAuthorizationToken } from "./tools/scoring/VerifyAuthorizationToken.js";
 import { DisputePredict } from "./tools/monitoring/DisputePredict.js";
+import { DisputeEvidence } from "./tools/monitoring/DisputeEvidence.js";
+import { DisputeClassify } from "./tools/monitoring/DisputeClassify.js";
 import { VelocityCheck } from "./tools/monitoring/VelocityCheck.js";
+import { IngestTransactions } from "./tools/monitoring/IngestTransactions.js";
 import { CrossRailCheck } from "./tools/compliance/CrossRailCheck.js";
 import { VAMPAnalysis } from "./tools/compliance/VAMPAnalysis.js";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { VAMPSimulate } from "./tools/compliance/VAMPSimulate.js";
+import { VAMPHistory } from "./tools/compliance/VAMPHistory.js";
+import { VAMPHistoryImport } from "./tools/compliance/VAMPHistoryImport.js";
+import { MastercardProgramAnalysis } from "./tools/compliance/MastercardProgramAnalysis.js";
+import { NetworkCompliance } from "./tools/compliance/NetworkCompliance.js";
+import { WalletScreen } from "./tools/compliance/WalletScreen.js";
+import { WatchlistScreen } from "./tools/compliance/WatchlistScreen.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, ReadResourceResult, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { Tool } from "./tools/mcp-tool.js";
+import { TransactionLedger } from "./ledger/transaction-ledger.js";
+import { RiskPolicy } from "./policy/risk-policy.js";
+import { FxRates } from "./fx/fx-rates.js";
+import { VAMPHistoryStore } from "./vamp/vamp-history.js";
+import { AlertManager } from "./alerts/alert-manager.js";
+import { AgentBudgets } from "./budgets/agent-budgets.js";
+import { TokenIssuer } from "./tokens/token-issuer.js";
+import { LocalOprfEvaluator } from "./oprf/agent-pseudonyms.js";
+import { WalletLists } from "./wallets/wallet-lists.js";
+import { Watchlists } from "./sanctions/watchlists.js";
+import type { UpstreamPolicyConfig } from "./api/upstream-client.js";
+import { UsageLimits, LimitSettings } from "./limits/usage-limits.js";
+import { QuotaStore } from "./limits/quota-store.js";
+import { errorResult, limitResult } from "./utils/mcp-response.js";
+import { z } from "zod";
+import { observeToolCall } from "./metrics/metrics.js";
+import { AuditLog, toolCallRecord } from "./audit/audit-log.js";
+import { DecisionHistory } from "./tools/compliance/DecisionHistory.js";
+import { ProfileKind, cachedProvenance } from "./cache/profile-cache.js";
+import { logger, withLogContext } from "./utils/logger.js";
+import path from "node:path";
 
 export interface MerchantGuardMCPConfig {
   name: string;
@@ -17,49 +56,364 @@ export interface MerchantGuardMCPConfig {
   highRiskThreshold?: number;
   mediumRiskThreshold?: number;
   autoDeclineThreshold?: number;
+  /** JSON or YAML risk policy; its thresholds override the three above */
+  policyFile?: string;
+  /** JSON or YAML FX rate table for normalizing amounts (default: built-in indicative USD rates) */
+  fxRatesFile?: string;
+  /** JSON or YAML per-agent spend caps (default: only verified spending limits cap agents) */
+  agentBudgetsFile?: string;
+  /** JSON or YAML alert rules and webhooks (default: alerting off) */
+  alertsFile?: string;
+  /** JSON or YAML list of sanctions and denylist wallet address files (default: no wallet lists) */
+  walletListsFile?: string;
+  /** JSON or YAML list of sanctions watchlist files and name-match thresholds (default: no watchlists) */
+  watchlistsFile?: string;
+  /** How Transaction Authorization Tokens are signed (default: Ed25519 key generated under dataDir, 300s TTL) */
+  authorizationTokens?: {
+    /** PEM Ed25519 private key */
+    signingKeyFile?: string;
+    /** Shared secret; signs with HMAC-SHA256 instead of Ed25519 */
+    hmacSecret?: string;
+    ttlSeconds?: number;
+  };
+  /** Evaluate blinded agent IDs in-process with a key from this 32-byte hex seed, for testing (default: MerchantGuard evaluates) */
+  oprfLocalSeed?: string;
+  /** Directory for local state such as the transaction ledger (default ./data) */
+  dataDir?: string;
+  ledgerRetentionDays?: number;
+  upstream?: UpstreamPolicyConfig;
+  /** Return errors instead of mock data when live MerchantGuard data is unavailable */
+  strict?: boolean;
+  /** Tenant this server instance acts for; attached to every log line from its tools */
+  tenantId?: string;
+  /** Whose rate limits and quotas apply without a tenant, e.g. an HTTP client's address (default "local") */
+  clientId?: string;
+  /** Register only these tools (default: all) */
+  allowedTools?: string[];
+  /** Tool-call rate limits and quotas for this server's client */
+  limits?: LimitSettings;
+  /** Resource reads serve a cached profile younger than this instead of calling upstream (default 60s) */
+  resourceCacheTtlMs?: number;
 }
 
-export class MerchantGuardMCPServer extends McpServer {
-  private readonly guardscoreApi: GuardScoreAPI;
+export function openLedger(config: MerchantGuardMCPConfig): TransactionLedger {
+  return new TransactionLedger({
+    filePath: path.join(config.dataDir ?? "data", "ledger.ndjson"),
+    retentionDays: config.ledgerRetentionDays,
+  });
+}
+
+/** Alert rules and webhook delivery from config.alertsFile, or null when alerting is off */
+export function openAlerts(config: MerchantGuardMCPConfig): AlertManager | null {
+  return AlertManager.load(config.alertsFile, path.join(config.dataDir ?? "data", "alerts-dead-letter.ndjson"));
+}
+
+/** Signer for authorization tokens; tenants share it and can each only verify their own tokens */
+export function openTokenIssuer(config: MerchantGuardMCPConfig): TokenIssuer {
+  return new TokenIssuer({
+    issuer: config.name,
+    ttlSeconds: config.authorizationTokens?.ttlSeconds ?? 300,
+    signingKeyFile: config.authorizationTokens?.signingKeyFile,
+    hmacSecret: config.authorizationTokens?.hmacSecret,
+    generatedKeyFile: path.join(config.dataDir ?? "data", "tat-signing-key.pem"),
+    nonceFile: path.join(config.dataDir ?? "data", "tat-nonces.json"),
+  });
+}
+
+/** Process-wide state shared by every MCP server instance, whatever its tenant */
+export interface ServerServices {
+  limits: UsageLimits;
+  audit: AuditLog;
+}
+
+/** Rate limiter, quota counters and audit log; the persistent parts live under dataDir */
+export function openServerServices(config: MerchantGuardMCPConfig): ServerServices {
+  const dataDir = config.dataDir ?? "data";
+  return {
+    limits: new UsageLimits(new QuotaStore(path.join(dataDir, "quotas.json"))),
+    audit: new AuditLog(path.join(dataDir, "audit.ndjson")),
+  };
+}
 
-  constructor(config: MerchantGuardMCPConfig) {
-    super({ name: config.name, version: config.version });
+/**
+ * Build the GuardScore client for a configuration. Servers that run several MCP
+ * sessions create it once and share it, so the ledger file is opened once and
+ * circuit breakers see every session's traffic. Tenants share one alert manager,
+ * which keeps their entity states apart, and one token issuer.
+ */
+export function createGuardScoreAPI(
+  config: MerchantGuardMCPConfig,
+  ledger: TransactionLedger = openLedger(config),
+  alerts: AlertManager | null = openAlerts(config),
+  tokens: TokenIssuer = openTokenIssuer(config),
+): GuardScoreAPI {
+  const apiConfig: GuardScoreConfig = {
+    apiUrl: config.apiUrl,
+    apiKey: config.apiKey,
+    upstream: config.upstream,
+    strict: config.strict,
+  };
+
+  const policy = RiskPolicy.load(config.policyFile, {
+    auto_decline: config.autoDeclineThreshold ?? 15,
+    high_risk: config.highRiskThreshold ?? 30,
+    medium_risk: config.mediumRiskThreshold ?? 60,
+  });
+
+  // Imported VAMP figures are the tenant's own, so each tenant keeps a separate history file
+  const vampHistory = new VAMPHistoryStore(path.join(
+    config.dataDir ?? "data",
+    config.tenantId ? `vamp-history.${config.tenantId}.json` : "vamp-history.json",
+  ));
+  // Agent IDs are only unique within a tenant, and so is what they have spent
+  const budgets = AgentBudgets.load(config.agentBudgetsFile, path.join(
+    config.dataDir ?? "data",
+    config.tenantId ? `agent-budgets.${config.tenantId}.json` : "agent-budgets.json",
+  ));
+
+  let oprf: LocalOprfEvaluator | undefined;
+  if (config.oprfLocalSeed) {
+    oprf = LocalOprfEvaluator.fromHex(config.oprfLocalSeed);
+    logger.warn("Agent IDs are OPRF-evaluated locally — their pseudonyms will not match MerchantGuard's agent records");
+  }
+
+  return new GuardScoreAPI(apiConfig, {
+    ledger,
+    policy,
+    fx: FxRates.load(config.fxRatesFile),
+    vampHistory,
+    budgets,
+    alerts: alerts?.scoped(config.tenantId ?? null),
+    tokens: tokens.scoped(config.tenantId ?? null),
+    oprf,
+    walletLists: WalletLists.load(config.walletListsFile),
+    watchlists: Watchlists.load(config.watchlistsFile),
+  });
+}
+
+/** Every tool the server offers, bound to one GuardScore client */
+export function createTools(api: GuardScoreAPI, services: ServerServices, tenantId: string | null = null): Tool[] {
+  return [
+    // Scoring — use before processing payments
+    new TransactionRiskScore(api),
+    new BatchTransactionRisk(api),
+    new MerchantLookup(api),
+    new AgentVerify(api),
+    new PrepaymentDecision(api),
+    new AgentBudget(api),
+    new AgentBudgetReserve(api),
+    new AgentBudgetCommit(api),
+    new AgentBudgetRelease(api),
+    new VerifyAuthorizationToken(api),
+
+    // Monitoring — use during/after transactions
+    new DisputePredict(api),
+    new DisputeClassify(api),
+    new DisputeEvidence(api),
+    new VelocityCheck(api),
+    new IngestTransactions(api),
+
+    // Compliance — cross-rail and network monitoring
+    new CrossRailCheck(api),
+    new VAMPAnalysis(api),
+    new VAMPSimulate(api),
+    new VAMPHistory(api),
+    new VAMPHistoryImport(api),
+    new MastercardProgramAnalysis(api),
+    new NetworkCompliance(api),
+    new WalletScreen(api),
+    new WatchlistScreen(api),
+    new DecisionHistory(api, services.audit, tenantId),
+  ];
+}
 
-    const apiConfig: GuardScoreConfig = {
-      apiUrl: config.apiUrl,
-      apiKey: config.apiKey,
-      highRiskThreshold: config.highRiskThreshold ?? 30,
-      mediumRiskThreshold: config.mediumRiskThreshold ?? 60,
-      autoDeclineThreshold: config.autoDeclineThreshold ?? 15,
-    };
+/** Reading the audit trail isn't a decision; recording it would copy old entries into new ones */
+const UNAUDITED_TOOLS = new Set(["guardscore_decision_history"]);
 
-    this.guardscoreApi = new GuardScoreAPI(apiConfig);
+/** Resource templates, each available when the tool serving the same data is */
+const RESOURCES: Array<{ kind: ProfileKind; variable: string; tool: string; title: string; description: string }> = [
+  {
+    kind: "merchant",
+    variable: "merchant_id",
+    tool: "guardscore_merchant_lookup",
+    title: "Merchant profile",
+    description: "GuardScore, risk level, verification status, chargeback rate and VAMP standing for a merchant",
+  },
+  {
+    kind: "agent",
+    variable: "agent_id",
+    tool: "guardscore_agent_verify",
+    title: "Agent verification",
+    description: "Trust score, verification status, authorization level and spending limit from an AI agent's last verification",
+  },
+  {
+    kind: "vamp",
+    variable: "merchant_id",
+    tool: "guardscore_vamp_analysis",
+    title: "VAMP report",
+    description: "Visa VAMP status, fraud and dispute rates and remediation actions for a merchant",
+  },
+];
+
+export class MerchantGuardMCPServer extends McpServer {
+  private readonly guardscoreApi: GuardScoreAPI;
+  private readonly config: MerchantGuardMCPConfig;
+  private readonly services: ServerServices;
+
+  constructor(
+    config: MerchantGuardMCPConfig,
+    api: GuardScoreAPI = createGuardScoreAPI(config),
+    services: ServerServices = openServerServices(config),
+  ) {
+    super({ name: config.name, version: config.version }, { capabilities: { resources: { subscribe: true } } });
+    this.config = config;
+    this.guardscoreApi = api;
+    this.services = services;
     this.registerTools();
+    this.registerResources();
   }
 
   private registerTools() {
-    const tools: Tool[] = [
-      // Scoring — use before processing payments
-      new TransactionRiskScore(this.guardscoreApi),
-      new MerchantLookup(this.guardscoreApi),
-      new AgentVerify(this.guardscoreApi),
-
-      // Monitoring — use during/after transactions
-      new DisputePredict(this.guardscoreApi),
-      new VelocityCheck(this.guardscoreApi),
+    const tools = createTools(this.guardscoreApi, this.services, this.config.tenantId ?? null);
 
-      // Compliance — cross-rail and network monitoring
-      new CrossRailCheck(this.guardscoreApi),
-      new VAMPAnalysis(this.guardscoreApi),
-    ];
+    const allowed = this.config.allowedTools ? new Set(this.config.allowedTools) : null;
+    for (const name of allowed ?? []) {
+      if (!tools.some(t => t.getName() === name)) logger.warn(`allowedTools names unknown tool "${name}"`);
+    }
+    const logContext: Record<string, string> = this.config.tenantId ? { tenant: this.config.tenantId } : {};
 
     for (const tool of tools) {
-      this.tool(
+      if (allowed && !allowed.has(tool.getName())) continue;
+      const definition = tool.getDefinition();
+      const output = definition.outputSchema ? z.object(definition.outputSchema) : null;
+
+      this.registerTool(
         tool.getName(),
-        tool.getDefinition().description ?? "",
-        tool.getDefinition().inputSchema ?? {},
-        async (args: Record<string, unknown>) => tool.execute(args),
+        {
+          title: definition.title,
+          description: definition.description,
+          inputSchema: definition.inputSchema ?? {},
+          outputSchema: definition.outputSchema,
+          annotations: definition.annotations,
+        },
+        async (args: Record<string, unknown>, extra) => withLogContext(logContext, () =>
+          observeToolCall(tool.getName(), async () => {
+            const client = this.config.tenantId ?? extra.authInfo?.clientId ?? this.config.clientId ?? "local";
+            const denial = this.services.limits.checkToolCall(client, tool.getName(), this.config.limits ?? {});
+            if (denial) logger.warn(`${tool.getName()} refused: ${denial.message}`);
+            let result = denial ? limitResult(denial) : await tool.execute(args, extra);
+
+            // Check structuredContent here rather than leaving it to the SDK, so metrics and
+            // the audit log see a contract violation as the error the client receives
+            if (output && !result.isError) {
+              const checked = output.safeParse(result.structuredContent);
+              if (!checked.success) {
+                const issues = checked.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+                logger.error(`${tool.getName()} returned output that does not match its schema: ${issues}`);
+                result = errorResult(`Result failed output validation — ${issues}`, "OUTPUT_VALIDATION");
+              }
+            }
+
+            if (!UNAUDITED_TOOLS.has(tool.getName())) {
+              try {
+                this.services.audit.append(toolCallRecord({
+                  tenant: this.config.tenantId ?? null,
+                  client,
+                  tool: tool.getName(),
+                  input: args,
+                  result,
+                  policy: this.guardscoreApi.policyInfo(),
+                }));
+              } catch (err) {
+                logger.error(`Failed to write audit entry for ${tool.getName()}: ${(err as Error).message}`);
+              }
+            }
+            return result;
+          }),
+        ),
       );
     }
   }
+  /**
+   * guardscore://merchant/{id}, guardscore://agent/{id} and guardscore://vamp/{id}.
+   * Listing covers recently seen entities; reads serve a fresh cached profile or
+   * fetch one. Subscribers get resources/updated when a re-fetched profile's risk
+   * level, verification status or VAMP status changes.
+   */
+  private registerResources() {
+    const allowed = this.config.allowedTools ? new Set(this.config.allowedTools) : null;
+    const profiles = this.guardscoreApi.profiles;
+
+    for (const resource of RESOURCES) {
+      if (allowed && !allowed.has(resource.tool)) continue;
+      const template = new ResourceTemplate(`guardscore://${resource.kind}/{${resource.variable}}`, {
+        list: () => ({
+          resources: profiles.list(resource.kind).map(p => ({
+            uri: p.uri,
+            name: resource.kind === "merchant" ? `${(p.data as { name: string }).name} (${p.id})` : p.id,
+            mimeType: "application/json",
+          })),
+        }),
+        complete: {
+          [resource.variable]: (value) => profiles.list(resource.kind).map(p => p.id).filter(id => id.startsWith(value)),
+        },
+      });
+      this.registerResource(`${resource.kind}-profile`, template, {
+        title: resource.title,
+        description: resource.description,
+        mimeType: "application/json",
+      }, async (uri, variables, extra) => {
+        const raw = variables[resource.variable];
+        const id = decodeURIComponent(Array.isArray(raw) ? raw[0] : raw);
+        const data = await this.readProfile(resource.kind, id, extra.authInfo?.clientId);
+        return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }] } satisfies ReadResourceResult;
+      });
+    }
+
+    const subscriptions = new Set<string>();
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+    const stopListening = profiles.onChange(change => {
+      if (!subscriptions.has(change.uri)) return;
+      logger.info(`Resource updated: ${change.uri}`, { previous: change.previous, current: change.current });
+      this.server.sendResourceUpdated({ uri: change.uri }).catch(err =>
+        logger.warn(`Failed to send resources/updated for ${change.uri}: ${(err as Error).message}`));
+    });
+    this.server.onclose = stopListening;
+  }
+
+  private async readProfile(kind: ProfileKind, id: string, authClient: string | undefined) {
+    const cached = this.guardscoreApi.profiles.get(kind, id);
+    const fresh = cached && Date.now() - cached.cached_at < (this.config.resourceCacheTtlMs ?? 60_000);
+    // Screening an agent is not idempotent (rate-limited upstream, may issue a token), so reading
+    // its resource only ever serves the result of the last guardscore_agent_verify call
+    if (cached && (fresh || kind === "agent")) {
+      return { ...cached.data, provenance: cachedProvenance(cached.data.provenance) };
+    }
+    if (kind === "agent") {
+      throw new McpError(ErrorCode.InvalidParams, `Agent "${id}" has not been verified yet — call guardscore_agent_verify first`);
+    }
+
+    // A cache miss calls upstream, so it counts against the client's limits like a tool call
+    const client = this.config.tenantId ?? authClient ?? this.config.clientId ?? "local";
+    const denial = this.services.limits.checkToolCall(client, `resources/read:${kind}`, this.config.limits ?? {});
+    if (denial) {
+      throw new McpError(ErrorCode.InvalidRequest, `[${denial.code}] ${denial.message}`, denial);
+    }
+    switch (kind) {
+      case "merchant": {
+        // Screen the name the expired profile was screened under, so its watchlist hits aren't dropped
+        const screened = this.guardscoreApi.profiles.get("merchant", id)?.data.screened_name;
+        return this.guardscoreApi.lookupMerchant({ merchant_id: id, merchant_name: screened ?? undefined });
+      }
+      case "vamp":
+        return this.guardscoreApi.analyzeVAMP({ merchant_id: id });
+    }
+  }
 }
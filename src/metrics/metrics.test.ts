@@ -0,0 +1,76 @@
+import { describe, expect, it } from "@jest/globals";
+import { metrics, observeToolCall } from "./metrics.js";
+import { errorResult, successResult } from "../utils/mcp-response.js";
+
+/** Value of one series in the rendered exposition, 0 when absent */
+function sample(name: string, labels: Record<string, string>): number {
+  const wanted = Object.entries(labels).map(([k, v]) => `${k}="${v}"`);
+  const line = metrics.render().split("\n").find(l => {
+    if (!l.startsWith(`${name}{`)) return false;
+    const present = l.slice(name.length + 1, l.indexOf("}")).split(",");
+    return wanted.length === present.length && wanted.every(pair => present.includes(pair));
+  });
+  return line ? Number(line.split(" ").pop()) : 0;
+}
+
+const mock = (reason: string) => ({ source: "mock", fallback_reason: `${reason}: details` });
+
+describe("observeToolCall", () => {
+  it("counts outcomes and error codes", async () => {
+    await observeToolCall("t_outcomes", async () => successResult({ ok: true }));
+    await observeToolCall("t_outcomes", async () => errorResult("slow down", "RATE_LIMITED"));
+    await expect(observeToolCall("t_outcomes", async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+
+    expect(sample("merchantguard_tool_calls_total", { tool: "t_outcomes", outcome: "success" })).toBe(1);
+    expect(sample("merchantguard_tool_calls_total", { tool: "t_outcomes", outcome: "error" })).toBe(2);
+    expect(sample("merchantguard_tool_errors_total", { tool: "t_outcomes", code: "RATE_LIMITED" })).toBe(1);
+    expect(sample("merchantguard_tool_errors_total", { tool: "t_outcomes", code: "exception" })).toBe(1);
+    expect(sample("merchantguard_tool_duration_seconds_count", { tool: "t_outcomes" })).toBe(3);
+  });
+
+  it("counts a single result's source and decision", async () => {
+    await observeToolCall("t_single", async () => successResult({
+      risk_level: "high",
+      recommended_action: "review",
+      provenance: mock("UPSTREAM_TIMEOUT"),
+    }));
+    expect(sample("merchantguard_mock_fallbacks_total", { tool: "t_single", reason: "UPSTREAM_TIMEOUT" })).toBe(1);
+    expect(sample("merchantguard_recommended_action_total", { tool: "t_single", action: "review" })).toBe(1);
+    expect(sample("merchantguard_risk_level_total", { tool: "t_single", level: "high" })).toBe(1);
+  });
+
+  it("counts every scored batch row", async () => {
+    const row = (action: string, level: string, provenance: object) =>
+      ({ status: "scored", result: { recommended_action: action, risk_level: level, provenance } });
+    await observeToolCall("t_batch", async () => successResult({
+      summary: { scored: 3 },
+      results: [
+        row("approve", "low", { source: "live", fallback_reason: null }),
+        row("decline", "critical", mock("UPSTREAM_NOT_CONFIGURED")),
+        row("decline", "critical", mock("UPSTREAM_NOT_CONFIGURED")),
+        { status: "invalid", result: null },
+      ],
+    }));
+    expect(sample("merchantguard_mock_fallbacks_total", { tool: "t_batch", reason: "UPSTREAM_NOT_CONFIGURED" })).toBe(2);
+    expect(sample("merchantguard_recommended_action_total", { tool: "t_batch", action: "decline" })).toBe(2);
+    expect(sample("merchantguard_recommended_action_total", { tool: "t_batch", action: "approve" })).toBe(1);
+    expect(sample("merchantguard_risk_level_total", { tool: "t_batch", level: "critical" })).toBe(2);
+  });
+
+  it("counts each mock-backed prepayment check by its own reason", async () => {
+    await observeToolCall("t_prepayment", async () => successResult({
+      recommended_action: "review",
+      checks: [
+        { check: "agent", status: "completed", ...mock("UPSTREAM_UNAUTHORIZED") },
+        { check: "merchant", status: "completed", ...mock("UPSTREAM_TIMEOUT") },
+        { check: "transaction", status: "completed", source: "local", fallback_reason: null },
+        { check: "dispute", status: "skipped", source: null, fallback_reason: null },
+      ],
+      provenance: { source: "mock", fallback_reason: "agent: UPSTREAM_UNAUTHORIZED: x; merchant: UPSTREAM_TIMEOUT: y" },
+    }));
+    expect(sample("merchantguard_mock_fallbacks_total", { tool: "t_prepayment", reason: "UPSTREAM_UNAUTHORIZED" })).toBe(1);
+    expect(sample("merchantguard_mock_fallbacks_total", { tool: "t_prepayment", reason: "UPSTREAM_TIMEOUT" })).toBe(1);
+    expect(sample("merchantguard_mock_fallbacks_total", { tool: "t_prepayment", reason: "agent" })).toBe(0);
+    expect(sample("merchantguard_recommended_action_total", { tool: "t_prepayment", action: "review" })).toBe(1);
+  });
+});
@@ -0,0 +1,116 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { MetricsRegistry } from "./registry.js";
+import { resultPayload } from "../utils/mcp-response.js";
+
+/** Process-wide registry rendered by the HTTP server's /metrics endpoint */
+export const metrics = new MetricsRegistry();
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const toolCalls = metrics.counter("merchantguard_tool_calls_total", "Tool calls by tool and outcome (success or error)");
+const toolErrors = metrics.counter("merchantguard_tool_errors_total", "Tool calls that returned an error, by tool and error code");
+const toolDuration = metrics.histogram("merchantguard_tool_duration_seconds", "Tool call latency", LATENCY_BUCKETS);
+const upstreamDuration = metrics.histogram(
+  "merchantguard_upstream_request_duration_seconds",
+  "Upstream MerchantGuard API latency per attempt, by endpoint and outcome",
+  LATENCY_BUCKETS,
+);
+const mockFallbacks = metrics.counter(
+  "merchantguard_mock_fallbacks_total",
+  "Results (batch rows and prepayment checks each count) served from mock data, by tool and reason",
+);
+const recommendedActions = metrics.counter("merchantguard_recommended_action_total", "recommended_action values returned (per row for batches), by tool");
+const riskLevels = metrics.counter("merchantguard_risk_level_total", "risk_level values returned (per row for batches), by tool");
+const alertDeliveries = metrics.counter(
+  "merchantguard_alert_deliveries_total",
+  "Alert webhook delivery attempts by webhook and outcome (delivered, retried, dead_lettered)",
+);
+
+/** "[RATE_LIMITED] ..." → RATE_LIMITED; untagged errors count as "error" */
+function errorCodeOf(result: CallToolResult): string {
+  const first = result.content[0];
+  const match = first?.type === "text" ? /^\[([A-Z_]+)\]/.exec(first.text) : null;
+  return match ? match[1] : "error";
+}
+
+type Payload = Record<string, unknown>;
+
+/** "UPSTREAM_TIMEOUT: assess timed out" → UPSTREAM_TIMEOUT */
+const reasonCode = (reason: unknown) => typeof reason === "string" ? reason.split(":")[0] : "unknown";
+
+/**
+ * Where each part of a result came from. A batch has a provenance per scored row and
+ * a prepayment decision one per check; their top-level provenance (if any) only
+ * summarizes those, so counting it would miss or misattribute fallbacks.
+ */
+function sourcesOf(payload: Payload): Array<{ source: unknown; fallback_reason: unknown }> {
+  if (Array.isArray(payload.results)) {
+    return (payload.results as Array<{ result: Payload | null }>).flatMap(row => row.result ? sourcesOf(row.result) : []);
+  }
+  if (Array.isArray(payload.checks)) {
+    return payload.checks as Array<{ source: unknown; fallback_reason: unknown }>;
+  }
+  const provenance = payload.provenance as { source?: unknown; fallback_reason?: unknown } | undefined;
+  return provenance ? [{ source: provenance.source, fallback_reason: provenance.fallback_reason }] : [];
+}
+
+/** The results carrying a decision: every scored batch row, otherwise the payload itself */
+function decisionsOf(payload: Payload): Payload[] {
+  if (Array.isArray(payload.results)) {
+    return (payload.results as Array<{ result: Payload | null }>).flatMap(row => row.result ? [row.result] : []);
+  }
+  return [payload];
+}
+
+function recordResult(tool: string, result: CallToolResult) {
+  if (result.isError) {
+    toolCalls.inc({ tool, outcome: "error" });
+    toolErrors.inc({ tool, code: errorCodeOf(result) });
+    return;
+  }
+  toolCalls.inc({ tool, outcome: "success" });
+
+  const payload = resultPayload(result);
+  if (!payload) return;
+  for (const { source, fallback_reason } of sourcesOf(payload)) {
+    if (source === "mock") mockFallbacks.inc({ tool, reason: reasonCode(fallback_reason) });
+  }
+  for (const decision of decisionsOf(payload)) {
+    if (typeof decision.recommended_action === "string") {
+      recommendedActions.inc({ tool, action: decision.recommended_action });
+    }
+    if (typeof decision.risk_level === "string") {
+      riskLevels.inc({ tool, level: decision.risk_level });
+    }
+  }
+}
+
+/**
+ * Run one tool call and record its count, latency, error code, data source and
+ * decision. Thrown errors are counted and rethrown for the SDK to report.
+ */
+export async function observeToolCall(tool: string, call: () => Promise<CallToolResult>): Promise<CallToolResult> {
+  const started = process.hrtime.bigint();
+  const elapsed = () => Number(process.hrtime.bigint() - started) / 1e9;
+  try {
+    const result = await call();
+    toolDuration.observe({ tool }, elapsed());
+    recordResult(tool, result);
+    return result;
+  } catch (err) {
+    toolDuration.observe({ tool }, elapsed());
+    toolCalls.inc({ tool, outcome: "error" });
+    toolErrors.inc({ tool, code: "exception" });
+    throw err;
+  }
+}
+
+/** Record one upstream attempt; outcome is the status class (2xx, 5xx, ...) or an error code */
+export function observeUpstreamRequest(endpoint: string, outcome: string, seconds: number): void {
+  upstreamDuration.observe({ endpoint, outcome }, seconds);
+}
+
+/** Record one alert webhook attempt that was delivered, will be retried, or was dead-lettered */
+export function observeAlertDelivery(webhook: string, outcome: "delivered" | "retried" | "dead_lettered"): void {
+  alertDeliveries.inc({ webhook, outcome });
+}
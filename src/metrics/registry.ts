@@ -0,0 +1,128 @@
+export type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+/** Stable key for a label set, independent of property order */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+interface Metric {
+  render(): string[];
+}
+
+abstract class LabelledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: string) {}
+
+  protected get(labels: Labels, init: () => T): T {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: init() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  protected header(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+  }
+
+  abstract render(): string[];
+}
+
+export class Counter extends LabelledMetric<{ count: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, by = 1): void {
+    this.get(labels, () => ({ count: 0 })).count += by;
+  }
+
+  render(): string[] {
+    return [
+      ...this.header(),
+      ...[...this.series.values()].map(s => `${this.name}${formatLabels(s.labels)} ${s.value.count}`),
+    ];
+  }
+}
+
+/** Gauge read at scrape time from a callback, so it never goes stale */
+export class Gauge implements Metric {
+  constructor(readonly name: string, readonly help: string, private readonly collect: () => number) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`];
+  }
+}
+
+export class Histogram extends LabelledMetric<{ buckets: number[]; sum: number; count: number }> {
+  constructor(name: string, help: string, private readonly bounds: number[]) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    const h = this.get(labels, () => ({ buckets: this.bounds.map(() => 0), sum: 0, count: 0 }));
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) h.buckets[i]++;
+    });
+    h.sum += value;
+    h.count++;
+  }
+
+  render(): string[] {
+    const lines = this.header();
+    for (const { labels, value } of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Minimal Prometheus registry: counters, histograms and callback gauges rendered
+ * in the text exposition format (version 0.0.4).
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, bounds: number[]): Histogram {
+    return this.register(name, new Histogram(name, help, bounds));
+  }
+
+  /** Register (or replace) a gauge whose value is read on every scrape */
+  gauge(name: string, help: string, collect: () => number): Gauge {
+    const gauge = new Gauge(name, help, collect);
+    this.metrics.set(name, gauge);
+    return gauge;
+  }
+
+  render(): string {
+    return [...this.metrics.values()].flatMap(m => m.render()).join("\n") + "\n";
+  }
+
+  private register<T extends Metric>(name: string, metric: T): T {
+    if (this.metrics.has(name)) throw new Error(`Metric ${name} is already registered`);
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,52 @@
+import { randomBytes } from "node:crypto";
+import { parseArgs } from "node:util";
+import { AgentPseudonyms, LocalOprfEvaluator } from "./oprf/agent-pseudonyms.js";
+
+const USAGE = `Usage: oprf-cli <keygen|pseudonym> [options]
+
+  keygen                 Print a random seed for MERCHANTGUARD_OPRF_LOCAL_SEED
+  pseudonym              Print an agent's pseudonym under the local evaluator
+
+Options (pseudonym):
+  --agent <id>           Agent ID
+  --seed <hex>           Seed (default: $MERCHANTGUARD_OPRF_LOCAL_SEED)
+`;
+
+async function main(): Promise<number> {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      agent: { type: "string" },
+      seed: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = positionals[0];
+  if (values.help || !["keygen", "pseudonym"].includes(command)) {
+    process.stderr.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  if (command === "keygen") {
+    process.stdout.write(`${randomBytes(32).toString("hex")}\n`);
+    return 0;
+  }
+
+  const seed = values.seed ?? process.env.MERCHANTGUARD_OPRF_LOCAL_SEED;
+  if (!values.agent || !seed) {
+    process.stderr.write("pseudonym needs --agent and a seed (--seed or MERCHANTGUARD_OPRF_LOCAL_SEED)\n");
+    return 2;
+  }
+  const pseudonyms = new AgentPseudonyms(LocalOprfEvaluator.fromHex(seed));
+  process.stdout.write(`${await pseudonyms.pseudonym(values.agent)}\n`);
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    process.stderr.write(`${(err as Error).message}\n`);
+    process.exit(1);
+  },
+);
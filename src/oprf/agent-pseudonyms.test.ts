@@ -0,0 +1,48 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { AgentPseudonyms, LocalOprfEvaluator } from "./agent-pseudonyms.js";
+import { deriveKeyPair, evaluate } from "./oprf.js";
+
+const SEED = "a3".repeat(32);
+
+describe("AgentPseudonyms", () => {
+  it("never shows the evaluator the agent ID and gives the key holder's output", async () => {
+    const evaluator = LocalOprfEvaluator.fromHex(SEED);
+    const spy = jest.spyOn(evaluator, "evaluate");
+    const pseudonym = await new AgentPseudonyms(evaluator).pseudonym("agent_123");
+
+    expect(pseudonym).toMatch(/^[0-9a-f]{64}$/);
+    const [blinded] = spy.mock.calls[0];
+    expect(blinded.includes(Buffer.from("agent_123"))).toBe(false);
+    // The same seed and key info reproduce the key, so the pseudonym can be checked directly
+    const { skS } = deriveKeyPair(Buffer.from(SEED, "hex"), Buffer.from("merchantguard agent id"));
+    expect(pseudonym).toBe(evaluate(skS, Buffer.from("agent_123")).toString("hex"));
+  });
+
+  it("is stable per agent and key, and different across either", async () => {
+    const a = new AgentPseudonyms(LocalOprfEvaluator.fromHex(SEED));
+    const b = new AgentPseudonyms(LocalOprfEvaluator.fromHex(SEED));
+    const other = new AgentPseudonyms(LocalOprfEvaluator.fromHex("5a".repeat(32)));
+    expect(await a.pseudonym("agent_123")).toBe(await b.pseudonym("agent_123"));
+    expect(await a.pseudonym("agent_123")).not.toBe(await a.pseudonym("agent_456"));
+    expect(await a.pseudonym("agent_123")).not.toBe(await other.pseudonym("agent_123"));
+  });
+
+  it("caches pseudonyms until they expire", async () => {
+    const evaluator = LocalOprfEvaluator.fromHex(SEED);
+    const spy = jest.spyOn(evaluator, "evaluate");
+    const cached = new AgentPseudonyms(evaluator);
+    await cached.pseudonym("agent_123");
+    await cached.pseudonym("agent_123");
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    const uncached = new AgentPseudonyms(evaluator, 0);
+    await uncached.pseudonym("agent_123");
+    await uncached.pseudonym("agent_123");
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  it("rejects seeds that are not 32 bytes of hex", () => {
+    expect(() => LocalOprfEvaluator.fromHex("abcd")).toThrow("OPRF seed must be 64 hex characters");
+    expect(() => new LocalOprfEvaluator(Buffer.alloc(16))).toThrow("OPRF seed must be 32 bytes (got 16)");
+  });
+});
@@ -0,0 +1,71 @@
+import { blind, blindEvaluate, deriveKeyPair, finalize } from "./oprf.js";
+
+/** Evaluates blinded elements under the OPRF key; the MerchantGuard API does this in production */
+export interface OprfEvaluator {
+  evaluate(blindedElement: Buffer): Promise<Buffer>;
+}
+
+/** Key info for DeriveKeyPair, so a local key can't collide with another use of the same seed */
+const LOCAL_KEY_INFO = Buffer.from("merchantguard agent id");
+
+/**
+ * In-process evaluator with a key derived from a 32-byte seed. For tests and
+ * local development: pseudonyms it produces mean nothing to the MerchantGuard API.
+ */
+export class LocalOprfEvaluator implements OprfEvaluator {
+  /** SEC1 compressed public key */
+  readonly publicKey: Buffer;
+  private readonly skS: bigint;
+
+  constructor(seed: Buffer) {
+    if (seed.length !== 32) throw new Error(`OPRF seed must be 32 bytes (got ${seed.length})`);
+    const { skS, pkS } = deriveKeyPair(seed, LOCAL_KEY_INFO);
+    this.skS = skS;
+    this.publicKey = pkS;
+  }
+
+  /** Seed as 64 hex characters, e.g. from `openssl rand -hex 32` */
+  static fromHex(seedHex: string): LocalOprfEvaluator {
+    if (!/^[0-9a-f]{64}$/i.test(seedHex)) throw new Error("OPRF seed must be 64 hex characters");
+    return new LocalOprfEvaluator(Buffer.from(seedHex, "hex"));
+  }
+
+  async evaluate(blindedElement: Buffer): Promise<Buffer> {
+    return blindEvaluate(this.skS, blindedElement);
+  }
+}
+
+/**
+ * Agent IDs as OPRF outputs. The ID is blinded before it leaves the process, so
+ * the evaluator never sees it, and only the finalized output is sent upstream.
+ * Outputs are deterministic per ID and key, so each is kept for a while instead
+ * of costing a round trip per verification.
+ */
+export class AgentPseudonyms {
+  private readonly evaluator: OprfEvaluator;
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly cache = new Map<string, { pseudonym: string; expires: number }>();
+
+  constructor(evaluator: OprfEvaluator, ttlMs = 3_600_000, maxEntries = 10_000) {
+    this.evaluator = evaluator;
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  /** 64 hex characters */
+  async pseudonym(agentId: string): Promise<string> {
+    const cached = this.cache.get(agentId);
+    if (cached && cached.expires > Date.now()) return cached.pseudonym;
+
+    const input = Buffer.from(agentId, "utf8");
+    const blinded = blind(input);
+    const evaluated = await this.evaluator.evaluate(blinded.blindedElement);
+    const pseudonym = finalize(input, blinded.blind, evaluated).toString("hex");
+
+    this.cache.delete(agentId);
+    this.cache.set(agentId, { pseudonym, expires: Date.now() + this.ttlMs });
+    if (this.cache.size > this.maxEntries) this.cache.delete(this.cache.keys().next().value!);
+    return pseudonym;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "@jest/globals";
+import { blind, blindEvaluate, deriveKeyPair, evaluate, finalize } from "./oprf.js";
+
+/** RFC 9497 appendix A.3.1, OPRF mode */
+const RFC9497_P256_SHA256 = {
+  seed: "a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3",
+  keyInfo: "74657374206b6579",
+  skSm: "159749d750713afe245d2d39ccfaae8381c53ce92d098a9375ee70739c7ac0bf",
+  vectors: [
+    {
+      input: "00",
+      blind: "3338fa65ec36e0290022b48eb562889d89dbfa691d1cde91517fa222ed7ad364",
+      blindedElement: "03723a1e5c09b8b9c18d1dcbca29e8007e95f14f4732d9346d490ffc195110368d",
+      evaluationElement: "030de02ffec47a1fd53efcdd1c6faf5bdc270912b8749e783c7ca75bb412958832",
+      output: "a0b34de5fa4c5b6da07e72af73cc507cceeb48981b97b7285fc375345fe495dd",
+    },
+    {
+      input: "5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a",
+      blind: "3338fa65ec36e0290022b48eb562889d89dbfa691d1cde91517fa222ed7ad364",
+      blindedElement: "03cc1df781f1c2240a64d1c297b3f3d16262ef5d4cf102734882675c26231b0838",
+      evaluationElement: "03a0395fe3828f2476ffcd1f4fe540e5a8489322d398be3c4e5a869db7fcb7c52c",
+      output: "c748ca6dd327f0ce85f4ae3a8cd6d4d5390bbb804c9e12dcf94f853fece3dcce",
+    },
+  ],
+};
+
+const hex = (s: string) => Buffer.from(s, "hex");
+const skS = BigInt(`0x${RFC9497_P256_SHA256.skSm}`);
+
+describe("OPRF(P-256, SHA-256) against the RFC 9497 test vectors", () => {
+  it("derives the key pair from the seed and key info", () => {
+    const derived = deriveKeyPair(hex(RFC9497_P256_SHA256.seed), hex(RFC9497_P256_SHA256.keyInfo));
+    expect(derived.skS.toString(16).padStart(64, "0")).toBe(RFC9497_P256_SHA256.skSm);
+  });
+
+  describe.each(RFC9497_P256_SHA256.vectors.map((v, i) => [i + 1, v] as const))("vector %i", (_, v) => {
+    const blindScalar = BigInt(`0x${v.blind}`);
+
+    it("blinds", () => {
+      expect(blind(hex(v.input), blindScalar).blindedElement.toString("hex")).toBe(v.blindedElement);
+    });
+
+    it("evaluates the blinded element", () => {
+      expect(blindEvaluate(skS, hex(v.blindedElement)).toString("hex")).toBe(v.evaluationElement);
+    });
+
+    it("finalizes to the output", () => {
+      expect(finalize(hex(v.input), blindScalar, hex(v.evaluationElement)).toString("hex")).toBe(v.output);
+    });
+
+    it("matches direct evaluation by the key holder", () => {
+      expect(evaluate(skS, hex(v.input)).toString("hex")).toBe(v.output);
+    });
+  });
+});
+
+describe("OPRF protocol", () => {
+  it("gives the same output for any blind", () => {
+    const input = Buffer.from("agent_123");
+    const outputs = [1, 2].map(() => {
+      const { blind: r, blindedElement } = blind(input);
+      return finalize(input, r, blindEvaluate(skS, blindedElement)).toString("hex");
+    });
+    expect(outputs[0]).toBe(outputs[1]);
+    expect(outputs[0]).toBe(evaluate(skS, input).toString("hex"));
+  });
+
+  it("rejects blinded elements that are not curve points", () => {
+    expect(() => blindEvaluate(skS, Buffer.alloc(33))).toThrow("Element must be a 33-byte compressed P-256 point");
+    expect(() => blindEvaluate(skS, Buffer.concat([Buffer.from([0x02]), Buffer.alloc(32, 0xff)]))).toThrow("Element x-coordinate out of range");
+  });
+});
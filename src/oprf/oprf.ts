@@ -0,0 +1,99 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+  GENERATOR,
+  N,
+  deserializeElement,
+  hashToCurve,
+  hashToField,
+  i2osp,
+  isIdentity,
+  modInv,
+  multiply,
+  os2ip,
+  serializeElement,
+} from "./p256.js";
+
+/**
+ * OPRF(P-256, SHA-256) in the base mode of RFC 9497.
+ *
+ * The client blinds its input with a random scalar, the server multiplies the
+ * blinded element by its key without learning the input, and the client removes
+ * the blind and hashes the result. The output is a pseudorandom function of the
+ * input under the server's key: stable per input, and unlinkable to it without
+ * the key.
+ */
+
+export const OPRF_SUITE = "P256-SHA256";
+const MODE_OPRF = 0x00;
+const CONTEXT = Buffer.concat([Buffer.from("OPRFV1-"), i2osp(MODE_OPRF, 1), Buffer.from(`-${OPRF_SUITE}`)]);
+const HASH_TO_GROUP_DST = Buffer.concat([Buffer.from("HashToGroup-"), CONTEXT]);
+const DERIVE_KEY_PAIR_DST = Buffer.concat([Buffer.from("DeriveKeyPair"), CONTEXT]);
+
+/** The input hashes to the identity element (RFC 9497 InvalidInputError); practically unreachable */
+export class InvalidInputError extends Error {
+  constructor() {
+    super("OPRF input maps to the identity element");
+    this.name = "InvalidInputError";
+  }
+}
+
+export interface BlindResult {
+  /** Secret; keep it to finalize, never send it */
+  blind: bigint;
+  /** SerializeElement(blind * HashToGroup(input)), safe to send to the evaluator */
+  blindedElement: Buffer;
+}
+
+function hashToGroup(input: Uint8Array) {
+  return hashToCurve(input, HASH_TO_GROUP_DST);
+}
+
+export function randomScalar(): bigint {
+  for (;;) {
+    const k = os2ip(randomBytes(32));
+    if (k > 0n && k < N) return k;
+  }
+}
+
+/** DeriveKeyPair (RFC 9497 section 3.2.1): a deterministic key from a 32-byte seed */
+export function deriveKeyPair(seed: Uint8Array, info: Uint8Array = Buffer.alloc(0)): { skS: bigint; pkS: Buffer } {
+  const deriveInput = Buffer.concat([seed, i2osp(info.length, 2), info]);
+  for (let counter = 0; counter <= 255; counter++) {
+    const [skS] = hashToField(Buffer.concat([deriveInput, i2osp(counter, 1)]), 1, DERIVE_KEY_PAIR_DST, N);
+    if (skS !== 0n) return { skS, pkS: serializeElement(multiply(GENERATOR, skS)) };
+  }
+  throw new Error("DeriveKeyPairError");
+}
+
+/** Client: blind the input; pass a blind only to reproduce test vectors */
+export function blind(input: Uint8Array, blindScalar = randomScalar()): BlindResult {
+  const element = hashToGroup(input);
+  if (isIdentity(element)) throw new InvalidInputError();
+  return { blind: blindScalar, blindedElement: serializeElement(multiply(element, blindScalar)) };
+}
+
+/** Server: evaluate a blinded element under the private key */
+export function blindEvaluate(skS: bigint, blindedElement: Uint8Array): Buffer {
+  return serializeElement(multiply(deserializeElement(blindedElement), skS));
+}
+
+function finalizeHash(input: Uint8Array, element: Buffer): Buffer {
+  return createHash("sha256")
+    .update(i2osp(input.length, 2)).update(input)
+    .update(i2osp(element.length, 2)).update(element)
+    .update("Finalize")
+    .digest();
+}
+
+/** Client: unblind the evaluated element and hash it into the 32-byte output */
+export function finalize(input: Uint8Array, blindScalar: bigint, evaluatedElement: Uint8Array): Buffer {
+  const unblinded = multiply(deserializeElement(evaluatedElement), modInv(blindScalar, N));
+  return finalizeHash(input, serializeElement(unblinded));
+}
+
+/** Server: the same output computed directly from the input, for key holders */
+export function evaluate(skS: bigint, input: Uint8Array): Buffer {
+  const element = hashToGroup(input);
+  if (isIdentity(element)) throw new InvalidInputError();
+  return finalizeHash(input, serializeElement(multiply(element, skS)));
+}
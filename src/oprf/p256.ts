@@ -0,0 +1,198 @@
+import { createHash } from "node:crypto";
+
+/**
+ * The NIST P-256 group for the OPRF: point arithmetic in Jacobian coordinates,
+ * SEC1 compressed encoding, and hash_to_curve with the
+ * P256_XMD:SHA-256_SSWU_RO_ suite (RFC 9380). BigInt arithmetic is not constant
+ * time; the secret scalars here are per-call blinds and test keys, not long-lived
+ * production keys.
+ */
+
+export const P = 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn;
+/** Group order */
+export const N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+const A = P - 3n;
+const B = 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn;
+const GX = 0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296n;
+const GY = 0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5n;
+/** SSWU constant for P-256 (RFC 9380 section 8.2) */
+const Z = P - 10n;
+
+export const ELEMENT_LENGTH = 33;
+export const SCALAR_LENGTH = 32;
+
+/** Jacobian coordinates: (X/Z², Y/Z³); Z = 0 is the identity */
+export interface Point {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+}
+
+export const IDENTITY: Point = { x: 0n, y: 1n, z: 0n };
+export const GENERATOR: Point = { x: GX, y: GY, z: 1n };
+
+export const mod = (a: bigint, m = P): bigint => {
+  const r = a % m;
+  return r < 0n ? r + m : r;
+};
+
+export function modPow(base: bigint, exp: bigint, m = P): bigint {
+  let result = 1n;
+  let b = mod(base, m);
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+}
+
+/** Inverse modulo a prime; 0 maps to 0 (inv0 in RFC 9380) */
+export const modInv = (a: bigint, m = P): bigint => modPow(a, m - 2n, m);
+
+const isSquare = (a: bigint): boolean => {
+  const r = modPow(a, (P - 1n) / 2n);
+  return r === 0n || r === 1n;
+};
+/** p ≡ 3 (mod 4), so a square root is a^((p+1)/4) */
+const sqrt = (a: bigint): bigint => modPow(a, (P + 1n) / 4n);
+const sgn0 = (a: bigint): bigint => a & 1n;
+const curveRhs = (x: bigint): bigint => mod(x * x * x + A * x + B);
+
+export const isIdentity = (p: Point): boolean => p.z === 0n;
+
+export function double(p: Point): Point {
+  if (isIdentity(p) || p.y === 0n) return IDENTITY;
+  const yy = mod(p.y * p.y);
+  const s = mod(4n * p.x * yy);
+  const zz = mod(p.z * p.z);
+  const m = mod(3n * p.x * p.x + A * zz * zz);
+  const x = mod(m * m - 2n * s);
+  return { x, y: mod(m * (s - x) - 8n * yy * yy), z: mod(2n * p.y * p.z) };
+}
+
+export function add(p: Point, q: Point): Point {
+  if (isIdentity(p)) return q;
+  if (isIdentity(q)) return p;
+  const pz2 = mod(p.z * p.z);
+  const qz2 = mod(q.z * q.z);
+  const u1 = mod(p.x * qz2);
+  const u2 = mod(q.x * pz2);
+  const s1 = mod(p.y * qz2 * q.z);
+  const s2 = mod(q.y * pz2 * p.z);
+  const h = mod(u2 - u1);
+  const r = mod(s2 - s1);
+  if (h === 0n) return r === 0n ? double(p) : IDENTITY;
+  const hh = mod(h * h);
+  const hhh = mod(hh * h);
+  const x = mod(r * r - hhh - 2n * u1 * hh);
+  return { x, y: mod(r * (u1 * hh - x) - s1 * hhh), z: mod(h * p.z * q.z) };
+}
+
+export function multiply(p: Point, k: bigint): Point {
+  const e = mod(k, N);
+  let result = IDENTITY;
+  for (let i = BigInt(e.toString(2).length) - 1n; i >= 0n; i--) {
+    result = double(result);
+    if ((e >> i) & 1n) result = add(result, p);
+  }
+  return result;
+}
+
+export function affine(p: Point): { x: bigint; y: bigint } {
+  const zInv = modInv(p.z);
+  const zInv2 = mod(zInv * zInv);
+  return { x: mod(p.x * zInv2), y: mod(p.y * zInv2 * zInv) };
+}
+
+export function i2osp(value: bigint | number, length: number): Buffer {
+  const hex = BigInt(value).toString(16).padStart(length * 2, "0");
+  if (hex.length > length * 2) throw new RangeError(`${value} does not fit in ${length} bytes`);
+  return Buffer.from(hex, "hex");
+}
+
+export const os2ip = (bytes: Uint8Array): bigint => BigInt(`0x${Buffer.from(bytes).toString("hex") || "0"}`);
+
+/** SEC1 compressed encoding; the identity has none */
+export function serializeElement(p: Point): Buffer {
+  if (isIdentity(p)) throw new Error("Cannot serialize the identity element");
+  const { x, y } = affine(p);
+  return Buffer.concat([Buffer.from([y & 1n ? 0x03 : 0x02]), i2osp(x, 32)]);
+}
+
+/** Inverse of serializeElement; rejects anything that is not a point on the curve */
+export function deserializeElement(bytes: Uint8Array): Point {
+  if (bytes.length !== ELEMENT_LENGTH || (bytes[0] !== 0x02 && bytes[0] !== 0x03)) {
+    throw new Error("Element must be a 33-byte compressed P-256 point");
+  }
+  const x = os2ip(bytes.subarray(1));
+  if (x >= P) throw new Error("Element x-coordinate out of range");
+  const rhs = curveRhs(x);
+  if (!isSquare(rhs)) throw new Error("Element is not on the curve");
+  let y = sqrt(rhs);
+  if (y % 2n !== BigInt(bytes[0] & 1)) y = mod(-y);
+  return { x, y, z: 1n };
+}
+
+export const serializeScalar = (k: bigint): Buffer => i2osp(k, SCALAR_LENGTH);
+
+export function deserializeScalar(bytes: Uint8Array): bigint {
+  if (bytes.length !== SCALAR_LENGTH) throw new Error("Scalar must be 32 bytes");
+  const k = os2ip(bytes);
+  if (k >= N) throw new Error("Scalar out of range");
+  return k;
+}
+
+const sha256 = (...parts: Uint8Array[]): Buffer => {
+  const h = createHash("sha256");
+  for (const part of parts) h.update(part);
+  return h.digest();
+};
+
+/** expand_message_xmd with SHA-256 (RFC 9380 section 5.3.1) */
+export function expandMessageXmd(msg: Uint8Array, dst: Uint8Array, lenInBytes: number): Buffer {
+  const ell = Math.ceil(lenInBytes / 32);
+  if (ell > 255 || lenInBytes > 65535 || dst.length > 255) throw new Error("expand_message_xmd: length out of range");
+  const dstPrime = Buffer.concat([dst, i2osp(dst.length, 1)]);
+  const b0 = sha256(Buffer.alloc(64), msg, i2osp(lenInBytes, 2), i2osp(0, 1), dstPrime);
+  const blocks = [sha256(b0, i2osp(1, 1), dstPrime)];
+  for (let i = 2; i <= ell; i++) {
+    const prev = blocks[i - 2];
+    const mixed = Buffer.from(b0.map((byte, j) => byte ^ prev[j]));
+    blocks.push(sha256(mixed, i2osp(i, 1), dstPrime));
+  }
+  return Buffer.concat(blocks).subarray(0, lenInBytes);
+}
+
+/** hash_to_field with L = 48, enough bytes for a uniform value modulo p or n */
+export function hashToField(msg: Uint8Array, count: number, dst: Uint8Array, modulus = P): bigint[] {
+  const L = 48;
+  const uniform = expandMessageXmd(msg, dst, count * L);
+  return Array.from({ length: count }, (_, i) => mod(os2ip(uniform.subarray(i * L, (i + 1) * L)), modulus));
+}
+
+/** Simplified SWU map (RFC 9380 section 6.6.2) */
+function mapToCurve(u: bigint): Point {
+  const zu2 = mod(Z * u * u);
+  const tv1 = modInv(mod(zu2 * zu2 + zu2));
+  const x1 = tv1 === 0n ? mod(B * modInv(mod(Z * A))) : mod(mod(-B) * modInv(A) * (1n + tv1));
+  const gx1 = curveRhs(x1);
+  let x: bigint;
+  let y: bigint;
+  if (isSquare(gx1)) {
+    x = x1;
+    y = sqrt(gx1);
+  } else {
+    x = mod(zu2 * x1);
+    y = sqrt(curveRhs(x));
+  }
+  if (sgn0(u) !== sgn0(y)) y = mod(-y);
+  return { x, y, z: 1n };
+}
+
+/** P256_XMD:SHA-256_SSWU_RO_; P-256 has cofactor 1, so no clearing is needed */
+export function hashToCurve(msg: Uint8Array, dst: Uint8Array): Point {
+  const [u0, u1] = hashToField(msg, 2, dst);
+  return add(mapToCurve(u0), mapToCurve(u1));
+}
@@ -0,0 +1,101 @@
+import path from "node:path";
+import { describe, expect, it } from "@jest/globals";
+import { RiskPolicy, riskPolicySchema, type PolicyContext } from "./risk-policy.js";
+import type { RiskFactor } from "../types/index.js";
+
+const DEFAULTS = { auto_decline: 15, high_risk: 30, medium_risk: 60 };
+
+const ctx = (overrides: Partial<PolicyContext> = {}): PolicyContext => ({
+  merchant_category: "retail",
+  payment_rail: "card",
+  amount: 100,
+  currency: "USD",
+  agent_present: false,
+  ...overrides,
+});
+
+const factor = (name: string): RiskFactor => ({ factor: name, severity: "high", description: name });
+
+const policy = (rules: unknown[], thresholds?: object) =>
+  new RiskPolicy(riskPolicySchema.parse({ version: "test", thresholds, rules }), DEFAULTS);
+
+describe("RiskPolicy.evaluate", () => {
+  it("maps the score through the default thresholds when no rule matches", () => {
+    const p = policy([]);
+    expect(p.evaluate(ctx(), 10, []).recommended_action).toBe("decline");
+    expect(p.evaluate(ctx(), 25, []).recommended_action).toBe("review");
+    expect(p.evaluate(ctx(), 50, []).risk_level).toBe("medium");
+    const result = p.evaluate(ctx(), 80, []);
+    expect(result.risk_level).toBe("low");
+    expect(result.policy).toMatchObject({ rule_id: null, action_source: "thresholds", thresholds: DEFAULTS });
+  });
+
+  it("fires only the first matching rule", () => {
+    const p = policy([
+      { id: "crypto", match: { payment_rail: ["crypto"] }, action: "review" },
+      { id: "all", action: "decline" },
+    ]);
+    expect(p.evaluate(ctx({ payment_rail: "crypto" }), 90, []).policy.rule_id).toBe("crypto");
+    expect(p.evaluate(ctx(), 90, []).policy).toMatchObject({ rule_id: "all", action_source: "rule" });
+  });
+
+  it("requires every condition in a match block", () => {
+    const p = policy([{
+      id: "agent-high-value",
+      match: { agent_present: true, amount: { gte: 1000, lt: 5000 }, merchant_category: ["Gambling"], currency: ["eur"] },
+      action: "decline",
+    }]);
+    const hit = ctx({ agent_present: true, amount: 1000, merchant_category: "gambling", currency: "EUR" });
+    expect(p.evaluate(hit, 90, []).recommended_action).toBe("decline");
+    expect(p.evaluate({ ...hit, agent_present: false }, 90, []).policy.rule_id).toBeNull();
+    expect(p.evaluate({ ...hit, amount: 5000 }, 90, []).policy.rule_id).toBeNull();
+    expect(p.evaluate({ ...hit, amount: 999.99 }, 90, []).policy.rule_id).toBeNull();
+    expect(p.evaluate({ ...hit, currency: "USD" }, 90, []).policy.rule_id).toBeNull();
+  });
+
+  it("matches risk factors with any, all and none", () => {
+    const p = policy([
+      { id: "any", match: { risk_factors: { any: ["a", "b"], none: ["c"] } }, action: "review" },
+      { id: "all", match: { risk_factors: { all: ["c", "d"] } }, action: "decline" },
+    ]);
+    expect(p.evaluate(ctx(), 90, [factor("b")]).policy.rule_id).toBe("any");
+    expect(p.evaluate(ctx(), 90, [factor("b"), factor("c")]).policy.rule_id).toBeNull();
+    expect(p.evaluate(ctx(), 90, [factor("c"), factor("d")]).policy.rule_id).toBe("all");
+  });
+
+  it("applies rule thresholds and adds factors once", () => {
+    const p = policy([{
+      id: "strict",
+      match: { merchant_category: ["gambling"] },
+      thresholds: { auto_decline: 40, high_risk: 50, medium_risk: 75 },
+      add_factors: [{ factor: "gambling", severity: "medium", description: "Gambling merchant" }],
+    }]);
+    const result = p.evaluate(ctx({ merchant_category: "gambling" }), 35, [factor("gambling")]);
+    expect(result.risk_level).toBe("critical");
+    expect(result.recommended_action).toBe("decline");
+    expect(result.policy.action_source).toBe("thresholds");
+    expect(result.risk_factors.filter(f => f.factor === "gambling")).toHaveLength(1);
+  });
+});
+
+describe("RiskPolicy validation", () => {
+  it("rejects rules without an effect and duplicate ids", () => {
+    expect(riskPolicySchema.safeParse({ version: "v", rules: [{ id: "noop" }] }).success).toBe(false);
+    expect(riskPolicySchema.safeParse({
+      version: "v",
+      rules: [{ id: "x", action: "review" }, { id: "x", action: "decline" }],
+    }).success).toBe(false);
+  });
+
+  it("rejects thresholds out of order", () => {
+    expect(() => policy([], { auto_decline: 50, high_risk: 30 })).toThrow(/auto_decline <= high_risk/);
+    expect(() => policy([{ id: "r", thresholds: { medium_risk: 10 } }])).toThrow(/Rule "r"/);
+  });
+
+  it("loads the example policy", () => {
+    const p = RiskPolicy.load(path.join(__dirname, "../../risk-policy.example.yaml"), DEFAULTS);
+    expect(p.version).toBe("2026-10-example");
+    const sanctioned = p.evaluate(ctx(), 90, [factor("sanctioned_wallet")]);
+    expect(sanctioned).toMatchObject({ recommended_action: "decline", policy: { rule_id: "sanctioned-wallet" } });
+  });
+});
@@ -0,0 +1,200 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import YAML from "yaml";
+import { logger } from "../utils/logger.js";
+import type {
+  PaymentRail,
+  PolicyDecision,
+  RecommendedAction,
+  RiskFactor,
+  RiskLevel,
+  RiskThresholds,
+} from "../types/index.js";
+
+const thresholdsSchema = z.object({
+  auto_decline: z.number().min(0).max(100),
+  high_risk: z.number().min(0).max(100),
+  medium_risk: z.number().min(0).max(100),
+});
+
+const amountMatchSchema = z.object({
+  gt: z.number().optional(),
+  gte: z.number().optional(),
+  lt: z.number().optional(),
+  lte: z.number().optional(),
+}).strict();
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  match: z.object({
+    merchant_category: z.array(z.string()).min(1).optional(),
+    payment_rail: z.array(z.enum(["card", "stablecoin", "crypto", "ach", "wire", "unknown"])).min(1).optional(),
+    amount: amountMatchSchema.optional(),
+    currency: z.array(z.string()).min(1).optional(),
+    agent_present: z.boolean().optional(),
+    risk_factors: z.object({
+      any: z.array(z.string()).optional(),
+      all: z.array(z.string()).optional(),
+      none: z.array(z.string()).optional(),
+    }).strict().optional(),
+  }).strict().default({}),
+  action: z.enum(["approve", "review", "decline"]).optional(),
+  thresholds: thresholdsSchema.partial().optional(),
+  add_factors: z.array(z.object({
+    factor: z.string().min(1),
+    severity: z.enum(["low", "medium", "high", "critical"]),
+    description: z.string(),
+  })).optional(),
+}).strict().refine(
+  r => r.action !== undefined || r.thresholds !== undefined || (r.add_factors?.length ?? 0) > 0,
+  { message: "Rule must set at least one of action, thresholds or add_factors" },
+);
+
+export const riskPolicySchema = z.object({
+  version: z.string().min(1),
+  thresholds: thresholdsSchema.partial().optional(),
+  rules: z.array(ruleSchema).default([]),
+}).strict().superRefine((policy, ctx) => {
+  const seen = new Set<string>();
+  policy.rules.forEach((rule, i) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["rules", i, "id"], message: `Duplicate rule id "${rule.id}"` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+export type RiskPolicyDocument = z.infer<typeof riskPolicySchema>;
+export type RiskPolicyRule = RiskPolicyDocument["rules"][number];
+
+/** Transaction attributes a policy rule can match on */
+export interface PolicyContext {
+  merchant_category: string;
+  payment_rail: PaymentRail;
+  /** In the FX table's base currency, so one amount rule covers every transaction currency */
+  amount: number;
+  currency: string;
+  agent_present: boolean;
+}
+
+export interface PolicyEvaluation {
+  risk_level: RiskLevel;
+  recommended_action: RecommendedAction;
+  risk_factors: RiskFactor[];
+  policy: PolicyDecision;
+}
+
+function checkThresholds(t: RiskThresholds, where: string): RiskThresholds {
+  if (!(t.auto_decline <= t.high_risk && t.high_risk <= t.medium_risk)) {
+    throw new Error(`${where}: thresholds must satisfy auto_decline <= high_risk <= medium_risk (got ${t.auto_decline}/${t.high_risk}/${t.medium_risk})`);
+  }
+  return t;
+}
+
+/**
+ * Declarative risk policy.
+ *
+ * Ordered rules loaded from a JSON or YAML file. The first rule whose match block
+ * fits the transaction fires: it can force an action, add risk factors, and override
+ * the score thresholds for that segment. With no matching rule the score is mapped
+ * to an action through the policy's default thresholds.
+ */
+export class RiskPolicy {
+  readonly version: string;
+  readonly thresholds: RiskThresholds;
+  private readonly rules: RiskPolicyRule[];
+
+  constructor(document: RiskPolicyDocument, defaults: RiskThresholds) {
+    this.version = document.version;
+    this.thresholds = checkThresholds({ ...defaults, ...document.thresholds }, "Policy thresholds");
+    this.rules = document.rules;
+    for (const rule of this.rules) {
+      if (rule.thresholds) checkThresholds({ ...this.thresholds, ...rule.thresholds }, `Rule "${rule.id}"`);
+    }
+  }
+
+  /**
+   * Load and validate a policy file. Without a file, the env thresholds form a
+   * rule-less "default" policy. Invalid files throw so the server refuses to start.
+   */
+  static load(filePath: string | undefined, defaults: RiskThresholds): RiskPolicy {
+    if (!filePath) {
+      return new RiskPolicy({ version: "default", rules: [] }, defaults);
+    }
+
+    const raw = fs.readFileSync(filePath, "utf8");
+    const ext = path.extname(filePath).toLowerCase();
+    const parsed: unknown = ext === ".yaml" || ext === ".yml" ? YAML.parse(raw) : JSON.parse(raw);
+    const result = riskPolicySchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+      throw new Error(`Invalid risk policy ${filePath} — ${issues}`);
+    }
+
+    const policy = new RiskPolicy(result.data, defaults);
+    logger.info(`Risk policy "${policy.version}" loaded with ${policy.rules.length} rule(s) from ${filePath}`);
+    return policy;
+  }
+
+  riskLevel(score: number, thresholds: RiskThresholds = this.thresholds): RiskLevel {
+    if (score <= thresholds.auto_decline) return "critical";
+    if (score <= thresholds.high_risk) return "high";
+    if (score <= thresholds.medium_risk) return "medium";
+    return "low";
+  }
+
+  /**
+   * Apply the first matching rule to a scored transaction.
+   */
+  evaluate(ctx: PolicyContext, score: number, factors: RiskFactor[]): PolicyEvaluation {
+    const rule = this.rules.find(r => this.matches(r, ctx, factors));
+    const thresholds = { ...this.thresholds, ...rule?.thresholds };
+    const level = this.riskLevel(score, thresholds);
+
+    const riskFactors = [...factors];
+    for (const extra of rule?.add_factors ?? []) {
+      if (!riskFactors.some(f => f.factor === extra.factor)) riskFactors.push(extra);
+    }
+
+    return {
+      risk_level: level,
+      recommended_action: rule?.action ?? (level === "critical" ? "decline" : level === "high" ? "review" : "approve"),
+      risk_factors: riskFactors,
+      policy: {
+        policy_version: this.version,
+        rule_id: rule?.id ?? null,
+        rule_description: rule?.description ?? null,
+        action_source: rule?.action ? "rule" : "thresholds",
+        thresholds,
+      },
+    };
+  }
+
+  private matches(rule: RiskPolicyRule, ctx: PolicyContext, factors: RiskFactor[]): boolean {
+    const m = rule.match;
+    if (m.merchant_category && !m.merchant_category.some(c => c.toLowerCase() === ctx.merchant_category.toLowerCase())) return false;
+    if (m.payment_rail && !m.payment_rail.includes(ctx.payment_rail)) return false;
+    if (m.currency && !m.currency.some(c => c.toUpperCase() === ctx.currency.toUpperCase())) return false;
+    if (m.agent_present !== undefined && m.agent_present !== ctx.agent_present) return false;
+
+    if (m.amount) {
+      const { gt, gte, lt, lte } = m.amount;
+      if (gt !== undefined && !(ctx.amount > gt)) return false;
+      if (gte !== undefined && !(ctx.amount >= gte)) return false;
+      if (lt !== undefined && !(ctx.amount < lt)) return false;
+      if (lte !== undefined && !(ctx.amount <= lte)) return false;
+    }
+
+    if (m.risk_factors) {
+      const present = new Set(factors.map(f => f.factor));
+      const { any, all, none } = m.risk_factors;
+      if (any && !any.some(f => present.has(f))) return false;
+      if (all && !all.every(f => present.has(f))) return false;
+      if (none && none.some(f => present.has(f))) return false;
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,27 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Download a list file and replace `file` with it, but only once `parse` has
+ * accepted the contents and counted at least one record: a failed, truncated or
+ * wrong-format download leaves the current file in place. Returns the count.
+ */
+export async function downloadListFile(url: string, file: string, parse: (text: string) => number, userAgent: string): Promise<number> {
+  let text: string;
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(120_000), headers: { "User-Agent": userAgent } });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    text = await res.text();
+  } catch (err) {
+    throw (err as Error).name === "TimeoutError" ? new Error("timed out") : err;
+  }
+
+  const count = parse(text);
+  if (count === 0) throw new Error("download contains no records");
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, text);
+  fs.renameSync(tmp, file);
+  return count;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "@jest/globals";
+import { compareNames, jaroWinkler, metaphone, nameTokens, prepareName, transliterate } from "./name-matching.js";
+
+describe("jaroWinkler", () => {
+  // Winkler's examples
+  it.each([
+    ["martha", "marhta", 0.9611],
+    ["dixon", "dicksonx", 0.8133],
+    ["dwayne", "duane", 0.84],
+  ])("scores %s and %s as %d", (a, b, expected) => {
+    expect(jaroWinkler(a, b)).toBeCloseTo(expected, 4);
+    expect(jaroWinkler(b, a)).toBeCloseTo(expected, 4);
+  });
+
+  it("scores identical strings 1 and disjoint or empty ones 0", () => {
+    expect(jaroWinkler("melli", "melli")).toBe(1);
+    expect(jaroWinkler("abc", "xyz")).toBe(0);
+    expect(jaroWinkler("", "")).toBe(0);
+    expect(jaroWinkler("abc", "")).toBe(0);
+  });
+});
+
+describe("transliterate and nameTokens", () => {
+  it("romanizes Cyrillic and Greek and strips diacritics", () => {
+    expect(transliterate("Сбербанк")).toBe("sberbank");
+    expect(transliterate("Щёлково")).toBe("shchelkovo");
+    expect(transliterate("Αθήνα")).toBe("athina");
+    expect(transliterate("Müller Straße Łódź")).toBe("muller strasse lodz");
+  });
+
+  it("drops legal forms and joins dotted initials", () => {
+    expect(nameTokens("Bank Melli Iran PJSC")).toEqual(["bank", "melli", "iran"]);
+    expect(nameTokens("Garantex Europe O.U. & Co., Ltd.")).toEqual(["garantex", "europe", "ou"]);
+    expect(nameTokens("The Company Ltd")).toEqual(["the", "company", "ltd"]);
+  });
+});
+
+describe("metaphone", () => {
+  it.each([
+    ["thumb", "0M"],
+    ["knight", "NT"],
+    ["smith", "SM0"],
+    ["philips", "FLPS"],
+    ["xavier", "SFR"],
+    ["mohammed", "MHMT"],
+    ["muhammad", "MHMT"],
+  ])("codes %s as %s", (token, code) => {
+    expect(metaphone(token)).toBe(code);
+  });
+});
+
+describe("compareNames", () => {
+  it("pairs tokens in any order and ignores legal forms", () => {
+    expect(compareNames(prepareName("Melli Bank"), prepareName("Bank Melli PLC")).score).toBe(1);
+    expect(compareNames(prepareName("Bankmelli"), prepareName("Bank Melli")).score).toBe(1);
+  });
+
+  it("lowers the score for words only one name has", () => {
+    const extra = compareNames(prepareName("Bank Melli"), prepareName("Bank Melli Iran Investment"));
+    expect(extra.score).toBeLessThan(0.88);
+    expect(extra.phonetic).toBe(false);
+  });
+
+  it("flags names whose every word sounds the same", () => {
+    expect(compareNames(prepareName("Mohammed Trading"), prepareName("Muhammad Trading Co"))).toMatchObject({ phonetic: true });
+    expect(compareNames(prepareName(""), prepareName("Bank Melli"))).toEqual({ score: 0, phonetic: false });
+  });
+});
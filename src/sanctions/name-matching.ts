@@ -0,0 +1,217 @@
+/**
+ * Fuzzy name comparison for watchlist screening: normalization and
+ * transliteration to plain Latin, token-aligned Jaro-Winkler similarity, and
+ * Metaphone codes to catch names that are spelled differently but sound alike.
+ */
+
+/** Legal forms and filler words that say nothing about who an entity is */
+const STOPWORDS = new Set([
+  "the", "and", "of",
+  "inc", "incorporated", "corp", "corporation", "co", "company", "ltd", "limited", "llc", "llp", "lp", "plc",
+  "gmbh", "ag", "kg", "sa", "sas", "sarl", "srl", "spa", "bv", "nv", "oy", "ab", "as", "pte", "pty", "bhd", "sdn",
+  "ao", "ooo", "oao", "zao", "pao", "pjsc", "ojsc", "cjsc", "jsc", "fze", "fzco", "fzc", "dmcc",
+]);
+
+const LATIN: Record<string, string> = {
+  "ß": "ss", "æ": "ae", "œ": "oe", "ø": "o", "ł": "l", "đ": "d", "ð": "d", "þ": "th", "ı": "i", "ħ": "h",
+};
+
+/** Russian, Ukrainian and Belarusian Cyrillic, close to BGN/PCGN romanization */
+const CYRILLIC: Record<string, string> = {
+  "а": "a", "б": "b", "в": "v", "г": "g", "д": "d", "е": "e", "ё": "e", "ж": "zh", "з": "z", "и": "i",
+  "й": "y", "к": "k", "л": "l", "м": "m", "н": "n", "о": "o", "п": "p", "р": "r", "с": "s", "т": "t",
+  "у": "u", "ф": "f", "х": "kh", "ц": "ts", "ч": "ch", "ш": "sh", "щ": "shch", "ъ": "", "ы": "y", "ь": "",
+  "э": "e", "ю": "yu", "я": "ya", "є": "ye", "і": "i", "ї": "yi", "ґ": "g", "ў": "u",
+};
+
+const GREEK: Record<string, string> = {
+  "α": "a", "β": "v", "γ": "g", "δ": "d", "ε": "e", "ζ": "z", "η": "i", "θ": "th", "ι": "i", "κ": "k",
+  "λ": "l", "μ": "m", "ν": "n", "ξ": "x", "ο": "o", "π": "p", "ρ": "r", "σ": "s", "ς": "s", "τ": "t",
+  "υ": "y", "φ": "f", "χ": "ch", "ψ": "ps", "ω": "o",
+};
+
+/** Lower-case plain Latin: diacritics stripped, Cyrillic and Greek romanized */
+export function transliterate(text: string): string {
+  return [...text.toLowerCase().normalize("NFKD").replace(/\p{M}/gu, "")]
+    .map(ch => LATIN[ch] ?? CYRILLIC[ch] ?? GREEK[ch] ?? ch)
+    .join("");
+}
+
+/** Transliterated name split into significant tokens */
+export function nameTokens(name: string): string[] {
+  const tokens = transliterate(name)
+    .replace(/&/g, " and ")
+    .replace(/['’`]/g, "")
+    // Dotted initials such as S.A. or L.L.C. are one word
+    .replace(/\b(?:[a-z0-9]\.){2,}/g, initials => initials.replace(/\./g, ""))
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const significant = tokens.filter(t => !STOPWORDS.has(t));
+  // A name made only of stopwords ("The Company") is still a name
+  return significant.length > 0 ? significant : tokens;
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Uint8Array(a.length);
+  const bMatched = new Uint8Array(b.length);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = 1;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j++]) transpositions++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  // Winkler's boost for a common prefix of up to 4 characters, only for already similar strings
+  if (jaro <= 0.7) return jaro;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+const isVowel = (ch: string | undefined): boolean => ch !== undefined && "aeiou".includes(ch);
+
+/** Original Metaphone (Philips, 1990) for one lower-case a-z token */
+export function metaphone(token: string): string {
+  let word = token.replace(/[^a-z]/g, "");
+  if (!word) return "";
+  if (/^(kn|gn|pn|ae|wr)/.test(word)) word = word.slice(1);
+  if (word[0] === "x") word = `s${word.slice(1)}`;
+  if (word.startsWith("wh")) word = `w${word.slice(2)}`;
+
+  let code = "";
+  for (let i = 0; i < word.length; i++) {
+    const ch = word[i];
+    const prev = word[i - 1];
+    const next = word[i + 1];
+    const after = word.slice(i + 1);
+    if (ch === prev && ch !== "c") continue;
+
+    switch (ch) {
+      case "a": case "e": case "i": case "o": case "u":
+        if (i === 0) code += ch.toUpperCase();
+        break;
+      case "b":
+        if (!(prev === "m" && i === word.length - 1)) code += "B";
+        break;
+      case "c":
+        if (after.startsWith("ia") || (next === "h" && prev !== "s")) code += "X";
+        else if ("iey".includes(next ?? "_")) { if (prev !== "s") code += "S"; }
+        else code += "K";
+        break;
+      case "d":
+        code += next === "g" && "iey".includes(word[i + 2] ?? "_") ? "J" : "T";
+        break;
+      case "g":
+        if (next === "h" && !isVowel(word[i + 2]) && i + 2 < word.length) break;
+        if (next === "n" && (i + 2 === word.length || after === "ned")) break;
+        if (prev === "d" && "iey".includes(next ?? "_")) break;
+        code += "iey".includes(next ?? "_") ? "J" : "K";
+        break;
+      case "h":
+        if (isVowel(next) && !"csptg".includes(prev ?? "_")) code += "H";
+        break;
+      case "k":
+        if (prev !== "c") code += "K";
+        break;
+      case "p":
+        code += next === "h" ? "F" : "P";
+        break;
+      case "q":
+        code += "K";
+        break;
+      case "s":
+        code += next === "h" || after.startsWith("io") || after.startsWith("ia") ? "X" : "S";
+        break;
+      case "t":
+        if (after.startsWith("io") || after.startsWith("ia")) code += "X";
+        else if (next === "h") code += "0";
+        else if (!after.startsWith("ch")) code += "T";
+        break;
+      case "v":
+        code += "F";
+        break;
+      case "w": case "y":
+        if (isVowel(next)) code += ch.toUpperCase();
+        break;
+      case "x":
+        code += "KS";
+        break;
+      case "z":
+        code += "S";
+        break;
+      default:
+        code += ch.toUpperCase();
+    }
+  }
+  return code;
+}
+
+export interface PreparedName {
+  tokens: string[];
+  /** Metaphone code per token */
+  phonetic: string[];
+  /** Tokens joined without spaces, so "Bank Melli" and "Bankmelli" still compare */
+  compact: string;
+}
+
+export function prepareName(name: string): PreparedName {
+  const tokens = nameTokens(name);
+  return { tokens, phonetic: tokens.map(metaphone), compact: tokens.join("") };
+}
+
+export interface NameComparison {
+  /** 0-1; the better of token-aligned and whole-name Jaro-Winkler */
+  score: number;
+  /** Every token pairs up with one that has the same Metaphone code */
+  phonetic: boolean;
+}
+
+/**
+ * Pair tokens greedily by similarity, in any order, and weight each pair by its
+ * length. Tokens left without a partner count as zero, so extra words in either
+ * name lower the score.
+ */
+export function compareNames(a: PreparedName, b: PreparedName): NameComparison {
+  if (a.tokens.length === 0 || b.tokens.length === 0) return { score: 0, phonetic: false };
+
+  const n = a.tokens.length;
+  const m = b.tokens.length;
+  const sims = new Float64Array(n * m);
+  for (let i = 0; i < n; i++) for (let j = 0; j < m; j++) sims[i * m + j] = jaroWinkler(a.tokens[i], b.tokens[j]);
+
+  // Names have a handful of tokens, so repeatedly taking the best remaining pair is cheap
+  let weighted = 0;
+  let phoneticPairs = 0;
+  for (let paired = 0; paired < Math.min(n, m); paired++) {
+    let best = -1;
+    for (let k = 0; k < sims.length; k++) if (sims[k] >= 0 && (best < 0 || sims[k] > sims[best])) best = k;
+    const i = Math.floor(best / m);
+    const j = best % m;
+    weighted += sims[best] * (a.tokens[i].length + b.tokens[j].length);
+    if (a.phonetic[i] && a.phonetic[i] === b.phonetic[j]) phoneticPairs++;
+    for (let k = 0; k < m; k++) sims[i * m + k] = -1;
+    for (let k = 0; k < n; k++) sims[k * m + j] = -1;
+  }
+  const tokenScore = weighted / (a.compact.length + b.compact.length);
+
+  return {
+    score: Math.max(tokenScore, jaroWinkler(a.compact, b.compact)),
+    phonetic: n === m && phoneticPairs === n,
+  };
+}
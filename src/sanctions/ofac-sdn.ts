@@ -0,0 +1,78 @@
+/**
+ * Reader for OFAC's SDN and consolidated (non-SDN) list XML (`SDN.XML`,
+ * `CONS_PRIM.XML`): entity names, aliases, programs and the "Digital Currency
+ * Address" identifiers. The schema is flat enough that a tag scanner does the
+ * job without an XML dependency.
+ */
+
+export interface SdnDigitalCurrencyAddress {
+  /** OFAC's currency code, e.g. XBT, ETH, USDT, TRX */
+  currency: string;
+  address: string;
+}
+
+export interface SdnEntry {
+  uid: string;
+  /** "First Last" for individuals, the registered name otherwise */
+  name: string;
+  /** Individual, Entity, Vessel or Aircraft */
+  type: string;
+  programs: string[];
+  aliases: string[];
+  digital_currency_addresses: SdnDigitalCurrencyAddress[];
+}
+
+export interface SdnList {
+  publish_date: string | null;
+  entries: SdnEntry[];
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (whole, ref: string) => {
+      if (ref[0] !== "#") return ENTITIES[ref] ?? whole;
+      return String.fromCodePoint(ref[1].toLowerCase() === "x" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10));
+    })
+    .trim();
+}
+
+/** Text of the first <tag> directly in this fragment (namespace prefixes ignored) */
+function field(xml: string, tag: string): string | null {
+  const match = new RegExp(`<(?:\\w+:)?${tag}>([\\s\\S]*?)</(?:\\w+:)?${tag}>`).exec(xml);
+  return match ? decodeXml(match[1]) : null;
+}
+
+function blocks(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<(?:\\w+:)?${tag}>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g"))].map(m => m[1]);
+}
+
+const personName = (xml: string): string =>
+  [field(xml, "firstName"), field(xml, "lastName")].filter(Boolean).join(" ");
+
+export function parseOfacSdnXml(xml: string): SdnList {
+  if (!/<(?:\w+:)?sdnList[\s>]/.test(xml)) throw new Error("Not an OFAC SDN list: no <sdnList> root element");
+
+  const entries = blocks(xml, "sdnEntry").map(entry => {
+    // Nested lists also contain firstName/lastName, so read the entry's own name before them
+    const head = entry.split(/<(?:\w+:)?(?:programList|idList|akaList|addressList)>/)[0];
+    const ids = blocks(entry, "id");
+    return {
+      uid: field(head, "uid") ?? "",
+      name: personName(head),
+      type: field(head, "sdnType") ?? "Entity",
+      programs: blocks(entry, "program").map(decodeXml),
+      aliases: blocks(entry, "aka").map(personName).filter(Boolean),
+      digital_currency_addresses: ids.flatMap(id => {
+        const type = field(id, "idType") ?? "";
+        const address = field(id, "idNumber");
+        const match = /^Digital Currency Address - (\w+)/i.exec(type);
+        return match && address ? [{ currency: match[1].toUpperCase(), address }] : [];
+      }),
+    };
+  });
+
+  return { publish_date: field(xml, "Publish_Date"), entries };
+}
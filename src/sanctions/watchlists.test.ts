@@ -0,0 +1,142 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { Watchlists, parseWatchlist, watchlistsConfigSchema } from "./watchlists.js";
+import { logger } from "../utils/logger.js";
+
+const SDN_XML = `<?xml version="1.0" standalone="yes"?>
+<sdnList>
+  <publshInformation><Publish_Date>10/15/2026</Publish_Date></publshInformation>
+  <sdnEntry>
+    <uid>7543</uid>
+    <lastName>BANK MELLI IRAN</lastName>
+    <sdnType>Entity</sdnType>
+    <programList><program>IRAN</program><program>SDGT</program></programList>
+    <akaList><aka><uid>1</uid><type>a.k.a.</type><lastName>MELLI BANK PLC</lastName></aka></akaList>
+  </sdnEntry>
+  <sdnEntry>
+    <uid>9001</uid>
+    <firstName>Mohammed</firstName>
+    <lastName>AL-RASHID</lastName>
+    <sdnType>Individual</sdnType>
+    <programList><program>SDGT</program></programList>
+  </sdnEntry>
+</sdnList>`;
+
+const SDN_CSV = [
+  '36217,"GARANTEX EUROPE OU",-0- ,"CYBER2] [RUSSIA-EO14024",-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0-',
+  '9001,"AL-RASHID, Mohammed","individual","SDGT",-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0- ,-0-',
+].join("\n");
+
+describe("parseWatchlist", () => {
+  it("reads SDN XML entries with their aliases", () => {
+    const { entries, publishDate } = parseWatchlist("ofac_sdn_xml", SDN_XML);
+    expect(publishDate).toBe("10/15/2026");
+    expect(entries).toEqual([
+      { id: "7543", name: "BANK MELLI IRAN", type: "Entity", programs: ["IRAN", "SDGT"], aliases: ["MELLI BANK PLC"] },
+      { id: "9001", name: "Mohammed AL-RASHID", type: "Individual", programs: ["SDGT"], aliases: [] },
+    ]);
+  });
+
+  it("reads OFAC's header-less SDN CSV", () => {
+    expect(parseWatchlist("ofac_sdn_csv", SDN_CSV).entries).toEqual([
+      { id: "36217", name: "GARANTEX EUROPE OU", type: "Entity", programs: ["CYBER2", "RUSSIA-EO14024"], aliases: [] },
+      { id: "9001", name: "AL-RASHID, Mohammed", type: "Individual", programs: ["SDGT"], aliases: [] },
+    ]);
+    expect(() => parseWatchlist("ofac_sdn_csv", "name,type\nx,y\n")).toThrow("Not an OFAC SDN CSV: no rows start with an entity number");
+  });
+
+  it("reads plain CSV watchlists by column name", () => {
+    expect(parseWatchlist("csv", "Name,Type,Aliases\nAcme Fraud Ltd,Entity,Acme Holdings;ACME FZE\n").entries).toEqual([
+      { id: "1", name: "Acme Fraud Ltd", type: "Entity", programs: [], aliases: ["Acme Holdings", "ACME FZE"] },
+    ]);
+    expect(() => parseWatchlist("csv", "id,type\n1,x\n")).toThrow("CSV watchlist needs a name column");
+  });
+});
+
+describe("Watchlists", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchlists-"));
+    fs.writeFileSync(path.join(dir, "sdn.xml"), SDN_XML);
+    jest.spyOn(logger, "info").mockImplementation(() => {});
+    jest.spyOn(logger, "warn").mockImplementation(() => {});
+    jest.spyOn(logger, "error").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const watchlists = (thresholds?: Record<string, number>) => new Watchlists(watchlistsConfigSchema.parse({
+    thresholds,
+    lists: [{ id: "sdn", name: "OFAC SDN", format: "ofac_sdn_xml", path: "sdn.xml", url: "https://lists.example.test/sdn.xml" }],
+  }), dir);
+
+  it("matches a name despite word order, legal forms and transliteration", () => {
+    const [hit] = watchlists().screen("Банк Мелли Иран ПАО");
+    expect(hit).toEqual({
+      list_id: "sdn",
+      list_name: "OFAC SDN",
+      entry_id: "7543",
+      entry_name: "BANK MELLI IRAN",
+      entry_type: "Entity",
+      matched_name: "BANK MELLI IRAN",
+      matched_alias: false,
+      programs: ["IRAN", "SDGT"],
+      score: 1,
+      phonetic: true,
+      strength: "match",
+    });
+    expect(watchlists().screen("Melli Bank Limited")[0]).toMatchObject({ matched_name: "MELLI BANK PLC", matched_alias: true, strength: "match" });
+  });
+
+  it("reports near spellings as possible, and phonetic ones from the lower threshold", () => {
+    expect(watchlists().screen("Banc Meli Iran")[0]).toMatchObject({ entry_id: "7543", score: 0.946, strength: "possible" });
+
+    // Under the possible threshold, but every word sounds like the listed name
+    expect(watchlists().screen("Muhamad Al Rusheed")[0]).toMatchObject({ entry_id: "9001", score: 0.841, phonetic: true, strength: "possible" });
+    expect(watchlists({ phonetic: 0.85 }).screen("Muhamad Al Rusheed")).toEqual([]);
+  });
+
+  it("filters by entry type and honours min_score and max_hits", () => {
+    const lists = watchlists();
+    expect(lists.screen("Mohammed Al-Rashid", { entry_type: "entity" })).toEqual([]);
+    expect(lists.screen("Mohammed Al-Rashid", { entry_type: "Individual" })).toHaveLength(1);
+    expect(lists.screen("Bank", { min_score: 0 }).length).toBe(2);
+    expect(lists.screen("Bank", { min_score: 0, max_hits: 1 })).toHaveLength(1);
+    expect(lists.screen("Unrelated Coffee Roasters")).toEqual([]);
+    expect(lists.screen("Ltd.")).toEqual([]);
+  });
+
+  it("picks up a replaced file and reports status", () => {
+    const lists = watchlists();
+    expect(lists.status()).toEqual([expect.objectContaining({ id: "sdn", entries: 2, names: 3, publish_date: "10/15/2026", error: null })]);
+
+    const file = path.join(dir, "sdn.xml");
+    fs.writeFileSync(file, SDN_XML.replace(/<sdnEntry>\s*<uid>9001[\s\S]*?<\/sdnEntry>/, ""));
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 5000));
+    expect(lists.screen("Mohammed Al-Rashid")).toEqual([]);
+    expect(lists.status()[0].entries).toBe(1);
+  });
+
+  it("refreshes from the list url and keeps the file when the download is not a list", async () => {
+    const fetchMock = jest.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response("<html>maintenance</html>"));
+    const lists = watchlists();
+    expect(await lists.refresh()).toEqual([{ id: "sdn", status: "failed", entries: null, error: "Not an OFAC SDN list: no <sdnList> root element" }]);
+    expect(lists.status()[0].entries).toBe(2);
+
+    fetchMock.mockResolvedValueOnce(new Response(SDN_XML.replace("BANK MELLI IRAN", "BANK SEPAH")));
+    expect(await lists.refresh(["sdn"])).toEqual([{ id: "sdn", status: "updated", entries: 2, error: null }]);
+    expect(lists.screen("Bank Sepah")[0].entry_id).toBe("7543");
+    await expect(lists.refresh(["un"])).rejects.toThrow("Unknown watchlist(s): un");
+  });
+
+  it("rejects thresholds out of order", () => {
+    const file = path.join(dir, "watchlists.yaml");
+    fs.writeFileSync(file, "thresholds:\n  match: 0.9\n  possible: 0.92\nlists:\n  - id: sdn\n    format: ofac_sdn_xml\n    path: sdn.xml\n");
+    expect(() => Watchlists.load(file)).toThrow(/Invalid watchlists file .* thresholds\.possible: must not exceed thresholds\.match/);
+  });
+});
@@ -0,0 +1,306 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import YAML from "yaml";
+import { logger } from "../utils/logger.js";
+import { parseCsvRecords } from "../batch/transaction-batch.js";
+import { parseOfacSdnXml } from "./ofac-sdn.js";
+import { downloadListFile } from "./list-download.js";
+import { compareNames, prepareName, type PreparedName } from "./name-matching.js";
+import type { WatchlistHit, WatchlistStatus, WatchlistThresholds } from "../types/index.js";
+
+export const DEFAULT_WATCHLIST_THRESHOLDS: WatchlistThresholds = { match: 0.95, possible: 0.88, phonetic: 0.8 };
+
+const score = z.number().min(0).max(1);
+
+const listSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, "use letters, digits, _ and -"),
+  name: z.string().min(1).optional(),
+  /**
+   * ofac_sdn_xml: SDN.XML or CONS_PRIM.XML, with aliases; ofac_sdn_csv: the
+   * header-less sdn.csv or cons_prim.csv, primary names only; csv: a name column
+   * plus optional id, type, programs and aliases (separated by ; or |)
+   */
+  format: z.enum(["ofac_sdn_xml", "ofac_sdn_csv", "csv"]),
+  /** Relative paths are resolved against the watchlists file's directory */
+  path: z.string().min(1),
+  /** Where `watchlists refresh` downloads the file from */
+  url: z.string().url().optional(),
+}).strict();
+
+export const watchlistsConfigSchema = z.object({
+  thresholds: z.object({
+    match: score.optional(),
+    possible: score.optional(),
+    phonetic: score.optional(),
+  }).strict().optional(),
+  lists: z.array(listSchema).min(1),
+}).strict().superRefine((config, ctx) => {
+  const seen = new Set<string>();
+  config.lists.forEach((list, i) => {
+    if (seen.has(list.id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lists", i, "id"], message: `Duplicate list id "${list.id}"` });
+    seen.add(list.id);
+  });
+  const { match, possible, phonetic } = { ...DEFAULT_WATCHLIST_THRESHOLDS, ...config.thresholds };
+  if (possible > match) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["thresholds", "possible"], message: "must not exceed thresholds.match" });
+  if (phonetic > possible) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["thresholds", "phonetic"], message: "must not exceed thresholds.possible" });
+});
+
+export type WatchlistsConfig = z.infer<typeof watchlistsConfigSchema>;
+export type WatchlistConfig = WatchlistsConfig["lists"][number];
+
+export interface WatchlistEntry {
+  id: string;
+  name: string;
+  type: string | null;
+  programs: string[];
+  aliases: string[];
+}
+
+export interface WatchlistRefresh {
+  id: string;
+  status: "updated" | "skipped" | "failed";
+  entries: number | null;
+  error: string | null;
+}
+
+export interface WatchlistScreenOptions {
+  /** Only entries of this type, e.g. Entity to leave out individuals */
+  entry_type?: string;
+  /** Report hits from this score instead of the possible threshold */
+  min_score?: number;
+  max_hits?: number;
+}
+
+interface IndexedEntry {
+  entry: WatchlistEntry;
+  /** Primary name first, then aliases */
+  names: Array<{ text: string; prepared: PreparedName }>;
+}
+
+interface LoadedList {
+  config: WatchlistConfig;
+  file: string;
+  entries: IndexedEntry[];
+  mtimeMs: number | null;
+  publishDate: string | null;
+  error: string | null;
+}
+
+const splitList = (value: string | undefined): string[] =>
+  value?.trim() ? value.split(/[;|]/).map(v => v.trim()).filter(Boolean) : [];
+
+/** OFAC's CSV exports write "-0-" for empty fields */
+const ofacField = (value: string | undefined): string | null => {
+  const text = value?.trim() ?? "";
+  return text === "" || text === "-0-" ? null : text;
+};
+
+/** Parse one watchlist file's contents; throws when the format doesn't fit */
+export function parseWatchlist(format: WatchlistConfig["format"], text: string): { entries: WatchlistEntry[]; publishDate: string | null } {
+  if (format === "ofac_sdn_xml") {
+    const sdn = parseOfacSdnXml(text);
+    return {
+      publishDate: sdn.publish_date,
+      entries: sdn.entries.map(e => ({ id: e.uid, name: e.name, type: e.type, programs: e.programs, aliases: e.aliases })),
+    };
+  }
+
+  if (format === "ofac_sdn_csv") {
+    // ent_num, SDN_Name, SDN_Type, Program, ... with no header row; SDN_Type is empty for entities
+    const rows = parseCsvRecords(text).filter(r => r.length >= 4 && /^\d+$/.test(r[0].trim()));
+    if (rows.length === 0 && text.trim()) throw new Error("Not an OFAC SDN CSV: no rows start with an entity number");
+    return {
+      publishDate: null,
+      entries: rows.map(r => {
+        const type = ofacField(r[2]);
+        return {
+          id: r[0].trim(),
+          name: r[1].trim(),
+          type: type ? type[0].toUpperCase() + type.slice(1).toLowerCase() : "Entity",
+          programs: (ofacField(r[3]) ?? "").split(/\]\s*\[/).map(p => p.replace(/[[\]]/g, "").trim()).filter(Boolean),
+          aliases: [],
+        };
+      }),
+    };
+  }
+
+  const [header, ...rows] = parseCsvRecords(text);
+  const columns = (header ?? []).map(h => h.trim().toLowerCase());
+  const col = (...names: string[]) => columns.findIndex(c => names.includes(c));
+  const name = col("name", "entity_name");
+  if (name < 0) throw new Error("CSV watchlist needs a name column");
+  const id = col("id", "uid", "reference");
+  const type = col("type", "entity_type");
+  const programs = col("programs", "program");
+  const aliases = col("aliases", "alias", "aka");
+  return {
+    publishDate: null,
+    entries: rows.filter(r => r[name]?.trim()).map((r, i) => ({
+      id: id >= 0 && r[id]?.trim() ? r[id].trim() : String(i + 1),
+      name: r[name].trim(),
+      type: type >= 0 ? r[type]?.trim() || null : null,
+      programs: programs >= 0 ? splitList(r[programs]) : [],
+      aliases: aliases >= 0 ? splitList(r[aliases]) : [],
+    })),
+  };
+}
+
+/**
+ * Sanctions and watchlist names from local files, such as OFAC's SDN and
+ * consolidated lists, for fuzzy screening of merchant and business names. Like
+ * WalletLists, files are re-read when they change on disk, and a missing or
+ * unreadable file leaves its list empty and reported in status().
+ */
+export class Watchlists {
+  readonly thresholds: WatchlistThresholds;
+  private readonly lists: LoadedList[];
+
+  constructor(config: WatchlistsConfig | null, baseDir = ".") {
+    this.thresholds = { ...DEFAULT_WATCHLIST_THRESHOLDS, ...config?.thresholds };
+    this.lists = (config?.lists ?? []).map(list => ({
+      config: list,
+      file: path.resolve(baseDir, list.path),
+      entries: [],
+      mtimeMs: null,
+      publishDate: null,
+      error: null,
+    }));
+    for (const list of this.lists) this.reload(list);
+  }
+
+  static load(filePath: string | undefined): Watchlists {
+    if (!filePath) return new Watchlists(null);
+
+    const raw = fs.readFileSync(filePath, "utf8");
+    const ext = path.extname(filePath).toLowerCase();
+    const parsed: unknown = ext === ".yaml" || ext === ".yml" ? YAML.parse(raw) : JSON.parse(raw);
+    const result = watchlistsConfigSchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+      throw new Error(`Invalid watchlists file ${filePath} — ${issues}`);
+    }
+
+    const lists = new Watchlists(result.data, path.dirname(filePath));
+    const total = lists.lists.reduce((sum, l) => sum + l.entries.length, 0);
+    logger.info(`Loaded ${lists.lists.length} watchlist(s) with ${total} entr${total === 1 ? "y" : "ies"} from ${filePath}`);
+    return lists;
+  }
+
+  get configured(): boolean {
+    return this.lists.length > 0;
+  }
+
+  private reload(list: LoadedList) {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(list.file).mtimeMs;
+    } catch {
+      if (list.error === null) logger.warn(`Watchlist "${list.config.id}" file ${list.file} not found — run watchlists refresh`);
+      Object.assign(list, { entries: [], mtimeMs: null, publishDate: null, error: "file not found" });
+      return;
+    }
+    if (mtimeMs === list.mtimeMs) return;
+
+    try {
+      const { entries, publishDate } = parseWatchlist(list.config.format, fs.readFileSync(list.file, "utf8"));
+      const indexed = entries.map(entry => ({
+        entry,
+        names: [entry.name, ...entry.aliases].map(text => ({ text, prepared: prepareName(text) })),
+      }));
+      Object.assign(list, { entries: indexed, mtimeMs, publishDate, error: null });
+      logger.info(`Watchlist "${list.config.id}" loaded with ${entries.length} entr${entries.length === 1 ? "y" : "ies"}`);
+    } catch (err) {
+      // Keep serving the previous contents of a file that was replaced with something unreadable
+      logger.error(`Watchlist "${list.config.id}" could not be read: ${(err as Error).message}`);
+      Object.assign(list, { mtimeMs, error: (err as Error).message });
+    }
+  }
+
+  /**
+   * Entries whose name or an alias resembles `name`, best first. A hit is a
+   * match at thresholds.match, and possible at thresholds.possible, or at
+   * thresholds.phonetic when every word sounds the same.
+   */
+  screen(name: string, options: WatchlistScreenOptions = {}): WatchlistHit[] {
+    const query = prepareName(name);
+    if (query.tokens.length === 0) return [];
+    const { match, possible, phonetic } = this.thresholds;
+    const floor = options.min_score ?? possible;
+    const phoneticFloor = Math.min(phonetic, floor);
+    const type = options.entry_type?.toLowerCase();
+
+    const hits: WatchlistHit[] = [];
+    for (const list of this.lists) {
+      this.reload(list);
+      for (const { entry, names } of list.entries) {
+        if (type && entry.type?.toLowerCase() !== type) continue;
+
+        let best: { text: string; alias: boolean; score: number; phonetic: boolean } | null = null;
+        for (const [i, { text, prepared }] of names.entries()) {
+          const result = compareNames(query, prepared);
+          const qualifies = result.score >= floor || (result.phonetic && result.score >= phoneticFloor);
+          if (qualifies && (!best || result.score > best.score)) best = { text, alias: i > 0, ...result };
+        }
+        if (!best) continue;
+
+        hits.push({
+          list_id: list.config.id,
+          list_name: list.config.name ?? list.config.id,
+          entry_id: entry.id,
+          entry_name: entry.name,
+          entry_type: entry.type,
+          matched_name: best.text,
+          matched_alias: best.alias,
+          programs: entry.programs,
+          score: Math.round(best.score * 1000) / 1000,
+          phonetic: best.phonetic,
+          strength: best.score >= match ? "match" : "possible",
+        });
+      }
+    }
+
+    hits.sort((a, b) => b.score - a.score);
+    return hits.slice(0, options.max_hits ?? 10);
+  }
+
+  status(): WatchlistStatus[] {
+    return this.lists.map(list => ({
+      id: list.config.id,
+      name: list.config.name ?? list.config.id,
+      entries: list.entries.length,
+      names: list.entries.reduce((sum, e) => sum + e.names.length, 0),
+      file_updated_at: list.mtimeMs === null ? null : new Date(list.mtimeMs).toISOString(),
+      publish_date: list.publishDate,
+      error: list.error,
+    }));
+  }
+
+  /**
+   * Download lists that have a url, all or the ones named. A download that
+   * doesn't parse, or has no entries, leaves the existing file alone.
+   */
+  async refresh(ids?: string[]): Promise<WatchlistRefresh[]> {
+    const unknown = ids?.filter(id => !this.lists.some(l => l.config.id === id)) ?? [];
+    if (unknown.length > 0) throw new Error(`Unknown watchlist(s): ${unknown.join(", ")}`);
+
+    const results: WatchlistRefresh[] = [];
+    for (const list of this.lists.filter(l => !ids || ids.includes(l.config.id))) {
+      const { id, url, format } = list.config;
+      if (!url) {
+        results.push({ id, status: "skipped", entries: null, error: "no url configured" });
+        continue;
+      }
+      try {
+        const entries = await downloadListFile(url, list.file, text => parseWatchlist(format, text).entries.length, "merchantguard-mcp-watchlists/1.0");
+        this.reload(list);
+        results.push({ id, status: "updated", entries, error: null });
+      } catch (err) {
+        const error = (err as Error).message;
+        logger.error(`Watchlist "${id}" refresh failed: ${error}`);
+        results.push({ id, status: "failed", entries: null, error });
+      }
+    }
+    return results;
+  }
+}
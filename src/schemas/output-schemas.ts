@@ -0,0 +1,580 @@
+import { z } from "zod";
+
+// Output schemas mirror the result types in types/index.ts. They are registered as each
+// tool's outputSchema, so clients can rely on the shape of structuredContent.
+
+const riskLevelEnum = z.enum(["low", "medium", "high", "critical"]);
+const actionEnum = z.enum(["approve", "review", "decline"]);
+const paymentRailEnum = z.enum(["card", "stablecoin", "crypto", "ach", "wire", "unknown"]);
+const verificationStatusEnum = z.enum(["verified", "pending", "unverified", "suspended", "revoked"]);
+const vampStatusEnum = z.enum(["standard", "monitored", "excessive", "at_risk"]);
+const vampTierEnum = z.enum(["standard", "monitored", "excessive"]);
+const vampTrendEnum = z.enum(["improving", "stable", "declining"]);
+const disputeTypeEnum = z.enum(["fraud", "product_not_received", "product_not_as_described", "duplicate", "subscription_canceled", "authorization_issue"]);
+const cardNetworkEnum = z.enum(["visa", "mastercard", "amex", "discover"]);
+const dataSourceEnum = z.enum(["live", "local", "mock", "cached"]);
+
+export const provenanceSchema = z.object({
+  source: dataSourceEnum.describe("live = MerchantGuard API, local = computed here, mock = heuristic fallback, cached = stored live result"),
+  endpoint: z.string().nullable(),
+  latency_ms: z.number().nullable(),
+  fallback_reason: z.string().nullable().describe("Why mock data was returned instead of live data"),
+  retrieved_at: z.string(),
+});
+
+export const riskFactorSchema = z.object({
+  factor: z.string(),
+  severity: riskLevelEnum,
+  description: z.string(),
+});
+
+export const riskThresholdsSchema = z.object({
+  auto_decline: z.number(),
+  high_risk: z.number(),
+  medium_risk: z.number(),
+});
+
+export const policyDecisionSchema = z.object({
+  policy_version: z.string(),
+  rule_id: z.string().nullable(),
+  rule_description: z.string().nullable(),
+  action_source: z.enum(["rule", "thresholds", "sanctions"]),
+  thresholds: riskThresholdsSchema,
+});
+
+export const normalizedAmountSchema = z.object({
+  amount: z.number(),
+  currency: z.string(),
+  base_amount: z.number().describe("Amount in the base currency, used for value thresholds and policy amount rules"),
+  base_currency: z.string(),
+  fx_rate: z.number().describe("Units of currency per one unit of base currency"),
+  rates_as_of: z.string().nullable(),
+});
+
+export const transactionRiskResultSchema = z.object({
+  risk_score: z.number().describe("GuardScore 0-100, higher is safer"),
+  risk_level: riskLevelEnum,
+  recommended_action: actionEnum,
+  risk_factors: z.array(riskFactorSchema),
+  policy: policyDecisionSchema,
+  normalized_amount: normalizedAmountSchema,
+  guardscore_version: z.string(),
+  scored_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+export const batchScoringResultSchema = z.object({
+  summary: z.object({
+    total_rows: z.number(),
+    scored: z.number(),
+    invalid: z.number(),
+    failed: z.number(),
+    cancelled: z.number(),
+    by_risk_level: z.record(z.number()),
+    by_action: z.record(z.number()),
+    value_at_risk: z.object({
+      base_currency: z.string(),
+      amount: z.number().describe("Rows recommended for review or decline, summed in the base currency"),
+      by_currency: z.record(z.number()).describe("The same rows' original amounts per transaction currency"),
+    }),
+    top_risk_factors: z.array(z.object({ factor: z.string(), count: z.number() })),
+    by_source: z.record(z.number()),
+    duration_ms: z.number(),
+  }),
+  results: z.array(z.object({
+    row: z.number(),
+    reference: z.string().nullable(),
+    status: z.enum(["scored", "invalid", "failed", "cancelled"]),
+    amount: z.number().nullable(),
+    currency: z.string().nullable(),
+    result: transactionRiskResultSchema.nullable(),
+    error: z.string().nullable(),
+  })),
+});
+
+const watchlistHitSchema = z.object({
+  list_id: z.string(),
+  list_name: z.string(),
+  entry_id: z.string(),
+  entry_name: z.string(),
+  entry_type: z.string().nullable(),
+  matched_name: z.string(),
+  matched_alias: z.boolean(),
+  programs: z.array(z.string()),
+  score: z.number(),
+  phonetic: z.boolean(),
+  strength: z.enum(["match", "possible"]),
+});
+
+export const merchantProfileSchema = z.object({
+  merchant_id: z.string(),
+  name: z.string(),
+  guardscore: z.number(),
+  risk_level: riskLevelEnum,
+  verification_status: verificationStatusEnum,
+  chargeback_rate: z.number(),
+  industry: z.string(),
+  vamp_status: vampStatusEnum,
+  last_updated: z.string(),
+  watchlist_hits: z.array(watchlistHitSchema),
+  screened_name: z.string().nullable(),
+  provenance: provenanceSchema,
+});
+
+const budgetWindowEnum = z.enum(["per_transaction", "daily", "monthly"]);
+
+const budgetExceedanceSchema = z.object({
+  merchant_category: z.string().nullable(),
+  window: budgetWindowEnum,
+  limit: z.number(),
+  remaining: z.number(),
+  requested: z.number(),
+});
+
+export const agentVerificationSchema = z.object({
+  agent_id: z.string(),
+  trust_score: z.number(),
+  verification_status: verificationStatusEnum,
+  authorization_level: z.enum(["none", "basic", "standard", "elevated", "full"]),
+  spending_limit: z.number(),
+  spending_limit_currency: z.string(),
+  anomaly_flags: z.array(z.string()),
+  budget: z.object({
+    currency: z.string(),
+    merchant_category: z.string().nullable(),
+    remaining: z.number().nullable(),
+    would_exceed: z.boolean(),
+    exceeded: z.array(budgetExceedanceSchema),
+  }),
+  authorization_token: z.object({
+    token: z.string(),
+    token_id: z.string(),
+    algorithm: z.enum(["EdDSA", "HS256"]),
+    key_id: z.string(),
+    action: z.string(),
+    max_amount: z.number(),
+    currency: z.string(),
+    merchant_id: z.string(),
+    expires_at: z.string(),
+  }).nullable(),
+  verified_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+export const agentBudgetStatusSchema = z.object({
+  agent_id: z.string(),
+  currency: z.string(),
+  merchant_category: z.string().nullable(),
+  allowances: z.array(z.object({
+    merchant_category: z.string().nullable(),
+    window: budgetWindowEnum,
+    limit: z.number().nullable(),
+    limit_source: z.enum(["policy", "verification"]).nullable(),
+    committed: z.number(),
+    reserved: z.number(),
+    remaining: z.number().nullable(),
+    resets_at: z.string().nullable(),
+  })),
+  remaining: z.number().nullable(),
+  active_reservations: z.number(),
+  as_of: z.string(),
+  provenance: provenanceSchema,
+});
+
+export const agentBudgetOperationSchema = z.object({
+  operation: z.enum(["reserve", "commit", "release"]),
+  approved: z.boolean(),
+  reservation: z.object({
+    reservation_id: z.string(),
+    agent_id: z.string(),
+    reference: z.string().nullable(),
+    amount: z.number(),
+    original_amount: z.number(),
+    original_currency: z.string(),
+    merchant_category: z.string().nullable(),
+    merchant_id: z.string().nullable(),
+    status: z.enum(["reserved", "committed", "released", "expired"]),
+    created_at: z.string(),
+    expires_at: z.string(),
+    committed_at: z.string().nullable(),
+    released_at: z.string().nullable(),
+  }).nullable(),
+  exceeded: z.array(budgetExceedanceSchema),
+  budget: agentBudgetStatusSchema,
+  provenance: provenanceSchema,
+});
+
+export const authorizationTokenCheckSchema = z.object({
+  valid: z.boolean(),
+  error_code: z.enum([
+    "malformed", "unsupported_algorithm", "unknown_key", "bad_signature", "not_yet_valid", "expired",
+    "issuer_mismatch", "agent_mismatch", "action_mismatch", "merchant_mismatch", "currency_mismatch",
+    "amount_exceeded", "replayed",
+  ]).nullable(),
+  error: z.string().nullable(),
+  claims: z.object({
+    iss: z.string(),
+    sub: z.string(),
+    jti: z.string(),
+    iat: z.number(),
+    exp: z.number(),
+    action: z.string(),
+    max_amount: z.number(),
+    currency: z.string(),
+    merchant_id: z.string(),
+    tenant_id: z.string().nullable(),
+    authorization_level: z.string(),
+    data_source: z.string(),
+  }).nullable(),
+  key_id: z.string().nullable(),
+  consumed: z.boolean(),
+  verified_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+const likelyReasonCodeSchema = z.object({
+  network: cardNetworkEnum,
+  code: z.string(),
+  title: z.string(),
+});
+
+export const disputePredictionSchema = z.object({
+  dispute_probability: z.number(),
+  predicted_dispute_type: disputeTypeEnum.nullable(),
+  risk_level: riskLevelEnum,
+  preventive_actions: z.array(z.string()),
+  model_version: z.string(),
+  normalized_amount: normalizedAmountSchema,
+  likely_reason_codes: z.array(likelyReasonCodeSchema),
+  provenance: provenanceSchema,
+});
+
+export const disputeClassificationSchema = z.object({
+  reason_code: z.string(),
+  card_network: cardNetworkEnum,
+  reason_title: z.string(),
+  dispute_type: disputeTypeEnum,
+  counts_toward_vamp: z.boolean(),
+  counts_toward_ecm: z.boolean(),
+  network_response_days: z.number(),
+  response_deadline: z.string().nullable(),
+  recommended_respond_by: z.string().nullable(),
+  compelling_evidence: z.object({
+    eligible: z.boolean(),
+    program: z.string().nullable(),
+    criteria: z.string().nullable(),
+  }),
+  next_steps: z.array(z.string()),
+  classified_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+export const disputeEvidencePackSchema = z.object({
+  dispute_id: z.string().nullable(),
+  reason_code: z.string(),
+  card_network: cardNetworkEnum.nullable(),
+  reason_title: z.string().nullable(),
+  dispute_type: disputeTypeEnum,
+  checklist: z.array(z.object({
+    id: z.string(),
+    description: z.string(),
+    required: z.boolean(),
+    status: z.enum(["provided", "missing"]),
+    detail: z.string().nullable(),
+  })),
+  missing_evidence: z.array(z.string()),
+  rebuttal_narrative: z.string(),
+  win_likelihood: z.number().describe("Estimated probability (0-1) that representment succeeds"),
+  win_likelihood_factors: z.array(z.string()),
+  recommendation: z.enum(["represent", "gather_evidence", "accept"]),
+  generated_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+export const velocityResultSchema = z.object({
+  entity_id: z.string(),
+  velocity_score: z.number(),
+  anomaly_detected: z.boolean(),
+  transactions_in_window: z.number(),
+  amount_in_window: z.number(),
+  baseline_average: z.number(),
+  baseline_amount_average: z.number(),
+  baseline_windows: z.number(),
+  pattern_analysis: z.string(),
+  time_window: z.string(),
+  provenance: provenanceSchema,
+});
+
+export const ingestResultSchema = z.object({
+  received: z.number(),
+  recorded: z.number(),
+  duplicates: z.number(),
+  provenance: provenanceSchema,
+});
+
+export const crossRailResultSchema = z.object({
+  entity_id: z.string(),
+  cross_rail_risk_score: z.number(),
+  risk_level: riskLevelEnum,
+  rails_analyzed: z.array(paymentRailEnum),
+  suspicious_patterns: z.array(z.string()),
+  rail_scores: z.record(z.number()),
+  provenance: provenanceSchema,
+});
+
+export const vampSnapshotSchema = z.object({
+  merchant_id: z.string(),
+  visa_merchant_id: z.string().nullable(),
+  month: z.string(),
+  vamp_ratio_pct: z.number(),
+  tier: vampTierEnum,
+  fraud_rate: z.number().nullable(),
+  dispute_rate: z.number().nullable(),
+  monthly_transactions: z.number().nullable(),
+  tc40_fraud_count: z.number().nullable(),
+  tc15_dispute_count: z.number().nullable(),
+  source: z.enum(["simulation", "import"]),
+  recorded_at: z.string(),
+});
+
+export const vampHistorySummarySchema = z.object({
+  months: z.number(),
+  first_month: z.string(),
+  last_month: z.string(),
+  latest_ratio_pct: z.number(),
+  slope_pct_per_month: z.number(),
+  monthly_trend: vampTrendEnum,
+  months_in_tier: z.object({ standard: z.number(), monitored: z.number(), excessive: z.number() }),
+  current_tier: vampTierEnum,
+  current_tier_months: z.number(),
+  threshold_pct: z.number(),
+  projected_threshold_month: z.string().nullable(),
+});
+
+export const vampAnalysisResultSchema = z.object({
+  merchant_id: z.string(),
+  vamp_score: z.number(),
+  vamp_status: vampStatusEnum,
+  fraud_rate: z.number(),
+  dispute_rate: z.number(),
+  monthly_trend: vampTrendEnum,
+  trend_source: z.enum(["history", "snapshot"]),
+  history: vampHistorySummarySchema.nullable(),
+  recommended_actions: z.array(z.string()),
+  visa_threshold_distance: z.number(),
+  provenance: provenanceSchema,
+});
+
+export const vampHistoryResultSchema = z.object({
+  merchant_id: z.string().nullable(),
+  visa_merchant_id: z.string().nullable(),
+  snapshots: z.array(vampSnapshotSchema),
+  summary: vampHistorySummarySchema.nullable(),
+  provenance: provenanceSchema,
+});
+
+export const vampImportResultSchema = z.object({
+  received: z.number(),
+  imported: z.number(),
+  rejected: z.array(z.object({ row: z.number(), error: z.string() })),
+  merchants: z.array(z.string()),
+  provenance: provenanceSchema,
+});
+
+export const vampSimulationSchema = z.object({
+  merchant_id: z.string(),
+  vamp_ratio_pct: z.number(),
+  vamp_status: vampStatusEnum,
+  counted_fraud: z.number(),
+  counted_disputes: z.number(),
+  excluded_disputes: z.number(),
+  threshold_pct: z.number(),
+  threshold_effective_from: z.string(),
+  minimum_count: z.number(),
+  threshold_distance_pct: z.number(),
+  clean_transactions_to_threshold: z.number(),
+  levers: z.array(z.object({
+    lever: z.string(),
+    description: z.string(),
+    projected_ratio_pct: z.number(),
+    ratio_reduction_pct: z.number(),
+    projected_status: vampStatusEnum,
+  })),
+  upstream: z.object({
+    current_vamp_pct: z.number(),
+    projected_vamp_pct: z.number(),
+    ranked_actions: z.array(z.string()),
+  }).nullable(),
+  simulated_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+export const decisionHistoryResultSchema = z.object({
+  returned: z.number(),
+  entries: z.array(z.object({
+    seq: z.number(),
+    timestamp: z.string(),
+    tenant: z.string().nullable(),
+    client: z.string(),
+    tool: z.string(),
+    entities: z.record(z.string()),
+    outcome: z.string(),
+    risk_level: z.string().nullable(),
+    input: z.unknown(),
+    output: z.unknown(),
+    is_error: z.boolean(),
+    provenance: provenanceSchema.nullable(),
+    policy_version: z.string(),
+    thresholds: riskThresholdsSchema,
+    prev_hash: z.string(),
+    hash: z.string(),
+  })),
+  chain: z.object({
+    valid: z.boolean(),
+    entries: z.number(),
+    broken_at_seq: z.number().nullable(),
+    error: z.string().nullable(),
+    head_hash: z.string(),
+  }).nullable(),
+});
+
+const prepaymentCheckEnum = z.enum(["agent", "merchant", "transaction", "dispute"]);
+
+export const prepaymentDecisionResultSchema = z.object({
+  recommended_action: actionEnum,
+  rationale: z.string(),
+  reasons: z.array(z.object({ check: prepaymentCheckEnum, action: actionEnum, reason: z.string() })),
+  checks: z.array(z.object({
+    check: prepaymentCheckEnum,
+    status: z.enum(["completed", "failed", "skipped"]),
+    source: dataSourceEnum.nullable(),
+    fallback_reason: z.string().nullable(),
+    error: z.string().nullable(),
+  })),
+  live_checks: z.array(prepaymentCheckEnum),
+  mock_checks: z.array(prepaymentCheckEnum),
+  agent: agentVerificationSchema.nullable(),
+  merchant: merchantProfileSchema.nullable(),
+  transaction: transactionRiskResultSchema.nullable(),
+  dispute: disputePredictionSchema.nullable(),
+  decided_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+const programCriterionSchema = z.object({
+  criterion: z.string(),
+  value: z.number(),
+  threshold: z.number(),
+  met: z.boolean(),
+});
+
+const mastercardChargebackTierEnum = z.enum(["standard", "cmm", "ecm", "hecm"]);
+
+export const mastercardProgramResultSchema = z.object({
+  merchant_id: z.string(),
+  month: z.string(),
+  chargeback_program: z.object({
+    ratio_pct: z.number(),
+    chargeback_count: z.number(),
+    previous_month_transactions: z.number(),
+    tier: mastercardChargebackTierEnum,
+    next_tier: mastercardChargebackTierEnum.nullable(),
+    next_tier_ratio_pct: z.number().nullable(),
+    criteria: z.array(programCriterionSchema),
+  }),
+  fraud_program: z.object({
+    fraud_to_sales_pct: z.number(),
+    fraud_amount_usd: z.number(),
+    sales_amount_usd: z.number(),
+    ecommerce_transactions: z.number(),
+    three_ds_coverage_pct: z.number(),
+    tier: z.enum(["standard", "efm"]),
+    criteria: z.array(programCriterionSchema),
+  }),
+  recommended_actions: z.array(z.string()),
+  analyzed_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+const complianceStandingEnum = z.enum(["compliant", "warning", "in_program", "not_assessed"]);
+
+export const networkComplianceResultSchema = z.object({
+  merchant_id: z.string(),
+  programs: z.array(z.object({
+    network: cardNetworkEnum,
+    program: z.enum(["VAMP", "ECM", "EFM"]),
+    status: z.string().nullable(),
+    standing: complianceStandingEnum,
+    ratio_pct: z.number().nullable(),
+    threshold_pct: z.number().nullable(),
+    detail: z.string(),
+    source: dataSourceEnum.nullable(),
+  })),
+  overall_standing: complianceStandingEnum,
+  recommended_actions: z.array(z.string()),
+  assessed_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+const walletListCategoryEnum = z.enum(["sanctions", "denylist"]);
+
+export const walletScreenResultSchema = z.object({
+  address: z.string(),
+  chain: z.enum(["evm", "bitcoin", "solana", "tron"]).nullable(),
+  address_type: z.string().nullable(),
+  network: z.enum(["mainnet", "testnet"]).nullable(),
+  valid: z.boolean(),
+  checksum: z.enum(["valid", "invalid", "absent", "none"]),
+  normalized_address: z.string().nullable(),
+  issues: z.array(z.string()),
+  sanctioned: z.boolean(),
+  denylisted: z.boolean(),
+  matches: z.array(z.object({
+    list_id: z.string(),
+    list_name: z.string(),
+    category: walletListCategoryEnum,
+    address: z.string(),
+    asset: z.string().nullable(),
+    label: z.string().nullable(),
+    programs: z.array(z.string()),
+    reference: z.string().nullable(),
+  })),
+  risk_level: riskLevelEnum,
+  recommended_action: actionEnum,
+  lists: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    category: walletListCategoryEnum,
+    entries: z.number(),
+    file_updated_at: z.string().nullable(),
+    publish_date: z.string().nullable(),
+    error: z.string().nullable(),
+  })),
+  screened_at: z.string(),
+  provenance: provenanceSchema,
+});
+
+export const watchlistScreenResultSchema = z.object({
+  name: z.string(),
+  normalized_name: z.string(),
+  status: z.enum(["match", "possible", "clear"]),
+  hits: z.array(watchlistHitSchema),
+  risk_level: riskLevelEnum,
+  recommended_action: actionEnum,
+  thresholds: z.object({
+    match: z.number(),
+    possible: z.number(),
+    phonetic: z.number(),
+  }),
+  lists: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    entries: z.number(),
+    names: z.number(),
+    file_updated_at: z.string().nullable(),
+    publish_date: z.string().nullable(),
+    error: z.string().nullable(),
+  })),
+  screened_at: z.string(),
+  provenance: provenanceSchema,
+});
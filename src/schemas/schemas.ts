@@ -1,20 +1,49 @@
 import { z } from "zod";
 
 const paymentRailEnum = z.enum(["card", "stablecoin", "crypto", "ach", "wire", "unknown"]).describe("Payment rail used for this transaction");
+const entityTypeEnum = z.enum(["merchant", "agent", "card", "wallet"]);
+const cardNetworkEnum = z.enum(["visa", "mastercard", "amex", "discover"]);
+const disputeTypeEnum = z.enum(["fraud", "product_not_received", "product_not_as_described", "duplicate", "subscription_canceled", "authorization_issue"]);
+const isoTimestamp = z.string().datetime({ offset: true }).or(z.string().date());
+// ISO 4217 membership (and custom stablecoin codes) is checked against the FX rate table when scoring
+const currencyCode = z.string().trim().regex(/^[A-Za-z0-9]{3,5}$/, "Use an ISO 4217 currency code such as USD, EUR or JPY").transform(c => c.toUpperCase());
 
 export const transactionRiskSchema = z.object({
-  amount: z.number().positive().describe("Transaction amount in the specified currency"),
-  currency: z.string().default("USD").describe("ISO 4217 currency code"),
+  amount: z.number().positive().describe("Transaction amount in major units of the currency (e.g. 19.99 USD, 10000 JPY)"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency code; amounts are converted to the base currency before scoring"),
   merchant_category: z.string().describe("Merchant category (e.g., e-commerce, gambling, travel, subscription, digital_goods, pharmaceuticals)"),
   payment_rail: paymentRailEnum,
   merchant_id: z.string().optional().describe("MerchantGuard merchant ID for history lookup"),
   agent_id: z.string().optional().describe("AI agent identifier if transaction is agent-initiated"),
+  card_fingerprint: z.string().optional().describe("Card fingerprint or token (never a raw PAN) for card velocity tracking"),
+  wallet_address: z.string().optional().describe("Wallet address for crypto/stablecoin transactions"),
   description: z.string().optional().describe("Transaction description for context"),
 });
 
+export const batchTransactionSchema = transactionRiskSchema.extend({
+  reference: z.string().optional().describe("Caller's own ID for this row (order ID, payment ID), echoed in the results"),
+});
+
+export const batchTransactionRiskSchema = z.object({
+  transactions: z.array(batchTransactionSchema).min(1).max(1000).optional().describe("Transactions to score (max 1000). Provide this or payload."),
+  payload: z.string().max(2_000_000).optional().describe("Inline CSV (header row required, columns named like the transaction fields) or NDJSON (one transaction object per line)"),
+  format: z.enum(["csv", "ndjson"]).optional().describe("Payload format — auto-detected when omitted"),
+  concurrency: z.number().int().min(1).max(16).optional().describe("Maximum parallel scoring calls (default 4)"),
+});
+
+export const prepaymentDecisionSchema = transactionRiskSchema.extend({
+  agent_id: z.string().describe("AI agent initiating the payment"),
+  agent_name: z.string().optional().describe("Human-readable agent name"),
+  requesting_action: z.string().default("purchase").describe("Action the agent is attempting (e.g., purchase, subscription, transfer_funds)"),
+  merchant_name: z.string().max(300).optional().describe("Business name, used for the merchant check when merchant_id is not known"),
+  website: z.string().optional().describe("Merchant website URL, used for the merchant check when merchant_id is not known"),
+  card_type: z.string().optional().describe("Card network (visa, mastercard, amex, discover)"),
+  is_recurring: z.boolean().optional().describe("Whether this is a recurring/subscription charge"),
+});
+
 export const merchantLookupSchema = z.object({
   merchant_id: z.string().optional().describe("MerchantGuard merchant ID"),
-  merchant_name: z.string().optional().describe("Business name to search"),
+  merchant_name: z.string().max(300).optional().describe("Business name to search"),
   website: z.string().optional().describe("Merchant website URL"),
 });
 
@@ -23,10 +52,48 @@ export const agentVerifySchema = z.object({
   agent_name: z.string().optional().describe("Human-readable agent name"),
   requesting_action: z.string().describe("Action the agent is attempting (e.g., purchase, refund, transfer_funds, modify_pricing)"),
   transaction_amount: z.number().optional().describe("Amount the agent wants to transact"),
+  transaction_currency: currencyCode.default("USD").describe("ISO 4217 currency of transaction_amount"),
+  merchant_category: z.string().optional().describe("Merchant category of the purchase; applies the agent's per-category budget caps"),
+  merchant_id: z.string().optional().describe("MerchantGuard merchant ID the payment goes to; a verified agent gets a signed authorization token bound to it"),
+});
+
+export const agentBudgetSchema = z.object({
+  agent_id: z.string().describe("Unique identifier of the AI agent"),
+  merchant_category: z.string().optional().describe("Also report the caps for this merchant category"),
+});
+
+export const agentBudgetReserveSchema = z.object({
+  agent_id: z.string().describe("Unique identifier of the AI agent"),
+  amount: z.number().positive().describe("Amount to hold against the agent's budget"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency of amount"),
+  merchant_category: z.string().optional().describe("Merchant category of the purchase; its caps apply too"),
+  merchant_id: z.string().optional().describe("MerchantGuard merchant ID the payment goes to"),
+  reference: z.string().max(200).optional().describe("Order or payment ID; reserving again with the same reference returns the existing reservation"),
+  ttl_seconds: z.number().int().min(1).max(7 * 86_400).optional().describe("How long the hold lasts before lapsing uncommitted (default from the budget policy, 900s built in)"),
+});
+
+export const agentBudgetCommitSchema = z.object({
+  reservation_id: z.string().describe("reservation_id returned by guardscore_agent_budget_reserve"),
+  amount: z.number().positive().optional().describe("Final amount in the reservation's currency, if lower than reserved (default: the reserved amount)"),
+});
+
+export const agentBudgetReleaseSchema = z.object({
+  reservation_id: z.string().describe("reservation_id returned by guardscore_agent_budget_reserve"),
+});
+
+export const verifyAuthorizationTokenSchema = z.object({
+  token: z.string().min(1).describe("authorization_token.token returned by guardscore_agent_verify"),
+  agent_id: z.string().optional().describe("Agent presenting the token; must match the token's agent"),
+  action: z.string().optional().describe("Action being performed; must match the authorized action"),
+  merchant_id: z.string().optional().describe("Merchant being paid; must match the token's merchant"),
+  amount: z.number().positive().optional().describe("Payment amount; must not exceed the token's max_amount"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency of amount; must be the token's currency"),
+  consume: z.boolean().default(true).describe("Spend the token so it cannot be presented again (set false to only inspect it)"),
 });
 
 export const disputePredictSchema = z.object({
   transaction_amount: z.number().positive().describe("Transaction amount"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency of transaction_amount"),
   merchant_category: z.string().describe("Merchant category code or name"),
   payment_rail: paymentRailEnum,
   card_type: z.string().optional().describe("Card network (visa, mastercard, amex, discover)"),
@@ -34,13 +101,95 @@ export const disputePredictSchema = z.object({
   merchant_id: z.string().optional().describe("MerchantGuard merchant ID"),
 });
 
+export const disputeClassifySchema = z.object({
+  reason_code: z.string().min(1).describe("Reason code as sent by the acquirer (e.g. 10.4, 13.1, 4837, C08, UA02)"),
+  card_network: cardNetworkEnum.optional().describe("Card network — inferred from the reason code when omitted"),
+  dispute_date: z.string().date().optional().describe("Date the chargeback was received (YYYY-MM-DD), for the response deadline"),
+});
+
+export const disputeEvidenceSchema = z.object({
+  dispute_id: z.string().optional().describe("Acquirer's case or dispute ID"),
+  reason_code: z.string().min(1).describe("Reason code as sent by the acquirer (e.g. 10.4, 13.1, 4853, C08, UA02)"),
+  card_network: cardNetworkEnum.optional().describe("Card network — inferred from the reason code when omitted"),
+  dispute_type: disputeTypeEnum.optional().describe("Override the dispute type; required when the reason code is not in the catalog"),
+  transaction: z.object({
+    transaction_id: z.string().describe("Transaction or order ID"),
+    amount: z.number().positive().describe("Transaction amount"),
+    currency: currencyCode.default("USD").describe("ISO 4217 currency code"),
+    transaction_date: isoTimestamp.describe("ISO 8601 date or time of the transaction"),
+    product_description: z.string().optional().describe("What was sold, as presented to the customer at checkout"),
+    customer_name: z.string().optional(),
+    customer_email: z.string().optional(),
+    billing_address: z.string().optional(),
+    avs_result: z.enum(["match", "partial", "no_match", "unavailable"]).optional().describe("Address verification result"),
+    cvv_result: z.enum(["match", "no_match", "unavailable"]).optional().describe("Card security code result"),
+    three_ds_authenticated: z.boolean().optional().describe("Whether the payment was authenticated with 3-D Secure"),
+    authorization_code: z.string().optional().describe("Issuer approval code"),
+    ip_address: z.string().optional(),
+    device_id: z.string().optional().describe("Device fingerprint"),
+  }),
+  fulfillment: z.object({
+    method: z.enum(["shipped", "digital", "service", "in_person"]),
+    fulfilled_at: isoTimestamp.optional().describe("When the goods shipped or the service was provided"),
+    description: z.string().optional().describe("What was delivered"),
+    access_log: z.array(z.string()).max(200).optional().describe("Logins, downloads or usage after purchase, one entry per event (e.g. '2026-10-02T10:00:00Z login from 203.0.113.7')"),
+  }).optional(),
+  delivery: z.object({
+    carrier: z.string().optional(),
+    tracking_number: z.string().optional(),
+    shipped_at: isoTimestamp.optional(),
+    delivered_at: isoTimestamp.optional(),
+    delivery_address: z.string().optional(),
+    signature_obtained: z.boolean().optional(),
+  }).optional(),
+  communications: z.array(z.object({
+    at: isoTimestamp,
+    channel: z.enum(["email", "chat", "phone", "sms", "other"]),
+    direction: z.enum(["inbound", "outbound"]).describe("inbound = from the customer"),
+    summary: z.string(),
+  })).max(100).optional().describe("Contact with the customer about this order"),
+  policies: z.object({
+    terms_accepted_at: isoTimestamp.optional().describe("When the customer accepted the terms of sale"),
+    refund_policy_disclosed: z.boolean().optional(),
+    cancellation_policy_disclosed: z.boolean().optional(),
+  }).optional(),
+  refund_issued: z.boolean().optional().describe("Whether a refund or credit has already been issued for this transaction"),
+  cancellation_requested_at: isoTimestamp.optional().describe("When the customer asked to cancel, if they did"),
+  prior_undisputed_transactions: z.array(z.object({
+    transaction_id: z.string(),
+    transaction_date: isoTimestamp,
+    ip_address: z.string().optional(),
+    device_id: z.string().optional(),
+  })).max(20).optional().describe("Earlier undisputed purchases by the same card, for Visa Compelling Evidence 3.0"),
+});
+
 export const velocityCheckSchema = z.object({
   entity_id: z.string().describe("ID of the entity to check (merchant, agent, card, or wallet address)"),
-  entity_type: z.enum(["merchant", "agent", "card", "wallet"]).describe("Type of entity"),
-  time_window: z.string().describe("Time window for velocity check (e.g., '1h', '24h', '7d', '30d')"),
+  entity_type: entityTypeEnum.describe("Type of entity"),
+  time_window: z.string().regex(/^\d+[mhdw]$/, "Use a number followed by m, h, d or w").describe("Time window for velocity check (e.g., '1h', '24h', '7d', '30d')"),
   transaction_count: z.number().optional().describe("Known transaction count in window (if available)"),
 });
 
+export const ledgerEventSchema = z.object({
+  event_id: z.string().optional().describe("Idempotency key — events with an ID already in the ledger are skipped"),
+  timestamp: z.string().datetime({ offset: true }).optional().describe("ISO 8601 time of the transaction (defaults to now)"),
+  amount: z.number().nonnegative().describe("Transaction amount"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency code"),
+  payment_rail: paymentRailEnum.optional(),
+  merchant_category: z.string().optional().describe("Merchant category"),
+  merchant_id: z.string().optional().describe("Merchant ID"),
+  agent_id: z.string().optional().describe("AI agent identifier"),
+  card_fingerprint: z.string().optional().describe("Card fingerprint or token"),
+  wallet_address: z.string().optional().describe("Wallet address"),
+}).refine(
+  e => Boolean(e.merchant_id || e.agent_id || e.card_fingerprint || e.wallet_address),
+  { message: "Each event needs at least one of merchant_id, agent_id, card_fingerprint or wallet_address" },
+);
+
+export const ingestTransactionsSchema = z.object({
+  transactions: z.array(ledgerEventSchema).min(1).max(1000).describe("Transactions observed outside this server (max 1000 per call)"),
+});
+
 export const crossRailCheckSchema = z.object({
   entity_id: z.string().describe("ID of the entity to analyze across rails"),
   payment_rails: z.array(paymentRailEnum).min(2).describe("Payment rails to analyze (minimum 2 for cross-rail detection)"),
@@ -50,3 +199,93 @@ export const vampAnalysisSchema = z.object({
   merchant_id: z.string().describe("MerchantGuard merchant ID"),
   visa_merchant_id: z.string().optional().describe("Visa-assigned merchant ID (VMID) for direct VAMP data"),
 });
+
+export const vampSimulateSchema = z.object({
+  merchant_id: z.string().describe("MerchantGuard merchant ID"),
+  monthly_transactions: z.number().int().positive().describe("Settled card-not-present Visa transactions in the month (TC05)"),
+  tc40_fraud_count: z.number().int().nonnegative().describe("Fraud reports (TC40) in the month"),
+  tc15_dispute_count: z.number().int().nonnegative().describe("Disputes (TC15) in the month, including those later resolved through RDR or CDRN"),
+  three_ds_coverage_pct: z.number().min(0).max(100).default(0).describe("Share of card-not-present volume authenticated with 3-D Secure"),
+  rdr_enrolled: z.boolean().default(false).describe("Enrolled in Visa Rapid Dispute Resolution"),
+  rdr_resolution_rate_pct: z.number().min(0).max(100).default(0).describe("Share of disputes RDR resolves before they count"),
+  cdrn_enrolled: z.boolean().default(false).describe("Enrolled in Verifi CDRN alerts"),
+  cdrn_resolution_rate_pct: z.number().min(0).max(100).default(0).describe("Share of remaining disputes refunded through CDRN alerts"),
+  visa_merchant_id: z.string().optional().describe("Visa-assigned merchant ID (VMID), stored with the month's snapshot"),
+  as_of: z.string().date().optional().describe("Date whose Visa thresholds apply (YYYY-MM-DD, default today)"),
+  record_history: z.boolean().default(true).describe("Store the ratio as the merchant's VAMP history snapshot for the as_of month; turn off for what-if runs"),
+});
+
+const monthKey = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected a month as YYYY-MM");
+
+/** One CSV row of historical VAMP figures: a ratio, the monthly counts it comes from, or both */
+export const vampHistoryRowSchema = z.object({
+  month: monthKey,
+  merchant_id: z.string().min(1),
+  visa_merchant_id: z.string().optional(),
+  vamp_ratio_pct: z.number().min(0).max(100).optional(),
+  fraud_rate: z.number().min(0).max(100).optional(),
+  dispute_rate: z.number().min(0).max(100).optional(),
+  monthly_transactions: z.number().int().positive().optional(),
+  tc40_fraud_count: z.number().int().nonnegative().optional(),
+  tc15_dispute_count: z.number().int().nonnegative().optional(),
+}).refine(
+  r => r.vamp_ratio_pct !== undefined
+    || (r.monthly_transactions !== undefined && r.tc40_fraud_count !== undefined && r.tc15_dispute_count !== undefined),
+  { message: "Provide vamp_ratio_pct, or monthly_transactions with tc40_fraud_count and tc15_dispute_count" },
+);
+
+export const vampHistorySchema = z.object({
+  merchant_id: z.string().optional().describe("MerchantGuard merchant ID"),
+  visa_merchant_id: z.string().optional().describe("Visa-assigned merchant ID (VMID); used when merchant_id is omitted"),
+  months: z.number().int().min(1).max(120).default(24).describe("Most recent months to return"),
+  threshold_pct: z.number().positive().max(100).default(0.9).describe("VAMP ratio, in percent, whose crossing is projected"),
+});
+
+export const vampHistoryImportSchema = z.object({
+  payload: z.string().max(2_000_000).describe("CSV with a header row: month (YYYY-MM), merchant_id, optional visa_merchant_id, and vamp_ratio_pct or monthly_transactions, tc40_fraud_count and tc15_dispute_count; fraud_rate and dispute_rate are optional"),
+});
+
+/** A merchant's Mastercard figures for one month */
+const mastercardCounts = z.object({
+  month: monthKey.optional().describe("Month the counts are for (YYYY-MM, default this month)"),
+  chargeback_count: z.number().int().nonnegative().describe("Mastercard chargebacks received in the month"),
+  previous_month_transactions: z.number().int().positive().describe("Mastercard transactions in the previous month — the ECM ratio's denominator"),
+  ecommerce_transactions: z.number().int().nonnegative().describe("Cleared card-not-present Mastercard transactions in the month"),
+  fraud_amount: z.number().nonnegative().describe("Card-not-present fraud (SAFE reports) in the month"),
+  sales_amount: z.number().nonnegative().describe("Card-not-present sales in the month"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency of fraud_amount and sales_amount; converted to USD for the EFM thresholds"),
+  three_ds_coverage_pct: z.number().min(0).max(100).default(0).describe("Share of card-not-present volume authenticated with EMV 3-D Secure"),
+});
+
+export const mastercardProgramSchema = mastercardCounts.extend({
+  merchant_id: z.string().describe("MerchantGuard merchant ID"),
+});
+
+export const networkComplianceSchema = z.object({
+  merchant_id: z.string().describe("MerchantGuard merchant ID"),
+  visa_merchant_id: z.string().optional().describe("Visa-assigned merchant ID (VMID) for the VAMP analysis"),
+  mastercard: mastercardCounts.optional().describe("This month's Mastercard figures; ECM and EFM are reported as not assessed without them"),
+});
+
+export const walletScreenSchema = z.object({
+  address: z.string().min(1).max(200).describe("Wallet address to screen"),
+  chain: z.enum(["evm", "bitcoin", "solana", "tron"]).optional().describe("Chain the payment is on (evm covers Ethereum and compatible chains); an address from another chain is reported invalid"),
+});
+
+export const watchlistScreenSchema = z.object({
+  name: z.string().min(1).max(300).describe("Merchant, business or person name to screen; any script, Cyrillic and Greek are transliterated"),
+  entry_type: z.enum(["individual", "entity", "vessel", "aircraft"]).optional().describe("Only compare against listings of this type (default: all)"),
+  min_score: z.number().min(0).max(1).optional().describe("Report hits from this similarity score (0-1) instead of the configured possible-match threshold"),
+  max_hits: z.number().int().min(1).max(50).default(10).describe("Maximum hits to return, best first"),
+});
+
+export const decisionHistorySchema = z.object({
+  entity_id: z.string().optional().describe("Merchant, agent, card fingerprint or wallet the decisions were about"),
+  entity_type: entityTypeEnum.optional().describe("Restrict entity_id to this type"),
+  tool: z.string().optional().describe("Only calls to this tool (e.g. guardscore_transaction_risk)"),
+  outcome: z.string().optional().describe("approve, review, decline, a verification status, a risk level, ok or error"),
+  from: z.string().datetime({ offset: true }).optional().describe("ISO 8601 start of the time range"),
+  to: z.string().datetime({ offset: true }).optional().describe("ISO 8601 end of the time range"),
+  limit: z.number().int().min(1).max(500).default(50).describe("Maximum entries to return, newest first"),
+  verify_chain: z.boolean().default(false).describe("Also verify the whole audit log hash chain"),
+});
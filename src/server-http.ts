@@ -1,46 +1,160 @@
-import { MerchantGuardMCPServer } from "./merchantguard-mcp-server.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import express from "express";
-import { logger } from "./utils/logger.js";
-import { randomUUID } from "node:crypto";
+import { MerchantGuardMCPServer, createGuardScoreAPI, createTools, openAlerts, openLedger, openServerServices, openTokenIssuer } from "./merchantguard-mcp-server.js";
+import express, { Request, Response } from "express";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { logger, withLogContext } from "./utils/logger.js";
+import { configFromEnv } from "./config.js";
+import { SessionManager } from "./http/session-manager.js";
+import { httpRateLimit } from "./http/rate-limit.js";
+import { TenantRegistry } from "./tenants/tenant-registry.js";
+import { GuardScoreAPI } from "./api/guardscore.js";
+import type { LimitSettings } from "./limits/usage-limits.js";
+import { metrics } from "./metrics/metrics.js";
 
 const PORT = parseInt(process.env.PORT || "3002", 10);
 
 const app = express();
 app.use(express.json());
 
-const server = new MerchantGuardMCPServer({
-  name: "merchantguard-mcp",
-  version: "1.0.0",
-  apiUrl: process.env.MERCHANTGUARD_API_URL || "https://api.merchantguard.ai/v1",
-  apiKey: process.env.MERCHANTGUARD_API_KEY || "demo",
-  highRiskThreshold: parseInt(process.env.GUARDSCORE_HIGH_RISK_THRESHOLD || "30", 10),
-  mediumRiskThreshold: parseInt(process.env.GUARDSCORE_MEDIUM_RISK_THRESHOLD || "60", 10),
-  autoDeclineThreshold: parseInt(process.env.GUARDSCORE_AUTO_DECLINE_THRESHOLD || "15", 10),
+const config = configFromEnv();
+const ledger = openLedger(config);
+const services = openServerServices(config);
+const alerts = openAlerts(config);
+const tokens = openTokenIssuer(config);
+const tenants = process.env.MERCHANTGUARD_TENANTS_FILE
+  ? TenantRegistry.load(process.env.MERCHANTGUARD_TENANTS_FILE)
+  : null;
+
+/** Drop unset fields so tenant overrides don't blank out server-wide settings */
+const defined = <T extends object>(obj: T): Partial<T> =>
+  Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+
+// One GuardScore client per tenant (or one for the process without a registry), sharing the
+// ledger; each MCP session gets its own server on top of its tenant's client
+const apis = new Map<string | undefined, GuardScoreAPI>();
+if (tenants) {
+  for (const tenant of tenants.list()) {
+    try {
+      apis.set(tenant.id, createGuardScoreAPI({
+        ...config,
+        tenantId: tenant.id,
+        apiKey: tenant.apiKey,
+        ...defined(tenant.thresholds),
+        policyFile: tenant.policyFile ?? config.policyFile,
+      }, ledger, alerts, tokens));
+    } catch (err) {
+      throw new Error(`Tenant "${tenant.id}": ${(err as Error).message}`);
+    }
+  }
+} else {
+  logger.warn("MERCHANTGUARD_TENANTS_FILE is not set — /mcp accepts unauthenticated requests");
+  apis.set(undefined, createGuardScoreAPI(config, ledger, alerts, tokens));
+}
+
+const tenantOf = (req: Request): string | undefined => req.auth?.clientId;
+/** Whose limits and quotas a request uses: its tenant, else its address, so anonymous clients don't share one budget */
+const clientOf = (req: Request): string => tenantOf(req) ?? `ip:${req.ip ?? "unknown"}`;
+
+const limitsFor = (req: Request): LimitSettings => {
+  const tenant = tenants?.get(tenantOf(req) ?? "");
+  return { ...config.limits, ...(tenant ? defined(tenant.limits) : {}) };
+};
+
+const sessions = new SessionManager({
+  createServer: (req) => {
+    const tenant = tenants?.get(tenantOf(req) ?? "");
+    return new MerchantGuardMCPServer(
+      { ...config, tenantId: tenant?.id, clientId: clientOf(req), allowedTools: tenant?.allowedTools, limits: limitsFor(req) },
+      apis.get(tenant?.id)!,
+      services,
+    );
+  },
+  owner: tenantOf,
+  stateless: ["1", "true", "yes"].includes((process.env.MCP_STATELESS || "").toLowerCase()),
+  idleTimeoutMs: parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_MS || "1800000", 10),
+  maxSessions: parseInt(process.env.MCP_MAX_SESSIONS || "1000", 10),
 });
 
-// Streamable HTTP transport (MCP 2025 standard)
-app.post("/mcp", async (req, res) => {
-  const transport = new StreamableHTTPServerTransport({
-    sessionIdGenerator: () => randomUUID(),
+const toolCount = createTools([...apis.values()][0], services).length;
+metrics.gauge("merchantguard_http_sessions_active", "Open Streamable HTTP sessions", () => sessions.size);
+
+// Bearer auth: unknown or missing tokens get 401 with a WWW-Authenticate challenge
+if (tenants) {
+  app.use("/mcp", requireBearerAuth({ verifier: tenants }));
+}
+app.use("/mcp", httpRateLimit({
+  limits: services.limits,
+  perMinute: parseInt(process.env.MCP_RATE_LIMIT_PER_MINUTE || "600", 10),
+  caller: (req) => tenantOf(req) ?? req.ip ?? "unknown",
+  client: clientOf,
+  settings: limitsFor,
+}));
+const withTenant = (req: Request, fn: () => Promise<void>) => {
+  const tenant = tenantOf(req);
+  return tenant ? withLogContext({ tenant }, fn) : fn();
+};
+
+/** Express 4 ignores a handler's promise, so a rejection would otherwise leave the request hanging */
+const mcpHandler = (handle: (req: Request, res: Response) => Promise<void>) => (req: Request, res: Response) => {
+  withTenant(req, () => handle(req, res)).catch(err => {
+    logger.error(`MCP ${req.method} request failed: ${(err as Error).message}`);
+    if (!res.headersSent) {
+      res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "Internal server error" }, id: null });
+    }
   });
-  await server.connect(transport);
-  await transport.handleRequest(req, res, req.body);
-});
+};
+
+// Streamable HTTP transport (MCP 2025 standard)
+app.post("/mcp", mcpHandler((req, res) => sessions.handlePost(req, res)));
+app.get("/mcp", mcpHandler((req, res) => sessions.handleSessionRequest(req, res)));
+app.delete("/mcp", mcpHandler((req, res) => sessions.handleSessionRequest(req, res)));
 
 // Health check
 app.get("/health", (_req, res) => {
+  const upstream = [...apis].map(([tenant, api]) => {
+    const status = api.upstreamStatus();
+    const openCircuits = Object.entries(status.circuits)
+      .filter(([, c]) => c.state !== "closed")
+      .map(([name]) => name);
+    return { ...(tenant ? { tenant } : {}), ...status, open_circuits: openCircuits };
+  });
   res.json({
-    status: "ok",
+    status: upstream.some(u => u.open_circuits.length > 0) ? "degraded" : "ok",
     server: "merchantguard-mcp",
     version: "1.0.0",
-    tools: 7,
+    tools: toolCount,
+    auth: tenants ? { mode: "bearer", tenants: tenants.list().length } : { mode: "none" },
+    sessions: { mode: sessions.stateless ? "stateless" : "stateful", active: sessions.size },
+    upstream: tenants ? upstream : upstream[0],
     timestamp: new Date().toISOString(),
   });
 });
 
-app.listen(PORT, () => {
-  logger.info(`MerchantGuard MCP Server running on port ${PORT}`);
+// Prometheus scrape endpoint
+app.get("/metrics", (_req, res) => {
+  res.type("text/plain; version=0.0.4").send(metrics.render());
+});
+
+// Public keys for checking authorization tokens offline (empty with an HMAC secret)
+app.get("/.well-known/jwks.json", (_req, res) => {
+  res.json(tokens.jwks());
+});
+
+const httpServer = app.listen(PORT, () => {
+  logger.info(`MerchantGuard MCP Server running on port ${PORT} (${sessions.stateless ? "stateless" : "stateful"} sessions)`);
   logger.info(`Health check: http://localhost:${PORT}/health`);
+  logger.info(`Metrics: http://localhost:${PORT}/metrics`);
   logger.info(`MCP endpoint: http://localhost:${PORT}/mcp`);
 });
+
+async function shutdown(signal: string) {
+  logger.info(`${signal} received, closing MCP sessions`);
+  await sessions.closeAll();
+  // Give alert webhooks still in flight a few seconds to land; unfinished retries are dropped
+  if (alerts) await Promise.race([alerts.flush(), new Promise(resolve => setTimeout(resolve, 10_000).unref())]);
+  httpServer.close(() => process.exit(0));
+}
+
+// Quota counts are written on a short debounce; keep the last ones however the process ends
+process.on("exit", () => services.limits.flush());
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
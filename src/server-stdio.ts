@@ -1,17 +1,14 @@
-import { MerchantGuardMCPServer } from "./merchantguard-mcp-server.js";
+import { MerchantGuardMCPServer, createGuardScoreAPI, openServerServices } from "./merchantguard-mcp-server.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { logger } from "./utils/logger.js";
+import { configFromEnv } from "./config.js";
 
 async function main() {
-  const server = new MerchantGuardMCPServer({
-    name: "merchantguard-mcp",
-    version: "1.0.0",
-    apiUrl: process.env.MERCHANTGUARD_API_URL || "https://api.merchantguard.ai/v1",
-    apiKey: process.env.MERCHANTGUARD_API_KEY || "demo",
-    highRiskThreshold: parseInt(process.env.GUARDSCORE_HIGH_RISK_THRESHOLD || "30", 10),
-    mediumRiskThreshold: parseInt(process.env.GUARDSCORE_MEDIUM_RISK_THRESHOLD || "60", 10),
-    autoDeclineThreshold: parseInt(process.env.GUARDSCORE_AUTO_DECLINE_THRESHOLD || "15", 10),
-  });
+  const config = configFromEnv();
+  const services = openServerServices(config);
+  // Quota counts are written on a short debounce; keep the last ones however the process ends
+  process.on("exit", () => services.limits.flush());
+  const server = new MerchantGuardMCPServer(config, createGuardScoreAPI(config), services);
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
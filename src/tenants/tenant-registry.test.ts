@@ -0,0 +1,73 @@
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "@jest/globals";
+import { TenantRegistry, tenantRegistrySchema } from "./tenant-registry.js";
+
+const digest = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const registry = (env: NodeJS.ProcessEnv = {}) => new TenantRegistry(tenantRegistrySchema.parse({
+  tenants: [
+    {
+      id: "acme",
+      token_sha256: [digest("acme-token-1"), digest("acme-token-2").toUpperCase()],
+      api_key_env: "ACME_KEY",
+      thresholds: { auto_decline: 20 },
+      limits: { daily_quota: 100 },
+    },
+    { id: "shopbot", name: "ShopBot", token_sha256: [digest("shopbot-token")], allowed_tools: ["guardscore_transaction_risk"] },
+  ],
+}), env);
+
+describe("TenantRegistry", () => {
+  it("authenticates each token as the tenant that owns it", () => {
+    const tenants = registry();
+    expect(tenants.authenticate("acme-token-1")?.id).toBe("acme");
+    expect(tenants.authenticate("acme-token-2")?.id).toBe("acme");
+    expect(tenants.authenticate("shopbot-token")?.id).toBe("shopbot");
+    expect(tenants.authenticate("acme-token-3")).toBeNull();
+  });
+
+  it("verifies bearer tokens for the SDK middleware", async () => {
+    const auth = await registry().verifyAccessToken("shopbot-token");
+    expect(auth).toMatchObject({ clientId: "shopbot", extra: { tenantId: "shopbot" } });
+    expect(auth.expiresAt).toBeGreaterThan(Date.now() / 1000);
+    await expect(registry().verifyAccessToken("wrong")).rejects.toThrow("Unknown bearer token");
+  });
+
+  it("maps settings and reads the upstream key from the environment", () => {
+    expect(registry({ ACME_KEY: "sk_live_acme" }).get("acme")).toMatchObject({
+      name: "acme",
+      apiKey: "sk_live_acme",
+      thresholds: { autoDeclineThreshold: 20 },
+      limits: { dailyQuota: 100 },
+    });
+    // An unset key variable leaves the tenant in demo mode
+    expect(registry().get("acme")?.apiKey).toBe("demo");
+    expect(registry().get("shopbot")).toMatchObject({ name: "ShopBot", allowedTools: ["guardscore_transaction_risk"] });
+  });
+
+  it("rejects duplicate ids, shared tokens and malformed digests", () => {
+    const token = digest("shared");
+    const result = tenantRegistrySchema.safeParse({
+      tenants: [
+        { id: "a", token_sha256: [token] },
+        { id: "a", token_sha256: [token.toUpperCase()] },
+        { id: "b", token_sha256: ["password"] },
+      ],
+    });
+    expect(result.success).toBe(false);
+    const messages = result.error!.issues.map(i => i.message);
+    expect(messages).toEqual(expect.arrayContaining([
+      'Duplicate tenant id "a"',
+      "Token is assigned to more than one tenant",
+      "Expected a 64-char SHA-256 hex digest",
+    ]));
+  });
+
+  it("loads the example registry", () => {
+    const tenants = TenantRegistry.load(path.join(__dirname, "../../tenants.example.yaml"));
+    expect(tenants.list().map(t => t.id)).toEqual(["acme", "shopbot"]);
+    // Its placeholder digests must not match trivial tokens
+    for (const token of ["", "password", "1", "0"]) expect(tenants.authenticate(token)).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import YAML from "yaml";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { logger } from "../utils/logger.js";
+import type { LimitSettings } from "../limits/usage-limits.js";
+
+const tenantSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, "Use letters, digits, _ and -"),
+  name: z.string().optional(),
+  /** SHA-256 hex digests of the tenant's bearer tokens — the tokens themselves never live in the file */
+  token_sha256: z.array(z.string().regex(/^[0-9a-f]{64}$/i, "Expected a 64-char SHA-256 hex digest")).min(1),
+  /** Upstream MerchantGuard key, inline or read from the named environment variable */
+  api_key: z.string().optional(),
+  api_key_env: z.string().optional(),
+  thresholds: z.object({
+    auto_decline: z.number().min(0).max(100).optional(),
+    high_risk: z.number().min(0).max(100).optional(),
+    medium_risk: z.number().min(0).max(100).optional(),
+  }).strict().optional(),
+  policy_file: z.string().optional(),
+  /** Tool names this tenant may call; omit for all tools */
+  allowed_tools: z.array(z.string()).min(1).optional(),
+  /** Overrides for the server-wide rate limits and quotas */
+  limits: z.object({
+    rate_per_minute: z.number().int().min(0).optional(),
+    burst: z.number().int().min(1).optional(),
+    tool_rate_per_minute: z.record(z.number().int().min(0)).optional(),
+    daily_quota: z.number().int().min(0).optional(),
+    monthly_quota: z.number().int().min(0).optional(),
+  }).strict().optional(),
+}).strict();
+
+export const tenantRegistrySchema = z.object({
+  tenants: z.array(tenantSchema).min(1),
+}).strict().superRefine((registry, ctx) => {
+  const ids = new Set<string>();
+  const tokens = new Set<string>();
+  registry.tenants.forEach((tenant, i) => {
+    if (ids.has(tenant.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tenants", i, "id"], message: `Duplicate tenant id "${tenant.id}"` });
+    }
+    ids.add(tenant.id);
+    for (const digest of tenant.token_sha256) {
+      if (tokens.has(digest.toLowerCase())) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tenants", i, "token_sha256"], message: "Token is assigned to more than one tenant" });
+      }
+      tokens.add(digest.toLowerCase());
+    }
+  });
+});
+
+export interface Tenant {
+  id: string;
+  name: string;
+  apiKey: string;
+  thresholds: {
+    autoDeclineThreshold?: number;
+    highRiskThreshold?: number;
+    mediumRiskThreshold?: number;
+  };
+  policyFile?: string;
+  allowedTools?: string[];
+  limits: LimitSettings;
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Tenants allowed to use the HTTP endpoint.
+ *
+ * Loaded from a JSON or YAML file at startup. Each tenant has its own bearer tokens
+ * (stored as SHA-256 digests), upstream API key, risk thresholds or policy, and
+ * optional tool allowlist. Also acts as the token verifier for the SDK's bearer
+ * auth middleware, so authenticated requests carry the tenant in `authInfo`.
+ */
+export class TenantRegistry implements OAuthTokenVerifier {
+  private readonly tenants: Tenant[];
+  private readonly digests: Array<{ digest: Buffer; tenant: Tenant }> = [];
+
+  constructor(document: z.infer<typeof tenantRegistrySchema>, env: NodeJS.ProcessEnv = process.env) {
+    this.tenants = document.tenants.map(t => {
+      const apiKey = t.api_key ?? (t.api_key_env ? env[t.api_key_env] : undefined);
+      if (t.api_key_env && !apiKey) {
+        logger.warn(`Tenant "${t.id}": ${t.api_key_env} is not set — tenant runs in demo mode`);
+      }
+      const tenant: Tenant = {
+        id: t.id,
+        name: t.name ?? t.id,
+        apiKey: apiKey || "demo",
+        thresholds: {
+          autoDeclineThreshold: t.thresholds?.auto_decline,
+          highRiskThreshold: t.thresholds?.high_risk,
+          mediumRiskThreshold: t.thresholds?.medium_risk,
+        },
+        policyFile: t.policy_file,
+        allowedTools: t.allowed_tools,
+        limits: {
+          ratePerMinute: t.limits?.rate_per_minute,
+          burst: t.limits?.burst,
+          toolRatePerMinute: t.limits?.tool_rate_per_minute,
+          dailyQuota: t.limits?.daily_quota,
+          monthlyQuota: t.limits?.monthly_quota,
+        },
+      };
+      for (const hex of t.token_sha256) {
+        this.digests.push({ digest: Buffer.from(hex, "hex"), tenant });
+      }
+      return tenant;
+    });
+  }
+
+  static load(filePath: string): TenantRegistry {
+    const raw = fs.readFileSync(filePath, "utf8");
+    const ext = path.extname(filePath).toLowerCase();
+    const parsed: unknown = ext === ".yaml" || ext === ".yml" ? YAML.parse(raw) : JSON.parse(raw);
+    const result = tenantRegistrySchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+      throw new Error(`Invalid tenant registry ${filePath} — ${issues}`);
+    }
+
+    const registry = new TenantRegistry(result.data);
+    logger.info(`Tenant registry loaded with ${registry.tenants.length} tenant(s) from ${filePath}`);
+    return registry;
+  }
+
+  list(): Tenant[] {
+    return [...this.tenants];
+  }
+
+  get(id: string): Tenant | undefined {
+    return this.tenants.find(t => t.id === id);
+  }
+
+  authenticate(token: string): Tenant | null {
+    const digest = sha256(token);
+    // Compare against every digest so timing doesn't reveal which entry matched
+    let match: Tenant | null = null;
+    for (const entry of this.digests) {
+      if (timingSafeEqual(entry.digest, digest)) match = entry.tenant;
+    }
+    return match;
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const tenant = this.authenticate(token);
+    if (!tenant) {
+      throw new InvalidTokenError("Unknown bearer token");
+    }
+    return {
+      token,
+      clientId: tenant.id,
+      scopes: [],
+      // Registry tokens don't expire; the SDK middleware requires an expiry, so roll it forward
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+      extra: { tenantId: tenant.id },
+    };
+  }
+}
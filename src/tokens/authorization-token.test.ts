@@ -0,0 +1,123 @@
+import { generateKeyPairSync } from "node:crypto";
+import { describe, expect, it } from "@jest/globals";
+import {
+  AuthorizationTokenClaims,
+  MemoryNonceStore,
+  TokenVerificationKey,
+  decodeAuthorizationToken,
+  signAuthorizationToken,
+  verifyAuthorizationToken,
+} from "./authorization-token.js";
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const IAT = NOW / 1000;
+
+const claims = (overrides: Partial<AuthorizationTokenClaims> = {}): AuthorizationTokenClaims => ({
+  iss: "merchantguard",
+  sub: "agent_1",
+  jti: "tat_1",
+  iat: IAT,
+  exp: IAT + 300,
+  action: "purchase",
+  max_amount: 250,
+  currency: "USD",
+  merchant_id: "m1",
+  tenant_id: null,
+  authorization_level: "standard",
+  data_source: "live",
+  ...overrides,
+});
+
+const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+const ed25519: TokenVerificationKey = { alg: "EdDSA", kid: "k1", publicKey: publicKey.export({ format: "jwk" }) };
+const sign = (overrides: Partial<AuthorizationTokenClaims> = {}) => signAuthorizationToken(claims(overrides), { alg: "EdDSA", kid: "k1", privateKey });
+
+describe("verifyAuthorizationToken", () => {
+  it("accepts an Ed25519 token offline with the public JWK, and an HMAC token with the secret", () => {
+    expect(verifyAuthorizationToken(sign(), { keys: [ed25519], now: NOW })).toEqual({ valid: true, error_code: null, error: null, claims: claims(), key_id: "k1" });
+
+    const hmac = signAuthorizationToken(claims(), { alg: "HS256", kid: "h1", secret: "shared" });
+    expect(verifyAuthorizationToken(hmac, { keys: [{ alg: "HS256", kid: "h1", secret: "shared" }], now: NOW }).valid).toBe(true);
+    expect(verifyAuthorizationToken(hmac, { keys: [{ alg: "HS256", kid: "h1", secret: "other" }], now: NOW }).error_code).toBe("bad_signature");
+    expect(decodeAuthorizationToken(hmac)!.header).toEqual({ alg: "HS256", typ: "TAT", kid: "h1" });
+  });
+
+  it("rejects an expired token, allowing for clock skew", () => {
+    expect(verifyAuthorizationToken(sign(), { keys: [ed25519], now: NOW + 320_000 }).valid).toBe(true);
+    expect(verifyAuthorizationToken(sign(), { keys: [ed25519], now: NOW + 331_000 })).toMatchObject({
+      valid: false,
+      error_code: "expired",
+      error: "Token expired at 2026-10-19T12:05:00.000Z",
+      claims: claims(),
+    });
+    expect(verifyAuthorizationToken(sign({ iat: IAT + 60 }), { keys: [ed25519], now: NOW }).error_code).toBe("not_yet_valid");
+  });
+
+  it("rejects a replayed token once its nonce is consumed", () => {
+    const nonceStore = new MemoryNonceStore();
+    const token = sign();
+    expect(verifyAuthorizationToken(token, { keys: [ed25519], nonceStore, now: NOW }).valid).toBe(true);
+    expect(verifyAuthorizationToken(token, { keys: [ed25519], nonceStore, now: NOW })).toMatchObject({
+      valid: false,
+      error_code: "replayed",
+      error: "Token tat_1 has already been used",
+    });
+    // A token that fails another check does not spend its nonce
+    const other = sign({ jti: "tat_2" });
+    expect(verifyAuthorizationToken(other, { keys: [ed25519], nonceStore, expected: { merchant_id: "m2" }, now: NOW }).valid).toBe(false);
+    expect(nonceStore.has("tat_2", NOW)).toBe(false);
+  });
+
+  it("forgets nonces once their tokens have expired", () => {
+    const store = new MemoryNonceStore();
+    expect(store.consume("tat_1", IAT + 300, NOW)).toBe(true);
+    expect(store.consume("tat_1", IAT + 300, NOW)).toBe(false);
+    expect(store.has("tat_1", NOW + 301_000)).toBe(false);
+    expect(store.size).toBe(0);
+  });
+
+  it.each([
+    [{ agent_id: "agent_2" }, "agent_mismatch", "Token is for agent agent_1, not agent_2"],
+    [{ action: "refund" }, "action_mismatch", 'Token authorizes "purchase", not "refund"'],
+    [{ merchant_id: "m2" }, "merchant_mismatch", "Token is for merchant m1, not m2"],
+    [{ issuer: "elsewhere" }, "issuer_mismatch", "Token issued by merchantguard, expected elsewhere"],
+    [{ amount: 300, currency: "usd" }, "amount_exceeded", "Amount 300 exceeds the authorized 250 USD"],
+    [{ amount: 200, currency: "EUR" }, "currency_mismatch", "Token amounts are in USD; pass the payment amount in that currency"],
+    [{ amount: 200 }, "currency_mismatch", "Token amounts are in USD; pass the payment amount in that currency"],
+  ])("rejects a payment that does not match the token: %o", (expected, code, error) => {
+    expect(verifyAuthorizationToken(sign(), { keys: [ed25519], expected, now: NOW })).toMatchObject({ valid: false, error_code: code, error });
+  });
+
+  it("accepts a matching payment, actions compared case-insensitively", () => {
+    const expected = { agent_id: "agent_1", action: "PURCHASE", merchant_id: "m1", amount: 250, currency: "usd" };
+    expect(verifyAuthorizationToken(sign(), { keys: [ed25519], expected, now: NOW }).valid).toBe(true);
+  });
+
+  it("rejects tampered claims and signatures", () => {
+    const [header, , signature] = sign().split(".");
+    const raised = Buffer.from(JSON.stringify(claims({ max_amount: 25_000 }))).toString("base64url");
+    expect(verifyAuthorizationToken(`${header}.${raised}.${signature}`, { keys: [ed25519], now: NOW }).error_code).toBe("bad_signature");
+
+    const token = sign();
+    const flipped = token.slice(0, -2) + (token.at(-2) === "A" ? "B" : "A") + token.at(-1);
+    expect(verifyAuthorizationToken(flipped, { keys: [ed25519], now: NOW })).toMatchObject({ valid: false, error_code: "bad_signature", claims: null });
+  });
+
+  it("rejects a token signed by another key or with a header swapped to HMAC", () => {
+    const { privateKey: otherKey } = generateKeyPairSync("ed25519");
+    const forged = signAuthorizationToken(claims(), { alg: "EdDSA", kid: "k1", privateKey: otherKey });
+    expect(verifyAuthorizationToken(forged, { keys: [ed25519], now: NOW }).error_code).toBe("bad_signature");
+
+    // HMAC over the public key as a secret must not pass as the EdDSA key
+    const pem = publicKey.export({ format: "pem", type: "spki" }).toString();
+    const confused = signAuthorizationToken(claims(), { alg: "HS256", kid: "k1", secret: pem });
+    expect(verifyAuthorizationToken(confused, { keys: [ed25519], now: NOW }).error_code).toBe("unknown_key");
+  });
+
+  it("rejects malformed tokens and unsupported algorithms", () => {
+    expect(verifyAuthorizationToken("not.a-token", { keys: [ed25519], now: NOW }).error_code).toBe("malformed");
+    expect(verifyAuthorizationToken("a.b.c", { keys: [ed25519], now: NOW }).error_code).toBe("malformed");
+    const none = `${Buffer.from(JSON.stringify({ alg: "none", kid: "k1" })).toString("base64url")}.${sign().split(".")[1]}.`;
+    expect(verifyAuthorizationToken(none, { keys: [ed25519], now: NOW })).toMatchObject({ error_code: "unsupported_algorithm", error: "Unsupported algorithm none" });
+  });
+});
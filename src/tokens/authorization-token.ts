@@ -0,0 +1,228 @@
+import { JsonWebKey, KeyObject, createHmac, createPublicKey, sign, timingSafeEqual, verify } from "node:crypto";
+
+/**
+ * Transaction Authorization Tokens (TATs).
+ *
+ * A TAT is a compact JWS (`header.claims.signature`, base64url) that says a
+ * verified agent may perform one action at one merchant for up to an amount
+ * until it expires. It is signed with Ed25519 ("EdDSA"), so holders of the
+ * public key can check it offline, or with HMAC-SHA256 ("HS256") when issuer and
+ * verifier share a secret. This module has no server dependencies: payment
+ * services can import it on its own.
+ */
+
+export type TokenAlgorithm = "EdDSA" | "HS256";
+
+export interface AuthorizationTokenClaims {
+  iss: string;
+  /** Agent ID */
+  sub: string;
+  /** Nonce; a verifier with a nonce store accepts each one once */
+  jti: string;
+  iat: number;
+  exp: number;
+  action: string;
+  max_amount: number;
+  currency: string;
+  merchant_id: string;
+  tenant_id: string | null;
+  authorization_level: string;
+  /** Source of the verification the token was issued on */
+  data_source: string;
+}
+
+export type TokenErrorCode =
+  | "malformed"
+  | "unsupported_algorithm"
+  | "unknown_key"
+  | "bad_signature"
+  | "not_yet_valid"
+  | "expired"
+  | "issuer_mismatch"
+  | "agent_mismatch"
+  | "action_mismatch"
+  | "merchant_mismatch"
+  | "currency_mismatch"
+  | "amount_exceeded"
+  | "replayed";
+
+export interface TokenVerification {
+  valid: boolean;
+  error_code: TokenErrorCode | null;
+  error: string | null;
+  /** Decoded claims when the signature checked out, even if a later check failed */
+  claims: AuthorizationTokenClaims | null;
+  key_id: string | null;
+}
+
+/** What the payment being authorized looks like; every field given must match the token */
+export interface TokenExpectations {
+  issuer?: string;
+  agent_id?: string;
+  action?: string;
+  merchant_id?: string;
+  /** Payment amount; must not exceed max_amount */
+  amount?: number;
+  /** Required with amount; must equal the token's currency (no FX offline) */
+  currency?: string;
+}
+
+/** Remembers spent nonces until their tokens expire */
+export interface NonceStore {
+  /** Record the nonce; false if it was already used */
+  consume(jti: string, expiresAt: number): boolean;
+  has(jti: string): boolean;
+}
+
+export class MemoryNonceStore implements NonceStore {
+  private readonly seen = new Map<string, number>();
+
+  consume(jti: string, expiresAt: number, now = Date.now()): boolean {
+    this.prune(now);
+    if (this.seen.has(jti)) return false;
+    this.seen.set(jti, expiresAt);
+    return true;
+  }
+
+  has(jti: string, now = Date.now()): boolean {
+    this.prune(now);
+    return this.seen.has(jti);
+  }
+
+  get size(): number {
+    return this.seen.size;
+  }
+
+  private prune(now: number) {
+    for (const [jti, expiresAt] of this.seen) {
+      if (expiresAt * 1000 < now) this.seen.delete(jti);
+    }
+  }
+}
+
+/** Signing key: an Ed25519 private key, or an HMAC secret */
+export type TokenSigningKey =
+  | { alg: "EdDSA"; kid: string; privateKey: KeyObject }
+  | { alg: "HS256"; kid: string; secret: string };
+
+/** Verification key: an Ed25519 public key (KeyObject, PEM or JWK), or the HMAC secret */
+export type TokenVerificationKey =
+  | { alg: "EdDSA"; kid: string; publicKey: KeyObject | string | JsonWebKey }
+  | { alg: "HS256"; kid: string; secret: string };
+
+export interface VerifyOptions {
+  /** Keys by kid; a token signed with a kid not listed is rejected */
+  keys: TokenVerificationKey[];
+  expected?: TokenExpectations;
+  /** Consume the nonce so the token is accepted only once */
+  nonceStore?: NonceStore;
+  /** Seconds of clock skew tolerated on iat and exp (default 30) */
+  clockToleranceSeconds?: number;
+  now?: number;
+}
+
+const b64url = (data: Buffer | string) => Buffer.from(data).toString("base64url");
+
+function signingInput(header: object, claims: AuthorizationTokenClaims): string {
+  return `${b64url(JSON.stringify(header))}.${b64url(JSON.stringify(claims))}`;
+}
+
+export function signAuthorizationToken(claims: AuthorizationTokenClaims, key: TokenSigningKey): string {
+  const input = signingInput({ alg: key.alg, typ: "TAT", kid: key.kid }, claims);
+  const signature = key.alg === "EdDSA"
+    ? sign(null, Buffer.from(input), key.privateKey)
+    : createHmac("sha256", key.secret).update(input).digest();
+  return `${input}.${b64url(signature)}`;
+}
+
+/** Header and claims without checking the signature; for display and debugging only */
+export function decodeAuthorizationToken(token: string): { header: Record<string, unknown>; claims: AuthorizationTokenClaims } | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], "base64url").toString("utf8")) as Record<string, unknown>,
+      claims: JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8")) as AuthorizationTokenClaims,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function publicKeyOf(key: KeyObject | string | JsonWebKey): KeyObject {
+  if (key instanceof KeyObject) return key;
+  return typeof key === "string" ? createPublicKey(key) : createPublicKey({ key, format: "jwk" });
+}
+
+function signatureValid(input: string, signature: Buffer, key: TokenVerificationKey): boolean {
+  if (key.alg === "EdDSA") return verify(null, Buffer.from(input), publicKeyOf(key.publicKey), signature);
+  const expected = createHmac("sha256", key.secret).update(input).digest();
+  return signature.length === expected.length && timingSafeEqual(signature, expected);
+}
+
+function mismatch(claims: AuthorizationTokenClaims, expected: TokenExpectations): [TokenErrorCode, string] | null {
+  if (expected.issuer !== undefined && claims.iss !== expected.issuer) {
+    return ["issuer_mismatch", `Token issued by ${claims.iss}, expected ${expected.issuer}`];
+  }
+  if (expected.agent_id !== undefined && claims.sub !== expected.agent_id) {
+    return ["agent_mismatch", `Token is for agent ${claims.sub}, not ${expected.agent_id}`];
+  }
+  if (expected.action !== undefined && claims.action.toLowerCase() !== expected.action.toLowerCase()) {
+    return ["action_mismatch", `Token authorizes "${claims.action}", not "${expected.action}"`];
+  }
+  if (expected.merchant_id !== undefined && claims.merchant_id !== expected.merchant_id) {
+    return ["merchant_mismatch", `Token is for merchant ${claims.merchant_id}, not ${expected.merchant_id}`];
+  }
+  if (expected.amount !== undefined) {
+    if (expected.currency === undefined || expected.currency.toUpperCase() !== claims.currency.toUpperCase()) {
+      return ["currency_mismatch", `Token amounts are in ${claims.currency}; pass the payment amount in that currency`];
+    }
+    if (expected.amount > claims.max_amount) {
+      return ["amount_exceeded", `Amount ${expected.amount} exceeds the authorized ${claims.max_amount} ${claims.currency}`];
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a TAT's signature, validity window and binding to the payment, then
+ * consume its nonce. Failures are returned, not thrown, with a code saying which
+ * check failed.
+ */
+export function verifyAuthorizationToken(token: string, options: VerifyOptions): TokenVerification {
+  const now = options.now ?? Date.now();
+  const tolerance = options.clockToleranceSeconds ?? 30;
+  const fail = (code: TokenErrorCode, error: string, claims: AuthorizationTokenClaims | null = null, kid: string | null = null): TokenVerification =>
+    ({ valid: false, error_code: code, error, claims, key_id: kid });
+
+  const decoded = decodeAuthorizationToken(token);
+  if (!decoded || typeof decoded.claims?.exp !== "number" || typeof decoded.claims?.sub !== "string") {
+    return fail("malformed", "Not a Transaction Authorization Token");
+  }
+  const { header, claims } = decoded;
+  const kid = typeof header.kid === "string" ? header.kid : null;
+  if (header.alg !== "EdDSA" && header.alg !== "HS256") {
+    return fail("unsupported_algorithm", `Unsupported algorithm ${String(header.alg)}`, null, kid);
+  }
+  // The header's alg must match the key's, so an HMAC token can't be checked against a public key as a secret
+  const key = options.keys.find(k => k.kid === kid && k.alg === header.alg);
+  if (!key) return fail("unknown_key", `No ${String(header.alg)} key with id ${kid}`, null, kid);
+
+  const [h, c, s] = token.split(".");
+  if (!signatureValid(`${h}.${c}`, Buffer.from(s, "base64url"), key)) {
+    return fail("bad_signature", "Signature does not match", null, kid);
+  }
+
+  const seconds = now / 1000;
+  if (claims.iat > seconds + tolerance) return fail("not_yet_valid", "Token issued in the future", claims, kid);
+  if (claims.exp < seconds - tolerance) {
+    return fail("expired", `Token expired at ${new Date(claims.exp * 1000).toISOString()}`, claims, kid);
+  }
+  const wrong = options.expected ? mismatch(claims, options.expected) : null;
+  if (wrong) return fail(wrong[0], wrong[1], claims, kid);
+
+  if (options.nonceStore && !options.nonceStore.consume(claims.jti, claims.exp + tolerance)) {
+    return fail("replayed", `Token ${claims.jti} has already been used`, claims, kid);
+  }
+  return { valid: true, error_code: null, error: null, claims, key_id: kid };
+}
@@ -0,0 +1,116 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { generateKeyPairSync } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { TokenGrantRequest, TokenIssuer } from "./token-issuer.js";
+import { verifyAuthorizationToken } from "./authorization-token.js";
+import { logger } from "../utils/logger.js";
+
+const GRANT: TokenGrantRequest = {
+  agent_id: "agent_1",
+  action: "purchase",
+  max_amount: 250,
+  currency: "USD",
+  merchant_id: "m1",
+  authorization_level: "standard",
+  data_source: "live",
+};
+
+describe("TokenIssuer", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "tokens-"));
+    jest.spyOn(logger, "info").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const issuer = (ttlSeconds = 300) => new TokenIssuer({ issuer: "merchantguard", ttlSeconds, generatedKeyFile: path.join(dir, "token-key.pem") });
+
+  it("issues tokens bound to the grant that verify offline with the published JWKS", () => {
+    const tokens = issuer();
+    const grant = tokens.issue("acme", GRANT, Date.UTC(2026, 9, 19, 12));
+    expect(grant).toMatchObject({ algorithm: "EdDSA", key_id: tokens.keyId, max_amount: 250, merchant_id: "m1", expires_at: "2026-10-19T12:05:00.000Z" });
+
+    const [jwk] = tokens.jwks().keys;
+    const offline = verifyAuthorizationToken(grant.token, {
+      keys: [{ alg: "EdDSA", kid: jwk.kid as string, publicKey: jwk }],
+      now: Date.UTC(2026, 9, 19, 12, 1),
+    });
+    expect(offline.claims).toMatchObject({ iss: "merchantguard", sub: "agent_1", tenant_id: "acme", jti: grant.token_id });
+  });
+
+  it("keeps its generated key across restarts", () => {
+    const first = issuer();
+    const token = first.issue(null, GRANT).token;
+    expect(fs.statSync(path.join(dir, "token-key.pem")).mode & 0o777).toBe(0o600);
+    const restarted = issuer();
+    expect(restarted.keyId).toBe(first.keyId);
+    expect(restarted.verify(null, token, {}, false).valid).toBe(true);
+  });
+
+  it("still refuses a spent token after a restart", () => {
+    const nonceFile = path.join(dir, "nonces.json");
+    const persistent = () => new TokenIssuer({ issuer: "merchantguard", ttlSeconds: 300, generatedKeyFile: path.join(dir, "token-key.pem"), nonceFile });
+    const { token } = persistent().scoped("acme").issue(GRANT);
+    const first = persistent().scoped("acme");
+    expect(first.verify(token, {}, true)).toMatchObject({ valid: true, consumed: true });
+
+    expect(persistent().scoped("acme").verify(token, {}, true)).toMatchObject({ valid: false, error_code: "replayed" });
+    expect(Object.keys(JSON.parse(fs.readFileSync(nonceFile, "utf8")))).toHaveLength(1);
+  });
+
+  it("accepts a token once when consuming it", () => {
+    const authority = issuer().scoped("acme");
+    const { token } = authority.issue(GRANT);
+    expect(authority.verify(token, { merchant_id: "m1" }, false)).toMatchObject({ valid: true, consumed: false });
+    expect(authority.verify(token, { merchant_id: "m1" }, true)).toMatchObject({ valid: true, consumed: true });
+    expect(authority.verify(token, { merchant_id: "m1" }, true)).toMatchObject({ valid: false, error_code: "replayed", consumed: false });
+    expect(authority.verify(token, {}, false).error_code).toBe("replayed");
+  });
+
+  it("rejects expired, mismatched and tampered tokens without consuming them", () => {
+    const tokens = issuer(60);
+    const { token } = tokens.issue(null, GRANT, Date.now() - 120_000);
+    expect(tokens.verify(null, token, {}, true).error_code).toBe("expired");
+
+    const fresh = tokens.issue(null, GRANT).token;
+    expect(tokens.verify(null, fresh, { amount: 300, currency: "USD" }, true).error_code).toBe("amount_exceeded");
+    expect(tokens.verify(null, fresh, { agent_id: "agent_2" }, true).error_code).toBe("agent_mismatch");
+    const [header, body, signature] = fresh.split(".");
+    const tampered = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    tampered.max_amount = 25_000;
+    expect(tokens.verify(null, `${header}.${Buffer.from(JSON.stringify(tampered)).toString("base64url")}.${signature}`, {}, true).error_code).toBe("bad_signature");
+    expect(tokens.verify(null, fresh, {}, true)).toMatchObject({ valid: true, consumed: true });
+  });
+
+  it("does not verify another tenant's tokens or another issuer's", () => {
+    const tokens = issuer();
+    const { token } = tokens.issue("acme", GRANT);
+    expect(tokens.verify("globex", token, {}, true)).toMatchObject({ valid: false, error_code: "unknown_key", claims: null });
+    expect(tokens.verify("acme", token, {}, true).valid).toBe(true);
+
+    const other = new TokenIssuer({ issuer: "merchantguard", ttlSeconds: 300, generatedKeyFile: path.join(dir, "other.pem") });
+    expect(tokens.verify(null, other.issue(null, GRANT).token, {}, false).error_code).toBe("unknown_key");
+  });
+
+  it("signs with HMAC when given a secret, and publishes no keys for it", () => {
+    const tokens = new TokenIssuer({ issuer: "merchantguard", ttlSeconds: 300, hmacSecret: "shared", generatedKeyFile: null });
+    const { token, algorithm } = tokens.issue(null, GRANT);
+    expect(algorithm).toBe("HS256");
+    expect(tokens.jwks()).toEqual({ keys: [] });
+    expect(verifyAuthorizationToken(token, { keys: [{ alg: "HS256", kid: tokens.keyId, secret: "shared" }] }).valid).toBe(true);
+  });
+
+  it("refuses a signing key file that is not Ed25519", () => {
+    const keyFile = path.join(dir, "p256.pem");
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    fs.writeFileSync(keyFile, privateKey.export({ format: "pem", type: "pkcs8" }));
+    expect(() => new TokenIssuer({ issuer: "merchantguard", ttlSeconds: 300, signingKeyFile: keyFile, generatedKeyFile: null }))
+      .toThrow(`${keyFile} must hold an Ed25519 private key (got ec)`);
+  });
+});
@@ -0,0 +1,233 @@
+import fs from "node:fs";
+import path from "node:path";
+import { JsonWebKey, KeyObject, createHash, createPrivateKey, createPublicKey, generateKeyPairSync, randomUUID } from "node:crypto";
+import { logger } from "../utils/logger.js";
+import {
+  MemoryNonceStore,
+  NonceStore,
+  TokenExpectations,
+  TokenSigningKey,
+  TokenVerification,
+  TokenVerificationKey,
+  signAuthorizationToken,
+  verifyAuthorizationToken,
+} from "./authorization-token.js";
+import type { AuthorizationTokenGrant } from "../types/index.js";
+
+export interface TokenIssuerOptions {
+  /** iss claim of every token */
+  issuer: string;
+  ttlSeconds: number;
+  /** PEM Ed25519 private key */
+  signingKeyFile?: string;
+  /** Sign with HMAC-SHA256 instead; verifiers need the same secret */
+  hmacSecret?: string;
+  /** Without a key file or secret, an Ed25519 key is generated once and kept here (null: per process) */
+  generatedKeyFile: string | null;
+  /** Spent nonces are kept here until their tokens expire (in memory only without a file) */
+  nonceFile?: string;
+}
+
+/** What one token authorizes */
+export interface TokenGrantRequest {
+  agent_id: string;
+  action: string;
+  max_amount: number;
+  currency: string;
+  merchant_id: string;
+  authorization_level: string;
+  data_source: string;
+}
+
+/** Issues and checks tokens for one tenant */
+export interface TokenAuthority {
+  issue(grant: TokenGrantRequest): AuthorizationTokenGrant;
+  verify(token: string, expected: TokenExpectations, consume: boolean): TokenVerification & { consumed: boolean };
+}
+
+const keyId = (material: Buffer) => createHash("sha256").update(material).digest("hex").slice(0, 16);
+
+function loadEd25519(pem: string, where: string): KeyObject {
+  const key = createPrivateKey(pem);
+  if (key.asymmetricKeyType !== "ed25519") {
+    throw new Error(`${where} must hold an Ed25519 private key (got ${key.asymmetricKeyType})`);
+  }
+  return key;
+}
+
+/**
+ * Spent nonces persisted as a JSON file, so a token accepted before a restart is
+ * still refused after it. Entries are dropped once their tokens have expired.
+ */
+export class FileNonceStore implements NonceStore {
+  private readonly filePath: string;
+  private readonly seen = new Map<string, number>();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      return;
+    }
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Record<string, number>;
+      for (const [jti, expiresAt] of Object.entries(saved)) this.seen.set(jti, expiresAt);
+      this.prune(Date.now());
+      logger.info(`Spent token nonces loaded (${this.seen.size}) from ${this.filePath}`);
+    } catch (err) {
+      logger.warn(`Token nonce file ${this.filePath} is unreadable, starting empty: ${(err as Error).message}`);
+    }
+  }
+
+  private save() {
+    try {
+      // Write-then-rename so a crash mid-write never leaves a truncated file
+      const tmp = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(Object.fromEntries(this.seen)));
+      fs.renameSync(tmp, this.filePath);
+    } catch (err) {
+      logger.error(`Failed to persist spent token nonces: ${(err as Error).message}`);
+    }
+  }
+
+  private prune(now: number) {
+    for (const [jti, expiresAt] of this.seen) {
+      if (expiresAt * 1000 < now) this.seen.delete(jti);
+    }
+  }
+
+  consume(jti: string, expiresAt: number, now = Date.now()): boolean {
+    this.prune(now);
+    if (this.seen.has(jti)) return false;
+    this.seen.set(jti, expiresAt);
+    this.save();
+    return true;
+  }
+
+  has(jti: string, now = Date.now()): boolean {
+    this.prune(now);
+    return this.seen.has(jti);
+  }
+}
+
+/**
+ * Signs Transaction Authorization Tokens after a successful agent verification
+ * and checks them for the verify tool, with a nonce store so each token is
+ * accepted once. One issuer serves every tenant; tokens carry the tenant ID and
+ * a tenant can only verify its own.
+ */
+export class TokenIssuer {
+  readonly issuer: string;
+  readonly ttlSeconds: number;
+  private readonly signingKey: TokenSigningKey;
+  private readonly verificationKey: TokenVerificationKey;
+  private readonly nonces: NonceStore;
+
+  constructor(options: TokenIssuerOptions) {
+    this.issuer = options.issuer;
+    this.ttlSeconds = options.ttlSeconds;
+    this.nonces = options.nonceFile ? new FileNonceStore(options.nonceFile) : new MemoryNonceStore();
+
+    if (options.hmacSecret) {
+      const kid = `hs256-${keyId(Buffer.from(options.hmacSecret))}`;
+      this.signingKey = { alg: "HS256", kid, secret: options.hmacSecret };
+      this.verificationKey = this.signingKey;
+      return;
+    }
+
+    const privateKey = options.signingKeyFile
+      ? loadEd25519(fs.readFileSync(options.signingKeyFile, "utf8"), options.signingKeyFile)
+      : TokenIssuer.generatedKey(options.generatedKeyFile);
+    const publicKey = createPublicKey(privateKey);
+    const kid = keyId(publicKey.export({ format: "der", type: "spki" }));
+    this.signingKey = { alg: "EdDSA", kid, privateKey };
+    this.verificationKey = { alg: "EdDSA", kid, publicKey };
+  }
+
+  private static generatedKey(filePath: string | null): KeyObject {
+    if (filePath && fs.existsSync(filePath)) return loadEd25519(fs.readFileSync(filePath, "utf8"), filePath);
+
+    const { privateKey } = generateKeyPairSync("ed25519");
+    if (!filePath) {
+      logger.warn("Authorization tokens are signed with a per-process key — they stop verifying after a restart");
+      return privateKey;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, privateKey.export({ format: "pem", type: "pkcs8" }), { mode: 0o600 });
+    logger.info(`Generated an Ed25519 authorization token signing key at ${filePath}`);
+    return privateKey;
+  }
+
+  get algorithm(): "EdDSA" | "HS256" {
+    return this.signingKey.alg;
+  }
+
+  get keyId(): string {
+    return this.signingKey.kid;
+  }
+
+  /** Public keys as a JWK set for offline verifiers; empty for HMAC, whose secret is never published */
+  jwks(): { keys: JsonWebKey[] } {
+    if (this.verificationKey.alg !== "EdDSA") return { keys: [] };
+    const jwk = (this.verificationKey.publicKey as KeyObject).export({ format: "jwk" });
+    return { keys: [{ ...jwk, kid: this.verificationKey.kid, alg: "EdDSA", use: "sig" } as JsonWebKey] };
+  }
+
+  scoped(tenantId: string | null): TokenAuthority {
+    return {
+      issue: grant => this.issue(tenantId, grant),
+      verify: (token, expected, consume) => this.verify(tenantId, token, expected, consume),
+    };
+  }
+
+  issue(tenantId: string | null, grant: TokenGrantRequest, now = Date.now()): AuthorizationTokenGrant {
+    const iat = Math.floor(now / 1000);
+    const claims = {
+      iss: this.issuer,
+      sub: grant.agent_id,
+      jti: `tat_${randomUUID()}`,
+      iat,
+      exp: iat + this.ttlSeconds,
+      action: grant.action,
+      max_amount: grant.max_amount,
+      currency: grant.currency,
+      merchant_id: grant.merchant_id,
+      tenant_id: tenantId,
+      authorization_level: grant.authorization_level,
+      data_source: grant.data_source,
+    };
+    return {
+      token: signAuthorizationToken(claims, this.signingKey),
+      token_id: claims.jti,
+      algorithm: this.signingKey.alg,
+      key_id: this.signingKey.kid,
+      action: claims.action,
+      max_amount: claims.max_amount,
+      currency: claims.currency,
+      merchant_id: claims.merchant_id,
+      expires_at: new Date(claims.exp * 1000).toISOString(),
+    };
+  }
+
+  verify(tenantId: string | null, token: string, expected: TokenExpectations, consume: boolean): TokenVerification & { consumed: boolean } {
+    const result = verifyAuthorizationToken(token, {
+      keys: [this.verificationKey],
+      expected: { ...expected, issuer: this.issuer },
+      // The nonce is checked separately below, after the tenant check
+    });
+    if (!result.valid || !result.claims) return { ...result, consumed: false };
+    if (result.claims.tenant_id !== tenantId) {
+      // Another tenant's token must not be distinguishable from a forged one
+      return { valid: false, error_code: "unknown_key", error: "Token was not issued to this tenant", claims: null, key_id: result.key_id, consumed: false };
+    }
+    const { jti, exp } = result.claims;
+    if (consume ? !this.nonces.consume(jti, exp + 30) : this.nonces.has(jti)) {
+      return { ...result, valid: false, error_code: "replayed", error: `Token ${jti} has already been used`, consumed: false };
+    }
+    return { ...result, consumed: consume };
+  }
+}
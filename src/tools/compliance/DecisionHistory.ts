@@ -0,0 +1,47 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool } from "../mcp-tool.js";
+import { decisionHistorySchema } from "../../schemas/schemas.js";
+import { decisionHistoryResultSchema } from "../../schemas/output-schemas.js";
+import { AuditLog } from "../../audit/audit-log.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Query the decision audit trail. A tenant only sees its own entries.
+ */
+export class DecisionHistory extends MCPTool {
+  private readonly audit: AuditLog;
+  private readonly tenantId: string | null;
+
+  constructor(api: GuardScoreAPI, audit: AuditLog, tenantId: string | null) {
+    super(
+      api,
+      "guardscore_decision_history",
+      "GuardScore Decision History",
+      "Look up past tool decisions from the tamper-evident audit log: what a tool was asked, what it answered (approve/review/decline, risk level, verification status), where the data came from and which policy version applied. Filter by entity, tool, outcome or time range. Set verify_chain to confirm the log's hash chain is intact. Use this to show what an agent was told and when.",
+      decisionHistorySchema.shape,
+      decisionHistoryResultSchema.shape,
+    );
+    this.audit = audit;
+    this.tenantId = tenantId;
+  }
+
+  async execute(args: z.infer<typeof decisionHistorySchema>): Promise<CallToolResult> {
+    try {
+      const entries = this.audit.query({
+        ...args,
+        tenant: this.tenantId ?? undefined,
+      });
+      return successResult({
+        returned: entries.length,
+        entries,
+        chain: args.verify_chain ? this.audit.verify() : null,
+      });
+    } catch (error) {
+      logger.error(`Decision history error: ${(error as Error).message}`);
+      return errorResult(`Decision history failed: ${(error as Error).message}`);
+    }
+  }
+}
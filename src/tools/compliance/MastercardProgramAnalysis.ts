@@ -0,0 +1,31 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool } from "../mcp-tool.js";
+import { mastercardProgramSchema } from "../../schemas/schemas.js";
+import { mastercardProgramResultSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class MastercardProgramAnalysis extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_mastercard_program_analysis",
+      "GuardScore Mastercard Program Analysis",
+      "Compute a merchant's standing in Mastercard's Excessive Chargeback Program and Excessive Fraud Merchant program from its own monthly figures. The chargeback ratio is this month's chargebacks over last month's transactions, tiered as Chargeback Monitored Merchant (1.0%, 100 chargebacks), Excessive Chargeback Merchant (1.5%, 100) and High Excessive Chargeback Merchant (3.0%, 300). EFM applies when card-not-present volume has at least 1,000 transactions, $50,000 of fraud, a 0.5% fraud-to-sales ratio and under 10% EMV 3-D Secure coverage. Returns each criterion with its value, the tier reached, the next tier's ratio and remediation actions.",
+      mastercardProgramSchema.shape,
+      mastercardProgramResultSchema.shape,
+    );
+  }
+
+  async execute(args: z.infer<typeof mastercardProgramSchema>): Promise<CallToolResult> {
+    try {
+      const result = await this.api.analyzeMastercardPrograms(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Mastercard program analysis error: ${(error as Error).message}`);
+      return errorResult(`Mastercard program analysis failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
+import { networkComplianceSchema } from "../../schemas/schemas.js";
+import { networkComplianceResultSchema } from "../../schemas/output-schemas.js";
+import { assessNetworkCompliance } from "../../compliance/network-compliance.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class NetworkCompliance extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_network_compliance",
+      "GuardScore Network Compliance",
+      "Report a merchant's card network monitoring programs side by side: Visa VAMP from the VAMP analysis, and Mastercard ECM and EFM from this month's Mastercard figures when supplied. Each program keeps its network's own tier name and is also mapped to a shared standing (compliant, warning, in_program, not_assessed), with the worst one as the overall standing and the remediation actions of every program combined.",
+      networkComplianceSchema.shape,
+      networkComplianceResultSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    // The Visa side runs the VAMP analysis, which comes from the GuardScore simulator
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof networkComplianceSchema>): Promise<CallToolResult> {
+    try {
+      const result = await assessNetworkCompliance(this.api, args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Network compliance error: ${(error as Error).message}`);
+      return errorResult(`Network compliance failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
@@ -1,9 +1,10 @@
 import { GuardScoreAPI } from "../../api/guardscore.js";
-import { MCPTool } from "../mcp-tool.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
 import { vampAnalysisSchema } from "../../schemas/schemas.js";
+import { vampAnalysisResultSchema } from "../../schemas/output-schemas.js";
 import { z } from "zod";
 import { logger } from "../../utils/logger.js";
-import { successResult, errorResult } from "../../utils/mcp-response.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 
 export class VAMPAnalysis extends MCPTool {
@@ -14,16 +15,30 @@ export class VAMPAnalysis extends MCPTool {
       "GuardScore VAMP Analysis",
       "Analyze a merchant's Visa Acquirer Monitoring Program (VAMP) status and risk. Returns current VAMP score, fraud and dispute rates, distance to Visa thresholds, monthly trend, and specific remediation actions. Essential for merchants processing Visa transactions to stay below monitoring thresholds and avoid penalties or termination.",
       vampAnalysisSchema.shape,
+      vampAnalysisResultSchema.shape,
     );
   }
 
+  getDefinition(): ToolDefinition {
+    // The analysis comes from the GuardScore simulator
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    };
+  }
+
   async execute(args: z.infer<typeof vampAnalysisSchema>): Promise<CallToolResult> {
     try {
       const result = await this.api.analyzeVAMP(args);
       return successResult(result);
     } catch (error) {
       logger.error(`VAMP analysis error: ${(error as Error).message}`);
-      return errorResult(`VAMP analysis failed: ${(error as Error).message}`);
+      return errorResult(`VAMP analysis failed: ${(error as Error).message}`, errorCode(error));
     }
   }
 }
@@ -0,0 +1,34 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool } from "../mcp-tool.js";
+import { vampHistorySchema } from "../../schemas/schemas.js";
+import { vampHistoryResultSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class VAMPHistory extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_vamp_history",
+      "GuardScore VAMP History",
+      "Return a merchant's monthly VAMP snapshots — recorded by guardscore_vamp_simulate or imported with guardscore_vamp_import from its own figures — looked up by merchant_id or Visa merchant ID. The summary fits a trend line through the monthly ratio and reports the slope, whether the merchant is improving or declining, months spent in each program tier (standard, monitored, excessive), the current tier streak, and the month the trend is projected to cross threshold_pct (0.9% by default). Tiers use Visa's threshold in force each month.",
+      vampHistorySchema.shape,
+      vampHistoryResultSchema.shape,
+    );
+  }
+
+  async execute(args: z.infer<typeof vampHistorySchema>): Promise<CallToolResult> {
+    try {
+      if (!args.merchant_id && !args.visa_merchant_id) {
+        return errorResult("Provide merchant_id or visa_merchant_id");
+      }
+      const result = await this.api.getVAMPHistory(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`VAMP history error: ${(error as Error).message}`);
+      return errorResult(`VAMP history failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
+import { vampHistoryImportSchema } from "../../schemas/schemas.js";
+import { vampImportResultSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class VAMPHistoryImport extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_vamp_import",
+      "GuardScore VAMP History Import",
+      "Import a merchant's own monthly VAMP figures from CSV. Imported months feed VAMP history, trends and threshold projections alongside months recorded by guardscore_vamp_simulate. Columns: month (YYYY-MM), merchant_id, optional visa_merchant_id, and either vamp_ratio_pct or monthly_transactions with tc40_fraud_count and tc15_dispute_count (fraud_rate and dispute_rate optional). An imported month replaces any earlier snapshot for the same merchant and month, so re-importing a file is safe. Invalid rows are reported individually.",
+      vampHistoryImportSchema.shape,
+      vampImportResultSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof vampHistoryImportSchema>): Promise<CallToolResult> {
+    try {
+      const result = await this.api.importVAMPHistory(args.payload);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`VAMP history import error: ${(error as Error).message}`);
+      return errorResult(`VAMP history import failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
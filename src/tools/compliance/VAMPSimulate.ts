@@ -0,0 +1,43 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
+import { vampSimulateSchema } from "../../schemas/schemas.js";
+import { vampSimulationSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class VAMPSimulate extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_vamp_simulate",
+      "GuardScore VAMP What-If Simulator",
+      "Compute a merchant's Visa VAMP ratio from its own monthly figures — settled card-not-present transactions, TC40 fraud reports, TC15 disputes, 3-D Secure coverage and RDR/CDRN enrollment and resolution rates — under the current Visa formula and Excessive threshold. Returns the ratio, program status, distance to the threshold, the clean volume needed to get under it, and remediation levers (full 3DS, RDR, CDRN, combined) ranked by projected ratio reduction. Adds MerchantGuard's simulator projection when the API is reachable. The ratio is stored as the merchant's VAMP history snapshot for the month, unless that month was imported; set record_history to false when changing the inputs to explore what-if scenarios.",
+      vampSimulateSchema.shape,
+      vampSimulationSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof vampSimulateSchema>): Promise<CallToolResult> {
+    try {
+      const result = await this.api.simulateVAMP(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`VAMP simulation error: ${(error as Error).message}`);
+      return errorResult(`VAMP simulation failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
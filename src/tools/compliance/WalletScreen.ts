@@ -0,0 +1,31 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool } from "../mcp-tool.js";
+import { walletScreenSchema } from "../../schemas/schemas.js";
+import { walletScreenResultSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class WalletScreen extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_wallet_screen",
+      "GuardScore Wallet Screen",
+      "Screen a crypto wallet address before paying to or accepting funds from it. Detects the chain (EVM, Bitcoin, Solana, Tron), validates the format and checksum (EIP-55, base58check, bech32/bech32m) to catch mistyped or altered addresses, and matches the address against the locally loaded sanctions lists (such as OFAC SDN digital currency addresses) and denylists. Returns any list matches with the owner and sanctions programs, and an approve/review/decline recommendation.",
+      walletScreenSchema.shape,
+      walletScreenResultSchema.shape,
+    );
+  }
+
+  async execute(args: z.infer<typeof walletScreenSchema>): Promise<CallToolResult> {
+    try {
+      const result = this.api.screenWallet(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Wallet screen error: ${(error as Error).message}`);
+      return errorResult(`Wallet screening failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool } from "../mcp-tool.js";
+import { watchlistScreenSchema } from "../../schemas/schemas.js";
+import { watchlistScreenResultSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class WatchlistScreen extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_watchlist_screen",
+      "GuardScore Watchlist Screen",
+      "Screen a merchant, business or person name against the locally loaded sanctions watchlists (such as the OFAC SDN and consolidated lists, including aliases). Names are normalized, legal forms like LLC or GmbH dropped, Cyrillic and Greek transliterated, and compared word by word with Jaro-Winkler similarity and Metaphone sound-alike codes, so misspellings, reordered words and transliteration variants still match. Returns scored hits with the listing's programs and a match/possible/clear status.",
+      watchlistScreenSchema.shape,
+      watchlistScreenResultSchema.shape,
+    );
+  }
+
+  async execute(args: z.infer<typeof watchlistScreenSchema>): Promise<CallToolResult> {
+    try {
+      const result = this.api.screenWatchlist(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Watchlist screen error: ${(error as Error).message}`);
+      return errorResult(`Watchlist screening failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
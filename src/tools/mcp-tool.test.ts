@@ -0,0 +1,96 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { z } from "zod";
+import { MerchantGuardMCPConfig, ServerServices, createGuardScoreAPI, createTools, openServerServices } from "../merchantguard-mcp-server.js";
+import type { Tool } from "./mcp-tool.js";
+
+/** Tools that change local state (ledger, agent profiles, budgets, history, spent tokens) */
+const WRITING_TOOLS = [
+  "guardscore_transaction_risk",
+  "guardscore_batch_transaction_risk",
+  "guardscore_agent_verify",
+  "guardscore_prepayment_decision",
+  "guardscore_agent_budget_reserve",
+  "guardscore_agent_budget_commit",
+  "guardscore_agent_budget_release",
+  "guardscore_verify_authorization_token",
+  "guardscore_ingest_transactions",
+  "guardscore_vamp_simulate",
+  "guardscore_vamp_import",
+];
+
+/** Tools that call the GuardScore API */
+const OPEN_WORLD_TOOLS = [
+  "guardscore_transaction_risk",
+  "guardscore_batch_transaction_risk",
+  "guardscore_merchant_lookup",
+  "guardscore_agent_verify",
+  "guardscore_prepayment_decision",
+  "guardscore_dispute_predict",
+  "guardscore_cross_rail_check",
+  "guardscore_vamp_analysis",
+  "guardscore_vamp_simulate",
+  "guardscore_network_compliance",
+];
+
+describe("tool definitions", () => {
+  let dir: string;
+  let services: ServerServices;
+  let tools: Tool[];
+  const tool = (name: string) => tools.find(t => t.getName() === name)!;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "tools-"));
+    const config: MerchantGuardMCPConfig = { name: "merchantguard-mcp", version: "1.0.0", apiUrl: "https://api.example.test", apiKey: "demo", dataDir: dir };
+    services = openServerServices(config);
+    tools = createTools(createGuardScoreAPI(config), services);
+  });
+  afterAll(() => {
+    services.limits.flush();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("give every tool a title, an output schema and complete annotations", () => {
+    expect(new Set(tools.map(t => t.getName())).size).toBe(tools.length);
+    for (const t of tools) {
+      const definition = t.getDefinition();
+      expect({ tool: t.getName(), title: typeof definition.title, output: typeof definition.outputSchema }).toEqual({
+        tool: t.getName(),
+        title: "string",
+        output: "object",
+      });
+      const { readOnlyHint, destructiveHint, idempotentHint, openWorldHint } = definition.annotations ?? {};
+      for (const hint of [readOnlyHint, destructiveHint, idempotentHint, openWorldHint]) expect(typeof hint).toBe("boolean");
+      expect(destructiveHint).toBe(false);
+    }
+  });
+
+  it("mark only tools that change local state as not read-only", () => {
+    const writing = tools.filter(t => t.getDefinition().annotations?.readOnlyHint === false).map(t => t.getName());
+    expect(writing.sort()).toEqual([...WRITING_TOOLS].sort());
+  });
+
+  it("mark only tools that call the GuardScore API as open-world", () => {
+    const openWorld = tools.filter(t => t.getDefinition().annotations?.openWorldHint === true).map(t => t.getName());
+    expect(openWorld.sort()).toEqual([...OPEN_WORLD_TOOLS].sort());
+  });
+
+  it.each([
+    ["guardscore_transaction_risk", { amount: 250, currency: "EUR", merchant_category: "travel", payment_rail: "card", merchant_id: "m1" }],
+    ["guardscore_batch_transaction_risk", { payload: "amount,merchant_category,payment_rail\n10,retail,card\nx,retail,card\n" }],
+    ["guardscore_merchant_lookup", { merchant_id: "m1" }],
+    ["guardscore_agent_verify", { agent_id: "agent-1", requesting_action: "purchase", transaction_amount: 40 }],
+    ["guardscore_prepayment_decision", { amount: 40, merchant_category: "retail", payment_rail: "card", agent_id: "agent-1", requesting_action: "purchase" }],
+    ["guardscore_velocity_check", { entity_id: "m1", entity_type: "merchant", time_window: "1h" }],
+    ["guardscore_vamp_analysis", { merchant_id: "m1" }],
+  ])("%s returns structured content matching its output schema", async (name, args) => {
+    const definition = tool(name).getDefinition();
+    // The server validates arguments against the input schema (applying defaults) before execute
+    const result = await tool(name).execute(z.object(definition.inputSchema!).parse(args));
+    expect(result.isError).toBe(false);
+    const parsed = z.object(definition.outputSchema!).strict().safeParse(result.structuredContent);
+    expect(parsed.success ? [] : parsed.error.issues).toEqual([]);
+  });
+});
@@ -1,6 +1,10 @@
 import { GuardScoreAPI } from "../api/guardscore.js";
 import { ZodRawShape } from "zod";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+
+/** Per-call request context from the MCP SDK (abort signal, progress token, notifications) */
+export type ToolContext = RequestHandlerExtra<ServerRequest, ServerNotification>;
 
 export interface ToolDefinition {
   title?: string;
@@ -20,7 +24,7 @@ export interface ToolDefinition {
 export interface Tool {
   getName(): string;
   getDefinition(): ToolDefinition;
-  execute(args: unknown): Promise<CallToolResult>;
+  execute(args: unknown, context?: ToolContext): Promise<CallToolResult>;
 }
 
 export abstract class MCPTool implements Tool {
@@ -28,6 +32,7 @@ export abstract class MCPTool implements Tool {
   readonly title: string;
   readonly description: string;
   readonly inputSchema: ZodRawShape;
+  readonly outputSchema?: ZodRawShape;
   protected api: GuardScoreAPI;
 
   protected constructor(
@@ -36,23 +41,27 @@ export abstract class MCPTool implements Tool {
     title: string,
     description: string,
     inputSchema: ZodRawShape,
+    outputSchema?: ZodRawShape,
   ) {
     this.api = api;
     this.name = name;
     this.title = title;
     this.description = description;
     this.inputSchema = inputSchema;
+    this.outputSchema = outputSchema;
   }
 
   getName(): string {
     return this.name;
   }
 
+  /** Hints for a local, read-only tool; tools that write state or call the GuardScore API override them */
   getDefinition(): ToolDefinition {
     return {
       title: this.title,
       description: this.description,
       inputSchema: this.inputSchema,
+      outputSchema: this.outputSchema,
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -62,5 +71,5 @@ export abstract class MCPTool implements Tool {
     };
   }
 
-  abstract execute(args: unknown): Promise<CallToolResult>;
+  abstract execute(args: unknown, context?: ToolContext): Promise<CallToolResult>;
 }
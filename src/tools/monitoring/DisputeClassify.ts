@@ -0,0 +1,32 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool } from "../mcp-tool.js";
+import { disputeClassifySchema } from "../../schemas/schemas.js";
+import { disputeClassificationSchema } from "../../schemas/output-schemas.js";
+import { classifyDispute } from "../../disputes/dispute-classifier.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class DisputeClassify extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_dispute_classify",
+      "GuardScore Dispute Classifier",
+      "Classify a chargeback from the reason code the acquirer sent (Visa 10.4, 13.1, 13.3, Mastercard 4837, 4853, Amex C08, Discover UA02, ...). Returns the network's name for the code, the normalized dispute type, whether the dispute counts toward Visa VAMP or the Mastercard Excessive Chargeback Program, the network response window and — given the date the chargeback arrived — the deadline and a recommended date to send evidence to the acquirer, whether prior-transaction compelling evidence (Visa CE 3.0, Mastercard First-Party Trust) can answer it, and next steps. Computed locally from the reason-code catalog.",
+      disputeClassifySchema.shape,
+      disputeClassificationSchema.shape,
+    );
+  }
+
+  async execute(args: z.infer<typeof disputeClassifySchema>): Promise<CallToolResult> {
+    try {
+      const result = classifyDispute(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Dispute classification error: ${(error as Error).message}`);
+      return errorResult(`Dispute classification failed: ${(error as Error).message}`);
+    }
+  }
+}
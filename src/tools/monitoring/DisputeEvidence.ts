@@ -0,0 +1,32 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool } from "../mcp-tool.js";
+import { disputeEvidenceSchema } from "../../schemas/schemas.js";
+import { disputeEvidencePackSchema } from "../../schemas/output-schemas.js";
+import { buildEvidencePack } from "../../disputes/evidence-pack.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class DisputeEvidence extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_dispute_evidence",
+      "GuardScore Dispute Evidence Pack",
+      "Build a chargeback representment package for a dispute that has arrived. Pass the network reason code (Visa 10.4, 13.1, Mastercard 4853, Amex C08, ...), the transaction details, and whatever fulfillment, delivery, communication and policy records you have. Returns the evidence checklist for that reason code's dispute type with each item marked provided or missing, a draft rebuttal narrative built only from the provided evidence, a win-likelihood estimate with its factors, and a recommendation to represent, gather more evidence, or accept. Computed locally — nothing is sent to MerchantGuard.",
+      disputeEvidenceSchema.shape,
+      disputeEvidencePackSchema.shape,
+    );
+  }
+
+  async execute(args: z.infer<typeof disputeEvidenceSchema>): Promise<CallToolResult> {
+    try {
+      const result = buildEvidencePack(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Dispute evidence error: ${(error as Error).message}`);
+      return errorResult(`Evidence pack failed: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
+import { ingestTransactionsSchema } from "../../schemas/schemas.js";
+import { ingestResultSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class IngestTransactions extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_ingest_transactions",
+      "GuardScore Transaction Ingest",
+      "Record transactions observed outside this server (processor webhooks, settlement files, back-office systems) in the local velocity ledger. Each event is attributed to its merchant, agent, card fingerprint and wallet, so later velocity checks reflect real traffic. Amounts are converted to the FX base currency; an event in an unknown currency or with more decimals than its currency allows rejects the whole batch. Events carrying an event_id already in the ledger are skipped, so re-sending a batch is safe.",
+      ingestTransactionsSchema.shape,
+      ingestResultSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof ingestTransactionsSchema>): Promise<CallToolResult> {
+    try {
+      const result = await this.api.ingestTransactions(args.transactions);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Transaction ingest error: ${(error as Error).message}`);
+      return errorResult(`Ingest failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
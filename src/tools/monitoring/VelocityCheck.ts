@@ -1,9 +1,10 @@
 import { GuardScoreAPI } from "../../api/guardscore.js";
 import { MCPTool } from "../mcp-tool.js";
 import { velocityCheckSchema } from "../../schemas/schemas.js";
+import { velocityResultSchema } from "../../schemas/output-schemas.js";
 import { z } from "zod";
 import { logger } from "../../utils/logger.js";
-import { successResult, errorResult } from "../../utils/mcp-response.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 
 export class VelocityCheck extends MCPTool {
@@ -14,6 +15,7 @@ export class VelocityCheck extends MCPTool {
       "GuardScore Velocity Check",
       "Check transaction velocity for a merchant, AI agent, card, or wallet address to detect anomalous patterns. Compares current activity against historical baselines to identify velocity attacks, compromised credentials, or rogue agent behavior. Returns velocity score, anomaly flag, and pattern analysis.",
       velocityCheckSchema.shape,
+      velocityResultSchema.shape,
     );
   }
 
@@ -23,7 +25,7 @@ export class VelocityCheck extends MCPTool {
       return successResult(result);
     } catch (error) {
       logger.error(`Velocity check error: ${(error as Error).message}`);
-      return errorResult(`Velocity check failed: ${(error as Error).message}`);
+      return errorResult(`Velocity check failed: ${(error as Error).message}`, errorCode(error));
     }
   }
 }
@@ -0,0 +1,31 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool } from "../mcp-tool.js";
+import { agentBudgetSchema } from "../../schemas/schemas.js";
+import { agentBudgetStatusSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class AgentBudget extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_agent_budget",
+      "GuardScore Agent Budget",
+      "Show how much an AI agent can still spend: per-transaction, daily and monthly caps (plus a merchant category's caps when given), what is committed and held in each window, and when each window resets. Caps come from the agent budget policy, or the agent's verified spending_limit when the policy sets none. Amounts are in the base currency. Use before reserving spend with guardscore_agent_budget_reserve.",
+      agentBudgetSchema.shape,
+      agentBudgetStatusSchema.shape,
+    );
+  }
+
+  async execute(args: z.infer<typeof agentBudgetSchema>): Promise<CallToolResult> {
+    try {
+      const result = await this.api.getAgentBudget(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Agent budget error: ${(error as Error).message}`);
+      return errorResult(`Agent budget lookup failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
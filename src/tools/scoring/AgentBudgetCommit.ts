@@ -0,0 +1,43 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
+import { agentBudgetCommitSchema } from "../../schemas/schemas.js";
+import { agentBudgetOperationSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class AgentBudgetCommit extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_agent_budget_commit",
+      "GuardScore Agent Budget Commit",
+      "Record a reserved payment as spent once it has gone through. The final amount, in the reservation's currency, may be lower than reserved but not higher. Committing the same reservation again with the same amount has no further effect. Fails for expired or released reservations — reserve again instead.",
+      agentBudgetCommitSchema.shape,
+      agentBudgetOperationSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof agentBudgetCommitSchema>): Promise<CallToolResult> {
+    try {
+      const result = await this.api.commitAgentBudget(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Agent budget commit error: ${(error as Error).message}`);
+      return errorResult(`Budget commit failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
+import { agentBudgetReleaseSchema } from "../../schemas/schemas.js";
+import { agentBudgetOperationSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class AgentBudgetRelease extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_agent_budget_release",
+      "GuardScore Agent Budget Release",
+      "Give a reservation's held amount back to the agent's budget when the payment is abandoned or declined. Releasing an already released or expired reservation has no effect; committed spend cannot be released.",
+      agentBudgetReleaseSchema.shape,
+      agentBudgetOperationSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof agentBudgetReleaseSchema>): Promise<CallToolResult> {
+    try {
+      const result = await this.api.releaseAgentBudget(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Agent budget release error: ${(error as Error).message}`);
+      return errorResult(`Budget release failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
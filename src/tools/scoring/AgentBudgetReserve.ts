@@ -0,0 +1,43 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
+import { agentBudgetReserveSchema } from "../../schemas/schemas.js";
+import { agentBudgetOperationSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class AgentBudgetReserve extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_agent_budget_reserve",
+      "GuardScore Agent Budget Reserve",
+      "Hold an amount against an AI agent's spending budget before it pays. Approved only if the amount fits under every per-transaction, daily, monthly and merchant-category cap that applies; otherwise approved is false and exceeded lists the caps it would break. The hold lapses after ttl_seconds unless committed with guardscore_agent_budget_commit or released with guardscore_agent_budget_release. Pass a reference (order ID) so retries return the same reservation.",
+      agentBudgetReserveSchema.shape,
+      agentBudgetOperationSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof agentBudgetReserveSchema>): Promise<CallToolResult> {
+    try {
+      const result = await this.api.reserveAgentBudget(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Agent budget reserve error: ${(error as Error).message}`);
+      return errorResult(`Budget reservation failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
@@ -1,9 +1,10 @@
 import { GuardScoreAPI } from "../../api/guardscore.js";
-import { MCPTool } from "../mcp-tool.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
 import { agentVerifySchema } from "../../schemas/schemas.js";
+import { agentVerificationSchema } from "../../schemas/output-schemas.js";
 import { z } from "zod";
 import { logger } from "../../utils/logger.js";
-import { successResult, errorResult } from "../../utils/mcp-response.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 
 export class AgentVerify extends MCPTool {
@@ -12,18 +13,33 @@ export class AgentVerify extends MCPTool {
       api,
       "guardscore_agent_verify",
       "GuardScore Agent Verification",
-      "Verify an AI agent's trustworthiness and authorization level before allowing it to transact. Returns trust score, spending limits, authorization level, and anomaly flags. Essential for agent-to-agent commerce and autonomous purchasing. This is the '3DS for AI agents' — use it whenever a non-human entity initiates a financial action.",
+      "Verify an AI agent's trustworthiness and authorization level before allowing it to transact. Returns trust score, spending limits, authorization level, remaining spending budget, and anomaly flags; a transaction_amount that would exceed the agent's budget is flagged. Given a merchant_id, a verified agent also receives a short-lived signed authorization token bound to the agent, action, merchant and amount, for the payment layer to check with guardscore_verify_authorization_token or offline. Essential for agent-to-agent commerce and autonomous purchasing. This is the '3DS for AI agents' — use it whenever a non-human entity initiates a financial action.",
       agentVerifySchema.shape,
+      agentVerificationSchema.shape,
     );
   }
 
+  getDefinition(): ToolDefinition {
+    // Upstream screening is rate-limited and not idempotent, and the result is kept
+    // as the agent's profile
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    };
+  }
+
   async execute(args: z.infer<typeof agentVerifySchema>): Promise<CallToolResult> {
     try {
       const result = await this.api.verifyAgent(args);
       return successResult(result);
     } catch (error) {
       logger.error(`Agent verification error: ${(error as Error).message}`);
-      return errorResult(`Verification failed: ${(error as Error).message}`);
+      return errorResult(`Verification failed: ${(error as Error).message}`, errorCode(error));
     }
   }
 }
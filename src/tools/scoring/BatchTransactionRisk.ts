@@ -0,0 +1,68 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition, ToolContext } from "../mcp-tool.js";
+import { batchTransactionRiskSchema } from "../../schemas/schemas.js";
+import { batchScoringResultSchema } from "../../schemas/output-schemas.js";
+import { parseTransactionPayload, scoreTransactionBatch, BatchRow } from "../../batch/transaction-batch.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class BatchTransactionRisk extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_batch_transaction_risk",
+      "GuardScore Batch Transaction Risk",
+      "Score up to 1000 transactions in one call. Pass a `transactions` array, or an inline CSV (header row with columns such as amount, currency, merchant_category, payment_rail, merchant_id, agent_id, reference) or NDJSON `payload`. Returns per-row results in input order plus a summary: counts by risk level and recommended action, value at risk in the base currency and per transaction currency (rows recommended for review or decline), and the most frequent risk factors. Invalid rows are reported individually instead of failing the batch. Sends progress notifications when the request carries a progress token.",
+      batchTransactionRiskSchema.shape,
+      batchScoringResultSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    // Every scored row is recorded in the velocity ledger, and scores come from the GuardScore API
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof batchTransactionRiskSchema>, context?: ToolContext): Promise<CallToolResult> {
+    try {
+      if (!args.transactions === !args.payload) {
+        return errorResult("Provide exactly one of transactions or payload");
+      }
+
+      const rows: BatchRow[] = args.transactions
+        ? args.transactions.map((transaction, i) => ({ row: i + 1, transaction }))
+        : parseTransactionPayload(args.payload!, args.format);
+      if (rows.length === 0) {
+        return errorResult("Payload contains no transactions");
+      }
+      if (rows.length > 1000) {
+        return errorResult(`Batch has ${rows.length} rows — the maximum is 1000`);
+      }
+
+      const progressToken = context?._meta?.progressToken;
+      const result = await scoreTransactionBatch(this.api, rows, {
+        concurrency: args.concurrency,
+        signal: context?.signal,
+        onProgress: progressToken === undefined ? undefined : ({ completed, total }) =>
+          context!.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress: completed, total, message: `Scored ${completed}/${total} transactions` },
+          }),
+      });
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Batch scoring error: ${(error as Error).message}`);
+      return errorResult(`Batch scoring failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
@@ -1,9 +1,10 @@
 import { GuardScoreAPI } from "../../api/guardscore.js";
-import { MCPTool } from "../mcp-tool.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
 import { merchantLookupSchema } from "../../schemas/schemas.js";
+import { merchantProfileSchema } from "../../schemas/output-schemas.js";
 import { z } from "zod";
 import { logger } from "../../utils/logger.js";
-import { successResult, errorResult } from "../../utils/mcp-response.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 
 export class MerchantLookup extends MCPTool {
@@ -12,11 +13,25 @@ export class MerchantLookup extends MCPTool {
       api,
       "guardscore_merchant_lookup",
       "GuardScore Merchant Lookup",
-      "Look up a merchant's GuardScore, verification status, chargeback rate, and VAMP standing. Search by merchant ID, business name, or website URL. Use this to assess merchant trustworthiness before engaging in commerce.",
+      "Look up a merchant's GuardScore, verification status, chargeback rate, and VAMP standing. Search by merchant ID, business name, or website URL; a business name is also screened against the configured sanctions watchlists. Use this to assess merchant trustworthiness before engaging in commerce.",
       merchantLookupSchema.shape,
+      merchantProfileSchema.shape,
     );
   }
 
+  getDefinition(): ToolDefinition {
+    // The profile comes from the GuardScore API
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    };
+  }
+
   async execute(args: z.infer<typeof merchantLookupSchema>): Promise<CallToolResult> {
     try {
       if (!args.merchant_id && !args.merchant_name && !args.website) {
@@ -26,7 +41,7 @@ export class MerchantLookup extends MCPTool {
       return successResult(result);
     } catch (error) {
       logger.error(`Merchant lookup error: ${(error as Error).message}`);
-      return errorResult(`Lookup failed: ${(error as Error).message}`);
+      return errorResult(`Lookup failed: ${(error as Error).message}`, errorCode(error));
     }
   }
 }
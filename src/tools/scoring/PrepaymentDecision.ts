@@ -0,0 +1,46 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
+import { prepaymentDecisionSchema } from "../../schemas/schemas.js";
+import { prepaymentDecisionResultSchema } from "../../schemas/output-schemas.js";
+import { decidePrepayment } from "../../decision/prepayment-decision.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class PrepaymentDecision extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_prepayment_decision",
+      "GuardScore Pre-Payment Decision",
+      "One call before an agent pays: runs agent verification, merchant lookup, transaction risk scoring and dispute prediction in parallel and reconciles them into a single recommended action (approve/review/decline) with a combined rationale. The most severe check wins — e.g. an amount above the agent's spending limit declines even when the transaction score is fine, and a check that fails sends the payment to review. Reports which checks used live data and which fell back to mock data, and includes each check's full result.",
+      prepaymentDecisionSchema.shape,
+      prepaymentDecisionResultSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    // The transaction check records the payment in the velocity ledger, and the
+    // checks reach the GuardScore API
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof prepaymentDecisionSchema>): Promise<CallToolResult> {
+    try {
+      const result = await decidePrepayment(this.api, args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Pre-payment decision error: ${(error as Error).message}`);
+      return errorResult(`Pre-payment decision failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { GuardScoreAPI } from "../../api/guardscore.js";
+import { MCPTool, ToolDefinition } from "../mcp-tool.js";
+import { verifyAuthorizationTokenSchema } from "../../schemas/schemas.js";
+import { authorizationTokenCheckSchema } from "../../schemas/output-schemas.js";
+import { z } from "zod";
+import { logger } from "../../utils/logger.js";
+import { successResult, errorResult, errorCode } from "../../utils/mcp-response.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export class VerifyAuthorizationToken extends MCPTool {
+  constructor(api: GuardScoreAPI) {
+    super(
+      api,
+      "guardscore_verify_authorization_token",
+      "GuardScore Verify Authorization Token",
+      "Check a Transaction Authorization Token issued by guardscore_agent_verify before executing the payment: signature, expiry, and that the agent, action, merchant and amount match what it authorizes. Each token is accepted once; a second presentation fails as replayed. Returns valid, the failing check's error_code, and the token's claims. Payment services can run the same check offline with the exported verification library and the server's public key.",
+      verifyAuthorizationTokenSchema.shape,
+      authorizationTokenCheckSchema.shape,
+    );
+  }
+
+  getDefinition(): ToolDefinition {
+    // Spends the token's nonce unless consume is false
+    return {
+      ...super.getDefinition(),
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    };
+  }
+
+  async execute(args: z.infer<typeof verifyAuthorizationTokenSchema>): Promise<CallToolResult> {
+    try {
+      const result = this.api.verifyAuthorizationToken(args);
+      return successResult(result);
+    } catch (error) {
+      logger.error(`Authorization token verification error: ${(error as Error).message}`);
+      return errorResult(`Token verification failed: ${(error as Error).message}`, errorCode(error));
+    }
+  }
+}
@@ -1,8 +1,31 @@
+import type { AuthorizationTokenClaims, TokenErrorCode } from "../tokens/authorization-token.js";
+
 export type RiskLevel = "low" | "medium" | "high" | "critical";
 export type PaymentRail = "card" | "stablecoin" | "crypto" | "ach" | "wire" | "unknown";
 export type VerificationStatus = "verified" | "pending" | "unverified" | "suspended" | "revoked";
 export type DisputeType = "fraud" | "product_not_received" | "product_not_as_described" | "duplicate" | "subscription_canceled" | "authorization_issue";
 export type VAMPStatus = "standard" | "monitored" | "excessive" | "at_risk";
+export type EntityType = "merchant" | "agent" | "card" | "wallet";
+/** Address families; "evm" covers Ethereum and every chain sharing its address format */
+export type WalletChain = "evm" | "bitcoin" | "solana" | "tron";
+export type RecommendedAction = "approve" | "review" | "decline";
+export type DataSource = "live" | "local" | "mock" | "cached";
+export type CardNetwork = "visa" | "mastercard" | "amex" | "discover";
+
+/**
+ * Where a result came from. "live" is the MerchantGuard API, "local" is computed by
+ * this server from its own data (e.g. the velocity ledger), "mock" is the heuristic
+ * fallback, "cached" is a stored copy of an earlier live result.
+ */
+export interface Provenance {
+  source: DataSource;
+  /** Upstream API path that was called (or attempted), null for purely local results */
+  endpoint: string | null;
+  latency_ms: number | null;
+  /** Why mock data was returned instead of live data */
+  fallback_reason: string | null;
+  retrieved_at: string;
+}
 
 export interface RiskFactor {
   factor: string;
@@ -10,13 +33,82 @@ export interface RiskFactor {
   description: string;
 }
 
+export interface RiskThresholds {
+  auto_decline: number;
+  high_risk: number;
+  medium_risk: number;
+}
+
+export interface PolicyDecision {
+  policy_version: string;
+  rule_id: string | null;
+  rule_description: string | null;
+  /** "sanctions" when a sanctioned wallet overrode the policy's action */
+  action_source: "rule" | "thresholds" | "sanctions";
+  thresholds: RiskThresholds;
+}
+
+/** A transaction amount and its equivalent in the FX table's base currency */
+export interface NormalizedAmount {
+  amount: number;
+  /** Upper-case ISO 4217 (or configured custom) code */
+  currency: string;
+  base_amount: number;
+  base_currency: string;
+  /** Units of currency per one unit of base currency */
+  fx_rate: number;
+  rates_as_of: string | null;
+}
+
 export interface TransactionRiskResult {
   risk_score: number;
   risk_level: RiskLevel;
-  recommended_action: "approve" | "review" | "decline";
+  recommended_action: RecommendedAction;
   risk_factors: RiskFactor[];
+  policy: PolicyDecision;
+  /** Value thresholds and policy amount rules apply to base_amount */
+  normalized_amount: NormalizedAmount;
   guardscore_version: string;
   scored_at: string;
+  provenance: Provenance;
+}
+
+export interface BatchRowResult {
+  row: number;
+  reference: string | null;
+  status: "scored" | "invalid" | "failed" | "cancelled";
+  amount: number | null;
+  currency: string | null;
+  result: TransactionRiskResult | null;
+  error: string | null;
+}
+
+export interface BatchValueAtRisk {
+  base_currency: string;
+  amount: number;
+  /** The same rows' original amounts, per transaction currency */
+  by_currency: Record<string, number>;
+}
+
+export interface BatchSummary {
+  total_rows: number;
+  scored: number;
+  invalid: number;
+  failed: number;
+  cancelled: number;
+  by_risk_level: Record<RiskLevel, number>;
+  by_action: Record<RecommendedAction, number>;
+  /** Rows recommended for review or decline, summed in the FX base currency */
+  value_at_risk: BatchValueAtRisk;
+  top_risk_factors: Array<{ factor: string; count: number }>;
+  /** How many scored rows used live, mock or cached data */
+  by_source: Record<DataSource, number>;
+  duration_ms: number;
+}
+
+export interface BatchScoringResult {
+  summary: BatchSummary;
+  results: BatchRowResult[];
 }
 
 export interface MerchantProfile {
@@ -29,6 +121,11 @@ export interface MerchantProfile {
   industry: string;
   vamp_status: VAMPStatus;
   last_updated: string;
+  /** Watchlist entries the merchant's name resembles; empty when no name was given or no watchlists are configured */
+  watchlist_hits: WatchlistHit[];
+  /** Name that was screened for watchlist_hits, null when none was given */
+  screened_name: string | null;
+  provenance: Provenance;
 }
 
 export interface AgentVerification {
@@ -39,7 +136,12 @@ export interface AgentVerification {
   spending_limit: number;
   spending_limit_currency: string;
   anomaly_flags: string[];
+  /** Remaining allowance under the agent's spending budget, checked against transaction_amount */
+  budget: AgentBudgetCheck;
+  /** Issued when the agent is verified for the merchant_id given; null otherwise */
+  authorization_token: AuthorizationTokenGrant | null;
   verified_at: string;
+  provenance: Provenance;
 }
 
 export interface DisputePrediction {
@@ -48,6 +150,102 @@ export interface DisputePrediction {
   risk_level: RiskLevel;
   preventive_actions: string[];
   model_version: string;
+  normalized_amount: NormalizedAmount;
+  /** Reason codes the predicted dispute would likely arrive under; all networks when the card network is unknown */
+  likely_reason_codes: LikelyReasonCode[];
+  provenance: Provenance;
+}
+
+export interface LikelyReasonCode {
+  network: CardNetwork;
+  code: string;
+  title: string;
+}
+
+export interface DisputeClassification {
+  reason_code: string;
+  card_network: CardNetwork;
+  reason_title: string;
+  dispute_type: DisputeType;
+  /** Visa disputes count toward the VAMP ratio unless resolved through RDR or CDRN */
+  counts_toward_vamp: boolean;
+  /** Mastercard chargebacks count toward the Excessive Chargeback Program ratio */
+  counts_toward_ecm: boolean;
+  network_response_days: number;
+  /** Network deadline for the acquirer's response; null without dispute_date */
+  response_deadline: string | null;
+  /** Leaves the acquirer time to file; null without dispute_date */
+  recommended_respond_by: string | null;
+  compelling_evidence: {
+    eligible: boolean;
+    program: string | null;
+    criteria: string | null;
+  };
+  next_steps: string[];
+  classified_at: string;
+  provenance: Provenance;
+}
+
+export interface EvidenceItem {
+  id: string;
+  description: string;
+  /** Required by the network rules for this dispute type, as opposed to strengthening the case */
+  required: boolean;
+  status: "provided" | "missing";
+  /** What in the supplied records satisfies the item */
+  detail: string | null;
+}
+
+export interface DisputeEvidencePack {
+  dispute_id: string | null;
+  reason_code: string;
+  card_network: CardNetwork | null;
+  /** Network's name for the reason code, null when it is not in the catalog */
+  reason_title: string | null;
+  dispute_type: DisputeType;
+  checklist: EvidenceItem[];
+  /** Descriptions of the checklist items with status "missing", required ones first */
+  missing_evidence: string[];
+  /** Draft for the representment letter, built only from the evidence provided */
+  rebuttal_narrative: string;
+  win_likelihood: number;
+  win_likelihood_factors: string[];
+  recommendation: "represent" | "gather_evidence" | "accept";
+  generated_at: string;
+  provenance: Provenance;
+}
+
+export type PrepaymentCheck = "agent" | "merchant" | "transaction" | "dispute";
+
+export interface PrepaymentCheckStatus {
+  check: PrepaymentCheck;
+  /** skipped: not enough input to run it (e.g. no merchant identifier) */
+  status: "completed" | "failed" | "skipped";
+  source: DataSource | null;
+  fallback_reason: string | null;
+  error: string | null;
+}
+
+export interface DecisionReason {
+  check: PrepaymentCheck;
+  action: RecommendedAction;
+  reason: string;
+}
+
+export interface PrepaymentDecision {
+  recommended_action: RecommendedAction;
+  /** One sentence per reason that set the final action */
+  rationale: string;
+  reasons: DecisionReason[];
+  checks: PrepaymentCheckStatus[];
+  live_checks: PrepaymentCheck[];
+  mock_checks: PrepaymentCheck[];
+  agent: AgentVerification | null;
+  merchant: MerchantProfile | null;
+  transaction: TransactionRiskResult | null;
+  dispute: DisputePrediction | null;
+  decided_at: string;
+  provenance: Provenance;
 }
 
 export interface VelocityResult {
@@ -55,9 +253,20 @@ export interface VelocityResult {
   velocity_score: number;
   anomaly_detected: boolean;
   transactions_in_window: number;
+  amount_in_window: number;
   baseline_average: number;
+  baseline_amount_average: number;
+  baseline_windows: number;
   pattern_analysis: string;
   time_window: string;
+  provenance: Provenance;
+}
+
+export interface IngestResult {
+  received: number;
+  recorded: number;
+  duplicates: number;
+  provenance: Provenance;
 }
 
 export interface CrossRailResult {
@@ -67,6 +276,37 @@ export interface CrossRailResult {
   rails_analyzed: PaymentRail[];
   suspicious_patterns: string[];
   rail_scores: Record<string, number>;
+  provenance: Provenance;
+}
+
+export interface VAMPLever {
+  lever: string;
+  description: string;
+  projected_ratio_pct: number;
+  ratio_reduction_pct: number;
+  projected_status: VAMPStatus;
+}
+
+export interface VAMPSimulation {
+  merchant_id: string;
+  /** (counted fraud + counted disputes) / monthly settled transactions, in percent */
+  vamp_ratio_pct: number;
+  vamp_status: VAMPStatus;
+  counted_fraud: number;
+  counted_disputes: number;
+  /** Disputes resolved through RDR or CDRN, which VAMP does not count */
+  excluded_disputes: number;
+  threshold_pct: number;
+  threshold_effective_from: string;
+  minimum_count: number;
+  /** Threshold minus ratio; negative when over */
+  threshold_distance_pct: number;
+  clean_transactions_to_threshold: number;
+  levers: VAMPLever[];
+  /** MerchantGuard simulator's figures for the same inputs, when it was reachable */
+  upstream: { current_vamp_pct: number; projected_vamp_pct: number; ranked_actions: string[] } | null;
+  simulated_at: string;
+  provenance: Provenance;
 }
 
 export interface VAMPAnalysis {
@@ -75,7 +315,345 @@ export interface VAMPAnalysis {
   vamp_status: VAMPStatus;
   fraud_rate: number;
   dispute_rate: number;
-  monthly_trend: "improving" | "stable" | "declining";
+  monthly_trend: VAMPTrend;
+  /** "history" when the trend is fitted to stored monthly snapshots, "snapshot" when inferred from this result alone */
+  trend_source: "history" | "snapshot";
+  history: VAMPHistorySummary | null;
   recommended_actions: string[];
   visa_threshold_distance: number;
+  provenance: Provenance;
+}
+
+export type VAMPTrend = "improving" | "stable" | "declining";
+export type VAMPTier = "standard" | "monitored" | "excessive";
+
+/** One month of a merchant's VAMP standing, simulated or imported from the merchant's own figures */
+export interface VAMPSnapshot {
+  merchant_id: string;
+  visa_merchant_id: string | null;
+  /** YYYY-MM */
+  month: string;
+  vamp_ratio_pct: number;
+  tier: VAMPTier;
+  fraud_rate: number | null;
+  dispute_rate: number | null;
+  monthly_transactions: number | null;
+  tc40_fraud_count: number | null;
+  tc15_dispute_count: number | null;
+  source: "simulation" | "import";
+  recorded_at: string;
+}
+
+export interface VAMPHistorySummary {
+  months: number;
+  first_month: string;
+  last_month: string;
+  latest_ratio_pct: number;
+  /** Least-squares slope of the ratio over the months on record */
+  slope_pct_per_month: number;
+  monthly_trend: VAMPTrend;
+  months_in_tier: Record<VAMPTier, number>;
+  current_tier: VAMPTier;
+  /** Consecutive months, up to the latest, spent in the current tier */
+  current_tier_months: number;
+  /** Ratio the projection is for, 0.9% unless asked otherwise */
+  threshold_pct: number;
+  /** Month the fitted trend reaches the threshold; null when already over, not rising, or beyond the projection horizon */
+  projected_threshold_month: string | null;
+}
+
+export interface VAMPHistoryResult {
+  merchant_id: string | null;
+  visa_merchant_id: string | null;
+  snapshots: VAMPSnapshot[];
+  summary: VAMPHistorySummary | null;
+  provenance: Provenance;
+}
+
+export interface VAMPImportResult {
+  received: number;
+  imported: number;
+  rejected: Array<{ row: number; error: string }>;
+  merchants: string[];
+  provenance: Provenance;
+}
+
+export type MastercardChargebackTier = "standard" | "cmm" | "ecm" | "hecm";
+export type MastercardFraudTier = "standard" | "efm";
+
+/** One identification criterion of a network program and whether the merchant meets it */
+export interface ProgramCriterion {
+  criterion: string;
+  value: number;
+  threshold: number;
+  met: boolean;
+}
+
+export interface MastercardChargebackStanding {
+  /** This month's chargebacks / last month's transactions, in percent */
+  ratio_pct: number;
+  chargeback_count: number;
+  previous_month_transactions: number;
+  tier: MastercardChargebackTier;
+  next_tier: MastercardChargebackTier | null;
+  /** Ratio at which next_tier starts; null in HECM */
+  next_tier_ratio_pct: number | null;
+  criteria: ProgramCriterion[];
+}
+
+export interface MastercardFraudStanding {
+  /** Card-not-present fraud / card-not-present sales, in percent */
+  fraud_to_sales_pct: number;
+  fraud_amount_usd: number;
+  sales_amount_usd: number;
+  ecommerce_transactions: number;
+  three_ds_coverage_pct: number;
+  tier: MastercardFraudTier;
+  /** EFM applies only when every criterion is met */
+  criteria: ProgramCriterion[];
+}
+
+export interface MastercardProgramAnalysis {
+  merchant_id: string;
+  /** YYYY-MM the counts are for */
+  month: string;
+  chargeback_program: MastercardChargebackStanding;
+  fraud_program: MastercardFraudStanding;
+  recommended_actions: string[];
+  analyzed_at: string;
+  provenance: Provenance;
+}
+
+/** Network-neutral standing: clear, close to a program, or identified in one */
+export type ComplianceStanding = "compliant" | "warning" | "in_program" | "not_assessed";
+
+export interface NetworkProgramStatus {
+  network: CardNetwork;
+  program: "VAMP" | "ECM" | "EFM";
+  /** The network's own tier name (e.g. monitored, hecm, efm); null when not assessed */
+  status: string | null;
+  standing: ComplianceStanding;
+  ratio_pct: number | null;
+  threshold_pct: number | null;
+  detail: string;
+  source: DataSource | null;
+}
+
+export interface NetworkComplianceView {
+  merchant_id: string;
+  programs: NetworkProgramStatus[];
+  /** Worst standing across the programs that were assessed */
+  overall_standing: ComplianceStanding;
+  recommended_actions: string[];
+  assessed_at: string;
+  provenance: Provenance;
+}
+
+export type BudgetWindow = "per_transaction" | "daily" | "monthly";
+
+/** Where a budget cap came from: the budget policy, the agent's verified spending_limit, or nowhere (uncapped) */
+export type BudgetLimitSource = "policy" | "verification" | null;
+
+/** One cap on an agent's spend, across all merchant categories or within one */
+export interface BudgetAllowance {
+  /** null for the agent-wide caps */
+  merchant_category: string | null;
+  window: BudgetWindow;
+  limit: number | null;
+  limit_source: BudgetLimitSource;
+  /** Committed and held spend in the current window; always 0 for per_transaction */
+  committed: number;
+  reserved: number;
+  /** null when uncapped */
+  remaining: number | null;
+  /** Start of the next UTC day or month; null for per_transaction */
+  resets_at: string | null;
+}
+
+export interface BudgetExceedance {
+  merchant_category: string | null;
+  window: BudgetWindow;
+  limit: number;
+  remaining: number;
+  requested: number;
+}
+
+export interface AgentBudgetStatus {
+  agent_id: string;
+  /** Currency of every amount here: the FX table's base currency */
+  currency: string;
+  merchant_category: string | null;
+  allowances: BudgetAllowance[];
+  /** Most the agent can spend in one transaction right now; null when nothing caps it */
+  remaining: number | null;
+  active_reservations: number;
+  as_of: string;
+  provenance: Provenance;
+}
+
+export type BudgetReservationStatus = "reserved" | "committed" | "released" | "expired";
+
+export interface BudgetReservation {
+  reservation_id: string;
+  agent_id: string;
+  /** Caller's reference (order or payment ID); reserving again with it returns this reservation */
+  reference: string | null;
+  /** In the base currency */
+  amount: number;
+  original_amount: number;
+  original_currency: string;
+  merchant_category: string | null;
+  merchant_id: string | null;
+  status: BudgetReservationStatus;
+  created_at: string;
+  expires_at: string;
+  committed_at: string | null;
+  released_at: string | null;
+}
+
+export interface AgentBudgetOperation {
+  operation: "reserve" | "commit" | "release";
+  /** false when a reservation was refused because it would exceed a cap */
+  approved: boolean;
+  reservation: BudgetReservation | null;
+  exceeded: BudgetExceedance[];
+  /** The agent's budget after the operation */
+  budget: AgentBudgetStatus;
+  provenance: Provenance;
+}
+
+export interface AgentBudgetCheck {
+  currency: string;
+  merchant_category: string | null;
+  /** Most the agent can spend in one transaction right now; null when nothing caps it */
+  remaining: number | null;
+  /** The requested transaction_amount would exceed at least one cap */
+  would_exceed: boolean;
+  exceeded: BudgetExceedance[];
+}
+
+/** A signed Transaction Authorization Token and what it binds */
+export interface AuthorizationTokenGrant {
+  /** Compact JWS; hand it to the payment layer with the payment */
+  token: string;
+  token_id: string;
+  algorithm: "EdDSA" | "HS256";
+  key_id: string;
+  action: string;
+  max_amount: number;
+  currency: string;
+  merchant_id: string;
+  expires_at: string;
+}
+
+export interface AuthorizationTokenCheck {
+  valid: boolean;
+  error_code: TokenErrorCode | null;
+  error: string | null;
+  claims: AuthorizationTokenClaims | null;
+  key_id: string | null;
+  /** The token's nonce was spent by this check; a second presentation fails as replayed */
+  consumed: boolean;
+  verified_at: string;
+  provenance: Provenance;
+}
+
+export type WalletListCategory = "sanctions" | "denylist";
+
+export interface WalletListMatch {
+  list_id: string;
+  list_name: string;
+  category: WalletListCategory;
+  /** The address as the list writes it */
+  address: string;
+  /** Currency or chain the list gives, e.g. ETH, XBT, USDT */
+  asset: string | null;
+  /** Who the address belongs to, per the list */
+  label: string | null;
+  /** Sanctions programs, e.g. CYBER2, DPRK3 */
+  programs: string[];
+  reference: string | null;
+}
+
+export interface WalletListStatus {
+  id: string;
+  name: string;
+  category: WalletListCategory;
+  entries: number;
+  /** When the local file last changed, i.e. the last refresh */
+  file_updated_at: string | null;
+  /** Publication date inside the file, when the format has one */
+  publish_date: string | null;
+  error: string | null;
+}
+
+export interface WalletScreenResult {
+  address: string;
+  chain: WalletChain | null;
+  address_type: string | null;
+  network: "mainnet" | "testnet" | null;
+  valid: boolean;
+  checksum: "valid" | "invalid" | "absent" | "none";
+  normalized_address: string | null;
+  issues: string[];
+  sanctioned: boolean;
+  denylisted: boolean;
+  matches: WalletListMatch[];
+  risk_level: RiskLevel;
+  recommended_action: RecommendedAction;
+  lists: WalletListStatus[];
+  screened_at: string;
+  provenance: Provenance;
+}
+
+export interface WatchlistThresholds {
+  /** Score at or above which a name is treated as the listed party */
+  match: number;
+  /** Score at or above which a name needs review */
+  possible: number;
+  /** Lower bar for names whose every token sounds the same (Metaphone) */
+  phonetic: number;
+}
+
+export interface WatchlistHit {
+  list_id: string;
+  list_name: string;
+  /** Listing's id on its source list, e.g. the SDN uid */
+  entry_id: string;
+  entry_name: string;
+  /** Individual, Entity, Vessel or Aircraft where the list says */
+  entry_type: string | null;
+  /** The entry's name or alias that scored best */
+  matched_name: string;
+  matched_alias: boolean;
+  programs: string[];
+  /** 0-1 name similarity */
+  score: number;
+  phonetic: boolean;
+  strength: "match" | "possible";
+}
+
+export interface WatchlistStatus {
+  id: string;
+  name: string;
+  entries: number;
+  names: number;
+  file_updated_at: string | null;
+  publish_date: string | null;
+  error: string | null;
+}
+
+export interface WatchlistScreenResult {
+  name: string;
+  /** Tokens compared after normalization and transliteration */
+  normalized_name: string;
+  status: "match" | "possible" | "clear";
+  hits: WatchlistHit[];
+  risk_level: RiskLevel;
+  recommended_action: RecommendedAction;
+  thresholds: WatchlistThresholds;
+  /** Empty when no watchlists are configured */
+  lists: WatchlistStatus[];
+  screened_at: string;
+  provenance: Provenance;
 }
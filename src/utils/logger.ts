@@ -1,11 +1,21 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
 const LOG_LEVEL = process.env.LOG_LEVEL || "info";
 const LEVELS: Record<string, number> = { error: 0, warn: 1, info: 2, debug: 3 };
 const currentLevel = LEVELS[LOG_LEVEL] ?? 2;
 
+/** Fields attached to every log line written inside withLogContext (e.g. tenant) */
+const logContext = new AsyncLocalStorage<Record<string, string>>();
+
+export function withLogContext<T>(context: Record<string, string>, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...context }, fn);
+}
+
 function log(level: string, message: string, data?: unknown) {
   if ((LEVELS[level] ?? 0) <= currentLevel) {
     const timestamp = new Date().toISOString();
-    const prefix = `[${timestamp}] [${level.toUpperCase()}]`;
+    const context = Object.entries(logContext.getStore() ?? {}).map(([k, v]) => ` [${k}=${v}]`).join("");
+    const prefix = `[${timestamp}] [${level.toUpperCase()}]${context}`;
     if (data !== undefined) {
       console.error(`${prefix} ${message}`, JSON.stringify(data, null, 2));
     } else {
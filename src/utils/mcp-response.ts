@@ -1,16 +1,47 @@
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { UpstreamError } from "../api/errors.js";
+import type { LimitDenial } from "../limits/usage-limits.js";
 
+/** Objects are returned both as JSON text and as structuredContent for tools with an output schema */
 export function successResult(data: unknown): CallToolResult {
   const text = typeof data === "string" ? data : JSON.stringify(data, null, 2);
+  const structured = data !== null && typeof data === "object" && !Array.isArray(data);
   return {
     content: [{ type: "text" as const, text }],
+    ...(structured ? { structuredContent: data as Record<string, unknown> } : {}),
     isError: false,
   };
 }
 
-export function errorResult(message: string): CallToolResult {
+export function errorResult(message: string, code?: string): CallToolResult {
   return {
-    content: [{ type: "text" as const, text: message }],
+    content: [{ type: "text" as const, text: code ? `[${code}] ${message}` : message }],
     isError: true,
   };
 }
+
+/** Over-limit tool call; the denial is also structured content so clients can back off */
+export function limitResult(denial: LimitDenial): CallToolResult {
+  return {
+    ...errorResult(denial.message, denial.code),
+    structuredContent: { ...denial },
+  };
+}
+
+/** The JSON object a tool returned (structured content, else parsed text), or null */
+export function resultPayload(result: CallToolResult): Record<string, unknown> | null {
+  if (result.structuredContent) return result.structuredContent;
+  const first = result.content[0];
+  if (first?.type !== "text") return null;
+  try {
+    const parsed: unknown = JSON.parse(first.text);
+    return parsed && typeof parsed === "object" ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Error code to surface for a caught error, if it carries one */
+export function errorCode(error: unknown): string | undefined {
+  return error instanceof UpstreamError ? error.code : undefined;
+}
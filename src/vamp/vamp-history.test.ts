@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { VAMPHistoryStore, parseVAMPHistoryCsv, snapshotFromRow, summarizeVAMPHistory, vampTier } from "./vamp-history.js";
+import type { VAMPSnapshot } from "../types/index.js";
+
+const snapshots = (merchantId: string, months: Array<[string, number]>): VAMPSnapshot[] =>
+  months.map(([month, vamp_ratio_pct]) => snapshotFromRow({ month, merchant_id: merchantId, vamp_ratio_pct }));
+
+describe("vampTier", () => {
+  it("bands the ratio by the threshold in force that month", () => {
+    // 2.2% until March 2026, 1.5% from April 2026; monitored from three quarters of it
+    expect(vampTier(1.2, "2026-03")).toBe("standard");
+    expect(vampTier(1.7, "2026-03")).toBe("monitored");
+    expect(vampTier(1.2, "2026-04")).toBe("monitored");
+    expect(vampTier(1.5, "2026-04")).toBe("excessive");
+    expect(vampTier(1.1, "2026-10-19T12:00:00Z")).toBe("standard");
+  });
+});
+
+describe("summarizeVAMPHistory", () => {
+  it("fits a trend and projects the month the ratio crosses 0.9%", () => {
+    const summary = summarizeVAMPHistory(snapshots("m1", [["2026-07", 0.6], ["2026-05", 0.3], ["2026-06", 0.45]]));
+    expect(summary).toEqual({
+      months: 3,
+      first_month: "2026-05",
+      last_month: "2026-07",
+      latest_ratio_pct: 0.6,
+      slope_pct_per_month: 0.15,
+      monthly_trend: "declining",
+      months_in_tier: { standard: 3, monitored: 0, excessive: 0 },
+      current_tier: "standard",
+      current_tier_months: 3,
+      threshold_pct: 0.9,
+      projected_threshold_month: "2026-09",
+    });
+  });
+
+  it("projects the crossing of another threshold when asked", () => {
+    const history = snapshots("m1", [["2026-05", 0.3], ["2026-06", 0.45], ["2026-07", 0.6]]);
+    expect(summarizeVAMPHistory(history, 1.5)).toMatchObject({ threshold_pct: 1.5, projected_threshold_month: "2027-01" });
+    expect(summarizeVAMPHistory(history, 4.5)).toMatchObject({ projected_threshold_month: null });
+  });
+
+  it("keeps gaps between months and projects nothing for a falling ratio or one already over", () => {
+    const falling = summarizeVAMPHistory(snapshots("m1", [["2026-01", 1.4], ["2026-06", 0.4]]));
+    expect(falling).toMatchObject({ slope_pct_per_month: -0.2, monthly_trend: "improving", projected_threshold_month: null });
+
+    const over = summarizeVAMPHistory(snapshots("m1", [["2026-05", 0.9], ["2026-06", 1.6]]));
+    expect(over).toMatchObject({ current_tier: "excessive", months_in_tier: { standard: 1, monitored: 0, excessive: 1 }, projected_threshold_month: null });
+    expect(summarizeVAMPHistory([])).toBeNull();
+  });
+});
+
+describe("parseVAMPHistoryCsv", () => {
+  it("computes the ratio from counts and reports invalid rows", () => {
+    const rows = parseVAMPHistoryCsv([
+      "Month,Merchant_ID,vamp_ratio_pct,monthly_transactions,tc40_fraud_count,tc15_dispute_count",
+      "2026-06,m1,,12000,34,38",
+      "2026-07,m1,0.48,,,",
+      "2026-08,m1,,12000,34,",
+    ].join("\n"));
+    expect(rows[0]).toEqual({ row: 1, data: { month: "2026-06", merchant_id: "m1", monthly_transactions: 12000, tc40_fraud_count: 34, tc15_dispute_count: 38 } });
+    expect(snapshotFromRow(rows[0].data!)).toMatchObject({ vamp_ratio_pct: 0.6, tier: "standard", source: "import" });
+    expect(rows[1].data).toMatchObject({ vamp_ratio_pct: 0.48 });
+    expect(rows[2]).toEqual({ row: 3, error: expect.stringContaining("Provide vamp_ratio_pct") });
+  });
+});
+
+describe("VAMPHistoryStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vamp-history-"));
+    file = path.join(dir, "vamp-history.json");
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("persists imports, replacing an earlier import of the same month", () => {
+    const store = new VAMPHistoryStore(file);
+    store.import(snapshots("m1", [["2026-05", 0.5], ["2026-06", 0.6]]));
+    store.import([{ ...snapshots("m1", [["2026-06", 0.9]])[0], visa_merchant_id: "V123" }]);
+
+    const reopened = new VAMPHistoryStore(file);
+    expect(reopened.snapshots("m1").map(s => [s.month, s.vamp_ratio_pct])).toEqual([["2026-05", 0.5], ["2026-06", 0.9]]);
+    expect(reopened.snapshots("m1", 1).map(s => s.month)).toEqual(["2026-06"]);
+    expect(reopened.merchantForVisaId("V123")).toBe("m1");
+  });
+
+  it("records simulated months without overwriting imported ones", () => {
+    const store = new VAMPHistoryStore(file);
+    const simulated = (month: string, ratio: number) => snapshotFromRow({ month, merchant_id: "m1", vamp_ratio_pct: ratio }, "simulation");
+    store.import(snapshots("m1", [["2026-05", 0.5]]));
+
+    expect(store.record(simulated("2026-05", 0.8))).toBe(false);
+    expect(store.record(simulated("2026-06", 0.7))).toBe(true);
+    expect(store.record(simulated("2026-06", 0.6))).toBe(true);
+    store.import(snapshots("m1", [["2026-06", 0.65]]));
+
+    expect(new VAMPHistoryStore(file).snapshots("m1").map(s => [s.month, s.vamp_ratio_pct, s.source])).toEqual([
+      ["2026-05", 0.5, "import"],
+      ["2026-06", 0.65, "import"],
+    ]);
+  });
+
+  it("re-tiers stored snapshots by the threshold in force each month", () => {
+    const [stored] = snapshots("m1", [["2026-06", 1.6]]);
+    fs.writeFileSync(file, JSON.stringify([{ ...stored, tier: "standard" }]));
+    expect(new VAMPHistoryStore(file).snapshots("m1")).toEqual([expect.objectContaining({ month: "2026-06", tier: "excessive" })]);
+  });
+});
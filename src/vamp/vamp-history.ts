@@ -0,0 +1,216 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { parseCsvRecords } from "../batch/transaction-batch.js";
+import { vampHistoryRowSchema } from "../schemas/schemas.js";
+import { vampThreshold } from "./vamp-simulator.js";
+import { logger } from "../utils/logger.js";
+import type { VAMPHistorySummary, VAMPSnapshot, VAMPTier, VAMPTrend } from "../types/index.js";
+
+/** Slopes smaller than this, in percentage points per month, read as stable */
+const STABLE_SLOPE_PCT = 0.01;
+
+/** Ratio whose crossing is projected unless a caller asks for another, in percent */
+export const VAMP_PROJECTION_THRESHOLD_PCT = 0.9;
+
+/** Crossings further out than this are not projected */
+const PROJECTION_HORIZON_MONTHS = 24;
+
+export type VAMPHistoryRow = z.infer<typeof vampHistoryRowSchema>;
+
+const NUMERIC_COLUMNS = new Set([
+  "vamp_ratio_pct", "fraud_rate", "dispute_rate", "monthly_transactions", "tc40_fraud_count", "tc15_dispute_count",
+]);
+
+/** Tier of a ratio under the threshold in force on a date or month */
+export function vampTier(ratioPct: number, asOf: string): VAMPTier {
+  const threshold = vampThreshold(asOf);
+  if (ratioPct < threshold.at_risk_pct) return "standard";
+  if (ratioPct < threshold.excessive_pct) return "monitored";
+  return "excessive";
+}
+
+const monthIndex = (month: string) => Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1;
+const monthOf = (index: number) => `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+const round = (n: number, digits = 4) => parseFloat(n.toFixed(digits));
+
+/**
+ * Trend, tier counts and projected crossing of `thresholdPct` for a merchant's
+ * snapshots, from a least-squares line through the ratio by month. Gaps between
+ * months are kept as gaps, not closed up. Null when there are no snapshots.
+ */
+export function summarizeVAMPHistory(
+  snapshots: VAMPSnapshot[],
+  thresholdPct = VAMP_PROJECTION_THRESHOLD_PCT,
+): VAMPHistorySummary | null {
+  if (snapshots.length === 0) return null;
+  const sorted = [...snapshots].sort((a, b) => a.month.localeCompare(b.month));
+  const xs = sorted.map(s => monthIndex(s.month));
+  const ys = sorted.map(s => s.vamp_ratio_pct);
+  const n = sorted.length;
+
+  const meanX = xs.reduce((a, x) => a + x, 0) / n;
+  const meanY = ys.reduce((a, y) => a + y, 0) / n;
+  const sxx = xs.reduce((a, x) => a + (x - meanX) ** 2, 0);
+  const sxy = xs.reduce((a, x, i) => a + (x - meanX) * (ys[i] - meanY), 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+
+  const trend: VAMPTrend = slope <= -STABLE_SLOPE_PCT ? "improving" : slope >= STABLE_SLOPE_PCT ? "declining" : "stable";
+
+  const monthsInTier: Record<VAMPTier, number> = { standard: 0, monitored: 0, excessive: 0 };
+  for (const s of sorted) monthsInTier[s.tier]++;
+  const latest = sorted[n - 1];
+  let streak = 0;
+  for (let i = n - 1; i >= 0 && sorted[i].tier === latest.tier; i--) streak++;
+
+  // Only a rising trend from below the threshold has a crossing to project
+  let projected: string | null = null;
+  const lastIndex = xs[n - 1];
+  if (latest.vamp_ratio_pct < thresholdPct && slope > 0) {
+    const crossing = Math.max(lastIndex + 1, Math.ceil(round((thresholdPct - intercept) / slope, 6)));
+    if (crossing - lastIndex <= PROJECTION_HORIZON_MONTHS) projected = monthOf(crossing);
+  }
+
+  return {
+    months: n,
+    first_month: sorted[0].month,
+    last_month: latest.month,
+    latest_ratio_pct: latest.vamp_ratio_pct,
+    slope_pct_per_month: round(slope),
+    monthly_trend: trend,
+    months_in_tier: monthsInTier,
+    current_tier: latest.tier,
+    current_tier_months: streak,
+    threshold_pct: thresholdPct,
+    projected_threshold_month: projected,
+  };
+}
+
+/**
+ * Parse a CSV of historical months into validated rows. Row numbers are 1-based
+ * and count data rows only; invalid rows carry an error instead of failing the file.
+ */
+export function parseVAMPHistoryCsv(payload: string): Array<{ row: number; data?: VAMPHistoryRow; error?: string }> {
+  const [header, ...records] = parseCsvRecords(payload);
+  if (!header) return [];
+  const columns = header.map(h => h.trim().toLowerCase());
+
+  return records.map((record, i) => {
+    const raw: Record<string, unknown> = {};
+    columns.forEach((col, c) => {
+      const value = record[c]?.trim();
+      if (!col || value === undefined || value === "") return;
+      raw[col] = NUMERIC_COLUMNS.has(col) && !isNaN(Number(value)) ? Number(value) : value;
+    });
+    const parsed = vampHistoryRowSchema.safeParse(raw);
+    if (parsed.success) return { row: i + 1, data: parsed.data };
+    return { row: i + 1, error: parsed.error.issues.map(e => `${e.path.join(".") || "row"}: ${e.message}`).join("; ") };
+  });
+}
+
+/** Snapshot for a row of monthly figures; the ratio is computed from the counts when the row has none */
+export function snapshotFromRow(row: VAMPHistoryRow, source: VAMPSnapshot["source"] = "import", now = new Date()): VAMPSnapshot {
+  const counted = row.monthly_transactions !== undefined && row.tc40_fraud_count !== undefined && row.tc15_dispute_count !== undefined
+    ? ((row.tc40_fraud_count + row.tc15_dispute_count) / row.monthly_transactions) * 100
+    : 0;
+  const ratio = round(row.vamp_ratio_pct ?? counted, 3);
+  return {
+    merchant_id: row.merchant_id,
+    visa_merchant_id: row.visa_merchant_id ?? null,
+    month: row.month,
+    vamp_ratio_pct: ratio,
+    tier: vampTier(ratio, row.month),
+    fraud_rate: row.fraud_rate ?? null,
+    dispute_rate: row.dispute_rate ?? null,
+    monthly_transactions: row.monthly_transactions ?? null,
+    tc40_fraud_count: row.tc40_fraud_count ?? null,
+    tc15_dispute_count: row.tc15_dispute_count ?? null,
+    source,
+    recorded_at: now.toISOString(),
+  };
+}
+
+/**
+ * Monthly VAMP snapshots per merchant, one per calendar month, persisted as a JSON
+ * file so trends survive restarts (in memory only without a file). Months come from
+ * simulations of the merchant's counts or from imports: a later import replaces a
+ * month, a simulation in an imported month does not.
+ */
+export class VAMPHistoryStore {
+  private readonly filePath: string | null;
+  private readonly merchants = new Map<string, Map<string, VAMPSnapshot>>();
+
+  constructor(filePath?: string) {
+    this.filePath = filePath ?? null;
+    this.load();
+  }
+
+  private load() {
+    if (!this.filePath) return;
+    if (!fs.existsSync(this.filePath)) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      return;
+    }
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as VAMPSnapshot[];
+      // Tiers follow the threshold in force each month, whichever bands were used when stored
+      for (const snapshot of saved) this.put({ ...snapshot, tier: vampTier(snapshot.vamp_ratio_pct, snapshot.month) });
+      logger.info(`VAMP history loaded for ${this.merchants.size} merchant(s) from ${this.filePath}`);
+    } catch (err) {
+      logger.warn(`VAMP history file ${this.filePath} is unreadable, starting empty: ${(err as Error).message}`);
+    }
+  }
+
+  private save() {
+    if (!this.filePath) return;
+    const all = [...this.merchants.values()].flatMap(months => [...months.values()]);
+    try {
+      // Write-then-rename so a crash mid-write never leaves a truncated file
+      const tmp = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(all));
+      fs.renameSync(tmp, this.filePath);
+    } catch (err) {
+      logger.error(`Failed to persist VAMP history: ${(err as Error).message}`);
+    }
+  }
+
+  private put(snapshot: VAMPSnapshot): boolean {
+    const months = this.merchants.get(snapshot.merchant_id) ?? new Map<string, VAMPSnapshot>();
+    const existing = months.get(snapshot.month);
+    if (existing?.source === "import" && snapshot.source === "simulation") return false;
+    months.set(snapshot.month, snapshot);
+    this.merchants.set(snapshot.merchant_id, months);
+    return true;
+  }
+
+  /** Record a month simulated from the merchant's counts, unless that month was imported */
+  record(snapshot: VAMPSnapshot): boolean {
+    const recorded = this.put(snapshot);
+    if (recorded) this.save();
+    return recorded;
+  }
+
+  /** Store imported months, replacing any earlier snapshot for the same merchant and month */
+  import(snapshots: VAMPSnapshot[]): void {
+    for (const snapshot of snapshots) this.put(snapshot);
+    if (snapshots.length > 0) this.save();
+  }
+
+  /** The merchant's most recent snapshots, oldest first */
+  snapshots(merchantId: string, months = 24): VAMPSnapshot[] {
+    const all = [...(this.merchants.get(merchantId)?.values() ?? [])].sort((a, b) => a.month.localeCompare(b.month));
+    return all.slice(-months);
+  }
+
+  /** Merchant whose snapshots carry this Visa merchant ID, most recently recorded first */
+  merchantForVisaId(visaMerchantId: string): string | null {
+    let found: VAMPSnapshot | null = null;
+    for (const months of this.merchants.values()) {
+      for (const s of months.values()) {
+        if (s.visa_merchant_id === visaMerchantId && (!found || s.recorded_at > found.recorded_at)) found = s;
+      }
+    }
+    return found?.merchant_id ?? null;
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "@jest/globals";
+import { VAMPInputs, cleanTransactionsToThreshold, rankVAMPLevers, vampCounts, vampStatus, vampThreshold } from "./vamp-simulator.js";
+
+const inputs = (overrides: Partial<VAMPInputs> = {}): VAMPInputs => ({
+  monthly_transactions: 100_000,
+  tc40_fraud_count: 800,
+  tc15_dispute_count: 1000,
+  three_ds_coverage_pct: 0,
+  rdr_enrolled: false,
+  rdr_resolution_rate_pct: 0,
+  cdrn_enrolled: false,
+  cdrn_resolution_rate_pct: 0,
+  ...overrides,
+});
+
+describe("vampThreshold", () => {
+  it("picks the threshold in force on a date or month", () => {
+    expect(vampThreshold("2026-03-31T23:59:59Z")).toEqual({ excessive_pct: 2.2, at_risk_pct: 1.65, effective_from: "2025-04-01" });
+    expect(vampThreshold("2026-04-01")).toEqual({ excessive_pct: 1.5, at_risk_pct: 1.125, effective_from: "2026-04-01" });
+    expect(vampThreshold("2026-04").excessive_pct).toBe(1.5);
+    expect(vampThreshold("2026-03").excessive_pct).toBe(2.2);
+  });
+
+  it("falls back to the earliest threshold before the schedule starts", () => {
+    expect(vampThreshold("2024-12-01").excessive_pct).toBe(2.2);
+  });
+});
+
+describe("vampCounts", () => {
+  it("excludes disputes resolved through RDR first, then CDRN", () => {
+    const counts = vampCounts(inputs({
+      tc40_fraud_count: 600,
+      rdr_enrolled: true,
+      rdr_resolution_rate_pct: 50,
+      cdrn_enrolled: true,
+      cdrn_resolution_rate_pct: 30,
+    }));
+    expect(counts).toEqual({ ratio_pct: 0.95, counted_fraud: 600, counted_disputes: 350, excluded_disputes: 650 });
+  });
+
+  it("ignores resolution rates without enrollment", () => {
+    expect(vampCounts(inputs({ rdr_resolution_rate_pct: 50 })).ratio_pct).toBeCloseTo(1.8);
+    expect(vampCounts(inputs({ monthly_transactions: 0 })).ratio_pct).toBe(0);
+  });
+});
+
+describe("vampStatus", () => {
+  const threshold = vampThreshold("2026-10-01");
+
+  it("needs the minimum count to identify a merchant as excessive", () => {
+    expect(vampStatus(vampCounts(inputs({ tc40_fraud_count: 600 })), threshold)).toBe("excessive");
+    expect(vampStatus(vampCounts(inputs({ monthly_transactions: 10_000, tc40_fraud_count: 60, tc15_dispute_count: 100 })), threshold)).toBe("at_risk");
+  });
+
+  it("reports at_risk from three quarters of the threshold", () => {
+    expect(vampStatus(vampCounts(inputs({ tc40_fraud_count: 200 })), threshold)).toBe("at_risk");
+    expect(vampStatus(vampCounts(inputs({ tc40_fraud_count: 100 })), threshold)).toBe("standard");
+    // 1.2% was standard under the 2.2% threshold
+    expect(vampStatus(vampCounts(inputs({ tc40_fraud_count: 200 })), vampThreshold("2025-10-01"))).toBe("standard");
+  });
+});
+
+describe("rankVAMPLevers", () => {
+  it("ranks levers by projected ratio reduction", () => {
+    const levers = rankVAMPLevers(inputs(), vampThreshold("2026-10-01"));
+    expect(levers.map(l => [l.lever, l.projected_ratio_pct, l.ratio_reduction_pct, l.projected_status])).toEqual([
+      ["combined", 0.59, 1.21, "standard"],
+      ["three_ds_full_coverage", 1.24, 0.56, "at_risk"],
+      ["rdr", 1.3, 0.5, "at_risk"],
+      ["cdrn", 1.5, 0.3, "excessive"],
+    ]);
+  });
+
+  it("leaves out levers already at their target", () => {
+    const levers = rankVAMPLevers(inputs({
+      three_ds_coverage_pct: 100,
+      rdr_enrolled: true,
+      rdr_resolution_rate_pct: 60,
+    }), vampThreshold("2026-10-01"));
+    expect(levers.map(l => l.lever)).toEqual(["cdrn"]);
+  });
+});
+
+describe("cleanTransactionsToThreshold", () => {
+  it("counts the clean volume that brings the ratio under the threshold", () => {
+    const threshold = vampThreshold("2026-10-01");
+    const needed = cleanTransactionsToThreshold(inputs(), threshold);
+    expect(needed).toBe(20_001);
+    expect(vampCounts(inputs({ monthly_transactions: 100_000 + needed })).ratio_pct).toBeLessThan(threshold.excessive_pct);
+    expect(cleanTransactionsToThreshold(inputs({ tc40_fraud_count: 100 }), threshold)).toBe(0);
+  });
+});
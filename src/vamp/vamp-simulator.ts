@@ -0,0 +1,155 @@
+import type { VAMPLever, VAMPStatus } from "../types/index.js";
+
+/**
+ * Visa's merchant "Excessive" VAMP threshold by effective date. The ratio is
+ * (TC40 fraud reports + TC15 disputes) / settled card-not-present transactions,
+ * with disputes resolved through RDR or CDRN excluded from the dispute count.
+ */
+export const VAMP_THRESHOLDS: Array<{ effective_from: string; excessive_pct: number }> = [
+  { effective_from: "2025-04-01", excessive_pct: 2.2 },
+  { effective_from: "2026-04-01", excessive_pct: 1.5 },
+];
+
+/** A merchant is only identified as Excessive with at least this many fraud reports plus disputes in the month */
+export const VAMP_MINIMUM_COUNT = 1500;
+
+/** Share of its threshold at which a merchant is reported at_risk */
+const AT_RISK_SHARE = 0.75;
+
+/** Assumed fraud reduction on transactions moved to 3-D Secure */
+const THREE_DS_FRAUD_REDUCTION = 0.7;
+
+const round = (n: number, digits = 3) => parseFloat(n.toFixed(digits));
+
+/** Resolution rates the enrollment levers project to */
+const RDR_TARGET_RATE = 0.5;
+const CDRN_TARGET_RATE = 0.3;
+
+export interface VAMPInputs {
+  monthly_transactions: number;
+  tc40_fraud_count: number;
+  tc15_dispute_count: number;
+  three_ds_coverage_pct: number;
+  rdr_enrolled: boolean;
+  rdr_resolution_rate_pct: number;
+  cdrn_enrolled: boolean;
+  cdrn_resolution_rate_pct: number;
+}
+
+export interface VAMPCounts {
+  ratio_pct: number;
+  counted_fraud: number;
+  counted_disputes: number;
+  excluded_disputes: number;
+}
+
+export interface VAMPThreshold {
+  excessive_pct: number;
+  /** Ratio from which a merchant is reported at_risk (the "monitored" history tier) */
+  at_risk_pct: number;
+  effective_from: string;
+}
+
+/**
+ * Threshold in force on a date (YYYY-MM-DD, YYYY-MM or ISO timestamp; a month
+ * means its first day). Every VAMP tier and distance is measured against this.
+ */
+export function vampThreshold(asOf: string): VAMPThreshold {
+  const day = asOf.length === 7 ? `${asOf}-01` : asOf.slice(0, 10);
+  const current = [...VAMP_THRESHOLDS].reverse().find(t => t.effective_from <= day) ?? VAMP_THRESHOLDS[0];
+  return {
+    excessive_pct: current.excessive_pct,
+    at_risk_pct: round(current.excessive_pct * AT_RISK_SHARE),
+    effective_from: current.effective_from,
+  };
+}
+
+/** Disputes RDR resolves first; CDRN alerts then resolve a share of the rest */
+export function vampCounts(inputs: VAMPInputs): VAMPCounts {
+  const rdr = inputs.rdr_enrolled ? inputs.rdr_resolution_rate_pct / 100 : 0;
+  const cdrn = inputs.cdrn_enrolled ? inputs.cdrn_resolution_rate_pct / 100 : 0;
+  const counted = inputs.tc15_dispute_count * (1 - rdr) * (1 - cdrn);
+  const total = inputs.tc40_fraud_count + counted;
+  return {
+    ratio_pct: inputs.monthly_transactions > 0 ? (total / inputs.monthly_transactions) * 100 : 0,
+    counted_fraud: inputs.tc40_fraud_count,
+    counted_disputes: counted,
+    excluded_disputes: inputs.tc15_dispute_count - counted,
+  };
+}
+
+export function vampStatus(counts: VAMPCounts, threshold: VAMPThreshold): VAMPStatus {
+  if (counts.ratio_pct >= threshold.excessive_pct) {
+    return counts.counted_fraud + counts.counted_disputes >= VAMP_MINIMUM_COUNT ? "excessive" : "at_risk";
+  }
+  return counts.ratio_pct >= threshold.at_risk_pct ? "at_risk" : "standard";
+}
+
+/**
+ * Project the ratio under each remediation lever that would change it, ranked
+ * by how much it brings the ratio down. Levers already at their target are left out.
+ */
+export function rankVAMPLevers(inputs: VAMPInputs, threshold: VAMPThreshold): VAMPLever[] {
+  const current = vampCounts(inputs);
+  const candidates: Array<{ lever: string; description: string; changes: Partial<VAMPInputs> }> = [];
+
+  if (inputs.three_ds_coverage_pct < 100) {
+    // Back out the fraud rate on unprotected volume, then move all volume under 3DS
+    const coverage = inputs.three_ds_coverage_pct / 100;
+    const unprotectedFraud = inputs.tc40_fraud_count / (1 - THREE_DS_FRAUD_REDUCTION * coverage);
+    candidates.push({
+      lever: "three_ds_full_coverage",
+      description: `Extend 3-D Secure from ${inputs.three_ds_coverage_pct}% to all card-not-present volume`,
+      changes: { three_ds_coverage_pct: 100, tc40_fraud_count: unprotectedFraud * (1 - THREE_DS_FRAUD_REDUCTION) },
+    });
+  }
+  const rdrRate = inputs.rdr_enrolled ? inputs.rdr_resolution_rate_pct : 0;
+  if (rdrRate < RDR_TARGET_RATE * 100) {
+    candidates.push({
+      lever: "rdr",
+      description: inputs.rdr_enrolled
+        ? `Widen Visa RDR auto-resolution rules from ${rdrRate}% to ${RDR_TARGET_RATE * 100}% of disputes`
+        : `Enroll in Visa Rapid Dispute Resolution (RDR), resolving ~${RDR_TARGET_RATE * 100}% of disputes before they count`,
+      changes: { rdr_enrolled: true, rdr_resolution_rate_pct: RDR_TARGET_RATE * 100 },
+    });
+  }
+  const cdrnRate = inputs.cdrn_enrolled ? inputs.cdrn_resolution_rate_pct : 0;
+  if (cdrnRate < CDRN_TARGET_RATE * 100) {
+    candidates.push({
+      lever: "cdrn",
+      description: inputs.cdrn_enrolled
+        ? `Refund more Verifi CDRN alerts, from ${cdrnRate}% to ${CDRN_TARGET_RATE * 100}% of remaining disputes`
+        : `Enroll in Verifi CDRN alerts and refund ~${CDRN_TARGET_RATE * 100}% of remaining disputes before they become chargebacks`,
+      changes: { cdrn_enrolled: true, cdrn_resolution_rate_pct: CDRN_TARGET_RATE * 100 },
+    });
+  }
+  if (candidates.length > 1) {
+    candidates.push({
+      lever: "combined",
+      description: "All of the above together",
+      changes: Object.assign({}, ...candidates.map(c => c.changes)),
+    });
+  }
+
+  return candidates
+    .map(c => {
+      const projected = vampCounts({ ...inputs, ...c.changes });
+      return {
+        lever: c.lever,
+        description: c.description,
+        projected_ratio_pct: round(projected.ratio_pct),
+        ratio_reduction_pct: round(current.ratio_pct - projected.ratio_pct),
+        projected_status: vampStatus(projected, threshold),
+      };
+    })
+    .filter(l => l.ratio_reduction_pct > 0)
+    .sort((a, b) => b.ratio_reduction_pct - a.ratio_reduction_pct);
+}
+
+/** Extra settled transactions, with no fraud or disputes, that would bring the ratio under the threshold */
+export function cleanTransactionsToThreshold(inputs: VAMPInputs, threshold: VAMPThreshold): number {
+  const counts = vampCounts(inputs);
+  if (counts.ratio_pct < threshold.excessive_pct) return 0;
+  const total = counts.counted_fraud + counts.counted_disputes;
+  return Math.max(0, Math.floor(total / (threshold.excessive_pct / 100)) + 1 - inputs.monthly_transactions);
+}
@@ -0,0 +1,68 @@
+import { parseArgs } from "node:util";
+import { WalletLists } from "./wallets/wallet-lists.js";
+import { parseWalletAddress } from "./wallets/wallet-address.js";
+
+const USAGE = `Usage: wallet-lists-cli <refresh|status|check> [options]
+
+  refresh                Download the lists that have a url and replace their files;
+                         exits 1 if any download failed
+  status                 Print each list's file, entry count and OFAC publish date
+  check <address>        Validate an address and print the lists it appears on;
+                         exits 1 on a match
+
+Options:
+  --file <path>          Wallet lists file (default: $MERCHANTGUARD_WALLET_LISTS_FILE)
+  --list <id>            refresh: only this list (repeatable)
+`;
+
+async function main(): Promise<number> {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      file: { type: "string" },
+      list: { type: "string", multiple: true },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = positionals[0];
+  if (values.help || !["refresh", "status", "check"].includes(command)) {
+    process.stderr.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const file = values.file ?? process.env.MERCHANTGUARD_WALLET_LISTS_FILE;
+  if (!file) {
+    process.stderr.write("No wallet lists file: pass --file or set MERCHANTGUARD_WALLET_LISTS_FILE\n");
+    return 2;
+  }
+  const lists = WalletLists.load(file);
+
+  if (command === "refresh") {
+    const results = await lists.refresh(values.list);
+    for (const r of results) process.stdout.write(JSON.stringify(r) + "\n");
+    return results.some(r => r.status === "failed") ? 1 : 0;
+  }
+
+  if (command === "status") {
+    for (const s of lists.status()) process.stdout.write(JSON.stringify(s) + "\n");
+    return 0;
+  }
+
+  const address = positionals[1];
+  if (!address) {
+    process.stderr.write("check needs an address\n");
+    return 2;
+  }
+  const matches = lists.match(address);
+  process.stdout.write(JSON.stringify({ ...parseWalletAddress(address), matches }, null, 2) + "\n");
+  return matches.length > 0 ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    process.stderr.write(`${(err as Error).message}\n`);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,18 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "@jest/globals";
+import { keccak256 } from "./keccak.js";
+
+describe("keccak256", () => {
+  it.each([
+    ["", "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470"],
+    ["abc", "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45"],
+  ])("hashes %j as Ethereum does", (input, digest) => {
+    expect(keccak256(Buffer.from(input)).toString("hex")).toBe(digest);
+  });
+
+  it.each([0, 1, 135, 136, 137, 272, 1000])("matches node's SHA3-256 with its padding byte for %i bytes", length => {
+    // Lengths either side of the 136-byte rate exercise padding and multi-block absorption
+    const data = Buffer.alloc(length, 0).map((_, i) => (i * 31 + 7) & 0xff);
+    expect(keccak256(data, 0x06).toString("hex")).toBe(createHash("sha3-256").update(data).digest("hex"));
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Keccak-256 as used by Ethereum. It differs from the standardized SHA3-256 that
+ * node:crypto provides only in its padding byte, but that changes every output,
+ * so EIP-55 checksums need the original.
+ */
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+/** Rotation offsets by lane index x + 5y */
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+];
+
+const MASK = (1n << 64n) - 1n;
+const RATE_BYTES = 136;
+
+const rotl = (v: bigint, n: number): bigint => (n === 0 ? v : ((v << BigInt(n)) | (v >> BigInt(64 - n))) & MASK);
+
+function keccakF(state: bigint[]) {
+  for (const rc of ROUND_CONSTANTS) {
+    const c = [0, 1, 2, 3, 4].map(x => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+    const b = new Array<bigint>(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+    }
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) state[x + y] = b[x + y] ^ (~b[((x + 1) % 5) + y] & MASK & b[((x + 2) % 5) + y]);
+    }
+    state[0] ^= rc;
+  }
+}
+
+/** Sponge with 256-bit output; padByte 0x01 is Keccak, 0x06 would be SHA3-256 */
+export function keccak256(data: Uint8Array, padByte = 0x01): Buffer {
+  const padded = Buffer.alloc(Math.floor(data.length / RATE_BYTES + 1) * RATE_BYTES);
+  padded.set(data);
+  padded[data.length] ^= padByte;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += RATE_BYTES) {
+    for (let i = 0; i < RATE_BYTES / 8; i++) state[i] ^= padded.readBigUInt64LE(offset + i * 8);
+    keccakF(state);
+  }
+
+  const out = Buffer.alloc(32);
+  for (let i = 0; i < 4; i++) out.writeBigUInt64LE(state[i], i * 8);
+  return out;
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "@jest/globals";
+import { base58Decode, eip55Checksum, parseWalletAddress, walletMatchKey } from "./wallet-address.js";
+
+/** Swap one character for another of the same alphabet, keeping the case */
+const mistype = (address: string, at: number) => {
+  const c = address[at];
+  const swapped = c === "q" ? "p" : c === "Q" ? "P" : /[0-9]/.test(c) ? String((Number(c) % 9) + 1) : c === c.toUpperCase() ? "Q" : "q";
+  return address.slice(0, at) + swapped + address.slice(at + 1);
+};
+
+describe("eip55Checksum", () => {
+  // The mixed-case examples from EIP-55
+  it.each([
+    "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+    "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359",
+    "0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB",
+    "0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb",
+  ])("checksums %s", address => {
+    expect(eip55Checksum(address.toLowerCase())).toBe(address);
+    expect(parseWalletAddress(address)).toEqual({
+      chain: "evm",
+      address_type: "account",
+      network: null,
+      valid: true,
+      checksum: "valid",
+      normalized: address.toLowerCase(),
+      issues: [],
+    });
+  });
+});
+
+describe("parseWalletAddress", () => {
+  it("accepts single-case EVM addresses without a checksum and rejects a wrong one", () => {
+    expect(parseWalletAddress("0x52908400098527886E0F7030069857D2E4169EE7")).toMatchObject({ valid: true, checksum: "absent" });
+    expect(parseWalletAddress("0xde709f2102306220921060314715629080e2fb77")).toMatchObject({ valid: true, checksum: "absent" });
+    expect(parseWalletAddress("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD")).toMatchObject({
+      valid: false,
+      checksum: "invalid",
+      issues: ["EIP-55 checksum mismatch: the address was mistyped or altered"],
+    });
+    expect(parseWalletAddress("0x5aAeb6053F3E94C9")).toMatchObject({ chain: "evm", valid: false });
+  });
+
+  // Valid addresses from BIP 173 and BIP 350
+  it.each([
+    ["BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4", "p2wpkh", "mainnet"],
+    ["tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7", "p2wsh", "testnet"],
+    ["bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0", "p2tr", "mainnet"],
+    ["tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c", "p2tr", "testnet"],
+    ["bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y", "witness_v1", "mainnet"],
+  ])("accepts bech32 address %s", (address, type, network) => {
+    expect(parseWalletAddress(address)).toMatchObject({
+      chain: "bitcoin",
+      address_type: type,
+      network,
+      valid: true,
+      checksum: "valid",
+      normalized: address.toLowerCase(),
+    });
+  });
+
+  // Invalid addresses from BIP 350
+  it.each([
+    ["bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh", "Witness version 0 requires bech32 encoding"],
+    ["tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47", "Witness version 0 requires bech32 encoding"],
+    ["bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4", "Not a valid bech32 string"],
+    ["tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3Q0sl5k7", "Bech32 address mixes upper and lower case"],
+  ])("rejects bech32 address %s", (address, issue) => {
+    expect(parseWalletAddress(address)).toMatchObject({ chain: "bitcoin", valid: false, issues: [issue] });
+  });
+
+  it("catches a mistyped bech32 character", () => {
+    expect(parseWalletAddress(mistype("bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0", 20))).toMatchObject({
+      valid: false,
+      checksum: "invalid",
+      issues: ["Bech32 checksum mismatch: the address was mistyped or altered"],
+    });
+  });
+
+  it.each([
+    ["1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa", "bitcoin", "p2pkh", "mainnet"],
+    ["3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy", "bitcoin", "p2sh", "mainnet"],
+    ["mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn", "bitcoin", "p2pkh", "testnet"],
+    ["TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t", "tron", "account", "mainnet"],
+  ])("accepts base58check address %s", (address, chain, type, network) => {
+    expect(parseWalletAddress(address)).toMatchObject({ chain, address_type: type, network, valid: true, checksum: "valid", normalized: address });
+    expect(parseWalletAddress(mistype(address, 10))).toMatchObject({
+      chain,
+      valid: false,
+      checksum: "invalid",
+      issues: ["Base58check checksum mismatch: the address was mistyped or altered"],
+    });
+  });
+
+  it.each([
+    "11111111111111111111111111111111",
+    "So11111111111111111111111111111111111111112",
+    "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  ])("accepts Solana public key %s, which has no checksum", address => {
+    expect(parseWalletAddress(address)).toMatchObject({ chain: "solana", valid: true, checksum: "none", normalized: address });
+  });
+
+  it("rejects what no chain recognizes", () => {
+    expect(parseWalletAddress("not-an-address")).toMatchObject({ chain: null, valid: false, issues: ["Not a recognized EVM, Bitcoin, Solana or Tron address"] });
+    expect(parseWalletAddress("1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfN0").valid).toBe(false);
+  });
+});
+
+describe("base58Decode", () => {
+  it("keeps leading zero bytes and rejects characters outside the alphabet", () => {
+    expect(base58Decode("11111111111111111111111111111111")).toEqual(Buffer.alloc(32));
+    expect(base58Decode("1112")).toEqual(Buffer.from([0, 0, 0, 1]));
+    expect(base58Decode("0OIl")).toBeNull();
+  });
+});
+
+describe("walletMatchKey", () => {
+  it("lower-cases only the case-insensitive formats", () => {
+    expect(walletMatchKey(" 0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed ")).toBe("0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed");
+    expect(walletMatchKey("BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4")).toBe("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4");
+    expect(walletMatchKey("TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t")).toBe("TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t");
+  });
+});
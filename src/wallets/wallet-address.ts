@@ -0,0 +1,198 @@
+import { createHash } from "node:crypto";
+import { keccak256 } from "./keccak.js";
+import type { WalletChain } from "../types/index.js";
+
+/**
+ * Chain detection and format validation for wallet addresses: EVM hex with
+ * EIP-55 checksums, Bitcoin base58check and bech32/bech32m (BIP 173, BIP 350),
+ * Tron base58check and Solana base58 public keys.
+ */
+
+export interface ParsedWalletAddress {
+  chain: WalletChain | null;
+  /** p2pkh, p2sh, p2wpkh, p2wsh, p2tr, witness_v<n>, or account for EVM, Tron and Solana */
+  address_type: string | null;
+  network: "mainnet" | "testnet" | null;
+  valid: boolean;
+  /** "none" when the format has no checksum (Solana) */
+  checksum: "valid" | "invalid" | "absent" | "none";
+  /** Canonical form used for list matching */
+  normalized: string | null;
+  issues: string[];
+}
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+const sha256d = (data: Uint8Array): Buffer =>
+  createHash("sha256").update(createHash("sha256").update(data).digest()).digest();
+
+export function base58Decode(value: string): Buffer | null {
+  let n = 0n;
+  for (const ch of value) {
+    const digit = BASE58_ALPHABET.indexOf(ch);
+    if (digit < 0) return null;
+    n = n * 58n + BigInt(digit);
+  }
+  const hex = n === 0n ? "" : n.toString(16);
+  const body = Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex");
+  const leadingZeros = value.length - value.replace(/^1+/, "").length;
+  return Buffer.concat([Buffer.alloc(leadingZeros), body]);
+}
+
+/** Payload of a base58check string, or null when the checksum fails */
+function base58CheckPayload(bytes: Buffer): Buffer | null {
+  if (bytes.length < 5) return null;
+  const payload = bytes.subarray(0, -4);
+  return sha256d(payload).subarray(0, 4).equals(bytes.subarray(-4)) ? payload : null;
+}
+
+function bech32Polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) if ((top >>> i) & 1) chk ^= generators[i];
+  }
+  return chk >>> 0;
+}
+
+const hrpExpand = (hrp: string): number[] =>
+  [...[...hrp].map(c => c.charCodeAt(0) >> 5), 0, ...[...hrp].map(c => c.charCodeAt(0) & 31)];
+
+/** Regroup bits, e.g. 5-bit bech32 words into bytes; null on leftover non-zero padding */
+function convertBits(data: number[], from: number, to: number, pad: boolean): number[] | null {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  const maxv = (1 << to) - 1;
+  for (const value of data) {
+    acc = (acc << from) | value;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      out.push((acc >> bits) & maxv);
+    }
+  }
+  if (pad && bits > 0) out.push((acc << (to - bits)) & maxv);
+  else if (!pad && (bits >= from || ((acc << (to - bits)) & maxv))) return null;
+  return out;
+}
+
+export function eip55Checksum(address: string): string {
+  const hex = address.slice(2).toLowerCase();
+  const hash = keccak256(Buffer.from(hex, "ascii")).toString("hex");
+  return "0x" + [...hex].map((c, i) => (parseInt(hash[i], 16) >= 8 ? c.toUpperCase() : c)).join("");
+}
+
+const invalid = (chain: WalletChain | null, issue: string, checksum: ParsedWalletAddress["checksum"] = "absent"): ParsedWalletAddress =>
+  ({ chain, address_type: null, network: null, valid: false, checksum, normalized: null, issues: [issue] });
+
+function parseEvm(address: string): ParsedWalletAddress {
+  const hex = address.slice(2);
+  const base = { chain: "evm" as const, address_type: "account", network: null, normalized: address.toLowerCase() };
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) {
+    return { ...base, valid: true, checksum: "absent", issues: ["No EIP-55 checksum (single-case address); typos can't be detected"] };
+  }
+  if (eip55Checksum(address) !== address) {
+    return { ...base, valid: false, checksum: "invalid", issues: ["EIP-55 checksum mismatch: the address was mistyped or altered"] };
+  }
+  return { ...base, valid: true, checksum: "valid", issues: [] };
+}
+
+function parseBech32(address: string): ParsedWalletAddress {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    return invalid("bitcoin", "Bech32 address mixes upper and lower case", "invalid");
+  }
+  const lower = address.toLowerCase();
+  const sep = lower.lastIndexOf("1");
+  const hrp = lower.slice(0, sep);
+  const data = [...lower.slice(sep + 1)].map(c => BECH32_CHARSET.indexOf(c));
+  if (lower.length > 90 || data.length < 6 || data.some(d => d < 0)) return invalid("bitcoin", "Not a valid bech32 string", "invalid");
+
+  const constant = bech32Polymod([...hrpExpand(hrp), ...data]);
+  if (constant !== BECH32_CONST && constant !== BECH32M_CONST) {
+    return invalid("bitcoin", "Bech32 checksum mismatch: the address was mistyped or altered", "invalid");
+  }
+  const version = data[0];
+  const program = convertBits(data.slice(1, -6), 5, 8, false);
+  if (version > 16 || !program || program.length < 2 || program.length > 40) {
+    return invalid("bitcoin", "Invalid segwit witness program", "valid");
+  }
+  // BIP 350: version 0 keeps bech32, later versions must use bech32m
+  if ((version === 0) !== (constant === BECH32_CONST)) {
+    return invalid("bitcoin", `Witness version ${version} requires ${version === 0 ? "bech32" : "bech32m"} encoding`, "invalid");
+  }
+  if (version === 0 && program.length !== 20 && program.length !== 32) {
+    return invalid("bitcoin", "Version 0 witness program must be 20 or 32 bytes", "valid");
+  }
+  const type = version === 0 ? (program.length === 20 ? "p2wpkh" : "p2wsh") : version === 1 && program.length === 32 ? "p2tr" : `witness_v${version}`;
+  return {
+    chain: "bitcoin",
+    address_type: type,
+    network: hrp === "bc" ? "mainnet" : "testnet",
+    valid: true,
+    checksum: "valid",
+    normalized: lower,
+    issues: [],
+  };
+}
+
+const BASE58CHECK_VERSIONS: Record<number, { chain: WalletChain; type: string; network: "mainnet" | "testnet" }> = {
+  0x00: { chain: "bitcoin", type: "p2pkh", network: "mainnet" },
+  0x05: { chain: "bitcoin", type: "p2sh", network: "mainnet" },
+  0x6f: { chain: "bitcoin", type: "p2pkh", network: "testnet" },
+  0xc4: { chain: "bitcoin", type: "p2sh", network: "testnet" },
+  0x41: { chain: "tron", type: "account", network: "mainnet" },
+};
+
+function parseBase58(address: string): ParsedWalletAddress | null {
+  const bytes = base58Decode(address);
+  if (!bytes) return null;
+
+  if (bytes.length === 25) {
+    const version = BASE58CHECK_VERSIONS[bytes[0]];
+    // Guess the chain from the leading character so a bad checksum still names it
+    const chain = version?.chain ?? (address.startsWith("T") ? "tron" : "bitcoin");
+    if (!base58CheckPayload(bytes)) {
+      return invalid(chain, "Base58check checksum mismatch: the address was mistyped or altered", "invalid");
+    }
+    if (!version) return invalid(chain, `Unknown base58check version byte 0x${bytes[0].toString(16)}`, "valid");
+    return { chain: version.chain, address_type: version.type, network: version.network, valid: true, checksum: "valid", normalized: address, issues: [] };
+  }
+  // Solana addresses are bare ed25519 public keys: 32 bytes, no checksum
+  if (bytes.length === 32 && address.length >= 32 && address.length <= 44) {
+    return {
+      chain: "solana",
+      address_type: "account",
+      network: null,
+      valid: true,
+      checksum: "none",
+      normalized: address,
+      issues: ["Solana addresses carry no checksum; typos can't be detected"],
+    };
+  }
+  return null;
+}
+
+/** Detect the chain and validate format and checksum */
+export function parseWalletAddress(input: string): ParsedWalletAddress {
+  const address = input.trim();
+  if (/^0x[0-9a-fA-F]{40}$/.test(address)) return parseEvm(address);
+  if (/^0x/i.test(address)) return invalid("evm", "EVM addresses are 0x followed by 40 hex characters");
+  if (/^(bc|tb|bcrt)1/i.test(address)) return parseBech32(address);
+  return parseBase58(address) ?? invalid(null, "Not a recognized EVM, Bitcoin, Solana or Tron address");
+}
+
+/**
+ * Key for list matching: lower case where the format is case-insensitive (EVM
+ * hex, bech32), as written otherwise. Works on addresses that fail validation too,
+ * so a mistyped list entry still matches the same typo.
+ */
+export function walletMatchKey(input: string): string {
+  const address = input.trim();
+  return /^0x[0-9a-f]{40}$/i.test(address) || /^(bc|tb|bcrt)1/i.test(address) ? address.toLowerCase() : address;
+}
@@ -0,0 +1,130 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { WalletLists, parseWalletList, walletListsConfigSchema } from "./wallet-lists.js";
+import { logger } from "../utils/logger.js";
+
+const SDN_XML = `<?xml version="1.0" standalone="yes"?>
+<sdnList xmlns="https://sanctionslistservice.ofac.treas.gov/api/PublicationPreview/exports/XML">
+  <publshInformation><Publish_Date>10/15/2026</Publish_Date></publshInformation>
+  <sdnEntry>
+    <uid>36217</uid>
+    <lastName>GARANTEX EUROPE OU</lastName>
+    <sdnType>Entity</sdnType>
+    <programList><program>CYBER2</program><program>RUSSIA-EO14024</program></programList>
+    <idList>
+      <id><uid>1</uid><idType>Digital Currency Address - ETH</idType><idNumber>0x7FF9cFad3877F21d41Da833E2F775dB0569eE3D9</idNumber></id>
+      <id><uid>2</uid><idType>Registration Number</idType><idNumber>14326014</idNumber></id>
+    </idList>
+  </sdnEntry>
+</sdnList>`;
+
+const ETH = "0x7FF9cFad3877F21d41Da833E2F775dB0569eE3D9";
+
+describe("parseWalletList", () => {
+  it("reads text lists with labels and comments", () => {
+    expect(parseWalletList("text", `# denylist\n${ETH} chargeback fraud ring\n\n1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa\n`, "internal").entries).toEqual([
+      { address: ETH, asset: null, label: "chargeback fraud ring", programs: [], reference: null },
+      { address: "1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa", asset: null, label: "internal", programs: [], reference: null },
+    ]);
+  });
+
+  it("reads CSV lists by column name and needs an address column", () => {
+    expect(parseWalletList("csv", `Wallet_Address,Chain,Name,Programs\n${ETH},ETH,Exchange,CYBER2;IRAN\n`).entries).toEqual([
+      { address: ETH, asset: "ETH", label: "Exchange", programs: ["CYBER2", "IRAN"], reference: null },
+    ]);
+    expect(() => parseWalletList("csv", "asset,label\nETH,x\n")).toThrow("CSV wallet list needs an address column");
+  });
+
+  it("reads the digital currency addresses of OFAC SDN entries", () => {
+    expect(parseWalletList("ofac_sdn_xml", SDN_XML)).toEqual({
+      publishDate: "10/15/2026",
+      entries: [{ address: ETH, asset: "ETH", label: "GARANTEX EUROPE OU", programs: ["CYBER2", "RUSSIA-EO14024"], reference: "SDN 36217" }],
+    });
+    expect(() => parseWalletList("ofac_sdn_xml", "<html></html>")).toThrow("Not an OFAC SDN list: no <sdnList> root element");
+  });
+});
+
+describe("WalletLists", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-lists-"));
+    jest.spyOn(logger, "info").mockImplementation(() => {});
+    jest.spyOn(logger, "warn").mockImplementation(() => {});
+    jest.spyOn(logger, "error").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lists = () => new WalletLists(walletListsConfigSchema.parse({
+    lists: [
+      { id: "ofac", name: "OFAC SDN", category: "sanctions", format: "ofac_sdn_xml", path: "sdn.xml", url: "https://lists.example.test/sdn.xml" },
+      { id: "internal", category: "denylist", format: "text", path: "denylist.txt", label: "internal" },
+    ],
+  }), dir);
+
+  it("matches addresses across lists whatever their case", () => {
+    fs.writeFileSync(path.join(dir, "sdn.xml"), SDN_XML);
+    fs.writeFileSync(path.join(dir, "denylist.txt"), `${ETH.toLowerCase()}\n`);
+    const matches = lists().match(ETH.toUpperCase().replace("0X", "0x"));
+    expect(matches.map(m => [m.list_id, m.list_name, m.category, m.label])).toEqual([
+      ["ofac", "OFAC SDN", "sanctions", "GARANTEX EUROPE OU"],
+      ["internal", "internal", "denylist", "internal"],
+    ]);
+  });
+
+  it("reports missing files and picks up changed ones without a restart", () => {
+    fs.writeFileSync(path.join(dir, "sdn.xml"), SDN_XML);
+    const wallets = lists();
+    expect(wallets.status().map(s => [s.id, s.entries, s.publish_date, s.error])).toEqual([
+      ["ofac", 1, "10/15/2026", null],
+      ["internal", 0, null, "file not found"],
+    ]);
+
+    fs.writeFileSync(path.join(dir, "denylist.txt"), "1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa\n");
+    expect(wallets.match("1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa")).toHaveLength(1);
+    expect(wallets.status()[1]).toMatchObject({ entries: 1, error: null });
+  });
+
+  it("keeps serving a list whose file was replaced with something unreadable", () => {
+    const sdn = path.join(dir, "sdn.xml");
+    fs.writeFileSync(sdn, SDN_XML);
+    const wallets = lists();
+    fs.writeFileSync(sdn, "<html>maintenance</html>");
+    fs.utimesSync(sdn, new Date(), new Date(Date.now() + 5000));
+    expect(wallets.match(ETH)).toHaveLength(1);
+    expect(wallets.status()[0].error).toBe("Not an OFAC SDN list: no <sdnList> root element");
+  });
+
+  it("refreshes lists with a url and leaves the file alone when a download doesn't parse", async () => {
+    const fetchMock = jest.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(SDN_XML));
+    const wallets = lists();
+    expect(await wallets.refresh()).toEqual([
+      { id: "ofac", status: "updated", entries: 1, error: null },
+      { id: "internal", status: "skipped", entries: null, error: "no url configured" },
+    ]);
+    expect(wallets.match(ETH)).toHaveLength(1);
+
+    fetchMock.mockResolvedValueOnce(new Response("<html>maintenance</html>"));
+    expect(await wallets.refresh(["ofac"])).toEqual([
+      { id: "ofac", status: "failed", entries: null, error: "Not an OFAC SDN list: no <sdnList> root element" },
+    ]);
+    expect(fs.readFileSync(path.join(dir, "sdn.xml"), "utf8")).toBe(SDN_XML);
+    await expect(wallets.refresh(["chainalysis"])).rejects.toThrow("Unknown wallet list(s): chainalysis");
+  });
+
+  it("rejects duplicate list ids", () => {
+    const file = path.join(dir, "wallet-lists.json");
+    fs.writeFileSync(file, JSON.stringify({
+      lists: [
+        { id: "a", category: "denylist", format: "text", path: "a.txt" },
+        { id: "a", category: "denylist", format: "text", path: "b.txt" },
+      ],
+    }));
+    expect(() => WalletLists.load(file)).toThrow(/Invalid wallet lists file .* lists\.1\.id: Duplicate list id "a"/);
+  });
+});
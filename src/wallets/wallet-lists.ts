@@ -0,0 +1,243 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import YAML from "yaml";
+import { logger } from "../utils/logger.js";
+import { parseCsvRecords } from "../batch/transaction-batch.js";
+import { parseOfacSdnXml } from "../sanctions/ofac-sdn.js";
+import { downloadListFile } from "../sanctions/list-download.js";
+import { walletMatchKey } from "./wallet-address.js";
+import type { WalletListCategory, WalletListMatch, WalletListStatus } from "../types/index.js";
+
+const listSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, "use letters, digits, _ and -"),
+  name: z.string().min(1).optional(),
+  category: z.enum(["sanctions", "denylist"]),
+  /** text: one address per line, optionally followed by a label; csv: address column plus optional asset, label, program */
+  format: z.enum(["text", "csv", "ofac_sdn_xml"]),
+  /** Relative paths are resolved against the lists file's directory */
+  path: z.string().min(1),
+  /** Where `wallet-lists refresh` downloads the file from */
+  url: z.string().url().optional(),
+  /** Label for text entries that have none */
+  label: z.string().optional(),
+}).strict();
+
+export const walletListsConfigSchema = z.object({
+  lists: z.array(listSchema).min(1),
+}).strict().superRefine((config, ctx) => {
+  const seen = new Set<string>();
+  config.lists.forEach((list, i) => {
+    if (seen.has(list.id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lists", i, "id"], message: `Duplicate list id "${list.id}"` });
+    seen.add(list.id);
+  });
+});
+
+export type WalletListsConfig = z.infer<typeof walletListsConfigSchema>;
+export type WalletListConfig = WalletListsConfig["lists"][number];
+
+export interface WalletListEntry {
+  address: string;
+  /** Currency or chain the list gives for the address, e.g. ETH, XBT, USDT */
+  asset: string | null;
+  label: string | null;
+  programs: string[];
+  /** Source record, e.g. the SDN entry's uid */
+  reference: string | null;
+}
+
+export interface WalletListRefresh {
+  id: string;
+  status: "updated" | "skipped" | "failed";
+  entries: number | null;
+  error: string | null;
+}
+
+interface LoadedList {
+  config: WalletListConfig;
+  file: string;
+  byKey: Map<string, WalletListEntry[]>;
+  entries: number;
+  mtimeMs: number | null;
+  publishDate: string | null;
+  error: string | null;
+}
+
+/** Parse one list file's contents; throws when the format doesn't fit */
+export function parseWalletList(format: WalletListConfig["format"], text: string, defaultLabel: string | null = null): { entries: WalletListEntry[]; publishDate: string | null } {
+  if (format === "ofac_sdn_xml") {
+    const sdn = parseOfacSdnXml(text);
+    return {
+      publishDate: sdn.publish_date,
+      entries: sdn.entries.flatMap(entry => entry.digital_currency_addresses.map(a => ({
+        address: a.address,
+        asset: a.currency,
+        label: entry.name,
+        programs: entry.programs,
+        reference: `SDN ${entry.uid}`,
+      }))),
+    };
+  }
+
+  if (format === "csv") {
+    const [header, ...rows] = parseCsvRecords(text);
+    const columns = (header ?? []).map(h => h.trim().toLowerCase());
+    const col = (...names: string[]) => columns.findIndex(c => names.includes(c));
+    const address = col("address", "wallet_address");
+    if (address < 0) throw new Error("CSV wallet list needs an address column");
+    const asset = col("asset", "chain", "currency");
+    const label = col("label", "name");
+    const program = col("program", "programs");
+    return {
+      publishDate: null,
+      entries: rows.filter(r => r[address]?.trim()).map(r => ({
+        address: r[address].trim(),
+        asset: asset >= 0 ? r[asset]?.trim() || null : null,
+        label: (label >= 0 ? r[label]?.trim() : "") || defaultLabel,
+        programs: program >= 0 && r[program]?.trim() ? r[program].split(/[;|]/).map(p => p.trim()).filter(Boolean) : [],
+        reference: null,
+      })),
+    };
+  }
+
+  return {
+    publishDate: null,
+    entries: text.split(/\r?\n/).flatMap(line => {
+      const content = line.replace(/#.*/, "").trim();
+      if (!content) return [];
+      const [addr, ...rest] = content.split(/[\s,]+/);
+      return [{ address: addr, asset: null, label: rest.join(" ") || defaultLabel, programs: [], reference: null }];
+    }),
+  };
+}
+
+/**
+ * Sanctions and denylist wallet addresses from local files, such as OFAC's SDN
+ * list with its digital currency addresses. Files are re-read when they change on
+ * disk, so `wallet-lists refresh` takes effect without a restart. A missing or
+ * unreadable file leaves its list empty and reported in status(), rather than
+ * stopping the server.
+ */
+export class WalletLists {
+  private readonly lists: LoadedList[];
+
+  constructor(config: WalletListsConfig | null, baseDir = ".") {
+    this.lists = (config?.lists ?? []).map(list => ({
+      config: list,
+      file: path.resolve(baseDir, list.path),
+      byKey: new Map(),
+      entries: 0,
+      mtimeMs: null,
+      publishDate: null,
+      error: null,
+    }));
+    for (const list of this.lists) this.reload(list);
+  }
+
+  static load(filePath: string | undefined): WalletLists {
+    if (!filePath) return new WalletLists(null);
+
+    const raw = fs.readFileSync(filePath, "utf8");
+    const ext = path.extname(filePath).toLowerCase();
+    const parsed: unknown = ext === ".yaml" || ext === ".yml" ? YAML.parse(raw) : JSON.parse(raw);
+    const result = walletListsConfigSchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+      throw new Error(`Invalid wallet lists file ${filePath} — ${issues}`);
+    }
+
+    const lists = new WalletLists(result.data, path.dirname(filePath));
+    const total = lists.lists.reduce((sum, l) => sum + l.entries, 0);
+    logger.info(`Loaded ${lists.lists.length} wallet list(s) with ${total} address(es) from ${filePath}`);
+    return lists;
+  }
+
+  get configured(): boolean {
+    return this.lists.length > 0;
+  }
+
+  private reload(list: LoadedList) {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(list.file).mtimeMs;
+    } catch {
+      if (list.error === null) logger.warn(`Wallet list "${list.config.id}" file ${list.file} not found — run wallet-lists refresh`);
+      Object.assign(list, { byKey: new Map(), entries: 0, mtimeMs: null, publishDate: null, error: "file not found" });
+      return;
+    }
+    if (mtimeMs === list.mtimeMs) return;
+
+    try {
+      const { entries, publishDate } = parseWalletList(list.config.format, fs.readFileSync(list.file, "utf8"), list.config.label ?? null);
+      const byKey = new Map<string, WalletListEntry[]>();
+      for (const entry of entries) {
+        const key = walletMatchKey(entry.address);
+        byKey.set(key, [...(byKey.get(key) ?? []), entry]);
+      }
+      Object.assign(list, { byKey, entries: entries.length, mtimeMs, publishDate, error: null });
+      logger.info(`Wallet list "${list.config.id}" loaded with ${entries.length} address(es)`);
+    } catch (err) {
+      // Keep serving the previous contents of a file that was replaced with something unreadable
+      logger.error(`Wallet list "${list.config.id}" could not be read: ${(err as Error).message}`);
+      Object.assign(list, { mtimeMs, error: (err as Error).message });
+    }
+  }
+
+  /** Every list entry for the address, across lists */
+  match(address: string): WalletListMatch[] {
+    const key = walletMatchKey(address);
+    return this.lists.flatMap(list => {
+      this.reload(list);
+      return (list.byKey.get(key) ?? []).map(entry => ({
+        list_id: list.config.id,
+        list_name: list.config.name ?? list.config.id,
+        category: list.config.category as WalletListCategory,
+        address: entry.address,
+        asset: entry.asset,
+        label: entry.label,
+        programs: entry.programs,
+        reference: entry.reference,
+      }));
+    });
+  }
+
+  status(): WalletListStatus[] {
+    return this.lists.map(list => ({
+      id: list.config.id,
+      name: list.config.name ?? list.config.id,
+      category: list.config.category,
+      entries: list.entries,
+      file_updated_at: list.mtimeMs === null ? null : new Date(list.mtimeMs).toISOString(),
+      publish_date: list.publishDate,
+      error: list.error,
+    }));
+  }
+
+  /**
+   * Download lists that have a url, all or the ones named. A download that
+   * doesn't parse, or has no addresses, leaves the existing file alone.
+   */
+  async refresh(ids?: string[]): Promise<WalletListRefresh[]> {
+    const unknown = ids?.filter(id => !this.lists.some(l => l.config.id === id)) ?? [];
+    if (unknown.length > 0) throw new Error(`Unknown wallet list(s): ${unknown.join(", ")}`);
+
+    const results: WalletListRefresh[] = [];
+    for (const list of this.lists.filter(l => !ids || ids.includes(l.config.id))) {
+      const { id, url, format } = list.config;
+      if (!url) {
+        results.push({ id, status: "skipped", entries: null, error: "no url configured" });
+        continue;
+      }
+      try {
+        const entries = await downloadListFile(url, list.file, text => parseWalletList(format, text).entries.length, "merchantguard-mcp-wallet-lists/1.0");
+        this.reload(list);
+        results.push({ id, status: "updated", entries, error: null });
+      } catch (err) {
+        const error = (err as Error).message;
+        logger.error(`Wallet list "${id}" refresh failed: ${error}`);
+        results.push({ id, status: "failed", entries: null, error });
+      }
+    }
+    return results;
+  }
+}
@@ -0,0 +1,73 @@
+import { parseArgs } from "node:util";
+import { Watchlists } from "./sanctions/watchlists.js";
+import { nameTokens } from "./sanctions/name-matching.js";
+
+const USAGE = `Usage: watchlists-cli <refresh|status|screen> [options]
+
+  refresh                Download the lists that have a url and replace their files;
+                         exits 1 if any download failed
+  status                 Print each list's file, entry and name counts and publish date
+  screen <name>          Print the watchlist entries a name resembles; exits 1 on a
+                         match-strength hit
+
+Options:
+  --file <path>          Watchlists file (default: $MERCHANTGUARD_WATCHLISTS_FILE)
+  --list <id>            refresh: only this list (repeatable)
+  --min-score <0-1>      screen: report hits from this score
+  --type <type>          screen: only individual, entity, vessel or aircraft listings
+`;
+
+async function main(): Promise<number> {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      file: { type: "string" },
+      list: { type: "string", multiple: true },
+      "min-score": { type: "string" },
+      type: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = positionals[0];
+  if (values.help || !["refresh", "status", "screen"].includes(command)) {
+    process.stderr.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const file = values.file ?? process.env.MERCHANTGUARD_WATCHLISTS_FILE;
+  if (!file) {
+    process.stderr.write("No watchlists file: pass --file or set MERCHANTGUARD_WATCHLISTS_FILE\n");
+    return 2;
+  }
+  const lists = Watchlists.load(file);
+
+  if (command === "refresh") {
+    const results = await lists.refresh(values.list);
+    for (const r of results) process.stdout.write(JSON.stringify(r) + "\n");
+    return results.some(r => r.status === "failed") ? 1 : 0;
+  }
+
+  if (command === "status") {
+    for (const s of lists.status()) process.stdout.write(JSON.stringify(s) + "\n");
+    return 0;
+  }
+
+  const name = positionals.slice(1).join(" ");
+  const minScore = values["min-score"] === undefined ? undefined : Number(values["min-score"]);
+  if (!name || (minScore !== undefined && !(minScore >= 0 && minScore <= 1))) {
+    process.stderr.write("screen needs a name, and --min-score between 0 and 1\n");
+    return 2;
+  }
+  const hits = lists.screen(name, { min_score: minScore, entry_type: values.type, max_hits: 50 });
+  process.stdout.write(JSON.stringify({ name, normalized_name: nameTokens(name).join(" "), thresholds: lists.thresholds, hits }, null, 2) + "\n");
+  return hits.some(h => h.strength === "match") ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    process.stderr.write(`${(err as Error).message}\n`);
+    process.exit(1);
+  },
+);